@@ -21,7 +21,11 @@ import {
   XCircle
 } from 'lucide-react'
 import Link from 'next/link'
+import { AgentChat } from '@/components/agents/AgentChat'
 import { api } from '@/lib/api'
+import { getLogger } from '@/lib/logger'
+
+const logger = getLogger({ module: 'AgentDetailPage' })
 
 interface Agent {
   id: string
@@ -114,7 +118,7 @@ export default function AgentDetailsPage() {
 
       setError(null)
     } catch (err) {
-      console.error('Failed to load agent data:', err)
+      logger.error('Failed to load agent data', { error: err })
       setError('Failed to load agent data. Please check that the backend is running.')
     } finally {
       setLoading(false)
@@ -128,7 +132,7 @@ export default function AgentDetailsPage() {
       await api.put(`/agents/${agent.id}`, { state: newState })
       setAgent({ ...agent, state: newState as any })
     } catch (err) {
-      console.error('Failed to update agent state:', err)
+      logger.error('Failed to update agent state', { error: err })
       alert('Failed to update agent state')
     }
   }
@@ -142,7 +146,7 @@ export default function AgentDetailsPage() {
       // Reload data to get updated logs and output
       setTimeout(() => loadAgentData(), 2000)
     } catch (err) {
-      console.error('Failed to trigger agent:', err)
+      logger.error('Failed to trigger agent', { error: err })
       alert('Failed to trigger agent')
     }
   }
@@ -299,6 +303,7 @@ export default function AgentDetailsPage() {
       <Tabs defaultValue="overview" className="space-y-4">
         <TabsList>
           <TabsTrigger value="overview">Overview</TabsTrigger>
+          <TabsTrigger value="chat">Chat</TabsTrigger>
           <TabsTrigger value="logs">Logs</TabsTrigger>
           <TabsTrigger value="output">Latest Output</TabsTrigger>
           <TabsTrigger value="configuration">Configuration</TabsTrigger>
@@ -355,6 +360,10 @@ export default function AgentDetailsPage() {
           </div>
         </TabsContent>
 
+        <TabsContent value="chat">
+          <AgentChat agentId={agent.id} />
+        </TabsContent>
+
         <TabsContent value="logs">
           <Card>
             <CardHeader>
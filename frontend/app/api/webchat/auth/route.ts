@@ -0,0 +1,52 @@
+import { randomUUID } from 'crypto'
+import { cookies } from 'next/headers'
+import { NextResponse } from 'next/server'
+import { WEBCHAT_USER_AUDIENCE, WebChatUser, createWebChatToken, verifyWebChatToken } from '@/lib/generated/webchatAuth'
+import { getLogger } from '@/lib/logger'
+
+const logger = getLogger({ module: 'webchat-auth' })
+
+// Tokens are only checked when the chat connects, and AgentChat fetches one before every connection
+const TOKEN_TTL_MS = 5 * 60 * 1000
+const USER_COOKIE = 'juliaos_webchat_user'
+const USER_COOKIE_MAX_AGE_S = 30 * 24 * 60 * 60
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * The user a token is minted for. The app has no sign-in yet, so every browser gets a user of its
+ * own, kept in a signed httpOnly cookie; look the user up from the sign-in session here once it
+ * exists. The cookie is signed for WEBCHAT_USER_AUDIENCE, so the connector does not accept it as a
+ * session token.
+ */
+function getWebChatUser(secret: string): WebChatUser {
+  const cookie = cookies().get(USER_COOKIE)?.value
+  const known = cookie ? verifyWebChatToken(secret, cookie, WEBCHAT_USER_AUDIENCE) : undefined
+  if (known) return known
+
+  const user = { userId: randomUUID() }
+  cookies().set(USER_COOKIE, createWebChatToken(secret, user, { expiresInMs: USER_COOKIE_MAX_AGE_S * 1000, audience: WEBCHAT_USER_AUDIENCE }), {
+    httpOnly: true,
+    sameSite: 'strict',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/api/webchat',
+    maxAge: USER_COOKIE_MAX_AGE_S
+  })
+  return user
+}
+
+/**
+ * Mints a short-lived WebChatConnector token for the current user. The connector's secret stays
+ * on the server; it must match the `secret` parameter of the connector.
+ */
+export async function POST() {
+  const secret = process.env.WEBCHAT_SECRET
+  if (!secret) {
+    logger.error('WEBCHAT_SECRET is not set; cannot mint web chat tokens')
+    return NextResponse.json({ error: 'Web chat is not configured' }, { status: 503 })
+  }
+
+  const user = getWebChatUser(secret)
+  const token = createWebChatToken(secret, user, { expiresInMs: TOKEN_TTL_MS })
+  return NextResponse.json({ token }, { headers: { 'Cache-Control': 'no-store' } })
+}
@@ -19,6 +19,9 @@ import { ToolConfigurator } from '@/components/builder/ToolConfigurator'
 import { TriggerSetup } from '@/components/builder/TriggerSetup'
 import { AgentPreview } from '@/components/builder/AgentPreview'
 import { CreateAgentForm, Tool } from '@/types'
+import { getLogger } from '@/lib/logger'
+
+const logger = getLogger({ module: 'AgentBuilderPage' })
 
 const STEPS = [
   {
@@ -83,10 +86,10 @@ export default function BuilderPage() {
     try {
       // TODO: Implement agent creation API call
       await new Promise(resolve => setTimeout(resolve, 2000)) // Simulate API call
-      console.log('Saving agent:', agent)
+      logger.debug('Saving agent', { agent })
       // toast.success('Agent saved successfully!')
     } catch (error) {
-      console.error('Failed to save agent:', error)
+      logger.error('Failed to save agent', { error })
       // toast.error('Failed to save agent')
     } finally {
       setIsSaving(false)
@@ -98,10 +101,10 @@ export default function BuilderPage() {
     try {
       // TODO: Implement agent testing
       await new Promise(resolve => setTimeout(resolve, 3000)) // Simulate test
-      console.log('Testing agent:', agent)
+      logger.debug('Testing agent', { agent })
       // toast.success('Agent test completed!')
     } catch (error) {
-      console.error('Failed to test agent:', error)
+      logger.error('Failed to test agent', { error })
       // toast.error('Agent test failed')
     } finally {
       setIsTesting(false)
@@ -19,6 +19,9 @@ import {
 } from 'lucide-react'
 import Link from 'next/link'
 import { api } from '@/lib/api'
+import { getLogger } from '@/lib/logger'
+
+const logger = getLogger({ module: 'MyAgentsPage' })
 
 interface Agent {
   id: string
@@ -64,7 +67,7 @@ export default function MyAgentsPage() {
       setAgents(response.data || [])
       setError(null)
     } catch (err) {
-      console.error('Failed to load agents:', err)
+      logger.error('Failed to load agents', { error: err })
       setError('Failed to load agents. Please check that the backend is running.')
     } finally {
       setLoading(false)
@@ -76,7 +79,7 @@ export default function MyAgentsPage() {
       await api.put(`/agents/${agentId}`, { state: newState })
       await loadAgents() // Reload agents to get updated state
     } catch (err) {
-      console.error('Failed to update agent state:', err)
+      logger.error('Failed to update agent state', { error: err })
       alert('Failed to update agent state')
     }
   }
@@ -90,7 +93,7 @@ export default function MyAgentsPage() {
       await api.delete(`/agents/${agentId}`)
       await loadAgents() // Reload agents after deletion
     } catch (err) {
-      console.error('Failed to delete agent:', err)
+      logger.error('Failed to delete agent', { error: err })
       alert('Failed to delete agent')
     }
   }
@@ -100,7 +103,7 @@ export default function MyAgentsPage() {
       await api.post(`/agents/${agentId}/webhook`, {})
       alert('Agent triggered successfully!')
     } catch (err) {
-      console.error('Failed to trigger agent:', err)
+      logger.error('Failed to trigger agent', { error: err })
       alert('Failed to trigger agent')
     }
   }
@@ -3,6 +3,7 @@
 import { QueryClient, QueryClientProvider } from 'react-query'
 import { ReactQueryDevtools } from 'react-query/devtools'
 import { useState } from 'react'
+import { NotFoundError } from '@/lib/api'
 
 export function Providers({ children }: { children: React.ReactNode }) {
   const [queryClient] = useState(
@@ -14,7 +15,7 @@ export function Providers({ children }: { children: React.ReactNode }) {
             cacheTime: 5 * 60 * 1000, // 5 minutes
             retry: (failureCount, error: any) => {
               // Don't retry on 404s
-              if (error?.response?.status === 404) return false
+              if (error instanceof NotFoundError) return false
               // Retry up to 3 times for other errors
               return failureCount < 3
             },
@@ -0,0 +1,161 @@
+'use client'
+
+import { FormEvent, useEffect, useRef, useState } from 'react'
+import { Bot, Loader2, Send, User } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { WebChatClient, WebChatMessage, WebChatStatus } from '@/lib/generated/webchat'
+import { getLogger } from '@/lib/logger'
+
+const logger = getLogger({ module: 'AgentChat' })
+
+// Served by a WebChatConnector (packages/platforms/webchat)
+const WEBCHAT_URL = process.env.NEXT_PUBLIC_WEBCHAT_URL
+
+// Short-lived token for the current user, minted by app/api/webchat/auth
+async function fetchWebChatToken(): Promise<string> {
+  const response = await fetch('/api/webchat/auth', { method: 'POST', credentials: 'same-origin' })
+  const body = await response.json().catch(() => ({}))
+  if (!response.ok || typeof body.token !== 'string') {
+    throw new Error(body.error || `Token request failed with status ${response.status}`)
+  }
+  return body.token
+}
+
+const statusColors: Record<WebChatStatus, string> = {
+  open: 'bg-green-100 text-green-800',
+  connecting: 'bg-yellow-100 text-yellow-800',
+  closed: 'bg-gray-100 text-gray-800'
+}
+
+interface AgentChatProps {
+  agentId: string
+}
+
+export function AgentChat({ agentId }: AgentChatProps) {
+  const [messages, setMessages] = useState<WebChatMessage[]>([])
+  const [status, setStatus] = useState<WebChatStatus>('closed')
+  const [error, setError] = useState<string | null>(null)
+  const [draft, setDraft] = useState('')
+  const clientRef = useRef<WebChatClient | null>(null)
+  const bottomRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    if (!WEBCHAT_URL) return
+
+    // Keeps the conversation across reloads of the page within the connector's resume window
+    const sessionKey = `juliaos_webchat_session_${agentId}`
+    const client = new WebChatClient({
+      url: WEBCHAT_URL,
+      token: fetchWebChatToken,
+      agentId,
+      sessionId: sessionStorage.getItem(sessionKey) || undefined
+    })
+    clientRef.current = client
+
+    const unsubscribe = [
+      client.on('message', () => setMessages(client.getMessages())),
+      client.on('status', setStatus),
+      client.on('ready', ({ sessionId }) => {
+        sessionStorage.setItem(sessionKey, sessionId)
+        setError(null)
+      }),
+      client.on('error', ({ code, message }) => {
+        logger.warn('Web chat error', { code, error: message, agent_id: agentId })
+        setError(message)
+      })
+    ]
+    client.connect()
+
+    return () => {
+      unsubscribe.forEach(off => off())
+      client.close()
+      clientRef.current = null
+    }
+  }, [agentId])
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth' })
+  }, [messages])
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault()
+    const content = draft.trim()
+    if (!content || !clientRef.current) return
+    clientRef.current.send(content)
+    setDraft('')
+  }
+
+  if (!WEBCHAT_URL) {
+    return (
+      <Card>
+        <CardContent className="text-center py-8">
+          <Bot className="h-8 w-8 text-gray-400 mx-auto mb-2" />
+          <p className="text-gray-600">Web chat is not configured</p>
+          <p className="text-sm text-gray-500 mt-1">
+            Set NEXT_PUBLIC_WEBCHAT_URL and WEBCHAT_SECRET to chat with this agent
+          </p>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Chat</CardTitle>
+            <CardDescription>Talk to the agent directly</CardDescription>
+          </div>
+          <Badge className={statusColors[status]}>{status}</Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-3 h-96 overflow-y-auto bg-gray-50 rounded p-3">
+          {messages.length === 0 ? (
+            <p className="text-center text-gray-500 py-8">No messages yet</p>
+          ) : (
+            messages.map(message => {
+              const Icon = message.role === 'agent' ? Bot : User
+              return (
+                <div
+                  key={message.id}
+                  className={`flex items-start gap-2 ${message.role === 'user' ? 'flex-row-reverse' : ''}`}
+                >
+                  <Icon className="h-5 w-5 mt-1 text-gray-500 shrink-0" />
+                  <div
+                    className={`max-w-[80%] rounded-lg px-3 py-2 text-sm whitespace-pre-wrap ${
+                      message.role === 'user' ? 'bg-blue-600 text-white' : 'bg-white border text-gray-900'
+                    } ${message.pending ? 'opacity-60' : ''}`}
+                  >
+                    {message.content}
+                    {message.streaming && <Loader2 className="inline h-3 w-3 ml-1 animate-spin" />}
+                    {message.error && <p className="text-xs text-red-500 mt-1">{message.error}</p>}
+                  </div>
+                </div>
+              )
+            })
+          )}
+          <div ref={bottomRef} />
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <form onSubmit={handleSubmit} className="flex gap-2">
+          <input
+            value={draft}
+            onChange={event => setDraft(event.target.value)}
+            placeholder="Message the agent..."
+            className="flex-1 rounded-md border border-gray-200 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-600"
+          />
+          <Button type="submit" disabled={!draft.trim()}>
+            <Send className="h-4 w-4 mr-2" />
+            Send
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
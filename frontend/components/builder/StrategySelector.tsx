@@ -17,6 +17,9 @@ import {
 } from 'lucide-react'
 import { api } from '@/lib/api'
 import { Strategy } from '@/types'
+import { getLogger } from '@/lib/logger'
+
+const logger = getLogger({ module: 'StrategySelector' })
 
 interface StrategySelectorProps {
   selectedStrategy: string
@@ -67,7 +70,7 @@ export function StrategySelector({
     () => api.general.getStrategies().then(res => res.data),
     {
       onSuccess: (data) => {
-        console.log('Available strategies:', data)
+        logger.debug('Available strategies', { data })
       }
     }
   )
@@ -22,6 +22,9 @@ import {
 } from 'lucide-react'
 import { api } from '@/lib/api'
 import { Tool, ToolSummary } from '@/types'
+import { getLogger } from '@/lib/logger'
+
+const logger = getLogger({ module: 'ToolConfigurator' })
 
 interface ToolConfiguratorProps {
   selectedTools: Tool[]
@@ -58,7 +61,7 @@ export function ToolConfigurator({ selectedTools, onToolsChange }: ToolConfigura
     () => api.general.getTools().then(res => res.data),
     {
       onSuccess: (data) => {
-        console.log('Available tools:', data)
+        logger.debug('Available tools', { data })
       }
     }
   )
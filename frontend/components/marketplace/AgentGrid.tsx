@@ -13,6 +13,9 @@ import {
 import { AgentCard } from './AgentCard'
 import { api } from '@/lib/api'
 import { MarketplaceAgent, FilterState, PaginationState } from '@/types'
+import { getLogger } from '@/lib/logger'
+
+const logger = getLogger({ module: 'AgentGrid' })
 
 interface AgentGridProps {
   filters: FilterState
@@ -71,7 +74,7 @@ export function AgentGrid({
         }))
       },
       onError: (err) => {
-        console.error('Failed to fetch agents:', err)
+        logger.error('Failed to fetch agents', { error: err })
       }
     }
   )
@@ -87,12 +90,12 @@ export function AgentGrid({
 
   const handleDeploy = (agentId: string) => {
     // TODO: Implement deployment logic
-    console.log('Deploying agent:', agentId)
+    logger.debug('Deploying agent', { agent_id: agentId })
   }
 
   const handleFavorite = (agentId: string, favorited: boolean) => {
     // TODO: Implement favorite logic
-    console.log('Favorite agent:', agentId, favorited)
+    logger.debug('Favorite agent', { agent_id: agentId, favorited })
   }
 
   if (isLoading) {
@@ -8,6 +8,9 @@ import { AlertCircle, Loader2, RefreshCw } from 'lucide-react'
 import { api } from '@/lib/api'
 import { SwarmGraphData, GraphNode, GraphEdge } from '@/types'
 import toast from 'react-hot-toast'
+import { getLogger } from '@/lib/logger'
+
+const logger = getLogger({ module: 'SwarmVisualizer' })
 
 // Dynamically import CytoscapeComponent to avoid SSR issues
 const CytoscapeComponent = dynamic(
@@ -267,11 +270,11 @@ export function SwarmVisualizer({
     {
       refetchInterval: autoRefresh ? 10000 : false, // Refresh every 10 seconds if auto-refresh is on
       onError: (error: any) => {
-        console.error('Failed to fetch swarm data:', error)
+        logger.error('Failed to fetch swarm data', { error })
         toast.error('Failed to load swarm visualization')
       },
       onSuccess: (data) => {
-        console.log('Swarm graph data loaded:', data)
+        logger.debug('Swarm graph data loaded', { data })
       }
     }
   )
@@ -299,7 +302,7 @@ export function SwarmVisualizer({
       const node = event.target
       const agentId = node.data('id')
       
-      console.log('Node clicked:', agentId)
+      logger.debug('Node clicked', { agent_id: agentId })
       onAgentSelect?.(agentId)
       
       // Highlight connected edges
@@ -315,7 +318,7 @@ export function SwarmVisualizer({
       const sourceId = edge.data('source')
       const targetId = edge.data('target')
       
-      console.log('Edge clicked:', sourceId, '->', targetId)
+      logger.debug('Edge clicked', { source: sourceId, target: targetId })
       
       // Highlight the edge and connected nodes
       cy.elements().removeClass('highlighted')
@@ -341,7 +344,7 @@ export function SwarmVisualizer({
       }
     })
 
-    console.log('Cytoscape initialized')
+    logger.debug('Cytoscape initialized')
   }, [isInitialized, onAgentSelect, onSwarmSelect])
 
   // Update graph when data changes
@@ -363,10 +366,10 @@ export function SwarmVisualizer({
         const layout = cy.layout(layoutOptions)
         layout.run()
         
-        console.log('Graph updated with', graphData.elements.nodes.length, 'nodes and', graphData.elements.edges.length, 'edges')
+        logger.debug(`Graph updated with ${graphData.elements.nodes.length} nodes and ${graphData.elements.edges.length} edges`)
       }
     } catch (error) {
-      console.error('Error updating graph:', error)
+      logger.error('Error updating graph', { error })
       toast.error('Failed to update graph visualization')
     }
   }, [graphData])
@@ -1,5 +1,11 @@
 import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios'
 import toast from 'react-hot-toast'
+import * as generated from './generated/api'
+import type { ApiRequester, AgentUpdate, CreateAgentRequest } from './generated/api'
+import { ApiClientError, RateLimitedError, toApiError } from './generated/errors'
+import { getLogger } from './logger'
+
+const logger = getLogger({ module: 'api' })
 
 // Secure token storage utility
 class SecureTokenStorage {
@@ -43,7 +49,7 @@ class SecureTokenStorage {
         }
       }
     } catch (error) {
-      console.warn('Failed to store auth token securely:', error)
+      logger.warn('Failed to store auth token securely', { error })
       // Last resort: in-memory storage (will be lost on page refresh)
       this.memoryToken = token
       this.memoryRefreshToken = refreshToken
@@ -70,7 +76,7 @@ class SecureTokenStorage {
       // Check in-memory storage
       return this.memoryToken || null
     } catch (error) {
-      console.warn('Failed to retrieve auth token:', error)
+      logger.warn('Failed to retrieve auth token', { error })
       return this.memoryToken || null
     }
   }
@@ -93,7 +99,7 @@ class SecureTokenStorage {
       sessionStorage.removeItem(this.refreshTokenKey)
       localStorage.removeItem('auth_token') // Clean up legacy storage
     } catch (error) {
-      console.warn('Failed to clear tokens:', error)
+      logger.warn('Failed to clear tokens', { error })
     }
 
     this.memoryToken = null
@@ -136,10 +142,7 @@ const createApiClient = (): AxiosInstance => {
         config.headers['X-CSRF-Token'] = csrfToken
       }
       
-      // Log requests in development
-      if (process.env.NODE_ENV === 'development') {
-        console.log(`🚀 API Request: ${config.method?.toUpperCase()} ${config.url}`)
-      }
+      logger.debug(`API request: ${config.method?.toUpperCase()} ${config.url}`)
       
       return config
     },
@@ -151,10 +154,10 @@ const createApiClient = (): AxiosInstance => {
   // Response interceptor
   client.interceptors.response.use(
     (response: AxiosResponse) => {
-      // Log successful responses in development
-      if (process.env.NODE_ENV === 'development') {
-        console.log(`✅ API Response: ${response.config.method?.toUpperCase()} ${response.config.url}`, response.data)
-      }
+      logger.debug(`API response: ${response.config.method?.toUpperCase()} ${response.config.url}`, {
+        status: response.status,
+        data: response.data,
+      })
       
       // Handle token refresh in response headers
       const newToken = response.headers['x-new-token']
@@ -166,6 +169,7 @@ const createApiClient = (): AxiosInstance => {
     },
     async (error) => {
       const originalRequest = error.config
+      const apiError = toApiError(error)
 
       // Handle common error scenarios
       if (error.response) {
@@ -217,9 +221,9 @@ const createApiClient = (): AxiosInstance => {
             // Don't show toast for 404s, let components handle them
             break
           case 429:
-            const retryAfter = error.response.headers['retry-after']
-            const message = retryAfter ? 
-              `Too many requests. Please wait ${retryAfter} seconds.` : 
+            const retryAfterMs = apiError instanceof RateLimitedError ? apiError.retryAfterMs : undefined
+            const message = retryAfterMs !== undefined ?
+              `Too many requests. Please wait ${Math.ceil(retryAfterMs / 1000)} seconds.` :
               'Too many requests. Please slow down.'
             toast.error(message)
             break
@@ -228,30 +232,27 @@ const createApiClient = (): AxiosInstance => {
             break
           default:
             // Handle structured error responses
-            const errorMessage = data?.error?.message || data?.error || data?.message || 'An error occurred'
-            toast.error(errorMessage)
+            toast.error(apiError.message || 'An error occurred')
         }
         
-        // Log errors in development with more context
-        if (process.env.NODE_ENV === 'development') {
-          console.error(`❌ API Error: ${error.config?.method?.toUpperCase()} ${error.config?.url}`, {
-            status,
-            data,
-            headers: error.response.headers,
-            request_id: data?.error?.request_id
-          })
-        }
+        // Components report failures to the user; the details are for development
+        logger.debug(`API error: ${error.config?.method?.toUpperCase()} ${error.config?.url}`, {
+          status,
+          data,
+          request_id: apiError.requestId
+        })
       } else if (error.request) {
         // Network error
         toast.error('Network error. Please check your connection.')
-        console.error('❌ Network Error:', error.request)
+        logger.error(`Network error: ${error.config?.method?.toUpperCase()} ${error.config?.url}`, { error })
       } else {
         // Something else happened
         toast.error('An unexpected error occurred')
-        console.error('❌ Unexpected Error:', error.message)
+        logger.error('Unexpected API error', { error })
       }
       
-      return Promise.reject(error)
+      // Callers receive the shared error taxonomy (NotFoundError, ValidationError, ...)
+      return Promise.reject(apiError)
     }
   )
 
@@ -263,6 +264,12 @@ export const apiClient = createApiClient()
 // Export secure token storage for use in authentication flows
 export const tokenStorage = SecureTokenStorage.getInstance()
 
+// Transport for the request functions generated from the backend OpenAPI spec
+export const apiRequester: ApiRequester = {
+  request: <T>({ method, path, body, query }: generated.ApiRequest): Promise<T> =>
+    apiClient.request<T>({ method, url: path, data: body, params: query }).then(res => res.data),
+}
+
 // API helper functions
 export const api = {
   // Generic CRUD operations
@@ -371,25 +378,25 @@ export const api = {
       apiClient.get('/marketplace/swarms/graph-data'),
   },
 
-  // Core JuliaOS endpoints
+  // Core JuliaOS endpoints (typed from the OpenAPI spec; resolve to the response body)
   agents: {
-    list: () => apiClient.get('/agents'),
-    get: (agentId: string) => apiClient.get(`/agents/${agentId}`),
-    create: (data: any) => apiClient.post('/agents', data),
-    update: (agentId: string, data: any) => apiClient.put(`/agents/${agentId}`, data),
-    delete: (agentId: string) => apiClient.delete(`/agents/${agentId}`),
-    webhook: (agentId: string, data?: any) => apiClient.post(`/agents/${agentId}/webhook`, data),
-    logs: (agentId: string) => apiClient.get(`/agents/${agentId}/logs`),
-    output: (agentId: string) => apiClient.get(`/agents/${agentId}/output`),
+    list: () => generated.listAgents(apiRequester),
+    get: (agentId: string) => generated.getAgent(apiRequester, agentId),
+    create: (data: CreateAgentRequest) => generated.createAgent(apiRequester, data),
+    update: (agentId: string, data: AgentUpdate) => generated.updateAgent(apiRequester, agentId, data),
+    delete: (agentId: string) => generated.deleteAgent(apiRequester, agentId),
+    webhook: (agentId: string, data?: Record<string, any>) => generated.processAgentWebhook(apiRequester, agentId, data),
+    logs: (agentId: string) => generated.getAgentLogs(apiRequester, agentId),
+    output: (agentId: string) => generated.getAgentOutput(apiRequester, agentId),
   },
 
   // Tools and strategies
   tools: {
-    list: () => apiClient.get('/tools'),
+    list: () => generated.listTools(apiRequester),
   },
 
   strategies: {
-    list: () => apiClient.get('/strategies'),
+    list: () => generated.listStrategies(apiRequester),
   },
 }
 
@@ -412,30 +419,12 @@ export interface PaginatedResponse<T = any> {
   hasPrev: boolean
 }
 
-// Error handling utilities
-export class ApiError extends Error {
-  constructor(
-    message: string,
-    public status?: number,
-    public code?: string,
-    public data?: any
-  ) {
-    super(message)
-    this.name = 'ApiError'
-  }
-}
+// Error handling utilities: the error classes are shared with @juliaos/core
+export * from './generated/errors'
+
+/** @deprecated Use ApiClientError or one of its subclasses. */
+export const ApiError = ApiClientError
 
 export const handleApiError = (error: any): never => {
-  if (error.response) {
-    throw new ApiError(
-      error.response.data?.message || error.response.data?.error || 'API Error',
-      error.response.status,
-      error.response.data?.code,
-      error.response.data
-    )
-  } else if (error.request) {
-    throw new ApiError('Network Error', 0, 'NETWORK_ERROR')
-  } else {
-    throw new ApiError(error.message || 'Unknown Error', 0, 'UNKNOWN_ERROR')
-  }
-}
\ No newline at end of file
+  throw toApiError(error)
+}
@@ -0,0 +1,170 @@
+// This file is generated by scripts/generate-ts-client.js from
+// backend/src/api/spec/api-spec.yaml (JuliaOS API 0.1.0). Do not edit it by hand;
+// run `npm run generate:ts-client` after changing the spec.
+/* eslint-disable */
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface ApiRequest {
+  method: HttpMethod;
+  path: string; // Relative to the server base URL, e.g. /api/v1
+  body?: unknown;
+  query?: Record<string, unknown>;
+}
+
+// Implemented by each consumer on top of its own HTTP client; resolves to the response body.
+export interface ApiRequester {
+  request<T>(req: ApiRequest): Promise<T>;
+}
+
+// --- Models ---
+
+export interface AgentSummary {
+  id: string;
+  /** Human-readable name of the agent */
+  name: string;
+  /** Brief summary of what the agent does */
+  description: string;
+  /** The current state of the agent */
+  state: "CREATED" | "RUNNING" | "PAUSED" | "STOPPED";
+  /** Specifies how the agent is activated */
+  trigger_type: "PERIODIC" | "WEBHOOK";
+  /** JSON-Schema describing the structure the agent expects as input when its `run` endpoint is invoked. Omitted when the agent declares no input type. */
+  input_schema?: Record<string, any>;
+}
+
+export interface AgentBlueprint {
+  /** List of tools the agent can use */
+  tools: Array<ToolBlueprint>;
+  /** The strategy to guide the agent */
+  strategy: StrategyBlueprint;
+  /** Configuration for event-based triggering of the agent */
+  trigger: TriggerConfig;
+}
+
+export interface AgentUpdate {
+  state: "RUNNING" | "PAUSED" | "STOPPED";
+}
+
+export interface ToolBlueprint {
+  /** Name of the tool as registered in the system */
+  name: string;
+  config: Record<string, any>;
+}
+
+export interface StrategyBlueprint {
+  /** Name of the strategy as registered in the system */
+  name: string;
+  config: Record<string, any>;
+}
+
+export interface TriggerConfig {
+  type: "webhook" | "periodic";
+  params: Record<string, any>;
+}
+
+export interface ToolSummary {
+  /** Name of the tool */
+  name: string;
+  metadata?: {
+    /** Description of the tool */
+    description?: string;
+  };
+}
+
+export interface StrategySummary {
+  /** Name of the strategy */
+  name: string;
+}
+
+export interface CreateAgentRequest {
+  /** Unique identifier for the agent */
+  id: string;
+  /** Human-readable name of the agent */
+  name: string;
+  /** Short summary of what the agent does */
+  description: string;
+  blueprint: AgentBlueprint;
+}
+
+// --- Operations ---
+
+/**
+ * Get all agents
+ * GET /agents
+ */
+export function listAgents(client: ApiRequester): Promise<Array<AgentSummary>> {
+  return client.request<Array<AgentSummary>>({ method: 'GET', path: '/agents' });
+}
+
+/**
+ * Create a new agent
+ * POST /agents
+ */
+export function createAgent(client: ApiRequester, body: CreateAgentRequest): Promise<AgentSummary> {
+  return client.request<AgentSummary>({ method: 'POST', path: '/agents', body });
+}
+
+/**
+ * Get a specific agent
+ * GET /agents/{agent_id}
+ */
+export function getAgent(client: ApiRequester, agent_id: string): Promise<AgentSummary> {
+  return client.request<AgentSummary>({ method: 'GET', path: `/agents/${encodeURIComponent(agent_id)}` });
+}
+
+/**
+ * Update a specific agent
+ * PUT /agents/{agent_id}
+ */
+export function updateAgent(client: ApiRequester, agent_id: string, body: AgentUpdate): Promise<AgentSummary> {
+  return client.request<AgentSummary>({ method: 'PUT', path: `/agents/${encodeURIComponent(agent_id)}`, body });
+}
+
+/**
+ * Delete a specific agent
+ * DELETE /agents/{agent_id}
+ */
+export function deleteAgent(client: ApiRequester, agent_id: string): Promise<void> {
+  return client.request<void>({ method: 'DELETE', path: `/agents/${encodeURIComponent(agent_id)}` });
+}
+
+/**
+ * Trigger event-based agents and provide data to them
+ * POST /agents/{agent_id}/webhook
+ */
+export function processAgentWebhook(client: ApiRequester, agent_id: string, body?: Record<string, any>): Promise<void> {
+  return client.request<void>({ method: 'POST', path: `/agents/${encodeURIComponent(agent_id)}/webhook`, body });
+}
+
+/**
+ * Get the logs of a specific agent
+ * GET /agents/{agent_id}/logs
+ */
+export function getAgentLogs(client: ApiRequester, agent_id: string): Promise<Record<string, any>> {
+  return client.request<Record<string, any>>({ method: 'GET', path: `/agents/${encodeURIComponent(agent_id)}/logs` });
+}
+
+/**
+ * Get the output of a specific agent
+ * GET /agents/{agent_id}/output
+ */
+export function getAgentOutput(client: ApiRequester, agent_id: string): Promise<Record<string, any>> {
+  return client.request<Record<string, any>>({ method: 'GET', path: `/agents/${encodeURIComponent(agent_id)}/output` });
+}
+
+/**
+ * Get a list of all tools available for use by agents in the system
+ * GET /tools
+ */
+export function listTools(client: ApiRequester): Promise<Array<ToolSummary>> {
+  return client.request<Array<ToolSummary>>({ method: 'GET', path: '/tools' });
+}
+
+/**
+ * Get a list of all strategies available for use by agents in the system
+ * GET /strategies
+ */
+export function listStrategies(client: ApiRequester): Promise<Array<StrategySummary>> {
+  return client.request<Array<StrategySummary>>({ method: 'GET', path: '/strategies' });
+}
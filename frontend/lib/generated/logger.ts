@@ -0,0 +1,233 @@
+// This file is copied by scripts/generate-ts-client.js from packages/core/src/logging/logger.ts.
+// Do not edit it by hand; change the source and run `npm run generate:ts-client`.
+/* eslint-disable */
+
+// packages/core/src/logging/logger.ts
+//
+// Structured logger shared by every TypeScript package and the frontend. This module must stay
+// free of imports: scripts/generate-ts-client.js copies it to frontend/lib/generated/logger.ts.
+
+// Same levels as the backend's logging/structured_logger.jl
+export type LogLevel = 'trace' | 'debug' | 'info' | 'warn' | 'error' | 'fatal';
+
+export const LOG_LEVELS: Record<LogLevel, number> = { trace: 0, debug: 1, info: 2, warn: 3, error: 4, fatal: 5 };
+
+/**
+ * Fields every entry of a logger carries, e.g. `{ connector: 'support' }` for a connector or
+ * `{ agent_id, request_id }` while handling a request. Snake case matches the backend logs.
+ */
+export interface LogContext {
+  module?: string;
+  connector?: string;
+  platform?: string;
+  agent_id?: string;
+  request_id?: string;
+  [key: string]: unknown;
+}
+
+// Per-call fields; an `error` field is reported as exception_type, exception_message and stack_trace
+export type LogFields = Record<string, unknown> & { error?: unknown };
+
+// What sinks receive; serialised as one JSON object per line by the default sink
+export interface LogEntry extends LogContext {
+  timestamp: string; // ISO 8601
+  level: string; // Upper case, as in the backend logs
+  message: string;
+  metadata?: Record<string, unknown>;
+  exception_type?: string;
+  exception_message?: string;
+  stack_trace?: string[];
+}
+
+export type LogSink = (entry: LogEntry, level: LogLevel) => void;
+
+export interface Logger {
+  trace(message: string, fields?: LogFields): void;
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  fatal(message: string, fields?: LogFields): void;
+  /** Logger adding `context` to every entry; `secrets` are masked in its entries only */
+  child(context: LogContext, options?: { secrets?: string[] }): Logger;
+}
+
+export interface LoggerOptions {
+  level?: LogLevel; // Default JULIAOS_LOG_LEVEL, else 'info'
+  sinks?: LogSink[]; // Default a JSON console sink
+  context?: LogContext;
+  /** Extra field names whose values are always redacted */
+  redactKeys?: string[];
+  /** Extra patterns redacted from messages and string fields */
+  redactPatterns?: RegExp[];
+  maxMessageLength?: number; // Default 10000
+}
+
+export const REDACTED = '[REDACTED]';
+
+// Field names holding credentials, matched case-insensitively
+const SENSITIVE_KEYS = /^(pass(word)?|auth(orization)?|cookie|.*(token|secret|api[-_]?key|private[-_]?key|pickle[-_]?key))$/i;
+
+// Credentials recognisable by their shape, wherever they appear in a string
+const SENSITIVE_PATTERNS: RegExp[] = [
+  /\b\d{6,12}:[A-Za-z0-9_-]{30,}\b/g, // Telegram bot token
+  /\bxox[abposr]-[A-Za-z0-9-]{10,}\b/g, // Slack bot and user tokens
+  /\bxapp-[A-Za-z0-9-]{10,}\b/g, // Slack app-level token
+  /\b(?:Bearer|Basic)\s+[A-Za-z0-9._~+/=-]{8,}/gi,
+];
+
+// `token=...`, `"password": "..."` and the like; the name is kept
+const SENSITIVE_ASSIGNMENT = /\b((?:password|passwd|secret|token|api[-_]?key)["']?\s*[:=]\s*["']?)[^\s"'&,;]+/gi;
+
+const MAX_DEPTH = 6;
+
+type LoggerState = Required<Omit<LoggerOptions, 'context'>>;
+
+/**
+ * String values of credential fields anywhere in `value`, e.g. the tokens in a connector's
+ * parameters, for a child logger to mask wherever they show up.
+ */
+export function collectSecrets(value: unknown, depth = 0): string[] {
+  if (value === null || typeof value !== 'object' || depth >= MAX_DEPTH) return [];
+  return Object.entries(value).flatMap(([key, item]) =>
+    typeof item === 'string' ? (SENSITIVE_KEYS.test(key) ? [item] : []) : collectSecrets(item, depth + 1)
+  );
+}
+
+function envLevel(): LogLevel | undefined {
+  const level = typeof process !== 'undefined' ? process.env?.JULIAOS_LOG_LEVEL?.toLowerCase() : undefined;
+  return level && level in LOG_LEVELS ? (level as LogLevel) : undefined;
+}
+
+/**
+ * Writes one JSON object per line, or `[time] [LEVEL] message {fields}` with `format: 'text'`.
+ * Warnings and errors go to console.error, the rest to console.log.
+ */
+export function consoleSink(options: { format?: 'json' | 'text' } = {}): LogSink {
+  return (entry, level) => {
+    const write = LOG_LEVELS[level] >= LOG_LEVELS.warn ? console.error : console.log;
+    if (options.format !== 'text') {
+      write(JSON.stringify(entry));
+      return;
+    }
+    const { timestamp, level: name, message, stack_trace, ...fields } = entry;
+    const extra = Object.keys(fields).length > 0 ? ` ${JSON.stringify(fields)}` : '';
+    write(`[${timestamp}] [${name}] ${message}${extra}${stack_trace ? `\n  ${stack_trace.join('\n  ')}` : ''}`);
+  };
+}
+
+class StructuredLogger implements Logger {
+  constructor(private state: LoggerState, private context: LogContext, private secrets: string[] = []) {}
+
+  trace(message: string, fields?: LogFields): void {
+    this.log('trace', message, fields);
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.log('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.log('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.log('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.log('error', message, fields);
+  }
+
+  fatal(message: string, fields?: LogFields): void {
+    this.log('fatal', message, fields);
+  }
+
+  child(context: LogContext, options: { secrets?: string[] } = {}): Logger {
+    const secrets = (options.secrets || []).filter(secret => typeof secret === 'string' && secret.length >= 4);
+    return new StructuredLogger(this.state, { ...this.context, ...context }, [...this.secrets, ...secrets]);
+  }
+
+  private log(level: LogLevel, message: string, fields: LogFields = {}): void {
+    if (LOG_LEVELS[level] < LOG_LEVELS[this.state.level]) return;
+    const { error, ...metadata } = fields;
+    let text = this.redactString(message);
+    if (text.length > this.state.maxMessageLength) text = `${text.slice(0, this.state.maxMessageLength)}... [TRUNCATED]`;
+
+    const entry: LogEntry = {
+      ...(this.redact(this.context, 0) as LogContext),
+      timestamp: new Date().toISOString(),
+      level: level.toUpperCase(),
+      message: text,
+    };
+    if (Object.keys(metadata).length > 0) entry.metadata = this.redact(metadata, 0) as Record<string, unknown>;
+    if (error !== undefined) {
+      entry.exception_type = error instanceof Error ? error.name : typeof error;
+      entry.exception_message = this.redactString(error instanceof Error ? error.message : String(error));
+      if (error instanceof Error && error.stack) {
+        entry.stack_trace = this.redactString(error.stack).split('\n').slice(1, 21).map(line => line.trim());
+      }
+    }
+
+    for (const sink of this.state.sinks) {
+      try {
+        sink(entry, level);
+      } catch {
+        // A failing sink must not break the caller
+      }
+    }
+  }
+
+  private redactString(value: string): string {
+    let text = value;
+    for (const secret of this.secrets) text = text.split(secret).join(REDACTED);
+    for (const pattern of [...SENSITIVE_PATTERNS, ...this.state.redactPatterns]) text = text.replace(pattern, REDACTED);
+    return text.replace(SENSITIVE_ASSIGNMENT, `$1${REDACTED}`);
+  }
+
+  private redact(value: unknown, depth: number): unknown {
+    if (typeof value === 'string') return this.redactString(value);
+    if (value === null || typeof value !== 'object') return value;
+    if (depth >= MAX_DEPTH) return '[Object]';
+    if (value instanceof Date) return value.toISOString();
+    if (value instanceof Error) return { name: value.name, message: this.redactString(value.message) };
+    if (Array.isArray(value)) return value.map(item => this.redact(item, depth + 1));
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      const sensitive = SENSITIVE_KEYS.test(key) || this.state.redactKeys.some(name => name.toLowerCase() === key.toLowerCase());
+      result[key] = sensitive && item !== undefined && item !== null ? REDACTED : this.redact(item, depth + 1);
+    }
+    return result;
+  }
+}
+
+function createState(options: LoggerOptions): LoggerState {
+  return {
+    level: options.level || envLevel() || 'info',
+    sinks: options.sinks || [consoleSink()],
+    redactKeys: options.redactKeys || [],
+    redactPatterns: options.redactPatterns || [],
+    maxMessageLength: options.maxMessageLength ?? 10000,
+  };
+}
+
+export function createLogger(options: LoggerOptions = {}): Logger {
+  return new StructuredLogger(createState(options), options.context || {});
+}
+
+// Shared by the default logger and every child of it, so configureLogging reaches them all
+const defaultState = createState({});
+const defaultLogger: Logger = new StructuredLogger(defaultState, {});
+
+/**
+ * Changes the level, sinks or redaction of the default logger used by every package, including
+ * loggers already handed out by getLogger.
+ */
+export function configureLogging(options: Omit<LoggerOptions, 'context'>): void {
+  Object.assign(defaultState, createState({ ...defaultState, ...options }));
+}
+
+// The default logger, or a child of it with `context`
+export function getLogger(context?: LogContext): Logger {
+  return context ? defaultLogger.child(context) : defaultLogger;
+}
@@ -0,0 +1,10 @@
+import { configureLogging, consoleSink, getLogger } from './generated/logger'
+
+// Readable lines in the browser console; debug output in development only
+configureLogging({
+  level: process.env.NODE_ENV === 'development' ? 'debug' : 'warn',
+  sinks: [consoleSink({ format: 'text' })],
+})
+
+export { getLogger }
+export type { Logger } from './generated/logger'
@@ -1,39 +1,32 @@
 // Core JuliaOS types
-export interface Agent {
-  id: string
-  name: string
-  description: string
-  strategy: {
-    name: string
-    config: Record<string, any>
-  }
-  tools: Tool[]
-  trigger: {
-    type: string
-    params: Record<string, any>
-  }
-  state: 'CREATED' | 'RUNNING' | 'PAUSED' | 'STOPPED'
-  created_at: string
-  updated_at: string
-}
+// Models from backend/src/api/spec/api-spec.yaml, generated by scripts/generate-ts-client.js
+import type { AgentSummary, AgentBlueprint, ToolBlueprint } from '@/lib/generated/api'
 
-export interface Tool {
-  name: string
-  config: Record<string, any>
+export type {
+  AgentSummary,
+  AgentBlueprint,
+  AgentUpdate,
+  CreateAgentRequest,
+  ToolBlueprint,
+  StrategyBlueprint,
+  TriggerConfig,
+  ToolSummary,
+  StrategySummary,
+} from '@/lib/generated/api'
+
+export interface Agent extends AgentSummary {
+  blueprint?: AgentBlueprint
+  created_at?: string
+  updated_at?: string
 }
 
+export type Tool = ToolBlueprint
+
 export interface Strategy {
   name: string
   description?: string
 }
 
-export interface ToolSummary {
-  name: string
-  metadata: {
-    description: string
-  }
-}
-
 // Marketplace types
 export interface MarketplaceAgent {
   id: string
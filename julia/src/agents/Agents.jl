@@ -34,7 +34,7 @@ using ..AgentCore: Agent, AgentConfig, AgentStatus,
         TaskStatus, TaskResult,
         TASK_PENDING, TASK_RUNNING, TASK_COMPLETED, TASK_FAILED, TASK_CANCELLED, TASK_UNKNOWN,
         OrderedDictAgentMemory, PriorityAgentQueue,
-        set_value!,get_value,clear! # 添加 set_value! 的导入
+        set_value!,get_value,delete_value!,clear! # 添加 set_value! 的导入
 using ..Persistence
 using ..AgentMetrics
 # using ..AgentMonitor
@@ -49,6 +49,7 @@ using ..LLMIntegration
 export createAgent, getAgent, listAgents, updateAgent, deleteAgent,
        startAgent, stopAgent, pauseAgent, resumeAgent, getAgentStatus,
        executeAgentTask, getAgentMemory, setAgentMemory, clearAgentMemory,
+       listAgentMemory, getAgentMemoryBatch, setAgentMemoryBatch,
        register_ability, register_skill,
        # Export Task Tracking functions/types (NEW)
        getTaskStatus, getTaskResult, listAgentTasks, cancelTask,
@@ -378,6 +379,7 @@ function deleteAgent(id::String)::Bool
         delete!(AGENTS, id)
         # Also clean up thread entry if it exists (stopAgent should handle this too)
         haskey(AGENT_THREADS, id) && delete!(AGENT_THREADS, id)
+        lock(() -> delete!(MEMORY_EXPIRY, id), MEMORY_EXPIRY_LOCK)
 
         # State is saved by stopAgent. If agent was already stopped, save here.
         # Persistence._save_state() # Redundant if stopAgent always saves
@@ -1344,7 +1346,7 @@ function getTaskResult(id::String, task_id::String)::Dict{String, Any}
 end
 
 """
-    listAgentTasks(id::String; status_filter::Union{TaskStatus, Nothing}=nothing, limit::Int=100)::Dict{String, Any}
+    listAgentTasks(id::String; status_filter::Union{TaskStatus, Nothing}=nothing, limit::Int=100, offset::Int=0)::Dict{String, Any}
 
 Lists tasks submitted_time to an agent, optionally filtered by status and limited by count.
 Returns the most recent tasks first.
@@ -1353,11 +1355,12 @@ Returns the most recent tasks first.
 - `id::String`: The ID of the agent.
 - `status_filter::Union{TaskStatus, Nothing}`: Optional filter by task status.
 - `limit::Int`: Maximum number of tasks to return.
+- `offset::Int`: Number of (filtered) tasks to skip, for paging.
 
 # Returns
 - `Dict` containing a list of task status summaries, or an error dictionary.
 """
-function listAgentTasks(id::String; status_filter::Union{TaskStatus, Nothing}=nothing, limit::Int=100)::Dict{String, Any}
+function listAgentTasks(id::String; status_filter::Union{TaskStatus, Nothing}=nothing, limit::Int=100, offset::Int=0)::Dict{String, Any}
     # Basic input validation
     if !isa(id, AbstractString) || isempty(id)
         @warn "listAgentTasks received invalid or empty agent ID." id
@@ -1367,6 +1370,10 @@ function listAgentTasks(id::String; status_filter::Union{TaskStatus, Nothing}=no
          @warn "listAgentTasks received invalid limit. Using default 100." limit
          limit = 100
      end
+     if offset < 0
+         @warn "listAgentTasks received negative offset. Using 0." offset
+         offset = 0
+     end
      if status_filter !== nothing && !isa(status_filter, TaskStatus)
          @warn "listAgentTasks received invalid status_filter type." status_filter
          status_filter = nothing # Ignore invalid filter
@@ -1386,10 +1393,8 @@ function listAgentTasks(id::String; status_filter::Union{TaskStatus, Nothing}=no
             filter!(t -> t.status == status_filter, tasks)
         end
 
-        # Apply limit
-        if length(tasks) > limit
-            tasks = tasks[1:limit]
-        end
+        # Apply offset and limit
+        tasks = tasks[min(offset, length(tasks))+1:min(offset + limit, length(tasks))]
 
         # Format results (return summary, not full input/output/error)
         formatted_tasks = [
@@ -1463,6 +1468,46 @@ end
 # ----------------------------------------------------------------------
 # These functions now dispatch to the methods of the AbstractAgentMemory instance
 
+# Expiry times of memory entries set with a TTL, per agent ID. The outer dict is guarded by
+# MEMORY_EXPIRY_LOCK; an agent's own dict is only touched while holding that agent's lock.
+const MEMORY_EXPIRY = Dict{String, Dict{String, DateTime}}()
+const MEMORY_EXPIRY_LOCK = ReentrantLock()
+
+_memory_expiry(id::String) = lock(MEMORY_EXPIRY_LOCK) do
+    get!(() -> Dict{String, DateTime}(), MEMORY_EXPIRY, id)
+end
+
+# Removes the entries whose TTL has passed. Caller must hold ag.lock.
+function _expire_memory!(ag::Agent)
+    expiry = _memory_expiry(ag.id)
+    isempty(expiry) && return
+    current = now(UTC)
+    for (key, expires_at) in collect(expiry)
+        if expires_at <= current
+            delete_value!(ag.memory, key)
+            delete!(expiry, key)
+        end
+    end
+end
+
+# Records (or, for `nothing`, removes) the TTL of a key. Caller must hold ag.lock.
+function _set_memory_ttl!(ag::Agent, key::String, ttl_seconds)
+    expiry = _memory_expiry(ag.id)
+    if isnothing(ttl_seconds)
+        delete!(expiry, key)
+    else
+        expiry[key] = now(UTC) + Millisecond(round(Int, ttl_seconds * 1000))
+    end
+end
+
+# ISO 8601 expiry of a key in UTC, or `nothing` if it does not expire. Caller must hold ag.lock.
+function _memory_expires_at(ag::Agent, key::String)
+    expires_at = get(_memory_expiry(ag.id), key, nothing)
+    return isnothing(expires_at) ? nothing : Dates.format(expires_at, dateformat"yyyy-mm-ddTHH:MM:SS.sss") * "Z"
+end
+
+_valid_ttl(ttl_seconds) = isnothing(ttl_seconds) || (ttl_seconds isa Real && ttl_seconds > 0)
+
 """
     getAgentMemory(id::String, key::String)
 
@@ -1491,6 +1536,7 @@ function getAgentMemory(id::String, key::String)
 
     # Acquire agent-specific lock for memory access
     lock(ag.lock) do
+        _expire_memory!(ag)
         # Use the interface method from AgentCore
         val = get_value(ag.memory, key)
         if val !== nothing # get_value should handle LRU touch internally
@@ -1501,7 +1547,7 @@ function getAgentMemory(id::String, key::String)
 end
 
 """
-    setAgentMemory(id::String, key::String, val)::Bool
+    setAgentMemory(id::String, key::String, val; ttl_seconds=nothing)::Bool
 
 Sets a value in an agent's memory, updating LRU status and enforcing size limits.
 
@@ -1509,11 +1555,12 @@ Sets a value in an agent's memory, updating LRU status and enforcing size limits
 - `id::String`: The ID of the agent.
 - `key::String`: The memory key.
 - `val`: The value to store.
+- `ttl_seconds`: Seconds until the entry expires; `nothing` keeps it until cleared.
 
 # Returns
-- `true` if the memory was set, `false` if the agent was not found.
+- `true` if the memory was set, `false` if the agent was not found or the TTL is not positive.
 """
-function setAgentMemory(id::String, key::String, val)::Bool
+function setAgentMemory(id::String, key::String, val; ttl_seconds=nothing)::Bool
     # Basic input validation
     if !isa(id, AbstractString) || isempty(id)
         @warn "setAgentMemory received invalid or empty agent ID." id
@@ -1524,6 +1571,10 @@ function setAgentMemory(id::String, key::String, val)::Bool
         return false
     end
     # Note: val can be Any, so no type validation needed for val itself
+    if !_valid_ttl(ttl_seconds)
+        @warn "setAgentMemory received invalid TTL." ttl_seconds
+        return false
+    end
 
     ag = getAgent(id) # Uses global lock internally
     ag === nothing && return false
@@ -1532,6 +1583,7 @@ function setAgentMemory(id::String, key::String, val)::Bool
     lock(ag.lock) do
         # Use the interface method
         set_value!(ag.memory, key, val) # set_value! should handle LRU touch and size limit internally
+        _set_memory_ttl!(ag, key, ttl_seconds)
         ag.last_activity = now() # Update activity on memory modification
 
         # State is saved periodically or on stop/delete.
@@ -1563,6 +1615,7 @@ function clearAgentMemory(id::String)::Bool
     ag === nothing && return false
 
     lock(ag.lock) do # Acquire agent-specific lock for memory modification
+        empty!(_memory_expiry(id))
         # Use the interface method from AgentCore
         if length(ag.memory) > 0 # Check length using interface
             clear!(ag.memory) # Clear using interface
@@ -1574,6 +1627,115 @@ function clearAgentMemory(id::String)::Bool
     end # Release agent-specific lock
 end
 
+"""
+    listAgentMemory(id::String; prefix::String="", include_values::Bool=false)
+
+Lists an agent's memory entries whose key starts with `prefix`, in insertion order,
+without updating their LRU status.
+
+# Arguments
+- `id::String`: The ID of the agent.
+- `prefix::String`: Only keys starting with this prefix; empty for all keys.
+- `include_values::Bool`: Whether to include each entry's value.
+
+# Returns
+- A vector of `Dict`s with `key`, `expires_at` and, if requested, `value`, or `nothing` if the agent is not found.
+"""
+function listAgentMemory(id::String; prefix::String="", include_values::Bool=false)
+    ag = getAgent(id) # Uses global lock internally
+    ag === nothing && return nothing
+
+    lock(ag.lock) do
+        _expire_memory!(ag)
+        entries = Dict{String, Any}[]
+        for key in keys(ag.memory)
+            startswith(key, prefix) || continue
+            entry = Dict{String, Any}("key" => key, "expires_at" => _memory_expires_at(ag, key))
+            include_values && (entry["value"] = get_value(ag.memory, key))
+            push!(entries, entry)
+        end
+        return entries
+    end
+end
+
+"""
+    getAgentMemoryBatch(id::String, memory_keys::Vector{String})
+
+Reads several keys from an agent's memory under one lock.
+
+# Arguments
+- `id::String`: The ID of the agent.
+- `memory_keys::Vector{String}`: The memory keys to read.
+
+# Returns
+- A tuple `(entries, missing)` of the values found by key and the keys not set, or `nothing` if the agent is not found.
+"""
+function getAgentMemoryBatch(id::String, memory_keys::Vector{String})
+    ag = getAgent(id) # Uses global lock internally
+    ag === nothing && return nothing
+
+    lock(ag.lock) do
+        _expire_memory!(ag)
+        entries = Dict{String, Any}()
+        missing_keys = String[]
+        for key in memory_keys
+            val = get_value(ag.memory, key)
+            if isnothing(val)
+                push!(missing_keys, key)
+            else
+                entries[key] = val
+            end
+        end
+        isempty(entries) || (ag.last_activity = now())
+        return (entries, missing_keys)
+    end
+end
+
+"""
+    setAgentMemoryBatch(id::String, entries::Vector; replace::Bool=false)::Bool
+
+Sets several keys in an agent's memory atomically: every entry is validated before any is
+written, and all writes happen under one lock so readers never see a partial batch.
+
+# Arguments
+- `id::String`: The ID of the agent.
+- `entries::Vector`: `Dict`s with `key`, `value` and an optional `ttl_seconds`.
+- `replace::Bool`: Clear the agent's memory first, as part of the same batch.
+
+# Returns
+- `true` if the batch was written, `false` if the agent was not found.
+
+# Throws
+- `ArgumentError` if an entry has no key or value or an invalid TTL; nothing is written.
+"""
+function setAgentMemoryBatch(id::String, entries::Vector; replace::Bool=false)::Bool
+    for (i, entry) in enumerate(entries)
+        if !(entry isa AbstractDict) || !(get(entry, "key", nothing) isa AbstractString) || isempty(entry["key"])
+            throw(ArgumentError("Entry $i must have a non-empty 'key'"))
+        end
+        haskey(entry, "value") || throw(ArgumentError("Entry $i ('$(entry["key"])') must have a 'value'"))
+        _valid_ttl(get(entry, "ttl_seconds", nothing)) ||
+            throw(ArgumentError("Entry $i ('$(entry["key"])') has an invalid 'ttl_seconds'"))
+    end
+
+    ag = getAgent(id) # Uses global lock internally
+    ag === nothing && return false
+
+    lock(ag.lock) do
+        if replace
+            empty!(_memory_expiry(id))
+            clear!(ag.memory)
+        end
+        for entry in entries
+            key = String(entry["key"])
+            set_value!(ag.memory, key, entry["value"])
+            _set_memory_ttl!(ag, key, get(entry, "ttl_seconds", nothing))
+        end
+        ag.last_activity = now()
+        return true
+    end
+end
+
 # ----------------------------------------------------------------------
 # DEFAULT ABILITIES
 # ----------------------------------------------------------------------
@@ -304,6 +304,7 @@ function list_agent_tasks_handler(req::HTTP.Request, agent_id::String)
     query_params = HTTP.queryparams(HTTP.URI(req.target))
     status_filter_str = get(query_params, "status_filter", nothing)
     limit_str = get(query_params, "limit", "100")
+    offset_str = get(query_params, "offset", "0")
 
     status_filter = nothing
     if !isnothing(status_filter_str)
@@ -317,9 +318,13 @@ function list_agent_tasks_handler(req::HTTP.Request, agent_id::String)
     if limit < 1 || limit > 1000 # Add reasonable bounds for limit
         return Utils.error_response("Limit parameter must be between 1 and 1000.", 400, error_code=Utils.ERROR_CODE_INVALID_INPUT, details=Dict("field"=>"limit", "value_provided"=>limit_str))
     end
+    offset = try parse(Int, offset_str) catch; -1 end
+    if offset < 0
+        return Utils.error_response("Offset parameter must be a non-negative integer.", 400, error_code=Utils.ERROR_CODE_INVALID_INPUT, details=Dict("field"=>"offset", "value_provided"=>offset_str))
+    end
 
     try
-        result = Agents.listAgentTasks(agent_id, status_filter=status_filter, limit=limit)
+        result = Agents.listAgentTasks(agent_id, status_filter=status_filter, limit=limit, offset=offset)
         # listAgentTasks returns a dict with "success", "error" keys or "tasks"
         if !get(result, "success", false) # Check if the underlying call failed (e.g. agent not found)
             err_msg = get(result, "error", "Failed to list tasks")
@@ -445,6 +450,10 @@ function set_agent_memory_handler(req::HTTP.Request, agent_id::String, key::Stri
         return Utils.error_response("Request body must include a 'value' field", 400, error_code=Utils.ERROR_CODE_INVALID_INPUT, details=Dict("missing_field"=>"value"))
     end
     value_to_set = body["value"]
+    ttl_seconds = get(body, "ttl_seconds", nothing)
+    if !isnothing(ttl_seconds) && !(ttl_seconds isa Real && ttl_seconds > 0)
+        return Utils.error_response("ttl_seconds must be a positive number", 400, error_code=Utils.ERROR_CODE_INVALID_INPUT, details=Dict("field"=>"ttl_seconds", "value_provided"=>ttl_seconds))
+    end
 
     try
         # Check if agent exists before trying to set memory
@@ -452,7 +461,7 @@ function set_agent_memory_handler(req::HTTP.Request, agent_id::String, key::Stri
             return Utils.error_response("Agent not found", 404, error_code=Utils.ERROR_CODE_NOT_FOUND, details=Dict("agent_id" => agent_id))
         end
         
-        success = Agents.setAgentMemory(agent_id, key, value_to_set)
+        success = Agents.setAgentMemory(agent_id, key, value_to_set; ttl_seconds=ttl_seconds)
         # setAgentMemory in Agents.jl returns true if agent found, false otherwise.
         # Since we checked agent existence above, success should be true here.
         # If it were to return false, it would imply an issue within setAgentMemory itself after agent was confirmed.
@@ -492,6 +501,100 @@ function clear_agent_memory_handler(req::HTTP.Request, agent_id::String)
     end
 end
 
+function list_agent_memory_handler(req::HTTP.Request, agent_id::String)
+    if isempty(agent_id)
+        return Utils.error_response("Agent ID cannot be empty", 400, error_code=Utils.ERROR_CODE_INVALID_INPUT, details=Dict("field"=>"agent_id"))
+    end
+    query_params = HTTP.queryparams(HTTP.URI(req.target))
+    prefix = get(query_params, "prefix", "")
+    include_values = lowercase(get(query_params, "include_values", "false")) == "true"
+    limit_str = get(query_params, "limit", "100")
+    offset_str = get(query_params, "offset", "0")
+
+    limit = try parse(Int, limit_str) catch; 100 end
+    if limit < 1 || limit > 1000
+        return Utils.error_response("Limit parameter must be between 1 and 1000.", 400, error_code=Utils.ERROR_CODE_INVALID_INPUT, details=Dict("field"=>"limit", "value_provided"=>limit_str))
+    end
+    offset = try parse(Int, offset_str) catch; -1 end
+    if offset < 0
+        return Utils.error_response("Offset parameter must be a non-negative integer.", 400, error_code=Utils.ERROR_CODE_INVALID_INPUT, details=Dict("field"=>"offset", "value_provided"=>offset_str))
+    end
+
+    try
+        entries = Agents.listAgentMemory(agent_id, prefix=prefix, include_values=include_values)
+        if isnothing(entries)
+            return Utils.error_response("Agent not found", 404, error_code=Utils.ERROR_CODE_NOT_FOUND, details=Dict("agent_id" => agent_id))
+        end
+        total = length(entries)
+        page = entries[min(offset, total)+1:min(offset + limit, total)]
+        return Utils.json_response(Dict(
+            "agent_id" => agent_id,
+            "entries" => page,
+            "total" => total,
+            "has_more" => offset + length(page) < total
+        ))
+    catch e
+        @error "Error in list_agent_memory_handler for agent $agent_id" exception=(e, catch_backtrace())
+        return Utils.error_response("Failed to list agent memory: $(sprint(showerror, e))", 500, error_code=Utils.ERROR_CODE_SERVER_ERROR)
+    end
+end
+
+function get_agent_memory_batch_handler(req::HTTP.Request, agent_id::String)
+    if isempty(agent_id)
+        return Utils.error_response("Agent ID cannot be empty", 400, error_code=Utils.ERROR_CODE_INVALID_INPUT, details=Dict("field"=>"agent_id"))
+    end
+    body = Utils.parse_request_body(req)
+    keys_to_get = isnothing(body) ? nothing : get(body, "keys", nothing)
+    if !(keys_to_get isa AbstractVector) || !all(k -> k isa AbstractString && !isempty(k), keys_to_get)
+        return Utils.error_response("Request body must include 'keys', a list of non-empty strings", 400, error_code=Utils.ERROR_CODE_INVALID_INPUT, details=Dict("field"=>"keys"))
+    end
+
+    try
+        result = Agents.getAgentMemoryBatch(agent_id, String.(keys_to_get))
+        if isnothing(result)
+            return Utils.error_response("Agent not found", 404, error_code=Utils.ERROR_CODE_NOT_FOUND, details=Dict("agent_id" => agent_id))
+        end
+        entries, missing_keys = result
+        return Utils.json_response(Dict("agent_id" => agent_id, "entries" => entries, "missing" => missing_keys))
+    catch e
+        @error "Error in get_agent_memory_batch_handler for agent $agent_id" exception=(e, catch_backtrace())
+        return Utils.error_response("Failed to get agent memory: $(sprint(showerror, e))", 500, error_code=Utils.ERROR_CODE_SERVER_ERROR)
+    end
+end
+
+function set_agent_memory_batch_handler(req::HTTP.Request, agent_id::String)
+    if isempty(agent_id)
+        return Utils.error_response("Agent ID cannot be empty", 400, error_code=Utils.ERROR_CODE_INVALID_INPUT, details=Dict("field"=>"agent_id"))
+    end
+    body = Utils.parse_request_body(req)
+    entries = isnothing(body) ? nothing : get(body, "entries", nothing)
+    if !(entries isa AbstractVector)
+        return Utils.error_response("Request body must include 'entries', a list of {key, value, ttl_seconds}", 400, error_code=Utils.ERROR_CODE_INVALID_INPUT, details=Dict("field"=>"entries"))
+    end
+    # Batches are always applied atomically; `atomic` is accepted for clients that send it
+    replace = get(body, "replace", false) === true
+
+    try
+        if isnothing(Agents.getAgent(agent_id))
+            return Utils.error_response("Agent not found", 404, error_code=Utils.ERROR_CODE_NOT_FOUND, details=Dict("agent_id" => agent_id))
+        end
+        success = try
+            Agents.setAgentMemoryBatch(agent_id, collect(entries); replace=replace)
+        catch e
+            e isa ArgumentError || rethrow()
+            return Utils.error_response(e.msg, 400, error_code=Utils.ERROR_CODE_INVALID_INPUT, details=Dict("field"=>"entries"))
+        end
+        if success
+            return Utils.json_response(Dict("message" => "Memory values set successfully", "agent_id" => agent_id, "keys" => [String(entry["key"]) for entry in entries]))
+        else
+            return Utils.error_response("Failed to set memory for agent (unexpected internal error)", 500, error_code=Utils.ERROR_CODE_SERVER_ERROR, details=Dict("agent_id" => agent_id))
+        end
+    catch e
+        @error "Error in set_agent_memory_batch_handler for agent $agent_id" exception=(e, catch_backtrace())
+        return Utils.error_response("Failed to set agent memory: $(sprint(showerror, e))", 500, error_code=Utils.ERROR_CODE_SERVER_ERROR)
+    end
+end
+
 # --- Agent Fitness Evaluation Handler ---
 
 function evaluate_agent_fitness_handler(req::HTTP.Request, agent_id::String)
@@ -24,6 +24,7 @@ include("../agents/AgentMonitor.jl")    # Depends on Config, AgentMetrics, Agent
 # 4. API Layer Modules - Depend on all basic modules
 include("Utils.jl")
 include("AgentHandlers.jl")    # Depends on api/Utils.jl and agents/Agents.jl
+include("SwarmHandlers.jl")    # Depends on api/Utils.jl and the JuliaOS package's framework Swarms
 include("Routes.jl")           # Depends on handler modules
 include("MainServer.jl")       # Depends on api/Routes.jl and agents/Config.jl
 
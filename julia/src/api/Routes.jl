@@ -10,7 +10,7 @@ using Dates  # Add Dates module for timestamp functionality
 using ..AgentHandlers
 # using ..MetricsHandlers
 # using ..LlmHandlers # Use LlmHandlers as per screenshot and updated file
-# using ..SwarmHandlers # Added SwarmHandlers
+using ..SwarmHandlers
 # using ..PriceFeedHandlers # Added PriceFeedHandlers
 # using ..DexHandlers # Added DexHandlers
 # using ..BlockchainHandlers # Added BlockchainHandlers
@@ -98,6 +98,9 @@ function register_routes()
     @post agent_router("/{agent_id}/evaluate_fitness") AgentHandlers.evaluate_agent_fitness_handler # Request agent to evaluate fitness for a given solution
 
     # --- Agent Memory Access ---
+    @get agent_router("/{agent_id}/memory") AgentHandlers.list_agent_memory_handler # List memory keys (prefix, include_values, limit, offset)
+    @post agent_router("/{agent_id}/memory/batch-get") AgentHandlers.get_agent_memory_batch_handler # Get several keys in one request
+    @post agent_router("/{agent_id}/memory/batch") AgentHandlers.set_agent_memory_batch_handler # Set several keys atomically, optionally replacing all memory
     @get agent_router("/{agent_id}/memory/{key}") AgentHandlers.get_agent_memory_handler # Get a value from agent's memory
     @post agent_router("/{agent_id}/memory/{key}") AgentHandlers.set_agent_memory_handler # Set a value in agent's memory
     @delete agent_router("/{agent_id}/memory") AgentHandlers.clear_agent_memory_handler   # Clear all memory for an agent
@@ -119,24 +122,24 @@ function register_routes()
     # @get BASE_PATH * "/llm/providers/{provider_name::String}/status" LlmHandlers.get_llm_provider_status_handler # Get status of a specific LLM provider
     # @post BASE_PATH * "/llm/chat" LlmHandlers.direct_llm_chat_handler                   # Perform a direct chat with an LLM
 
-    # # ----------------------------------------------------------------------
-    # # Swarm Management Routes
-    # # These routes handle the creation, configuration, and management of swarms.
-    # # ----------------------------------------------------------------------
-    # @post BASE_PATH * "/swarms" SwarmHandlers.create_swarm_handler        # Create a new swarm
-    # @get BASE_PATH * "/swarms" SwarmHandlers.list_swarms_handler         # List all swarms
-    # @get BASE_PATH * "/swarms/{swarm_id::String}" SwarmHandlers.get_swarm_handler # Get details of a specific swarm
-    # @post BASE_PATH * "/swarms/{swarm_id::String}/start" SwarmHandlers.start_swarm_handler # Start a swarm
-    # @post BASE_PATH * "/swarms/{swarm_id::String}/stop" SwarmHandlers.stop_swarm_handler   # Stop a swarm
-    # @post BASE_PATH * "/swarms/{swarm_id::String}/agents" SwarmHandlers.add_agent_to_swarm_handler # Add an agent to a swarm
-    # @delete BASE_PATH * "/swarms/{swarm_id::String}/agents/{agent_id::String}" SwarmHandlers.remove_agent_from_swarm_handler # Remove an agent from a swarm
-    
-    # # Swarm Shared State
-    # @get BASE_PATH * "/swarms/{swarm_id::String}/state/{key::String}" SwarmHandlers.get_swarm_shared_state_handler # Get a value from swarm's shared state
-    # @post BASE_PATH * "/swarms/{swarm_id::String}/state/{key::String}" SwarmHandlers.update_swarm_shared_state_handler # Update a value in swarm's shared state
-    
-    # # Swarm Metrics
-    # @get BASE_PATH * "/swarms/{swarm_id::String}/metrics" SwarmHandlers.get_swarm_metrics_handler # Get metrics for a specific swarm
+    # Create swarm router group
+    swarm_router = router(BASE_PATH * "/swarms", tags=["Swarm Management"])
+
+    # --- Swarm Management ---
+    @post swarm_router("") SwarmHandlers.create_swarm_handler        # Create a new swarm
+    @get swarm_router("") SwarmHandlers.list_swarms_handler         # List all swarms (optional status filter)
+    @get swarm_router("/{swarm_id}") SwarmHandlers.get_swarm_handler # Get details of a specific swarm
+    @post swarm_router("/{swarm_id}/start") SwarmHandlers.start_swarm_handler # Start a swarm
+    @post swarm_router("/{swarm_id}/stop") SwarmHandlers.stop_swarm_handler   # Stop a swarm
+    @post swarm_router("/{swarm_id}/agents") SwarmHandlers.add_agent_to_swarm_handler # Add an agent to a swarm
+    @delete swarm_router("/{swarm_id}/agents/{agent_id}") SwarmHandlers.remove_agent_from_swarm_handler # Remove an agent from a swarm
+
+    # --- Swarm Shared State ---
+    @get swarm_router("/{swarm_id}/state/{key}") SwarmHandlers.get_swarm_shared_state_handler # Get a value from swarm's shared state
+    @post swarm_router("/{swarm_id}/state/{key}") SwarmHandlers.update_swarm_shared_state_handler # Update a value in swarm's shared state
+
+    # --- Swarm Metrics ---
+    @get swarm_router("/{swarm_id}/metrics") SwarmHandlers.get_swarm_metrics_handler # Get metrics for a specific swarm
     
     # # Swarm Task Management
     # @post BASE_PATH * "/swarms/{swarm_id::String}/tasks" SwarmHandlers.allocate_task_handler # Allocate a new task to the swarm
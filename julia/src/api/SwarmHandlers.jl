@@ -3,13 +3,9 @@ module SwarmHandlers
 
 using HTTP
 using ..Utils # For standardized responses
-# Assuming Swarms.jl is made available via JuliaOSFramework or direct using
-# This might need to be `using Main.JuliaOSFramework.Swarms` or similar
-# depending on how JuliaOSFramework exports/makes modules available.
-# For now, let's assume `Swarms` and `SwarmBase` are directly accessible if `JuliaOSFramework` is `using`'d.
-# Corrected import path based on JuliaOSFramework structure
-import ..framework.JuliaOSFramework.Swarms
-import ..framework.JuliaOSFramework.SwarmBase # For types like SwarmConfig, OptimizationProblem
+# Swarms and SwarmBase live in the framework loaded by the JuliaOS package (see server.jl)
+import JuliaOS.JuliaOSFramework: Swarms
+import JuliaOS.JuliaOSFramework: SwarmBase # For types like SwarmConfig, OptimizationProblem
 
 function create_swarm_handler(req::HTTP.Request)
     body = Utils.parse_request_body(req)
@@ -100,15 +96,16 @@ function list_swarms_handler(req::HTTP.Request)
     filter_status_enum = nothing
     if !isnothing(filter_status_str)
         try
-            # Assuming SwarmStatus enum values are like SWARM_CREATED, SWARM_RUNNING
-            filter_status_enum = Swarms.SwarmStatus(Symbol(uppercase("SWARM_" * filter_status_str)))
+            # SwarmStatus enum values are like SWARM_CREATED, SWARM_RUNNING; accept them with or without the prefix
+            status_name = "SWARM_" * replace(uppercase(filter_status_str), r"^SWARM_" => "")
+            filter_status_enum = only(filter(st -> string(st) == status_name, collect(instances(Swarms.SwarmStatus))))
         catch
             return Utils.error_response("Invalid status filter: $filter_status_str. Valid values are CREATED, RUNNING, STOPPED, ERROR, COMPLETED.", 400, error_code=Utils.ERROR_CODE_INVALID_INPUT, details=Dict("field"=>"status"))
         end
     end
 
     try
-        swarms_list = Swarms.listSwarms(filter_status=filter_status_enum)
+        swarms_list = Swarms.listSwarms(st=filter_status_enum)
         result = [Swarms.getSwarmStatus(s.id) for s in swarms_list if !isnothing(Swarms.getSwarmStatus(s.id))]
         return Utils.json_response(result)
     catch e
@@ -359,6 +359,7 @@ function _swarm_algorithm_loop(swarm::Swarm)
                 true, # is_feasible
                 Dict{String,Any}() # metadata
             )
+            _publish_best_solution!(swarm)
         end
 
         max_iter = swarm.config.max_iterations
@@ -448,6 +449,7 @@ function _swarm_algorithm_loop(swarm::Swarm)
                         true, # Assuming feasibility
                         Dict("updated_at_iter" => iter)
                     )
+                    _publish_best_solution!(swarm)
                     @info "Swarm $(swarm.id) new global best at iter $iter: Fitness=$(swarm.best_solution_found.fitness)"
                     _save_swarms_state() 
                 end
@@ -765,6 +767,8 @@ function stopSwarm(id::String)::Bool
 end
 
 getSwarmStatus(id::String) = (s=getSwarm(id); isnothing(s) ? nothing : Dict("id"=>s.id, "name"=>s.name, "status"=>string(s.status), "algo"=>s.config.algorithm_type, "agents"=>length(s.agents), "iter"=>s.current_iteration, "best_fit"=>isnothing(s.best_solution_found) ? nothing : s.best_solution_found.fitness, "created"=>string(s.created_at), "updated"=>string(s.updated_at)))
+# Mirrors the best solution into shared state, where API clients read it (GET /swarms/{id}/state/best_solution_found)
+_publish_best_solution!(s::Swarm) = (sol=s.best_solution_found; s.shared_data["best_solution_found"]=Dict("position"=>sol.position, "fitness"=>sol.fitness, "is_feasible"=>sol.is_feasible, "metadata"=>sol.metadata))
 getSharedState(swarm_id::String, key::String, default=nothing) = (s=getSwarm(swarm_id); isnothing(s) ? default : get(s.shared_data, key, default))
 function updateSharedState!(swarm_id::String, key::String, value) s=getSwarm(swarm_id); isnothing(s) ? false : (s.shared_data[key]=value; s.updated_at=now(UTC); true) end
 function electLeader(swarm_id::String; kw...) s=getSwarm(swarm_id); (isnothing(s) || isempty(s.agents)) && return nothing; leader_id=first(s.agents); updateSharedState!(swarm_id, "leader_id", leader_id); @info "Agent $leader_id elected leader for swarm $swarm_id."; leader_id end
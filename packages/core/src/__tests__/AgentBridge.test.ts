@@ -0,0 +1,232 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { JuliaOSClientTS } from '../api/ApiClient';
+import { AgentBridge, AgentRoute } from '../platform/AgentBridge';
+import { ConversationStore } from '../platform/ConversationStore';
+import { CommandData, MessageData } from '../platform/types';
+import { FakeConnector } from './FakeConnector';
+
+const message = (content: string, channelId = 'chat-1'): MessageData => ({
+  content,
+  sender: 'u1',
+  senderName: 'alice',
+  channelId,
+  messageId: 'm1',
+  timestamp: new Date('2025-01-01T00:00:00Z'),
+});
+
+const command = (name: string, args: string[], channelId = 'chat-1'): CommandData => ({
+  ...message(`${name} ${args.join(' ')}`, channelId),
+  command: name,
+  args,
+});
+
+describe('AgentBridge', () => {
+  let server: http.Server;
+  let baseURL: string;
+  let webhooks: Array<{ agentId: string; body: any }>;
+  let outputs: Record<string, any>;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let raw = '';
+      req.on('data', chunk => (raw += chunk));
+      req.on('end', () => {
+        const match = req.url!.match(/^\/api\/v1\/agents\/([^/]+)\/(webhook|output)$/);
+        if (!match) {
+          res.writeHead(404, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ message: 'not found' }));
+          return;
+        }
+        const agentId = decodeURIComponent(match[1]);
+        if (match[2] === 'webhook' && req.method === 'POST') {
+          if (agentId === 'broken') {
+            res.writeHead(500, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ error: 'internal_error' }));
+            return;
+          }
+          const body = JSON.parse(raw);
+          webhooks.push({ agentId, body });
+          outputs[agentId] = { reply: `${agentId} got: ${body.text}` };
+          res.writeHead(200);
+          res.end();
+          return;
+        }
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(outputs[agentId] || {}));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/v1`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    webhooks = [];
+    outputs = {};
+  });
+
+  const createBridge = (routes: AgentRoute[], options: Partial<ConstructorParameters<typeof AgentBridge>[1]> = {}) => {
+    const client = new JuliaOSClientTS(baseURL, undefined, { retry: false });
+    return new AgentBridge(client.agents, { routes, ...options });
+  };
+
+  it('should forward messages to the routed agent and reply with its output', async () => {
+    const telegram = new FakeConnector({ name: 'tg-main', type: 'telegram' });
+    const bridge = createBridge([{ platform: 'telegram', agentId: 'news' }]);
+    bridge.attach(telegram);
+
+    telegram.emit('message', message('hello'));
+    await bridge.drain();
+
+    expect(webhooks).toHaveLength(1);
+    expect(webhooks[0].agentId).toBe('news');
+    expect(webhooks[0].body).toMatchObject({
+      source: { platform: 'telegram', connector: 'tg-main' },
+      event: 'message',
+      text: 'hello',
+      sender: 'u1',
+      sender_name: 'alice',
+      channel_id: 'chat-1',
+      message_id: 'm1',
+      timestamp: '2025-01-01T00:00:00.000Z',
+    });
+    expect(telegram.sent).toEqual([{ content: 'news got: hello', channelId: 'chat-1', options: { replyTo: 'm1' } }]);
+  });
+
+  it('should route by channel and command with the first matching route winning', async () => {
+    const discord = new FakeConnector({ name: 'ops', type: 'discord' });
+    const bridge = createBridge([
+      { platform: 'ops', commands: ['investigate'], agentId: 'investigator', payload: { priority: 'high' } },
+      { channels: ['alerts'], agentId: 'alerts' },
+      { platform: 'slack', agentId: 'unused' },
+    ]);
+    bridge.attach(discord);
+
+    discord.emit('command', command('investigate', ['0xabc'], 'general'));
+    discord.emit('message', message('disk full', 'alerts'));
+    discord.emit('message', message('chit chat', 'general'));
+    discord.emit('command', command('help', [], 'general'));
+    await bridge.drain();
+
+    expect(webhooks.map(w => w.agentId)).toEqual(['investigator', 'alerts']);
+    expect(webhooks[0].body).toMatchObject({ event: 'command', command: 'investigate', args: ['0xabc'], priority: 'high' });
+    expect(discord.sent.map(s => s.channelId)).toEqual(['general', 'alerts']);
+  });
+
+  it('should ignore mentions unless a route opts in', async () => {
+    const slack = new FakeConnector({ name: 'workspace', type: 'slack' });
+    const bridge = createBridge([{ agentId: 'helper' }]);
+    bridge.attach(slack);
+
+    slack.emit('mention', message('@bot hi'));
+    await bridge.drain();
+    expect(webhooks).toHaveLength(0);
+
+    const result = await createBridge([{ agentId: 'helper', events: ['mention'] }]).handle({
+      type: 'mention',
+      platform: slack,
+      data: message('@bot hi'),
+    });
+    expect(result?.reply).toBe('helper got: @bot hi');
+  });
+
+  it('should stop forwarding after detach', async () => {
+    const telegram = new FakeConnector({ name: 'tg', type: 'telegram' });
+    const bridge = createBridge([{ agentId: 'news' }]);
+    bridge.attach(telegram);
+    bridge.attach(telegram);
+    bridge.detach(telegram);
+
+    telegram.emit('message', message('hello'));
+    await bridge.drain();
+    expect(webhooks).toHaveLength(0);
+    expect(telegram.listenerCount('message')).toBe(0);
+  });
+
+  it('should report failures and send the configured error reply', async () => {
+    const telegram = new FakeConnector({ name: 'tg', type: 'telegram' });
+    const onError = jest.fn();
+    const bridge = createBridge([{ agentId: 'broken' }], { onError, errorReply: 'Agent unavailable' });
+
+    const result = await bridge.handle({ type: 'message', platform: telegram, data: message('hello') });
+
+    expect(result).toBeUndefined();
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError.mock.calls[0][0].statusCode).toBe(500);
+    expect(telegram.sent).toEqual([{ content: 'Agent unavailable', channelId: 'chat-1', options: { replyTo: 'm1' } }]);
+  });
+
+  it('should not leave a rejection unhandled when the onError callback throws', async () => {
+    const telegram = new FakeConnector({ name: 'tg', type: 'telegram' });
+    const unhandled = jest.fn();
+    process.on('unhandledRejection', unhandled);
+    try {
+      const bridge = createBridge([{ agentId: 'broken' }], {
+        onError: () => {
+          throw new Error('alerting is down');
+        },
+      });
+      bridge.attach(telegram);
+
+      telegram.emit('message', message('hello'));
+      await bridge.drain();
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(unhandled).not.toHaveBeenCalled();
+    } finally {
+      process.off('unhandledRejection', unhandled);
+    }
+  });
+
+  it('should reply to the event in the thread it came from', async () => {
+    const slack = new FakeConnector({ name: 'workspace', type: 'slack' });
+    const threaded = { ...message('status?', 'C1'), threadId: '1700000000.000100' };
+
+    await createBridge([{ agentId: 'news' }]).handle({ type: 'message', platform: slack, data: threaded });
+    await createBridge([{ agentId: 'broken' }], { onError: jest.fn(), errorReply: 'Agent unavailable' }).handle({
+      type: 'message',
+      platform: slack,
+      data: threaded,
+    });
+
+    expect(slack.sent).toEqual([
+      { content: 'news got: status?', channelId: 'C1', options: { threadId: '1700000000.000100', replyTo: 'm1' } },
+      { content: 'Agent unavailable', channelId: 'C1', options: { threadId: '1700000000.000100', replyTo: 'm1' } },
+    ]);
+  });
+
+  it('should not reply when the output has no text or replies are disabled', async () => {
+    const telegram = new FakeConnector({ name: 'tg', type: 'telegram' });
+    const silent = createBridge([{ agentId: 'news' }], { reply: false });
+    const result = await silent.handle({ type: 'message', platform: telegram, data: message('hello') });
+    expect(result?.output).toEqual({ reply: 'news got: hello' });
+
+    const custom = createBridge([{ agentId: 'news' }], { formatReply: () => undefined });
+    await custom.handle({ type: 'message', platform: telegram, data: message('hello') });
+    expect(telegram.sent).toHaveLength(0);
+  });
+
+  it('should send the conversation history with each message and record replies', async () => {
+    const telegram = new FakeConnector({ name: 'tg', type: 'telegram' });
+    const conversations = new ConversationStore();
+    const bridge = createBridge([{ agentId: 'news' }], { conversations });
+
+    await bridge.handle({ type: 'message', platform: telegram, data: message('hello') });
+    await bridge.handle({ type: 'message', platform: telegram, data: { ...message('and then?'), messageId: 'm2', replyTo: 'm1' } });
+
+    expect(webhooks[0].body).toMatchObject({ conversation_id: 'tg:chat-1', history: [] });
+    expect(webhooks[1].body).toMatchObject({
+      conversation_id: 'tg:chat-1',
+      reply_to: 'm1',
+      history: [
+        { role: 'user', text: 'hello', sender: 'u1', sender_name: 'alice', message_id: 'm1' },
+        { role: 'agent', text: 'news got: hello' },
+      ],
+    });
+    expect((await conversations.get('tg:chat-1')).messages).toHaveLength(4);
+  });
+});
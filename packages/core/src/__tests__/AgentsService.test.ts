@@ -0,0 +1,375 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { JuliaOSClientTS } from '../api/ApiClient';
+import { TaskFailedError, TaskTimeoutError, TaskAbortedError } from '../api/AgentsService';
+import { TaskStatus, TaskProgress, AgentState } from '../api/types';
+import { toPage } from '../api/pagination';
+import { ValidationError } from '../api/errors';
+
+type Route = (req: http.IncomingMessage, body: any) => { status?: number; body: any };
+
+describe('AgentsService', () => {
+  let server: http.Server;
+  let baseURL: string;
+  let requests: string[];
+  let queries: URLSearchParams[];
+  let routes: Record<string, Route>;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let raw = '';
+      req.on('data', chunk => (raw += chunk));
+      req.on('end', () => {
+        const key = `${req.method} ${decodeURIComponent(req.url!.replace(/^\/api\/v1/, '').split('?')[0])}`;
+        requests.push(key);
+        queries.push(new URL(req.url!, 'http://localhost').searchParams);
+        const route = routes[key];
+        const reply = route ? route(req, raw ? JSON.parse(raw) : undefined) : { status: 404, body: { message: 'not found' } };
+        res.writeHead(reply.status || 200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(reply.body));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/v1`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    queries = [];
+    routes = {};
+  });
+
+  const task = (status: TaskStatus) => ({ task_id: 't1', status, submitted_time: '2025-01-01T00:00:00', ability: 'ping' });
+  const result = (status: TaskStatus, extra: Record<string, any> = {}) => ({ ...task(status), input: { ability: 'ping' }, ...extra });
+
+  // Serves the given statuses in order, repeating the last one
+  const statusSequence = (...statuses: TaskStatus[]): Route => {
+    let index = 0;
+    return () => ({ body: task(statuses[Math.min(index++, statuses.length - 1)]) });
+  };
+
+  const createClient = () => new JuliaOSClientTS(baseURL, undefined, { retry: false });
+
+  it('should poll until the task completes and report progress', async () => {
+    routes['GET /agents/a1/tasks/t1'] = statusSequence(TaskStatus.TASK_PENDING, TaskStatus.TASK_RUNNING, TaskStatus.TASK_COMPLETED);
+    routes['GET /agents/a1/tasks/t1/result'] = () => ({ body: result(TaskStatus.TASK_COMPLETED, { result: { pong: true } }) });
+    const progress: TaskProgress[] = [];
+
+    const outcome = await createClient().agents.waitForTask('a1', 't1', {
+      pollIntervalMs: 5,
+      onProgress: p => progress.push(p),
+    });
+
+    expect(outcome.result).toEqual({ pong: true });
+    expect(progress.map(p => p.task.status)).toEqual([
+      TaskStatus.TASK_PENDING,
+      TaskStatus.TASK_RUNNING,
+      TaskStatus.TASK_COMPLETED,
+    ]);
+    expect(progress.map(p => p.attempt)).toEqual([1, 2, 3]);
+  });
+
+  it('should throw a TaskFailedError carrying the task result when the task fails', async () => {
+    routes['GET /agents/a1/tasks/t1'] = statusSequence(TaskStatus.TASK_FAILED);
+    routes['GET /agents/a1/tasks/t1/result'] = () => ({ body: result(TaskStatus.TASK_FAILED, { error: 'ability crashed' }) });
+
+    const error = await createClient().agents.waitForTask('a1', 't1', { pollIntervalMs: 5 }).catch(e => e);
+
+    expect(error).toBeInstanceOf(TaskFailedError);
+    expect(error.message).toBe('ability crashed');
+    expect(error.status).toBe(TaskStatus.TASK_FAILED);
+    expect(error.result.task_id).toBe('t1');
+  });
+
+  it('should throw a TaskTimeoutError without cancelling the task', async () => {
+    routes['GET /agents/a1/tasks/t1'] = statusSequence(TaskStatus.TASK_RUNNING);
+
+    const error = await createClient().agents.waitForTask('a1', 't1', { pollIntervalMs: 10, timeoutMs: 50 }).catch(e => e);
+
+    expect(error).toBeInstanceOf(TaskTimeoutError);
+    expect(error.lastStatus).toBe(TaskStatus.TASK_RUNNING);
+    expect(requests).not.toContain('POST /agents/a1/tasks/t1/cancel');
+  });
+
+  it('should cancel the task when the signal is aborted', async () => {
+    routes['GET /agents/a1/tasks/t1'] = statusSequence(TaskStatus.TASK_RUNNING);
+    routes['POST /agents/a1/tasks/t1/cancel'] = () => ({ body: { success: true, task_id: 't1' } });
+    const controller = new AbortController();
+
+    const waiting = createClient().agents.waitForTask('a1', 't1', {
+      pollIntervalMs: 1000,
+      signal: controller.signal,
+      onProgress: () => controller.abort(),
+    });
+
+    const error = await waiting.catch(e => e);
+    expect(error).toBeInstanceOf(TaskAbortedError);
+    expect(error.cancelled).toBe(true);
+    expect(requests).toEqual(['GET /agents/a1/tasks/t1', 'POST /agents/a1/tasks/t1/cancel']);
+  });
+
+  it('should not cancel the task on abort when cancelOnAbort is false', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const error = await createClient().agents
+      .waitForTask('a1', 't1', { signal: controller.signal, cancelOnAbort: false })
+      .catch(e => e);
+
+    expect(error).toBeInstanceOf(TaskAbortedError);
+    expect(error.cancelled).toBe(false);
+    expect(requests).toEqual([]);
+  });
+
+  it('should submit and wait with executeAndWait', async () => {
+    routes['POST /agents/a1/tasks'] = (_req, body) => ({ body: { success: true, queued: true, agent_id: 'a1', task_id: 't1', echo: body } });
+    routes['GET /agents/a1/tasks/t1'] = statusSequence(TaskStatus.TASK_COMPLETED);
+    routes['GET /agents/a1/tasks/t1/result'] = () => ({ body: result(TaskStatus.TASK_COMPLETED, { result: 42 }) });
+
+    const outcome = await createClient().agents.executeAndWait('a1', { ability: 'ping', mode: 'queue' }, { pollIntervalMs: 5 });
+
+    expect(outcome.result).toBe(42);
+    expect(requests[0]).toBe('POST /agents/a1/tasks');
+  });
+
+  const agent = (i: number, state = AgentState.RUNNING) => ({
+    id: `agent-${i}`,
+    name: `Agent ${i}`,
+    description: '',
+    trigger_type: 'WEBHOOK',
+    state,
+    blueprint: {},
+  });
+
+  it('should drive the agent lifecycle through PUT /agents/{agent_id} with the target state', async () => {
+    const bodies: any[] = [];
+    routes['PUT /agents/a1'] = (_req, body) => {
+      bodies.push(body);
+      return { body: { ...agent(1, body.state), id: 'a1' } };
+    };
+    const agents = createClient().agents;
+
+    await agents.startAgent('a1');
+    await agents.pauseAgent('a1');
+    await agents.resumeAgent('a1');
+    const stopped = await agents.stopAgent('a1');
+
+    expect(stopped.state).toBe(AgentState.STOPPED);
+    expect(bodies.map(body => body.state)).toEqual([AgentState.RUNNING, AgentState.PAUSED, AgentState.RUNNING, AgentState.STOPPED]);
+  });
+
+  it('should filter the agent list client-side', async () => {
+    routes['GET /agents'] = () => ({ body: [agent(1), agent(2, AgentState.STOPPED), agent(3)] });
+
+    const agents = await createClient().agents.listAgents({ state: AgentState.STOPPED });
+
+    expect(agents.map(a => a.id)).toEqual(['agent-2']);
+    expect(queries[0].toString()).toBe('');
+  });
+
+  it('should map the deprecated AgentsApiClient methods onto the spec routes', async () => {
+    routes['POST /agents'] = (_req, body) => ({ status: 201, body: { ...agent(1), id: body.id } });
+    routes['GET /agents/a1'] = () => ({ body: { ...agent(1), id: 'a1' } });
+    routes['PUT /agents/a1'] = (_req, body) => ({ body: { ...agent(1, body.state), id: 'a1' } });
+    routes['GET /agents'] = () => ({ body: [agent(1), agent(2, AgentState.STOPPED)] });
+    const agents = createClient().agents;
+    const blueprint = {
+      tools: [],
+      strategy: { name: 'plan_execute', config: {} },
+      trigger: { type: 'webhook' as const, params: {} },
+    };
+
+    await agents.create({ id: 'a1', name: 'Agent 1', description: '', blueprint });
+    await agents.get('a1');
+    await agents.getAgentStatus('a1');
+    await agents.start('a1');
+    await agents.stop('a1');
+    const stopped = await agents.list(undefined, AgentState.STOPPED);
+
+    expect(stopped.map(a => a.id)).toEqual(['agent-2']);
+    expect(requests).toEqual(['POST /agents', 'GET /agents/a1', 'GET /agents/a1', 'PUT /agents/a1', 'PUT /agents/a1', 'GET /agents']);
+  });
+
+  it('should iterate over server-paginated agents using cursors and report the total', async () => {
+    routes['GET /agents'] = req => {
+      const cursor = new URL(req.url!, 'http://localhost').searchParams.get('cursor');
+      return cursor === 'page-2'
+        ? { body: { agents: [agent(3)], total: 3, next_cursor: null } }
+        : { body: { agents: [agent(1), agent(2)], total: 3, next_cursor: 'page-2' } };
+    };
+
+    const iterator = createClient().agents.iterate({ state: AgentState.RUNNING }, { pageSize: 2 });
+    const ids: string[] = [];
+    for await (const item of iterator) {
+      ids.push(item.id);
+    }
+
+    expect(ids).toEqual(['agent-1', 'agent-2', 'agent-3']);
+    expect(iterator.total).toBe(3);
+    expect(queries[0].get('limit')).toBe('2');
+    expect(queries[0].get('state')).toBe(AgentState.RUNNING);
+    expect(queries[1].get('cursor')).toBe('page-2');
+  });
+
+  it('should fetch a plain agent array once and page through it client-side', async () => {
+    routes['GET /agents'] = () => ({
+      body: [agent(1), agent(2, AgentState.STOPPED), agent(3), agent(4), agent(5)],
+    });
+
+    const pages = [];
+    for await (const page of createClient().agents.iterate({ state: AgentState.RUNNING }, { pageSize: 2 }).pages()) {
+      pages.push(page.items.map(item => item.id));
+    }
+
+    expect(pages).toEqual([['agent-1', 'agent-3'], ['agent-4', 'agent-5']]);
+    expect(requests).toEqual(['GET /agents']);
+  });
+
+  it('should stop when a backend ignoring the offset returns the same page again', async () => {
+    const tasks = Array.from({ length: 100 }, (_, i) => ({ ...task(TaskStatus.TASK_COMPLETED), task_id: `t${i}` }));
+    routes['GET /agents/a1/tasks'] = () => ({ body: { success: true, agent_id: 'a1', tasks, count: tasks.length } });
+
+    const iterated = await createClient().agents.iterateTasks('a1').toArray();
+
+    expect(iterated).toHaveLength(100);
+    expect(requests).toHaveLength(2);
+  });
+
+  it('should iterate tasks by offset until the reported total is reached', async () => {
+    routes['GET /agents/a1/tasks'] = req => {
+      const offset = Number(new URL(req.url!, 'http://localhost').searchParams.get('offset') || 0);
+      const tasks = [offset, offset + 1].filter(i => i < 3).map(i => ({ ...task(TaskStatus.TASK_COMPLETED), task_id: `t${i}` }));
+      return { body: { success: true, agent_id: 'a1', tasks, count: tasks.length, total: 3 } };
+    };
+
+    const tasks = await createClient().agents.iterateTasks('a1', { status_filter: TaskStatus.TASK_COMPLETED }, { pageSize: 2 }).toArray();
+
+    expect(tasks.map(t => t.task_id)).toEqual(['t0', 't1', 't2']);
+    expect(requests).toHaveLength(2);
+    expect(queries[0].get('status_filter')).toBe(TaskStatus.TASK_COMPLETED);
+  });
+
+  it('should keep paging tasks until a page comes back short when no total is reported', async () => {
+    const all = Array.from({ length: 1500 }, (_, i) => ({ ...task(TaskStatus.TASK_COMPLETED), task_id: `t${i}` }));
+    routes['GET /agents/a1/tasks'] = req => {
+      const params = new URL(req.url!, 'http://localhost').searchParams;
+      const offset = Number(params.get('offset') || 0);
+      const tasks = all.slice(offset, offset + Number(params.get('limit')));
+      return { body: { success: true, agent_id: 'a1', tasks, count: tasks.length } };
+    };
+
+    const iterator = createClient().agents.iterateTasks('a1', undefined, { pageSize: 5000 });
+    const tasks = await iterator.toArray();
+
+    expect(tasks).toHaveLength(1500);
+    expect(iterator.total).toBeUndefined();
+    expect(queries.map(q => [q.get('limit'), q.get('offset')])).toEqual([['1000', null], ['1000', '1000']]);
+  });
+
+  it('should scan memory keys by prefix across pages', async () => {
+    routes['GET /agents/a1/memory'] = req => {
+      const offset = Number(new URL(req.url!, 'http://localhost').searchParams.get('offset') || 0);
+      const keys = ['chat:1', 'chat:2', 'chat:3'].slice(offset, offset + 2);
+      return { body: { entries: keys.map(key => ({ key })), total: 3 } };
+    };
+
+    const keys = (await createClient().agents.scanAgentMemory('a1', 'chat:', { pageSize: 2 }).toArray()).map(e => e.key);
+
+    expect(keys).toEqual(['chat:1', 'chat:2', 'chat:3']);
+    expect(queries[0].get('prefix')).toBe('chat:');
+  });
+
+  it('should send TTLs when setting memory', async () => {
+    let body: any;
+    routes['POST /agents/a1/memory/session token'] = (_req, b) => {
+      body = b;
+      return { body: { message: 'ok', agent_id: 'a1', key: 'session token' } };
+    };
+
+    await createClient().agents.setAgentMemory('a1', 'session token', 'abc', { ttlSeconds: 60 });
+
+    expect(body).toEqual({ value: 'abc', ttl_seconds: 60 });
+  });
+
+  it('should restore an exported snapshot into a clone, skipping expired entries', async () => {
+    const future = new Date(Date.now() + 3600 * 1000).toISOString();
+    const past = new Date(Date.now() - 1000).toISOString();
+    let batch: any;
+    routes['GET /agents/a1/memory'] = () => ({
+      body: {
+        entries: [
+          { key: 'profile', value: { tone: 'formal' }, expires_at: null },
+          { key: 'cache:quote', value: 42, expires_at: future },
+          { key: 'cache:stale', value: 1, expires_at: past },
+        ],
+      },
+    });
+    routes['POST /agents/a1/clone'] = () => ({ body: { ...agent(2), id: 'a2' } });
+    routes['POST /agents/a2/memory/batch'] = (_req, b) => {
+      batch = b;
+      return { body: { message: 'ok', agent_id: 'a2', keys: b.entries.map((e: any) => e.key) } };
+    };
+
+    const clone = await createClient().agents.cloneAgent('a1', 'Agent copy', {}, { copyMemory: true });
+
+    expect(clone.id).toBe('a2');
+    expect(requests).toEqual(['GET /agents/a1/memory', 'POST /agents/a1/clone', 'POST /agents/a2/memory/batch']);
+    expect(queries[0].get('include_values')).toBe('true');
+    expect(batch.atomic).toBe(true);
+    expect(batch.entries.map((e: any) => e.key)).toEqual(['profile', 'cache:quote']);
+    expect(batch.entries[0].ttl_seconds).toBeUndefined();
+    expect(batch.entries[1].ttl_seconds).toBeGreaterThan(3500);
+  });
+
+  it('should replace memory within the import batch and leave it untouched when the batch fails', async () => {
+    const snapshot = { format_version: 1 as const, agent_id: 'a1', exported_at: '', entries: [{ key: 'profile', value: {} }] };
+    let batch: any;
+    routes['POST /agents/a2/memory/batch'] = (_req, b) => {
+      batch = b;
+      return { status: 400, body: { message: 'Entry 1 is invalid' } };
+    };
+
+    await expect(createClient().agents.importAgentMemory('a2', snapshot, { clear: true })).rejects.toBeInstanceOf(ValidationError);
+
+    expect(requests).toEqual(['POST /agents/a2/memory/batch']);
+    expect(batch.replace).toBe(true);
+  });
+
+  it('should reject snapshots in an unknown format', async () => {
+    const snapshot = { format_version: 2, agent_id: 'a1', exported_at: '', entries: [] } as any;
+
+    await expect(createClient().agents.importAgentMemory('a1', snapshot)).rejects.toBeInstanceOf(ValidationError);
+    expect(requests).toEqual([]);
+  });
+});
+
+describe('toPage', () => {
+  it('should trust has_more over the total', () => {
+    const page = toPage({ data: [1, 2], total: 2, has_more: true }, { pageSize: 2 });
+    expect(page).toEqual({ items: [1, 2], offset: 0, total: 2, nextCursor: undefined, hasMore: true });
+  });
+
+  it('should read the backend pagination envelope', () => {
+    const response = { data: ['c', 'd'], pagination: { total: 5, page: 2, limit: 2, has_next: true, has_prev: true } };
+    expect(toPage(response, { pageSize: 2, offset: 2 })).toEqual({
+      items: ['c', 'd'],
+      offset: 2,
+      total: 5,
+      nextCursor: undefined,
+      hasMore: true,
+    });
+  });
+
+  it('should treat an envelope without pagination metadata as one page of the listing', () => {
+    expect(toPage({ tasks: [1, 2], count: 2 }, { pageSize: 2 }, 'tasks')).toEqual({ items: [1, 2], offset: 0, hasMore: true });
+    expect(toPage({ tasks: [3], count: 1 }, { pageSize: 2, offset: 2 }, 'tasks')).toEqual({ items: [3], offset: 2, hasMore: false });
+  });
+
+  it('should stop on an empty page even if the backend claims more', () => {
+    expect(toPage({ items: [], has_more: true }, { pageSize: 2, offset: 4 }).hasMore).toBe(false);
+  });
+});
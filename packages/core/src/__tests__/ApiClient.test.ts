@@ -0,0 +1,184 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { JuliaOSClientTS, IDEMPOTENCY_KEY_HEADER } from '../api/ApiClient';
+import { ApiClientError } from '../api/errors';
+import { computeBackoffDelay, parseRetryAfter, DEFAULT_RETRY_POLICY } from '../api/retry';
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  headers: http.IncomingHttpHeaders;
+}
+
+type Responder = (req: http.IncomingMessage, res: http.ServerResponse, index: number) => void;
+
+describe('JuliaOSClientTS retries', () => {
+  let server: http.Server;
+  let baseURL: string;
+  let requests: RecordedRequest[];
+  let responders: Responder[];
+
+  const reply = (status: number, body: any, headers: Record<string, string> = {}): Responder =>
+    (_req, res) => {
+      res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+      res.end(JSON.stringify(body));
+    };
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const index = requests.length;
+      requests.push({ method: req.method!, url: req.url!, headers: req.headers });
+      req.resume();
+      req.on('end', () => {
+        const responder = responders[Math.min(index, responders.length - 1)];
+        responder(req, res, index);
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/v1`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    responders = [];
+  });
+
+  const fastRetry = { baseDelayMs: 1, maxDelayMs: 5, jitter: false };
+
+  it('should retry transient 503 responses and return the eventual result', async () => {
+    responders = [
+      reply(503, { error: { message: 'unavailable' } }),
+      reply(503, { error: { message: 'unavailable' } }),
+      reply(200, [{ id: 'agent1' }]),
+    ];
+    const client = new JuliaOSClientTS(baseURL, undefined, { retry: fastRetry });
+
+    const result = await client.get('/agents');
+
+    expect(result).toEqual([{ id: 'agent1' }]);
+    expect(requests).toHaveLength(3);
+  });
+
+  it('should give up after maxRetries and throw an ApiClientError', async () => {
+    responders = [reply(502, { message: 'bad gateway' })];
+    const client = new JuliaOSClientTS(baseURL, undefined, { retry: { ...fastRetry, maxRetries: 2 } });
+
+    await expect(client.get('/agents')).rejects.toMatchObject({ statusCode: 502 });
+    expect(requests).toHaveLength(3);
+  });
+
+  it('should not retry non-retryable statuses', async () => {
+    responders = [reply(404, { error: { message: 'Agent not found', error_code: 'not_found' } })];
+    const client = new JuliaOSClientTS(baseURL, undefined, { retry: fastRetry });
+
+    await expect(client.get('/agents/missing')).rejects.toBeInstanceOf(ApiClientError);
+    expect(requests).toHaveLength(1);
+  });
+
+  it('should send the same idempotency key on every retry of a POST', async () => {
+    responders = [reply(503, {}), reply(200, { success: true, task_id: 't1' })];
+    const client = new JuliaOSClientTS(baseURL, undefined, { retry: fastRetry, idempotencyKeys: true });
+
+    await client.agents.executeTask('agent1', { ability: 'ping' });
+
+    const header = IDEMPOTENCY_KEY_HEADER.toLowerCase();
+    expect(requests).toHaveLength(2);
+    expect(requests[0].headers[header]).toBeTruthy();
+    expect(requests[1].headers[header]).toBe(requests[0].headers[header]);
+  });
+
+  it('should use a caller-supplied idempotency key', async () => {
+    responders = [reply(200, { success: true, task_id: 't1' })];
+    const client = new JuliaOSClientTS(baseURL);
+
+    await client.agents.executeTask('agent1', { ability: 'ping' }, { idempotencyKey: 'event-42' });
+
+    expect(requests[0].headers[IDEMPOTENCY_KEY_HEADER.toLowerCase()]).toBe('event-42');
+  });
+
+  it('should not retry POSTs without an idempotency key by default', async () => {
+    responders = [reply(503, {})];
+    const client = new JuliaOSClientTS(baseURL, undefined, { retry: fastRetry });
+
+    await expect(client.post('/agents/agent1/tasks', { ability: 'ping' })).rejects.toMatchObject({ statusCode: 503 });
+    expect(requests).toHaveLength(1);
+    expect(requests[0].headers[IDEMPOTENCY_KEY_HEADER.toLowerCase()]).toBeUndefined();
+  });
+
+  it('should stop retrying once the request is aborted', async () => {
+    const controller = new AbortController();
+    // Abort while the client waits to retry
+    responders = [
+      (req, res, index) => {
+        reply(503, {})(req, res, index);
+        setTimeout(() => controller.abort(), 200);
+      },
+    ];
+    const client = new JuliaOSClientTS(baseURL, undefined, { retry: { ...fastRetry, baseDelayMs: 5000, maxDelayMs: 5000 } });
+
+    const started = Date.now();
+    const request = client.get('/agents', { signal: controller.signal });
+
+    await expect(request).rejects.toMatchObject({ statusCode: 503 });
+    expect(requests).toHaveLength(1);
+    expect(Date.now() - started).toBeLessThan(2000);
+  });
+
+  it('should honor Retry-After on 429 responses', async () => {
+    responders = [reply(429, {}, { 'Retry-After': '0.2' }), reply(200, { ok: true })];
+    const client = new JuliaOSClientTS(baseURL, undefined, { retry: { ...fastRetry, maxDelayMs: 1000 } });
+
+    const started = Date.now();
+    await client.get('/status');
+
+    expect(requests).toHaveLength(2);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(180);
+  });
+
+  it('should allow per-request overrides of the retry policy', async () => {
+    responders = [reply(503, {})];
+    const client = new JuliaOSClientTS(baseURL, undefined, { retry: fastRetry });
+
+    await expect(client.get('/agents', { retry: false })).rejects.toMatchObject({ statusCode: 503 });
+    expect(requests).toHaveLength(1);
+  });
+
+  it('should retry network errors', async () => {
+    let calls = 0;
+    responders = [
+      (_req, res) => {
+        calls++;
+        res.socket?.destroy();
+      },
+      reply(200, { ok: true }),
+    ];
+    const client = new JuliaOSClientTS(baseURL, undefined, { retry: fastRetry });
+
+    await expect(client.get('/status')).resolves.toEqual({ ok: true });
+    expect(calls).toBe(1);
+  });
+});
+
+describe('retry helpers', () => {
+  it('should grow the backoff exponentially up to maxDelayMs', () => {
+    const policy = { ...DEFAULT_RETRY_POLICY, baseDelayMs: 100, maxDelayMs: 1000, jitter: false };
+    expect([1, 2, 3, 4, 5].map(retry => computeBackoffDelay(retry, policy))).toEqual([100, 200, 400, 800, 1000]);
+  });
+
+  it('should apply full jitter within the computed bound', () => {
+    const policy = { ...DEFAULT_RETRY_POLICY, baseDelayMs: 100, jitter: true };
+    expect(computeBackoffDelay(3, policy, () => 0.5)).toBe(200);
+  });
+
+  it('should parse Retry-After seconds and HTTP dates', () => {
+    const now = Date.parse('2025-01-01T00:00:00Z');
+    expect(parseRetryAfter('3', now)).toBe(3000);
+    expect(parseRetryAfter('Wed, 01 Jan 2025 00:00:05 GMT', now)).toBe(5000);
+    expect(parseRetryAfter('soon', now)).toBeUndefined();
+    expect(parseRetryAfter(undefined, now)).toBeUndefined();
+  });
+});
@@ -0,0 +1,105 @@
+import { ApprovalManager } from '../platform/ApprovalManager';
+import { Platform } from '../platform/Platform';
+import { RichMessage, toRichMessage } from '../platform/richMessage';
+import { InteractionData } from '../platform/types';
+
+// Records rich messages and lets tests click their buttons
+class ButtonConnector extends Platform {
+  public sent: RichMessage[] = [];
+  public replies: string[] = [];
+
+  async connect(): Promise<void> {
+    this.setConnected(true);
+  }
+
+  async disconnect(): Promise<void> {
+    this.setConnected(false);
+  }
+
+  async sendMessage(): Promise<void> {}
+
+  async sendRichMessage(message: RichMessage | string): Promise<void> {
+    this.sent.push(toRichMessage(message));
+  }
+
+  click(label: string, sender: string, senderName?: string): void {
+    const button = this.sent[this.sent.length - 1].actions!.find(action => action.type === 'button' && action.label === label)!;
+    const interaction: InteractionData = {
+      kind: 'button',
+      actionId: button.id,
+      values: [],
+      sender,
+      senderName,
+      channelId: 'c1',
+      timestamp: new Date(),
+      reply: async message => {
+        this.replies.push(message as string);
+      },
+    };
+    this.emit('interaction', interaction);
+  }
+}
+
+describe('ApprovalManager', () => {
+  let platform: ButtonConnector;
+  let approvals: ApprovalManager;
+
+  beforeEach(() => {
+    platform = new ButtonConnector({ name: 'mods', type: 'slack' });
+    approvals = new ApprovalManager();
+  });
+
+  afterEach(() => approvals.close());
+
+  it('should send the prompt with approve and reject buttons and resolve with the choice', async () => {
+    const decision = approvals.request(platform, 'c1', { prompt: 'Ban U123 for spam?' });
+    await new Promise(resolve => setImmediate(resolve));
+
+    const [prompt] = platform.sent;
+    expect(prompt.blocks).toEqual(toRichMessage('Ban U123 for spam?').blocks);
+    expect(prompt.actions!.map(action => action.type === 'button' && [action.label, action.style])).toEqual([
+      ['Approve', 'primary'],
+      ['Reject', 'danger'],
+    ]);
+
+    platform.click('Approve', 'U1', 'alice');
+    await expect(decision).resolves.toMatchObject({ status: 'approved', approved: true, decidedBy: 'U1', decidedByName: 'alice' });
+    expect(platform.replies).toEqual(['Approved by alice.']);
+    expect(approvals.pendingIds()).toEqual([]);
+  });
+
+  it('should only accept decisions from the approvers', async () => {
+    const decision = approvals.request(platform, 'c1', { prompt: 'Publish the thread?', approvers: ['U2'] });
+    await new Promise(resolve => setImmediate(resolve));
+
+    platform.click('Approve', 'U1');
+    expect(platform.replies).toEqual(['You are not allowed to decide this request.']);
+    expect(approvals.pendingIds()).toHaveLength(1);
+
+    platform.click('Reject', 'U2');
+    await expect(decision).resolves.toMatchObject({ status: 'rejected', approved: false, decidedBy: 'U2' });
+
+    platform.click('Approve', 'U2');
+    expect(platform.replies[platform.replies.length - 1]).toBe('This request is no longer pending.');
+  });
+
+  it('should expire unanswered requests and support cancelling', async () => {
+    const expired = approvals.request(platform, 'c1', { prompt: 'Ban?', timeoutMs: 20 });
+    await expect(expired).resolves.toMatchObject({ status: 'expired', approved: false });
+
+    const cancelled = approvals.request(platform, 'c1', { prompt: 'Ban?' });
+    await new Promise(resolve => setImmediate(resolve));
+    expect(approvals.cancel(approvals.pendingIds()[0])).toBe(true);
+    await expect(cancelled).resolves.toMatchObject({ status: 'cancelled' });
+  });
+
+  it('should ignore other interactions and reject when the prompt cannot be sent', async () => {
+    expect(approvals.handle({ kind: 'button', actionId: 'refresh', values: [], sender: 'U1', timestamp: new Date() })).toBe(false);
+
+    platform.sendRichMessage = async () => {
+      throw new Error('channel_not_found');
+    };
+    await expect(approvals.request(platform, 'c1', { prompt: 'Ban?' })).rejects.toThrow('channel_not_found');
+    expect(approvals.pendingIds()).toEqual([]);
+  });
+});
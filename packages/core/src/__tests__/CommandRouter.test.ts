@@ -0,0 +1,223 @@
+import { CommandRouter, CommandUsageError } from '../platform/CommandRouter';
+import { parseCommandLine, tokenizeCommandLine } from '../platform/commandLine';
+import { CommandData } from '../platform/types';
+import { FakeConnector } from './FakeConnector';
+
+class CommandConnector extends FakeConnector {
+  get texts(): string[] {
+    return this.sent.map(message => message.content);
+  }
+
+  receive(text: string, sender = 'u1'): void {
+    const parsed = parseCommandLine(text, this.getCommandPrefix()!);
+    if (parsed) this.emit('command', { ...parsed, sender, channelId: 'c1', timestamp: new Date() });
+  }
+}
+
+const commandData = (text: string, sender = 'u1'): CommandData => ({
+  ...parseCommandLine(text, '/')!,
+  sender,
+  channelId: 'c1',
+  timestamp: new Date(),
+});
+
+describe('tokenizeCommandLine', () => {
+  it('should split on whitespace and honour quotes and escapes', () => {
+    expect(tokenizeCommandLine('  a  b\tc ')).toEqual(['a', 'b', 'c']);
+    expect(tokenizeCommandLine(`note "hello world" --tag="a b" x\\ y \\"hi\\" ""`)).toEqual([
+      'note', 'hello world', '--tag=a b', 'x y', '"hi"', '',
+    ]);
+    expect(tokenizeCommandLine('say "unterminated quote')).toEqual(['say', 'unterminated quote']);
+  });
+
+  it('should keep apostrophes inside words', () => {
+    expect(parseCommandLine("/ask what's the price of ETH today", '/')!.args).toEqual(["what's", 'the', 'price', 'of', 'ETH', 'today']);
+    expect(parseCommandLine("/ban @bob he's spamming, don't let him back", '/')!.args).toEqual([
+      '@bob', "he's", 'spamming,', "don't", 'let', 'him', 'back',
+    ]);
+    expect(tokenizeCommandLine("'tis rock'n'roll 'quoted'")).toEqual(["'tis", "rock'n'roll", "'quoted'"]);
+    expect(tokenizeCommandLine('"it\'s here"')).toEqual(["it's here"]);
+  });
+
+  it('should keep backslashes that do not escape a quote or space', () => {
+    expect(tokenizeCommandLine('open C:\\Users\\bob \\d+\\.\\d+')).toEqual(['open', 'C:\\Users\\bob', '\\d+\\.\\d+']);
+  });
+
+  it('should only parse messages starting with the prefix', () => {
+    expect(parseCommandLine('!ping a "b c"', '!')).toEqual({ command: 'ping', args: ['a', 'b c'], content: 'ping a "b c"' });
+    expect(parseCommandLine('ping', '!')).toBeUndefined();
+    expect(parseCommandLine('!  ', '!')).toBeUndefined();
+  });
+});
+
+describe('CommandRouter', () => {
+  const createRouter = (options: ConstructorParameters<typeof CommandRouter>[0] = {}) => {
+    const router = new CommandRouter(options);
+    router.command({
+      name: 'investigate',
+      aliases: ['inv'],
+      description: 'Investigate an address',
+      args: [{ name: 'address', description: 'Wallet or contract address' }],
+      options: [
+        { name: 'urgency', alias: 'u', choices: ['low', 'medium', 'high'], default: 'medium' },
+        { name: 'depth', type: 'integer', default: 1 },
+        { name: 'notify', type: 'boolean' },
+      ],
+      handler: ({ args, options }) => `Investigating ${args.address} (${options.urgency}, depth ${options.depth}, notify ${options.notify})`,
+    });
+    router.command({
+      name: 'agent',
+      description: 'Manage agents',
+      permission: 'admin',
+      subcommands: [
+        { name: 'start', args: [{ name: 'id' }], handler: ({ args }) => `Started ${args.id}` },
+        { name: 'tag', args: [{ name: 'id' }, { name: 'tags', variadic: true }], handler: ({ args }) => `${args.id}: ${args.tags.join(',')}` },
+      ],
+    });
+    return router;
+  };
+
+  it('should parse typed arguments and options', async () => {
+    const router = createRouter();
+    const platform = new CommandConnector({ name: 'tg', type: 'telegram' });
+
+    const result = await router.dispatch(platform, commandData('/investigate 0xabc --urgency high --depth=3 --notify'));
+    expect(result.status).toBe('handled');
+    expect(result.path).toEqual(['investigate']);
+    expect(platform.texts).toEqual(['Investigating 0xabc (high, depth 3, notify true)']);
+
+    await router.dispatch(platform, commandData('/INV "0x def" -u low --no-notify'));
+    expect(platform.texts[1]).toBe('Investigating 0x def (low, depth 1, notify false)');
+  });
+
+  it('should reply to the command in its thread', async () => {
+    const router = createRouter();
+    const platform = new CommandConnector({ name: 'tg', type: 'telegram' });
+
+    await router.dispatch(platform, { ...commandData('/investigate 0xabc'), messageId: '42' });
+    await router.dispatch(platform, { ...commandData('/investigate 0xdef'), messageId: '43', threadId: 't1' });
+
+    expect(platform.sent.map(message => message.options)).toEqual([{ replyTo: '42' }, { threadId: 't1', replyTo: '43' }]);
+  });
+
+  it('should reply with the error and usage on invalid input', async () => {
+    const router = createRouter();
+    const platform = new CommandConnector({ name: 'tg', type: 'telegram', parameters: { commandPrefix: '!' } });
+
+    const cases: Array<[string, string]> = [
+      ['/investigate', 'Missing required argument <address>'],
+      ['/investigate 0xabc --urgency extreme', 'Option --urgency must be one of: low, medium, high'],
+      ['/investigate 0xabc --depth 1.5', 'Option --depth must be an integer'],
+      ['/investigate 0xabc --depth', 'Option --depth requires a value'],
+      ['/investigate 0xabc --bogus', "Unknown option '--bogus'"],
+      ['/investigate 0xabc extra', "Unexpected argument 'extra'"],
+    ];
+    for (const [input, message] of cases) {
+      const result = await router.dispatch(platform, commandData(input));
+      expect(result.status).toBe('usage');
+      expect(result.reply).toContain(message);
+      expect(result.reply).toContain('Usage: !investigate <address> [--urgency <low|medium|high>] [--depth <depth>] [--notify]');
+    }
+  });
+
+  it('should resolve subcommands and enforce permissions on the whole chain', async () => {
+    const admins = new Set(['root']);
+    const router = createRouter({ checkPermission: (permission, { message }) => permission === 'admin' && admins.has(message.sender) });
+    const platform = new CommandConnector({ name: 'dc', type: 'discord' });
+
+    const denied = await router.dispatch(platform, commandData('/agent start a1', 'guest'));
+    expect(denied.status).toBe('denied');
+
+    const started = await router.dispatch(platform, commandData('/agent start a1', 'root'));
+    expect(started).toMatchObject({ status: 'handled', path: ['agent', 'start'], reply: 'Started a1' });
+
+    const tagged = await router.dispatch(platform, commandData('/agent tag a1 defi "market maker"', 'root'));
+    expect(tagged.reply).toBe('a1: defi,market maker');
+
+    const group = await router.dispatch(platform, commandData('/agent', 'root'));
+    expect(group.status).toBe('usage');
+    expect(group.reply).toContain('Usage: /agent <subcommand>');
+    expect(group.reply).toContain('  start');
+  });
+
+  it('should deny named permissions without a resolver and support predicates', async () => {
+    const router = createRouter();
+    router.command({ name: 'secret', permission: ({ message }) => message.sender === 'owner', handler: () => 'ok' });
+    const platform = new CommandConnector({ name: 'dc', type: 'discord' });
+
+    expect((await router.dispatch(platform, commandData('/agent start a1', 'root'))).status).toBe('denied');
+    expect((await router.dispatch(platform, commandData('/secret', 'owner'))).status).toBe('handled');
+    expect((await router.dispatch(platform, commandData('/secret', 'other'))).status).toBe('denied');
+  });
+
+  it('should generate help from the definitions', async () => {
+    const router = createRouter();
+    router.command({ name: 'debug', hidden: true, handler: () => 'debug' });
+    const platform = new CommandConnector({ name: 'tg', type: 'telegram' });
+
+    const overview = await router.dispatch(platform, commandData('/help'));
+    expect(overview.status).toBe('help');
+    expect(overview.reply).toContain('/investigate <address>');
+    expect(overview.reply).toContain('Investigate an address');
+    expect(overview.reply).toContain('/agent <subcommand> - Manage agents');
+    expect(overview.reply).not.toContain('debug');
+
+    const detail = router.help(['investigate']);
+    expect(detail).toContain('Aliases: inv');
+    expect(detail).toContain('  address - Wallet or contract address');
+    expect(detail).toContain('  -u, --urgency (default: medium)');
+    expect(detail).toContain('  --depth (integer, default: 1)');
+    expect(router.help(['agent', 'tag'])).toContain('Usage: /agent tag <id> <tags...>');
+    expect(router.help(['nope'])).toBe("Unknown command 'nope'. Use /help to list commands.");
+  });
+
+  it('should leave unknown commands alone unless asked to reply', async () => {
+    const platform = new CommandConnector({ name: 'tg', type: 'telegram' });
+    expect((await createRouter().dispatch(platform, commandData('/nope'))).status).toBe('unknown');
+    expect(platform.texts).toHaveLength(0);
+
+    await createRouter({ replyToUnknown: true }).dispatch(platform, commandData('/nope'));
+    expect(platform.texts).toEqual(["Unknown command 'nope'. Use /help to list commands."]);
+  });
+
+  it('should report handler failures and surface usage errors thrown by handlers', async () => {
+    const onError = jest.fn();
+    const router = new CommandRouter({ onError });
+    router.command({ name: 'crash', handler: () => { throw new Error('boom'); } });
+    router.command({ name: 'check', args: [{ name: 'value', type: 'number' }], handler: ({ args }) => {
+      if (args.value < 0) throw new CommandUsageError('Value must be positive');
+      return 'fine';
+    } });
+    const platform = new CommandConnector({ name: 'tg', type: 'telegram' });
+
+    expect((await router.dispatch(platform, commandData('/crash'))).status).toBe('error');
+    expect(onError.mock.calls[0][0].message).toBe('boom');
+
+    const negative = await router.dispatch(platform, commandData('/check -- -5'));
+    expect(negative.reply).toBe('Value must be positive\nUsage: /check <value>');
+    expect((await router.dispatch(platform, commandData('/check -5'))).reply).toBe('Value must be positive\nUsage: /check <value>');
+  });
+
+  it('should reject duplicate command names', () => {
+    const router = createRouter();
+    expect(() => router.command({ name: 'inv' })).toThrow(/already registered/);
+    expect(() => router.command({ name: 'help' })).toThrow(/already registered/);
+  });
+
+  it('should handle commands emitted by attached platforms', async () => {
+    const router = createRouter();
+    const platform = new CommandConnector({ name: 'mx', type: 'matrix', parameters: { commandPrefix: '!' } });
+    router.attach(platform);
+
+    platform.receive('!investigate 0xabc -u high');
+    platform.receive('!help agent');
+    await router.drain();
+
+    expect(platform.texts).toHaveLength(2);
+    expect(platform.texts).toContain('Investigating 0xabc (high, depth 1, notify undefined)');
+    expect(platform.texts.find(text => text.startsWith('Usage:'))).toContain('Usage: !agent <subcommand>');
+
+    router.detach(platform);
+    expect(platform.listenerCount('command')).toBe(0);
+  });
+});
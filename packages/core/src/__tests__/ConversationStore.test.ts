@@ -0,0 +1,169 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  ConversationStore,
+  FileConversationStorage,
+  MemoryConversationStorage,
+  SqliteConversationStorage,
+  SqliteDatabase,
+} from '../platform/ConversationStore';
+import { MessageData } from '../platform/types';
+import { FakeConnector } from './FakeConnector';
+
+// Threads span channels, like tweet conversations
+class ThreadedConnector extends FakeConnector {
+  getConversationKey(data: MessageData): string | undefined {
+    return data.threadId ? `thread:${data.threadId}` : data.channelId;
+  }
+}
+
+let sequence = 0;
+const message = (content: string, fields: Partial<MessageData> = {}): MessageData => ({
+  content,
+  sender: 'u1',
+  senderName: 'alice',
+  channelId: 'chat-1',
+  messageId: `m${++sequence}`,
+  timestamp: new Date(),
+  ...fields,
+});
+
+// Just enough of a SQLite driver to run the storage's statements
+class FakeSqlite implements SqliteDatabase {
+  public tables: string[] = [];
+  public rows: Map<string, { messages: string }> = new Map();
+
+  exec(sql: string) {
+    this.tables.push(sql);
+  }
+
+  prepare(sql: string) {
+    return {
+      run: (id: unknown, messages?: unknown) => {
+        if (sql.startsWith('DELETE')) this.rows.delete(id as string);
+        else this.rows.set(id as string, { messages: messages as string });
+      },
+      get: (id: unknown) => this.rows.get(id as string),
+    };
+  }
+}
+
+describe('ConversationStore', () => {
+  const telegram = new FakeConnector({ name: 'tg', type: 'telegram' });
+
+  it('should group messages by channel and thread', async () => {
+    const store = new ConversationStore();
+    await store.record(telegram, message('hello'));
+    await store.record(telegram, message('in a topic', { threadId: '7' }));
+    const conversation = await store.record(telegram, message('again'));
+
+    expect(conversation!.id).toBe('tg:chat-1');
+    expect(conversation!.messages.map(m => m.content)).toEqual(['hello', 'again']);
+    expect((await store.get('tg:chat-1/7')).messages).toHaveLength(1);
+  });
+
+  it('should follow reply chains into the replied conversation', async () => {
+    const store = new ConversationStore();
+    const root = message('question', { threadId: 't1' });
+    await store.record(telegram, root);
+
+    // Replies without a thread join the conversation of the message they reply to
+    const reply = await store.record(telegram, message('follow-up', { replyTo: root.messageId }));
+    expect(reply!.id).toBe('tg:chat-1/t1');
+
+    const agent = await store.recordReply(reply!.id, 'answer', { platform: telegram, messageId: 'bot-1' });
+    expect(agent.messages.map(m => m.role)).toEqual(['user', 'user', 'agent']);
+
+    const next = await store.record(telegram, message('thanks', { replyTo: 'bot-1' }));
+    expect(next!.id).toBe('tg:chat-1/t1');
+
+    // Unknown replied messages fall back to the channel
+    expect(store.resolve(telegram, message('?', { replyTo: 'unknown' }))).toBe('tg:chat-1');
+  });
+
+  it('should let connectors scope threads across channels', async () => {
+    const twitter = new ThreadedConnector({ name: 'x', type: 'twitter' });
+    const store = new ConversationStore();
+    await store.record(twitter, message('first', { channelId: 'tweet:1', threadId: '1' }));
+    const conversation = await store.record(twitter, message('second', { channelId: 'tweet:2', threadId: '1' }));
+
+    expect(conversation!.id).toBe('x:thread:1');
+    expect(conversation!.messages).toHaveLength(2);
+  });
+
+  it('should keep a bounded rolling history', async () => {
+    const store = new ConversationStore({ maxMessages: 3, maxAgeMs: 60_000 });
+    await store.record(telegram, message('stale', { timestamp: new Date(Date.now() - 120_000) }));
+    for (const content of ['a', 'b', 'c', 'd']) await store.record(telegram, message(content));
+
+    expect((await store.get('tg:chat-1')).messages.map(m => m.content)).toEqual(['b', 'c', 'd']);
+
+    await store.clear('tg:chat-1');
+    expect((await store.get('tg:chat-1')).messages).toEqual([]);
+  });
+
+  it('should not record messages outside any channel', async () => {
+    const store = new ConversationStore();
+    expect(await store.record(telegram, message('dm', { channelId: undefined }))).toBeUndefined();
+  });
+
+  it('should serialise concurrent updates to a conversation', async () => {
+    const storage = new MemoryConversationStorage();
+    const load = storage.load.bind(storage);
+    // Slow reads would lose updates without the per-conversation queue
+    jest.spyOn(storage, 'load').mockImplementation(async id => {
+      await new Promise(resolve => setTimeout(resolve, 2));
+      return load(id);
+    });
+    const store = new ConversationStore({ storage });
+
+    await Promise.all(['a', 'b', 'c'].map(content => store.record(telegram, message(content))));
+
+    expect((await store.get('tg:chat-1')).messages.map(m => m.content)).toEqual(['a', 'b', 'c']);
+  });
+});
+
+describe('FileConversationStorage', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'conversations-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should persist histories across stores', async () => {
+    const telegram = new FakeConnector({ name: 'tg', type: 'telegram' });
+    const timestamp = new Date('2025-01-01T00:00:00Z');
+    await new ConversationStore({ storage: new FileConversationStorage(directory) }).record(
+      telegram,
+      message('hello', { channelId: '-100/1', timestamp })
+    );
+
+    const reopened = new ConversationStore({ storage: new FileConversationStorage(directory) });
+    const { messages } = await reopened.get('tg:-100/1');
+    expect(messages).toEqual([expect.objectContaining({ role: 'user', content: 'hello', sender: 'u1', timestamp })]);
+    expect(await new FileConversationStorage(directory).load('missing')).toBeUndefined();
+
+    await reopened.clear('tg:-100/1');
+    expect(await fs.readdir(directory)).toEqual([]);
+  });
+});
+
+describe('SqliteConversationStorage', () => {
+  it('should store histories as rows', async () => {
+    const db = new FakeSqlite();
+    const storage = new SqliteConversationStorage(db);
+    const timestamp = new Date('2025-01-01T00:00:00Z');
+
+    await storage.save('tg:chat-1', [{ role: 'agent', content: 'hi', timestamp }]);
+    expect(db.tables[0]).toContain('CREATE TABLE IF NOT EXISTS conversations');
+    expect(await storage.load('tg:chat-1')).toEqual([{ role: 'agent', content: 'hi', timestamp }]);
+
+    await storage.delete('tg:chat-1');
+    expect(await storage.load('tg:chat-1')).toBeUndefined();
+  });
+});
@@ -0,0 +1,217 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { EventsClient, WebSocketLike, WebSocketOptions } from '../api/EventsClient';
+import { EventStreamState, RealtimeEvent } from '../api/types';
+
+const agentStatus = (id: string, agentId: string): RealtimeEvent<'agent_status'> => ({
+  id,
+  type: 'agent_status',
+  payload: { agent_id: agentId, status: 'healthy', last_execution: null, success_rate: 1 },
+  timestamp: '2025-01-01T00:00:00Z',
+});
+
+const swarmChange = (id: string, swarmId: string): RealtimeEvent<'swarm_change'> => ({
+  id,
+  type: 'swarm_change',
+  payload: { swarm_id: swarmId, status: 'SWARM_RUNNING' },
+  timestamp: '2025-01-01T00:00:00Z',
+});
+
+const waitFor = async (condition: () => boolean, timeoutMs = 2000) => {
+  const started = Date.now();
+  while (!condition()) {
+    if (Date.now() - started > timeoutMs) throw new Error('Timed out waiting for condition');
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+};
+
+describe('EventsClient over SSE', () => {
+  let server: http.Server;
+  let baseURL: string;
+  let connections: http.IncomingMessage[];
+  let onConnection: (req: http.IncomingMessage, res: http.ServerResponse, index: number) => void;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      connections.push(req);
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      onConnection(req, res, connections.length - 1);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/v1`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    connections = [];
+  });
+
+  const send = (res: http.ServerResponse, event: RealtimeEvent) => {
+    res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  };
+
+  it('should deliver only events matching a subscription filter', async () => {
+    onConnection = (_req, res) => {
+      res.write(': keep-alive\n\n');
+      send(res, agentStatus('1', 'other'));
+      send(res, swarmChange('2', 's1'));
+      send(res, agentStatus('3', 'a1'));
+    };
+    const client = new EventsClient(baseURL, 'secret', { transport: 'sse' });
+    const received: RealtimeEvent<'agent_status'>[] = [];
+
+    const subscription = client.on('agent_status', event => received.push(event), { agentId: 'a1' });
+    await waitFor(() => received.length === 1);
+    subscription.unsubscribe();
+
+    expect(received[0].payload.agent_id).toBe('a1');
+    expect(connections[0].url).toBe('/api/v1/events');
+    expect(connections[0].headers['x-api-key']).toBe('secret');
+    expect(client.getCursor()).toBe('3');
+    expect(client.getState()).toBe('disconnected');
+  });
+
+  it('should reconnect and resume from the last event ID', async () => {
+    onConnection = (_req, res, index) => {
+      if (index === 0) {
+        send(res, swarmChange('7', 's1'));
+        res.end(); // Drop the stream to force a reconnect
+      } else {
+        send(res, swarmChange('8', 's1'));
+      }
+    };
+    const client = new EventsClient(baseURL, undefined, { transport: 'sse', reconnect: { baseDelayMs: 1, jitter: false } });
+    const received: string[] = [];
+    const states: EventStreamState[] = [];
+    client.onStateChange(state => states.push(state));
+
+    client.subscribe({ swarmId: 's1' }, event => received.push(event.id!));
+    await waitFor(() => received.length === 2);
+    client.disconnect();
+
+    expect(received).toEqual(['7', '8']);
+    expect(connections[1].headers['last-event-id']).toBe('7');
+    expect(connections[1].url).toBe('/api/v1/events?cursor=7');
+    expect(states).toEqual(['connecting', 'connected', 'reconnecting', 'connected', 'disconnected']);
+  });
+});
+
+describe('EventsClient over WebSocket', () => {
+  class FakeWebSocket implements WebSocketLike {
+    static instances: FakeWebSocket[] = [];
+    onopen: ((event: any) => void) | null = null;
+    onmessage: ((event: { data: any }) => void) | null = null;
+    onclose: ((event: any) => void) | null = null;
+    onerror: ((event: any) => void) | null = null;
+    closed = false;
+
+    constructor(public url: string, _protocols?: string | string[], public options?: WebSocketOptions) {
+      FakeWebSocket.instances.push(this);
+    }
+
+    close(): void {
+      this.closed = true;
+    }
+
+    // Test helpers
+    open(): void {
+      this.onopen?.({});
+    }
+
+    deliver(event: RealtimeEvent): void {
+      this.onmessage?.({ data: JSON.stringify(event) });
+    }
+
+    drop(code = 1006): void {
+      this.onclose?.({ code });
+    }
+  }
+
+  beforeEach(() => {
+    FakeWebSocket.instances = [];
+  });
+
+  const createClient = (options: { apiKeyInQuery?: boolean } = {}) =>
+    new EventsClient('https://juliaos.example/api/v1', 'secret', {
+      WebSocket: FakeWebSocket,
+      reconnect: { baseDelayMs: 1, jitter: false },
+      ...options,
+    });
+
+  it('should connect with the API key in a header and route events by type', () => {
+    const client = createClient();
+    const statuses: string[] = [];
+    const swarms: string[] = [];
+    client.on('agent_status', event => statuses.push(event.payload.agent_id));
+    client.on('swarm_change', event => swarms.push(event.payload.swarm_id));
+
+    const socket = FakeWebSocket.instances[0];
+    socket.open();
+    socket.deliver(agentStatus('1', 'a1'));
+    socket.deliver(swarmChange('2', 's1'));
+
+    expect(FakeWebSocket.instances).toHaveLength(1);
+    expect(socket.url).toBe('wss://juliaos.example/api/v1/events');
+    expect(socket.options).toEqual({ headers: { 'X-API-Key': 'secret' } });
+    expect(statuses).toEqual(['a1']);
+    expect(swarms).toEqual(['s1']);
+  });
+
+  it('should fall back to the api_key URL parameter where handshake headers are unavailable', () => {
+    const client = createClient({ apiKeyInQuery: true });
+    client.on('agent_status', () => undefined);
+
+    const socket = FakeWebSocket.instances[0];
+    expect(socket.url).toBe('wss://juliaos.example/api/v1/events?api_key=secret');
+    expect(socket.options).toBeUndefined();
+  });
+
+  it('should reconnect with the resume cursor after an abnormal close', async () => {
+    const client = createClient();
+    client.subscribe({}, () => undefined);
+    FakeWebSocket.instances[0].open();
+    FakeWebSocket.instances[0].deliver(agentStatus('41', 'a1'));
+    FakeWebSocket.instances[0].drop();
+
+    expect(client.getState()).toBe('reconnecting');
+    await waitFor(() => FakeWebSocket.instances.length === 2);
+    expect(FakeWebSocket.instances[1].url).toContain('cursor=41');
+
+    FakeWebSocket.instances[1].open();
+    expect(client.getState()).toBe('connected');
+    client.disconnect();
+  });
+
+  it('should report handler exceptions without dropping other subscribers', () => {
+    const client = createClient();
+    const errors: Error[] = [];
+    const received: string[] = [];
+    client.onError(error => errors.push(error));
+    client.subscribe({}, () => {
+      throw new Error('handler failed');
+    });
+    client.subscribe({}, event => received.push(event.id!));
+
+    FakeWebSocket.instances[0].open();
+    FakeWebSocket.instances[0].deliver(agentStatus('1', 'a1'));
+
+    expect(errors.map(e => e.message)).toEqual(['handler failed']);
+    expect(received).toEqual(['1']);
+  });
+
+  it('should close the socket when the last subscription is removed', () => {
+    const client = createClient();
+    const first = client.subscribe({ types: ['agent_status'] }, () => undefined);
+    const second = client.on('execution_update', () => undefined, { agentId: 'a1' });
+
+    first.unsubscribe();
+    expect(FakeWebSocket.instances[0].closed).toBe(false);
+    second.unsubscribe();
+    expect(FakeWebSocket.instances[0].closed).toBe(true);
+    expect(client.getState()).toBe('disconnected');
+  });
+});
@@ -0,0 +1,19 @@
+import { Platform } from '../platform/Platform';
+import { SendOptions } from '../platform/types';
+
+// Connector that records what it sends; tests subclass it for platform-specific behaviour
+export class FakeConnector extends Platform {
+  public sent: Array<{ content: string; channelId: string; options?: SendOptions }> = [];
+
+  async connect(): Promise<void> {
+    this.setConnected(true);
+  }
+
+  async disconnect(): Promise<void> {
+    this.setConnected(false);
+  }
+
+  async sendMessage(content: string, channelId: string, options?: SendOptions): Promise<void> {
+    this.sent.push({ content, channelId, options });
+  }
+}
@@ -0,0 +1,187 @@
+import { OutboundQueue, OutboundQueueError, defaultRetryAfter } from '../platform/OutboundQueue';
+import { Platform } from '../platform/Platform';
+
+// Records deliveries and fails on demand, like a platform API client
+class FakeTransport {
+  public delivered: string[] = [];
+  public calls: Array<{ text: string; at: number }> = [];
+  private failures: Map<string, unknown[]> = new Map();
+
+  failNext(text: string, ...errors: unknown[]): void {
+    this.failures.set(text, errors);
+  }
+
+  async send(text: string, latencyMs = 0): Promise<string> {
+    this.calls.push({ text, at: Date.now() });
+    if (latencyMs) await new Promise(resolve => setTimeout(resolve, latencyMs));
+    const pending = this.failures.get(text);
+    if (pending?.length) throw pending.shift();
+    this.delivered.push(text);
+    return `id:${text}`;
+  }
+}
+
+const telegramRateLimit = (retryAfterSeconds: number) =>
+  Object.assign(new Error('429: Too Many Requests'), {
+    response: { ok: false, error_code: 429, description: 'Too Many Requests', parameters: { retry_after: retryAfterSeconds } },
+  });
+
+describe('OutboundQueue', () => {
+  it('should keep per-chat order while running chats in parallel', async () => {
+    const transport = new FakeTransport();
+    const queue = new OutboundQueue();
+
+    const sends = [
+      queue.enqueue('a', () => transport.send('a1', 30)),
+      queue.enqueue('a', () => transport.send('a2', 0)),
+      queue.enqueue('b', () => transport.send('b1', 0)),
+      queue.enqueue('a', () => transport.send('a3', 5)),
+    ];
+    expect(queue.depth()).toBe(4);
+    expect(queue.depth('a')).toBe(3);
+
+    expect(await Promise.all(sends)).toEqual(['id:a1', 'id:a2', 'id:b1', 'id:a3']);
+    expect(transport.delivered.filter(text => text.startsWith('a'))).toEqual(['a1', 'a2', 'a3']);
+    expect(transport.delivered.indexOf('b1')).toBeLessThan(transport.delivered.indexOf('a1'));
+    expect(queue.getMetrics()).toMatchObject({ depth: 0, inFlight: 0, sent: 4, failed: 0, chats: {} });
+  });
+
+  it('should space sends to stay within the per-chat and global limits', async () => {
+    const transport = new FakeTransport();
+    const queue = new OutboundQueue({ perChat: { limit: 1, intervalMs: 40 }, global: { limit: 3, intervalMs: 100 } });
+
+    const started = Date.now();
+    await Promise.all([
+      queue.enqueue('a', () => transport.send('a1')),
+      queue.enqueue('a', () => transport.send('a2')),
+      queue.enqueue('b', () => transport.send('b1')),
+      queue.enqueue('c', () => transport.send('c1')),
+    ]);
+
+    const at = (text: string) => transport.calls.find(call => call.text === text)!.at - started;
+    expect(at('a2') - at('a1')).toBeGreaterThanOrEqual(38);
+    // The fourth send has to wait for the first global slot to expire
+    const times = transport.calls.map(call => call.at - started).sort((x, y) => x - y);
+    expect(times[3] - times[0]).toBeGreaterThanOrEqual(98);
+  });
+
+  it('should retry rate-limited sends after the retry-after without reordering the chat', async () => {
+    const transport = new FakeTransport();
+    const queue = new OutboundQueue({ maxRetryAfterMs: 30 });
+    transport.failNext('a1', telegramRateLimit(5));
+
+    const started = Date.now();
+    const sends = [
+      queue.enqueue('a', () => transport.send('a1')),
+      queue.enqueue('a', () => transport.send('a2')),
+    ];
+    await new Promise(resolve => setTimeout(resolve, 5));
+    expect(queue.getMetrics().pausedUntil).toBeGreaterThan(Date.now());
+
+    await Promise.all(sends);
+    expect(transport.delivered).toEqual(['a1', 'a2']);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(28);
+    expect(queue.getMetrics()).toMatchObject({ sent: 2, retried: 1, rateLimited: 1, failed: 0 });
+  });
+
+  it('should reject other errors immediately and continue with the chat', async () => {
+    const transport = new FakeTransport();
+    const queue = new OutboundQueue();
+    transport.failNext('a1', new Error('chat not found'));
+
+    const first = queue.enqueue('a', () => transport.send('a1'));
+    const second = queue.enqueue('a', () => transport.send('a2'));
+
+    await expect(first).rejects.toThrow('chat not found');
+    await expect(second).resolves.toBe('id:a2');
+    expect(transport.calls.map(call => call.text)).toEqual(['a1', 'a2']);
+    expect(queue.getMetrics()).toMatchObject({ sent: 1, failed: 1, retried: 0 });
+  });
+
+  it('should give up after maxRetries rate-limit responses', async () => {
+    const transport = new FakeTransport();
+    const rateLimited = { status: 429, retryAfter: 1 };
+    transport.failNext('a1', rateLimited, rateLimited, rateLimited);
+    const queue = new OutboundQueue({ maxRetries: 2 });
+
+    await expect(queue.enqueue('a', () => transport.send('a1'))).rejects.toBe(rateLimited);
+    expect(transport.calls).toHaveLength(3);
+    expect(queue.getMetrics()).toMatchObject({ retried: 2, rateLimited: 3, failed: 1 });
+  });
+
+  it('should reject when full and when cleared', async () => {
+    const transport = new FakeTransport();
+    const queue = new OutboundQueue({ maxQueued: 2 });
+
+    const first = queue.enqueue('a', () => transport.send('a1', 20));
+    const second = queue.enqueue('a', () => transport.send('a2'));
+    const overflow = await queue.enqueue('b', () => transport.send('b1')).catch(e => e);
+    expect(overflow).toBeInstanceOf(OutboundQueueError);
+    expect(overflow.reason).toBe('full');
+
+    await new Promise(resolve => setTimeout(resolve, 5));
+    queue.clear();
+    await expect(second).rejects.toMatchObject({ reason: 'cleared' });
+    await expect(first).resolves.toBe('id:a1');
+    await queue.drain();
+    expect(transport.delivered).toEqual(['a1']);
+  });
+});
+
+describe('defaultRetryAfter', () => {
+  const now = 1_700_000_000_000;
+
+  it('should read the retry-after of each connector SDK', () => {
+    expect(defaultRetryAfter(telegramRateLimit(3), now)).toBe(3000);
+    expect(defaultRetryAfter({ code: 'slack_webapi_rate_limited_error', retryAfter: 2 }, now)).toBe(2000);
+    expect(defaultRetryAfter({ errcode: 'M_LIMIT_EXCEEDED', data: { retry_after_ms: 1500 } }, now)).toBe(1500);
+    expect(defaultRetryAfter({ status: 429, retryAfter: 750 }, now)).toBe(750);
+    expect(defaultRetryAfter({ code: 429, rateLimitError: true, rateLimit: { reset: now / 1000 + 4 } }, now)).toBe(4000);
+    expect(defaultRetryAfter({ statusCode: 429, headers: { 'retry-after': '6' } }, now)).toBe(6000);
+  });
+
+  it('should ignore errors that are not rate limits', () => {
+    expect(defaultRetryAfter(new Error('boom'), now)).toBeUndefined();
+    expect(defaultRetryAfter({ status: 500 }, now)).toBeUndefined();
+    expect(defaultRetryAfter(undefined, now)).toBeUndefined();
+  });
+});
+
+describe('Platform outbound queue', () => {
+  class QueuedConnector extends Platform {
+    public transport = new FakeTransport();
+
+    async connect(): Promise<void> {
+      this.setConnected(true);
+    }
+
+    async disconnect(): Promise<void> {
+      this.setConnected(false);
+    }
+
+    async sendMessage(content: string, channelId: string): Promise<void> {
+      await this.enqueueOutbound(channelId, () => this.transport.send(content));
+    }
+  }
+
+  it('should apply the platform defaults merged with the outbound parameter', async () => {
+    const connector = new QueuedConnector({
+      name: 'tg',
+      type: 'telegram',
+      parameters: { outbound: { perChat: { limit: 1, intervalMs: 30 } } },
+    });
+
+    const started = Date.now();
+    await Promise.all([connector.sendMessage('one', 'c1'), connector.sendMessage('two', 'c1')]);
+    expect(connector.transport.delivered).toEqual(['one', 'two']);
+    expect(Date.now() - started).toBeGreaterThanOrEqual(28);
+    expect(connector.getOutboundMetrics()).toMatchObject({ sent: 2, depth: 0 });
+  });
+
+  it('should send directly when queuing is disabled', async () => {
+    const connector = new QueuedConnector({ name: 'tg', type: 'telegram', parameters: { outbound: false } });
+    await connector.sendMessage('one', 'c1');
+    expect(connector.transport.delivered).toEqual(['one']);
+    expect(connector.getOutboundMetrics()).toBeUndefined();
+  });
+});
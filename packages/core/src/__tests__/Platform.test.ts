@@ -0,0 +1,109 @@
+import { Platform } from '../platform/Platform';
+import { PlatformRegistry } from '../platform/PlatformRegistry';
+import { MessageData, PlatformConfig } from '../platform/types';
+
+class FakePlatform extends Platform {
+  public connects = 0;
+  public disconnects = 0;
+  public sent: Array<{ content: string; channelId: string }> = [];
+  public failConnect = false;
+
+  async connect(): Promise<void> {
+    this.connects++;
+    await new Promise(resolve => setTimeout(resolve, 5));
+    if (this.failConnect) throw new Error('connect failed');
+    this.setConnected(true);
+  }
+
+  async disconnect(): Promise<void> {
+    this.disconnects++;
+    this.setConnected(false);
+  }
+
+  async sendMessage(content: string, channelId: string): Promise<void> {
+    this.sent.push({ content, channelId });
+  }
+
+  receive(message: MessageData): void {
+    this.emit('message', message);
+  }
+}
+
+const config: PlatformConfig = { name: 'test', type: 'fake', parameters: { token: 't' } };
+
+describe('Platform', () => {
+  it('should expose its config', () => {
+    const platform = new FakePlatform(config);
+    expect(platform.getName()).toBe('test');
+    expect(platform.getType()).toBe('fake');
+    expect(platform.isActive()).toBe(false);
+  });
+
+  it('should make start and stop idempotent and share in-flight transitions', async () => {
+    const platform = new FakePlatform(config);
+    const connected = jest.fn();
+    const disconnected = jest.fn();
+    platform.on('connected', connected);
+    platform.on('disconnected', disconnected);
+
+    await Promise.all([platform.start(), platform.start()]);
+    await platform.start();
+    expect(platform.connects).toBe(1);
+    expect(platform.isActive()).toBe(true);
+    expect(connected).toHaveBeenCalledTimes(1);
+
+    await Promise.all([platform.stop(), platform.stop()]);
+    expect(platform.disconnects).toBe(1);
+    expect(platform.isActive()).toBe(false);
+    expect(disconnected).toHaveBeenCalledTimes(1);
+  });
+
+  it('should propagate connect failures and allow a retry', async () => {
+    const platform = new FakePlatform(config);
+    platform.failConnect = true;
+    await expect(platform.start()).rejects.toThrow('connect failed');
+    expect(platform.isActive()).toBe(false);
+
+    platform.failConnect = false;
+    await platform.start();
+    expect(platform.connects).toBe(2);
+    expect(platform.isActive()).toBe(true);
+  });
+
+  it('should deliver typed events to listeners', () => {
+    const platform = new FakePlatform(config);
+    const received: MessageData[] = [];
+    platform.on('message', message => received.push(message));
+    platform.receive({ content: 'hi', sender: 'u1', channelId: 'c1', timestamp: new Date(0) });
+    expect(received).toHaveLength(1);
+    expect(received[0].content).toBe('hi');
+  });
+});
+
+describe('PlatformRegistry', () => {
+  it('should create connectors by case-insensitive type', () => {
+    const registry = new PlatformRegistry();
+    registry.register('Fake', FakePlatform);
+    expect(registry.has('fake')).toBe(true);
+    expect(registry.types()).toEqual(['fake']);
+
+    const platform = registry.create<FakePlatform>({ name: 'a', type: 'FAKE' });
+    expect(platform).toBeInstanceOf(FakePlatform);
+    expect(platform.getName()).toBe('a');
+
+    const all = registry.createAll([{ name: 'b', type: 'fake' }, { name: 'c', type: 'fake' }]);
+    expect(all.map(p => p.getName())).toEqual(['b', 'c']);
+  });
+
+  it('should reject conflicting registrations and unknown types', () => {
+    const registry = new PlatformRegistry();
+    registry.register('fake', FakePlatform);
+    registry.register('fake', FakePlatform);
+    class OtherPlatform extends FakePlatform {}
+    expect(() => registry.register('fake', OtherPlatform)).toThrow(/already registered/);
+    expect(() => registry.create({ name: 'x', type: 'nope' })).toThrow(/Unknown platform type 'nope'/);
+
+    expect(registry.unregister('fake')).toBe(true);
+    expect(registry.has('fake')).toBe(false);
+  });
+});
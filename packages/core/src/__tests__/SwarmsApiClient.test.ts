@@ -0,0 +1,173 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { JuliaOSClientTS, SwarmObjective, SwarmStatus } from '../api/ApiClient';
+import { NotFoundError, ValidationError } from '../api/errors';
+
+type Route = (req: http.IncomingMessage, body: any) => { status?: number; body: any };
+
+describe('SwarmsApiClient', () => {
+  let server: http.Server;
+  let baseURL: string;
+  let requests: string[];
+  let queries: URLSearchParams[];
+  let routes: Record<string, Route>;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let raw = '';
+      req.on('data', chunk => (raw += chunk));
+      req.on('end', () => {
+        const key = `${req.method} ${req.url!.replace(/^\/api\/v1/, '').split('?')[0]}`;
+        requests.push(key);
+        queries.push(new URL(req.url!, 'http://localhost').searchParams);
+        const route = routes[key];
+        const reply = route ? route(req, raw ? JSON.parse(raw) : undefined) : { status: 404, body: { message: 'not found' } };
+        res.writeHead(reply.status || 200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(reply.body));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/v1`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    requests = [];
+    queries = [];
+    routes = {};
+  });
+
+  const createClient = () => new JuliaOSClientTS(baseURL, undefined, { retry: false });
+
+  const sphere: SwarmObjective = {
+    name: 'Sphere',
+    objective_function_name: 'sphere',
+    dimensions: 2,
+    bounds: [[-5, 5], [-5, 5]],
+  };
+
+  const status = (extra: Record<string, any> = {}) => ({
+    id: 's1',
+    name: 'Sphere',
+    status: SwarmStatus.RUNNING,
+    algo: 'PSO',
+    agents: 0,
+    iter: 12,
+    best_fit: 0.25,
+    created: '2025-01-01T00:00:00',
+    updated: '2025-01-01T00:00:05',
+    ...extra,
+  });
+
+  it('should create and start a swarm for a registered objective', async () => {
+    let payload: any;
+    routes['POST /swarms'] = (_req, body) => {
+      payload = body;
+      return { status: 201, body: status({ status: SwarmStatus.CREATED }) };
+    };
+    routes['POST /swarms/s1/start'] = () => ({ body: { message: 'Swarm started' } });
+    const client = createClient();
+
+    const objectiveId = await client.swarms.createObjective(sphere);
+    const swarmId = await client.swarms.launchSwarm({
+      objectiveId,
+      config: { algorithm: 'PSO', params: { num_particles: 20 } },
+      maxIterations: 50,
+      extraParams: { iteration_delay_seconds: 0 },
+    });
+
+    expect(swarmId).toBe('s1');
+    expect(requests).toEqual(['POST /swarms', 'POST /swarms/s1/start']);
+    expect(payload).toEqual({
+      name: 'Sphere',
+      algorithm_type: 'PSO',
+      algorithm_params: { iteration_delay_seconds: 0, pso_specific_params: { num_particles: 20 } },
+      objective_description: 'Sphere',
+      max_iterations: 50,
+      target_fitness: null,
+      problem_definition: { dimensions: 2, bounds: [[-5, 5], [-5, 5]], is_minimization: true, objective_function_name: 'sphere' },
+    });
+  });
+
+  it('should launch an inline objective without registering it and leave it stopped when asked', async () => {
+    let payload: any;
+    routes['POST /swarms'] = (_req, body) => {
+      payload = body;
+      return { status: 201, body: status({ status: SwarmStatus.CREATED }) };
+    };
+
+    const swarmId = await createClient().swarms.launchSwarm({
+      objective: { ...sphere, is_minimization: false },
+      config: { algorithm: 'GA' },
+      name: 'GA run',
+      autoStart: false,
+    });
+
+    expect(swarmId).toBe('s1');
+    expect(requests).toEqual(['POST /swarms']);
+    expect(payload.name).toBe('GA run');
+    expect(payload.algorithm_params).toEqual({ ga_specific_params: {} });
+    expect(payload.problem_definition.is_minimization).toBe(false);
+  });
+
+  it('should reject unknown objectives and mismatched bounds before calling the backend', async () => {
+    const client = createClient();
+
+    await expect(client.swarms.launchSwarm({ objectiveId: 'objective-9', config: { algorithm: 'DE' } })).rejects.toBeInstanceOf(NotFoundError);
+    await expect(client.swarms.createObjective({ ...sphere, dimensions: 3 })).rejects.toBeInstanceOf(ValidationError);
+    await expect(
+      client.swarms.launchSwarm({ objective: { ...sphere, bounds: [[0, 1]] }, config: { algorithm: 'PSO' } })
+    ).rejects.toBeInstanceOf(ValidationError);
+    expect(requests).toEqual([]);
+  });
+
+  it('should filter swarms by status without the SWARM_ prefix', async () => {
+    routes['GET /swarms'] = () => ({ body: [status()] });
+
+    const swarms = await createClient().swarms.list(SwarmStatus.RUNNING);
+
+    expect(swarms.map(swarm => swarm.id)).toEqual(['s1']);
+    expect(queries[0].get('status')).toBe('RUNNING');
+  });
+
+  it('should combine the swarm status with the best solution from shared state', async () => {
+    const best = { position: [0.5, 0], fitness: 0.25, is_feasible: true, metadata: { updated_at_iter: 12 } };
+    routes['GET /swarms/s1'] = () => ({ body: status() });
+    routes['GET /swarms/s1/state/best_solution_found'] = () => ({ body: best });
+
+    const result = await createClient().swarms.getSwarmResult('s1');
+
+    expect(result).toEqual({ swarm_id: 's1', status: SwarmStatus.RUNNING, iterations: 12, best_fitness: 0.25, best_solution: best });
+  });
+
+  it('should report no best solution until the swarm has published one', async () => {
+    routes['GET /swarms/s1'] = () => ({ body: status({ best_fit: null, iter: 0 }) });
+
+    const result = await createClient().swarms.getSwarmResult('s1');
+
+    expect(result.best_solution).toBeNull();
+    expect(requests).toEqual(['GET /swarms/s1', 'GET /swarms/s1/state/best_solution_found']);
+  });
+
+  it('should call the marketplace swarm coordination endpoints', async () => {
+    let analyzeBody: any;
+    routes['GET /marketplace/swarms'] = () => ({ body: [] });
+    routes['POST /marketplace/swarms/analyze'] = (_req, body) => {
+      analyzeBody = body;
+      return { body: { message: 'ok', swarms_detected: 0, time_window_hours: 24, swarms: [] } };
+    };
+    routes['GET /marketplace/agents/a1/connections'] = () => ({ body: [] });
+    const client = createClient();
+
+    await client.swarms.listTopologies();
+    const analysis = await client.swarms.analyze(24);
+    await client.swarms.getAgentConnections('a1');
+
+    expect(analysis.swarms_detected).toBe(0);
+    expect(analyzeBody).toEqual({ time_window_hours: 24 });
+    expect(requests).toEqual(['GET /marketplace/swarms', 'POST /marketplace/swarms/analyze', 'GET /marketplace/agents/a1/connections']);
+  });
+});
@@ -0,0 +1,89 @@
+import {
+  ApiClientError,
+  ApiErrorCode,
+  AuthError,
+  ConflictError,
+  NetworkError,
+  NotFoundError,
+  RateLimitedError,
+  ServerError,
+  TimeoutError,
+  ValidationError,
+  errorFromResponse,
+  toApiError,
+} from '../api/errors';
+
+const envelope = (code: string, message: string, details?: Record<string, any>) => ({
+  error: { code, message, details, request_id: 'ab12cd34', timestamp: '2025-01-01T00:00:00' },
+});
+
+describe('errorFromResponse', () => {
+  it('should map backend error codes to typed errors', () => {
+    const cases: Array<[string, number, Function]> = [
+      [ApiErrorCode.VALIDATION_ERROR, 400, ValidationError],
+      [ApiErrorCode.BAD_REQUEST, 400, ValidationError],
+      [ApiErrorCode.UNAUTHORIZED, 401, AuthError],
+      [ApiErrorCode.FORBIDDEN, 403, AuthError],
+      [ApiErrorCode.NOT_FOUND, 404, NotFoundError],
+      [ApiErrorCode.CONFLICT, 409, ConflictError],
+      [ApiErrorCode.RATE_LIMITED, 429, RateLimitedError],
+      [ApiErrorCode.INTERNAL_ERROR, 500, ServerError],
+      [ApiErrorCode.SERVICE_UNAVAILABLE, 503, ServerError],
+      [ApiErrorCode.TIMEOUT, 504, TimeoutError],
+    ];
+    for (const [code, status, ErrorClass] of cases) {
+      const error = errorFromResponse(status, envelope(code, 'failed'));
+      expect(error).toBeInstanceOf(ErrorClass);
+      expect(error).toBeInstanceOf(ApiClientError);
+      expect(error.errorCode).toBe(code);
+      expect(error.requestId).toBe('ab12cd34');
+    }
+  });
+
+  it('should expose per-field validation errors', () => {
+    const error = errorFromResponse(400, envelope('validation_error', 'Invalid field types', {
+      field_errors: { name: ['This field is required'], limit: ['Must be an integer'] },
+    })) as ValidationError;
+
+    expect(error.fieldErrors).toEqual({ name: ['This field is required'], limit: ['Must be an integer'] });
+    expect(error.timestamp).toBe('2025-01-01T00:00:00');
+  });
+
+  it('should read the retry delay of rate-limited responses', () => {
+    const fromDetails = errorFromResponse(429, envelope('rate_limited', 'slow down', { retry_after_seconds: 30 }));
+    const fromHeader = errorFromResponse(429, {}, { 'retry-after': '2' });
+
+    expect((fromDetails as RateLimitedError).retryAfterMs).toBe(30000);
+    expect((fromHeader as RateLimitedError).retryAfterMs).toBe(2000);
+  });
+
+  it('should understand the legacy error envelope', () => {
+    const error = errorFromResponse(400, {
+      error: { message: 'Limit parameter must be between 1 and 1000.', error_code: 'INVALID_INPUT', status_code: 400, details: { field: 'limit' } },
+    }) as ValidationError;
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.fieldErrors).toEqual({ limit: ['Limit parameter must be between 1 and 1000.'] });
+  });
+
+  it('should fall back to the HTTP status for unknown bodies', () => {
+    const error = errorFromResponse(404, '<html>Not Found</html>', {}, 'Request failed with status code 404');
+
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect(error.errorCode).toBe(ApiErrorCode.UNKNOWN_CLIENT_ERROR);
+    expect(error.message).toBe('Request failed with status code 404');
+  });
+});
+
+describe('toApiError', () => {
+  it('should classify axios-style failures without a response', () => {
+    expect(toApiError({ code: 'ECONNABORTED', message: 'timeout of 100ms exceeded', request: {} })).toBeInstanceOf(TimeoutError);
+    expect(toApiError({ code: 'ECONNREFUSED', request: {} })).toBeInstanceOf(NetworkError);
+    expect(toApiError(new Error('bad config')).errorCode).toBe(ApiErrorCode.REQUEST_SETUP_ERROR);
+  });
+
+  it('should pass typed errors through unchanged', () => {
+    const error = new ConflictError('exists', { statusCode: 409 });
+    expect(toApiError(error)).toBe(error);
+  });
+});
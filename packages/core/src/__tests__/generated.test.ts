@@ -0,0 +1,47 @@
+import { spawnSync } from 'child_process';
+import path from 'path';
+import * as api from '../generated/api';
+
+// Records the requests built by the generated functions instead of sending them
+class RecordingRequester implements api.ApiRequester {
+  public requests: api.ApiRequest[] = [];
+
+  async request<T>(req: api.ApiRequest): Promise<T> {
+    this.requests.push(req);
+    return undefined as T;
+  }
+}
+
+describe('generated API client', () => {
+  it('should build requests for the spec routes', async () => {
+    const client = new RecordingRequester();
+
+    await api.listAgents(client);
+    await api.updateAgent(client, 'a1', { state: 'PAUSED' });
+    await api.processAgentWebhook(client, 'a1', { text: 'hi' });
+    await api.listStrategies(client);
+
+    expect(client.requests).toEqual([
+      { method: 'GET', path: '/agents' },
+      { method: 'PUT', path: '/agents/a1', body: { state: 'PAUSED' } },
+      { method: 'POST', path: '/agents/a1/webhook', body: { text: 'hi' } },
+      { method: 'GET', path: '/strategies' },
+    ]);
+  });
+
+  it('should encode path parameters', async () => {
+    const client = new RecordingRequester();
+
+    await api.getAgentOutput(client, 'team/agent 1');
+
+    expect(client.requests[0].path).toBe('/agents/team%2Fagent%201/output');
+  });
+
+  it('should match the current api-spec.yaml', () => {
+    const root = path.resolve(__dirname, '../../../..');
+    const check = spawnSync(process.execPath, ['scripts/generate-ts-client.js', '--check'], { cwd: root, encoding: 'utf8' });
+
+    expect(check.stderr).toBe('');
+    expect(check.status).toBe(0);
+  });
+});
@@ -0,0 +1,154 @@
+import { get } from 'http';
+import { HealthTracker } from '../platform/health';
+import { MetricsServer, renderPrometheusMetrics } from '../platform/metrics';
+import { FakeConnector } from './FakeConnector';
+
+// Sends through the outbound queue so that its latency and failures reach the health report
+class QueuedConnector extends FakeConnector {
+  public latency?: number;
+
+  async sendMessage(content: string, channelId: string): Promise<void> {
+    await this.enqueueOutbound(channelId, async () => {
+      if (content === 'fail') throw new Error('Forbidden');
+    });
+  }
+
+  drop(reason: string): void {
+    this.setConnected(false, reason);
+  }
+
+  protected getPlatformLatency(): number | undefined {
+    return this.latency;
+  }
+}
+
+const fetch = (port: number, path: string) =>
+  new Promise<{ status?: number; type?: string; body: string }>((resolve, reject) => {
+    get({ host: '127.0.0.1', port, path }, res => {
+      let body = '';
+      res.on('data', chunk => (body += chunk));
+      res.on('end', () => resolve({ status: res.statusCode, type: res.headers['content-type'], body }));
+    }).on('error', reject);
+  });
+
+describe('Platform health', () => {
+  let platform: QueuedConnector;
+
+  beforeEach(() => {
+    platform = new QueuedConnector({ name: 'support', type: 'discord', parameters: { outbound: false } });
+    platform.on('error', () => {});
+  });
+
+  it('should track connection changes with reasons', async () => {
+    expect(platform.getHealth()).toEqual(expect.objectContaining({ status: 'down', connected: false, connections: [] }));
+
+    await platform.start();
+    platform.drop('Gateway closed with code 1006');
+    await platform.start();
+
+    const health = platform.getHealth();
+    expect(health.status).toBe('healthy');
+    expect(health.disconnects).toBe(1);
+    expect(health.connections.map(change => [change.connected, change.reason])).toEqual([
+      [true, undefined],
+      [false, 'Gateway closed with code 1006'],
+      [true, undefined],
+    ]);
+    expect(health.since).toBe(health.connections[2].at);
+  });
+
+  it('should report why a connector is down or degraded', async () => {
+    await platform.start();
+    platform.drop('Sync error');
+    expect(platform.getHealth().reasons).toEqual(['Disconnected: Sync error']);
+
+    await platform.start();
+    platform.emit('error', new Error('Missing access'));
+    expect(platform.getHealth()).toEqual(expect.objectContaining({
+      status: 'degraded',
+      reasons: ['Recent error: Missing access'],
+      errors: 1,
+      lastError: 'Missing access',
+    }));
+  });
+
+  it('should count inbound events and time outbound calls', async () => {
+    platform.emit('message', { content: 'hi', sender: 'u1', timestamp: new Date() });
+    platform.emit('reaction', { reaction: '👍', sender: 'u1', messageId: 'm1', timestamp: new Date() });
+    platform.emit('connected');
+    await platform.sendMessage('hello', 'c1');
+    await expect(platform.sendMessage('fail', 'c1')).rejects.toThrow('Forbidden');
+    platform.latency = 42;
+
+    const health = platform.getHealth();
+    expect(health.inbound).toEqual({ message: 1, reaction: 1 });
+    expect(health.lastInboundAt).toBeInstanceOf(Date);
+    expect(health.outbound).toBe(1);
+    expect(health.outboundFailed).toBe(1);
+    expect(health.latency.count).toBe(1);
+    expect(health.latency.buckets.every(count => count === 1)).toBe(true);
+    expect(health.platformLatencyMs).toBe(42);
+  });
+
+  it('should report stale connections', () => {
+    jest.useFakeTimers();
+    const tracker = new HealthTracker({ staleAfterMs: 60_000 });
+    tracker.recordConnection(true);
+    jest.advanceTimersByTime(30_000);
+    tracker.recordInbound('message');
+    jest.advanceTimersByTime(61_000);
+
+    expect(tracker.snapshot('bot', 'telegram', true).reasons).toEqual(['Nothing received for 61s']);
+    jest.useRealTimers();
+  });
+});
+
+describe('metrics', () => {
+  it('should render Prometheus metrics for every connector', async () => {
+    const discord = new QueuedConnector({ name: 'support', type: 'discord' });
+    const telegram = new QueuedConnector({ name: 'say "hi"', type: 'telegram' });
+    await discord.start();
+    await discord.sendMessage('hello', 'c1');
+    discord.emit('command', { content: '!price', command: 'price', args: [], sender: 'u1', timestamp: new Date() });
+    discord.latency = 120;
+
+    const text = renderPrometheusMetrics([discord.getHealth(), telegram.getHealth()]);
+
+    expect(text).toContain('# TYPE juliaos_platform_up gauge');
+    expect(text).toContain('juliaos_platform_up{platform="support",type="discord"} 1');
+    expect(text).toContain('juliaos_platform_up{platform="say \\"hi\\"",type="telegram"} 0');
+    expect(text).toContain('juliaos_platform_inbound_events_total{platform="support",type="discord",event="command"} 1');
+    expect(text).toContain('juliaos_platform_outbound_calls_total{platform="support",type="discord",result="success"} 1');
+    expect(text).toContain('juliaos_platform_outbound_latency_seconds_bucket{platform="support",type="discord",le="+Inf"} 1');
+    expect(text).toContain('juliaos_platform_outbound_latency_seconds_count{platform="support",type="discord"} 1');
+    expect(text).toContain('juliaos_platform_latency_seconds{platform="support",type="discord"} 0.12');
+    expect(text).toContain('juliaos_platform_outbound_queue_depth{platform="support",type="discord"} 0');
+    expect(text).not.toContain('juliaos_platform_last_error_timestamp_seconds');
+  });
+
+  it('should serve metrics and health over HTTP', async () => {
+    const platform = new QueuedConnector({ name: 'support', type: 'discord' });
+    const server = new MetricsServer({ platforms: () => [platform], port: 0 });
+    await server.start();
+    try {
+      const port = server.port!;
+      const metrics = await fetch(port, '/metrics');
+      expect(metrics.status).toBe(200);
+      expect(metrics.type).toContain('text/plain; version=0.0.4');
+      expect(metrics.body).toContain('juliaos_platform_up{platform="support",type="discord"} 0');
+
+      const down = await fetch(port, '/health');
+      expect(down.status).toBe(503);
+      expect(JSON.parse(down.body)).toEqual(expect.objectContaining({ status: 'down' }));
+
+      await platform.start();
+      const up = await fetch(port, '/health');
+      expect(up.status).toBe(200);
+      expect(JSON.parse(up.body).platforms[0]).toEqual(expect.objectContaining({ name: 'support', status: 'healthy' }));
+
+      expect((await fetch(port, '/other')).status).toBe(404);
+    } finally {
+      await server.stop();
+    }
+  });
+});
@@ -0,0 +1,212 @@
+import { InboundContext } from '../platform/middleware';
+import { contentFilter, cooldown, defaultModerationVerdict, floodFilter, remoteModeration } from '../platform/moderation';
+import { MessageData, ModerationData, ModerationRequest } from '../platform/types';
+import { FakeConnector } from './FakeConnector';
+
+class ModeratedConnector extends FakeConnector {
+  public moderated: ModerationRequest[] = [];
+
+  async moderate(request: ModerationRequest): Promise<void> {
+    if (request.action === 'ban') throw new Error('Not enough rights to ban');
+    this.moderated.push(request);
+  }
+}
+
+const message = (content: string, fields: Partial<MessageData> = {}): MessageData => ({
+  content,
+  sender: 'u1',
+  channelId: 'chat-1',
+  messageId: 'm1',
+  timestamp: new Date(),
+  ...fields,
+});
+
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+describe('inbound middleware', () => {
+  let platform: ModeratedConnector;
+  let received: MessageData[];
+  let moderation: ModerationData[];
+
+  beforeEach(() => {
+    platform = new ModeratedConnector({ name: 'tg', type: 'telegram' });
+    received = [];
+    moderation = [];
+    platform.on('message', data => received.push(data));
+    platform.on('moderation', data => moderation.push(data));
+  });
+
+  it('should run middleware in order and stop at the first drop', async () => {
+    const calls: string[] = [];
+    platform
+      .use(context => {
+        calls.push('tag');
+        context.tag('checked');
+      })
+      .use(context => {
+        calls.push('drop');
+        if (context.data.content === 'bad') context.drop('bad word');
+      })
+      .use(() => {
+        calls.push('last');
+      });
+
+    platform.emit('message', message('bad'));
+    platform.emit('message', message('good'));
+    await settle();
+
+    expect(calls).toEqual(['tag', 'drop', 'tag', 'drop', 'last']);
+    expect(received.map(data => data.content)).toEqual(['good']);
+    expect(received[0].tags).toEqual(['checked']);
+    expect(moderation).toEqual([expect.objectContaining({ type: 'message', dropped: 'bad word', escalations: [], actions: [] })]);
+  });
+
+  it('should keep the order of a channel while middleware awaits', async () => {
+    platform.use(async context => {
+      await new Promise(resolve => setTimeout(resolve, context.data.content === 'first' ? 20 : 0));
+    });
+
+    platform.emit('message', message('first'));
+    platform.emit('message', message('second'));
+    await new Promise(resolve => setTimeout(resolve, 40));
+
+    expect(received.map(data => data.content)).toEqual(['first', 'second']);
+  });
+
+  it('should carry out moderation actions and report failures', async () => {
+    platform.use(context => {
+      context.escalate('needs review');
+      context.moderate('delete');
+      context.moderate('ban', { reason: 'scam' });
+    });
+
+    platform.emit('message', message('buy my token'));
+    await settle();
+
+    expect(received).toHaveLength(1);
+    expect(platform.moderated).toEqual([{ action: 'delete', userId: 'u1', channelId: 'chat-1', messageId: 'm1' }]);
+    expect(moderation[0].escalations).toEqual(['needs review']);
+    expect(moderation[0].failed).toEqual([
+      { request: expect.objectContaining({ action: 'ban', reason: 'scam' }), error: new Error('Not enough rights to ban') },
+    ]);
+  });
+
+  it('should let messages through when a middleware throws', async () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    platform.use(() => {
+      throw new Error('filter bug');
+    });
+
+    platform.emit('message', message('hello'));
+    await settle();
+
+    expect(received).toHaveLength(1);
+    expect(error).toHaveBeenCalled();
+    error.mockRestore();
+  });
+
+  it('should leave other events alone', () => {
+    const reactions = jest.fn();
+    platform.on('reaction', reactions);
+    platform.use(context => context.drop('everything'));
+
+    platform.emit('reaction', { reaction: '👍', sender: 'u1', messageId: 'm1', timestamp: new Date() });
+    expect(reactions).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('built-in filters', () => {
+  const platform = new ModeratedConnector({ name: 'tg', type: 'telegram' });
+  const check = async (middleware: (context: InboundContext) => void | Promise<void>, data: MessageData, type: 'message' | 'command' = 'message') => {
+    const context = new InboundContext(platform, type, data);
+    await middleware(context);
+    return context;
+  };
+
+  it('should catch floods and repeated messages per user and channel', async () => {
+    const flood = floodFilter({ maxMessages: 3, windowMs: 60_000, maxDuplicates: 1, moderate: ['mute'], muteMs: 5_000 });
+
+    expect((await check(flood, message('one'))).dropped).toBeUndefined();
+    const repeated = await check(flood, message('ONE '));
+    expect(repeated.dropped).toBe('Same message repeated 2 times');
+    expect(repeated.data.tags).toEqual(['spam']);
+    expect(repeated.actions).toEqual([expect.objectContaining({ action: 'mute', durationMs: 5_000 })]);
+
+    await check(flood, message('two'));
+    expect((await check(flood, message('three'))).dropped).toBe('More than 3 messages in 60s');
+    expect((await check(flood, message('elsewhere', { channelId: 'chat-2' }))).dropped).toBeUndefined();
+    expect((await check(flood, message('other user', { sender: 'u2' }))).dropped).toBeUndefined();
+  });
+
+  it('should match whole words and patterns', async () => {
+    const filter = contentFilter({ words: ['scam', 'free money'], patterns: [/t\.me\/\w+/], verdict: 'escalate', moderate: ['delete'] });
+
+    const word = await check(filter, message('This is a SCAM!'));
+    expect(word.dropped).toBeUndefined();
+    expect(word.escalations).toEqual(['Matched filtered content "SCAM"']);
+    expect(word.actions).toEqual([expect.objectContaining({ action: 'delete', messageId: 'm1' })]);
+
+    expect((await check(filter, message('get free money now'))).escalations).toHaveLength(1);
+    expect((await check(filter, message('join t.me/pump'))).escalations).toHaveLength(1);
+    expect((await check(filter, message('scammer and scampi'))).escalations).toHaveLength(0);
+  });
+
+  it('should skip exempt users and other event types', async () => {
+    const filter = contentFilter({ words: ['scam'], exempt: ['mod'], events: ['message'] });
+
+    expect((await check(filter, message('scam', { sender: 'mod' }))).dropped).toBeUndefined();
+    expect((await check(filter, { ...message('scam'), command: 'report', args: ['scam'] } as any, 'command')).dropped).toBeUndefined();
+    expect((await check(filter, message('scam'))).dropped).toBeDefined();
+  });
+
+  it('should enforce a cooldown between events of a user', async () => {
+    const limit = cooldown({ ms: 1_000, events: ['command'] });
+    const command = { ...message('!price'), command: 'price', args: [] };
+
+    expect((await check(limit, command, 'command')).dropped).toBeUndefined();
+    expect((await check(limit, command, 'command')).dropped).toBe('Cooldown of 1s');
+    expect((await check(limit, { ...command, sender: 'u2' }, 'command')).dropped).toBeUndefined();
+    expect((await check(limit, message('chatting'))).dropped).toBeUndefined();
+  });
+});
+
+describe('remoteModeration', () => {
+  const platform = new ModeratedConnector({ name: 'tg', type: 'telegram' });
+
+  const agents = (output: Record<string, any> | Error) => ({
+    triggerWebhook: jest.fn().mockResolvedValue(undefined),
+    getAgentOutput: jest.fn(async () => {
+      if (output instanceof Error) throw output;
+      return output;
+    }),
+  });
+
+  it('should apply the verdict of the moderation agent', async () => {
+    const client = agents({ verdict: 'drop', reason: 'swearing', tags: ['profanity'], moderate: 'ban', duration_ms: 60_000 });
+    const context = new InboundContext(platform, 'message', message('you are a ****'));
+
+    await remoteModeration(client as any, { agentId: 'moderator' })(context);
+
+    expect(client.triggerWebhook).toHaveBeenCalledWith('moderator', expect.objectContaining({ text: 'you are a ****', sender: 'u1', channel_id: 'chat-1' }));
+    expect(context.dropped).toBe('swearing');
+    expect(context.data.tags).toEqual(['profanity', 'flagged']);
+    expect(context.actions).toEqual([expect.objectContaining({ action: 'ban', durationMs: 60_000, reason: 'swearing' })]);
+  });
+
+  it('should let messages pass unless configured to fail closed', async () => {
+    const failing = agents(new Error('agent down'));
+    const open = new InboundContext(platform, 'message', message('hello'));
+    await expect(remoteModeration(failing as any, { agentId: 'moderator' })(open)).rejects.toThrow('agent down');
+
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const closed = new InboundContext(platform, 'message', message('hello'));
+    await remoteModeration(failing as any, { agentId: 'moderator', failClosed: true })(closed);
+    expect(closed.dropped).toBe('Moderation agent unavailable');
+    error.mockRestore();
+  });
+
+  it('should ignore outputs without a verdict', () => {
+    expect(defaultModerationVerdict({ logs: ['✅ No profanity detected'] })).toBeUndefined();
+    expect(defaultModerationVerdict({ action: 'allow', moderate: ['nuke'] })).toEqual(expect.objectContaining({ verdict: 'allow', moderate: [] }));
+  });
+});
@@ -0,0 +1,249 @@
+import { rich, RichMessage } from '../platform/richMessage';
+import {
+  parseDiscordCustomId,
+  parseTelegramCallbackData,
+  renderDiscord,
+  renderDiscordModal,
+  renderMatrix,
+  renderPlainTextChunks,
+  renderSlack,
+  renderSlackModal,
+  renderTelegram,
+  renderTelegramKeyboard,
+  renderTweetThread,
+  tweetLength,
+} from '../platform/renderers';
+
+const report: RichMessage = {
+  blocks: [
+    rich.heading('Report #1'),
+    rich.paragraph('Funds moved to ', rich.link('https://etherscan.io/address/0xabc', '0xabc'), ' by ', rich.mention('12345', 'alice'), '.'),
+    rich.list(['Bridge (Stargate)', [rich.bold('Swap')]]),
+    rich.code('const a = 1 < 2;', 'ts'),
+    rich.quote('Not financial advice'),
+    rich.divider(),
+  ],
+  attachments: [rich.image('https://example.com/graph.png', 'Flow graph')],
+};
+
+const confirm: RichMessage = {
+  blocks: [rich.paragraph('Ban user 42?')],
+  actions: [
+    rich.button('ban', 'Ban', { value: '42', style: 'danger' }),
+    rich.button('skip', 'Skip'),
+    rich.button('docs', 'Policy', { url: 'https://example.com/policy' }),
+    rich.select('reason', ['spam', 'scam'], 'Reason'),
+  ],
+};
+
+const form = {
+  id: 'report',
+  title: 'Report a wallet',
+  fields: [
+    { id: 'address', label: 'Address', placeholder: '0x...' },
+    { id: 'notes', label: 'Notes', multiline: true, required: false },
+  ],
+};
+
+const longReport = (paragraphs: number): RichMessage => ({
+  blocks: Array.from({ length: paragraphs }, (_, i) =>
+    rich.paragraph(`Paragraph ${i}: `, rich.bold('wallet'), ` ${'moved funds through a mixer. '.repeat(8)}`)
+  ),
+});
+
+describe('renderTelegram', () => {
+  it('should render HTML with escaped text', () => {
+    const [html] = renderTelegram(report);
+    expect(html).toContain('<b>Report #1</b>');
+    expect(html).toContain('<a href="https://etherscan.io/address/0xabc">0xabc</a>');
+    expect(html).toContain('<a href="tg://user?id=12345">@alice</a>');
+    expect(html).toContain('• Bridge (Stargate)\n• <b>Swap</b>');
+    expect(html).toContain('<pre><code class="language-ts">const a = 1 &lt; 2;</code></pre>');
+    expect(html).toContain('<blockquote>Not financial advice</blockquote>');
+  });
+
+  it('should escape MarkdownV2 special characters', () => {
+    const [markdown] = renderTelegram(report, { parseMode: 'MarkdownV2' });
+    expect(markdown).toContain('*Report \\#1*');
+    expect(markdown).toContain('[0xabc](https://etherscan.io/address/0xabc)');
+    expect(markdown).toContain('• Bridge \\(Stargate\\)');
+    expect(markdown).toContain('```ts\nconst a = 1 < 2;\n```');
+    expect(markdown).toContain('>Not financial advice');
+  });
+
+  it('should split long reports under the 4096 limit without breaking tags', () => {
+    const chunks = renderTelegram(longReport(40));
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.length).toBeLessThanOrEqual(4096);
+      expect(chunk.match(/<b>/g)?.length).toBe(chunk.match(/<\/b>/g)?.length);
+    }
+  });
+});
+
+describe('renderTelegramKeyboard', () => {
+  it('should put buttons in rows and each select option on its own row', () => {
+    expect(renderTelegramKeyboard(confirm.actions!)).toEqual([
+      [
+        { text: 'Ban', callback_data: 'ban|42' },
+        { text: 'Skip', callback_data: 'skip' },
+        { text: 'Policy', url: 'https://example.com/policy' },
+      ],
+      [{ text: 'spam', callback_data: 'reason#spam' }],
+      [{ text: 'scam', callback_data: 'reason#scam' }],
+    ]);
+  });
+
+  it('should parse callback data back into interactions', () => {
+    expect(parseTelegramCallbackData('ban|42')).toEqual({ kind: 'button', actionId: 'ban', value: '42' });
+    expect(parseTelegramCallbackData('reason#scam')).toEqual({ kind: 'select', actionId: 'reason', value: 'scam' });
+    expect(parseTelegramCallbackData('approval:abc:approve')).toEqual({ kind: 'button', actionId: 'approval:abc:approve' });
+  });
+
+  it('should reject callback data over 64 bytes', () => {
+    expect(() => renderTelegramKeyboard([rich.button('x'.repeat(60), 'Go', { value: 'long value' })])).toThrow('64 bytes');
+  });
+});
+
+describe('renderDiscord', () => {
+  it('should render markdown within 2000 characters per message', () => {
+    const [payload] = renderDiscord(report);
+    expect(payload.content).toContain('# Report \\#1');
+    expect(payload.content).toContain('[0xabc](https://etherscan.io/address/0xabc)');
+    expect(payload.content).toContain('<@12345>');
+    expect(payload.content).toContain('- Bridge (Stargate)\n- **Swap**');
+
+    const chunks = renderDiscord(longReport(20));
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every(chunk => chunk.content!.length <= 2000)).toBe(true);
+  });
+
+  it('should render embeds titled by the leading heading', () => {
+    const payloads = renderDiscord(report, { embeds: true, color: 0xff0000 });
+    expect(payloads).toHaveLength(1);
+    const [embed] = payloads[0].embeds!;
+    expect(embed.title).toBe('Report #1');
+    expect(embed.description).not.toContain('Report #1');
+    expect(embed.color).toBe(0xff0000);
+    expect(embed.image).toEqual({ url: 'https://example.com/graph.png' });
+  });
+});
+
+describe('Discord components', () => {
+  it('should render actions as rows of buttons and select menus on the last payload', () => {
+    const [payload] = renderDiscord(confirm);
+    expect(payload.components).toEqual([
+      {
+        type: 1,
+        components: [
+          { type: 2, style: 4, label: 'Ban', custom_id: 'ban|42' },
+          { type: 2, style: 2, label: 'Skip', custom_id: 'skip' },
+          { type: 2, style: 5, label: 'Policy', url: 'https://example.com/policy' },
+        ],
+      },
+      {
+        type: 1,
+        components: [{ type: 3, custom_id: 'reason', placeholder: 'Reason', options: [{ label: 'spam', value: 'spam' }, { label: 'scam', value: 'scam' }] }],
+      },
+    ]);
+    expect(parseDiscordCustomId('ban|42')).toEqual({ actionId: 'ban', value: '42' });
+    expect(parseDiscordCustomId('skip')).toEqual({ actionId: 'skip' });
+
+    const chunks = renderDiscord({ ...longReport(20), actions: confirm.actions });
+    expect(chunks.slice(0, -1).every(chunk => !chunk.components)).toBe(true);
+    expect(chunks[chunks.length - 1].components).toHaveLength(2);
+  });
+
+  it('should render modals as text inputs', () => {
+    const modal = renderDiscordModal(form);
+    expect(modal.custom_id).toBe('report');
+    expect(modal.components.map(row => row.components[0])).toEqual([
+      { type: 4, custom_id: 'address', label: 'Address', style: 1, required: true, placeholder: '0x...' },
+      { type: 4, custom_id: 'notes', label: 'Notes', style: 2, required: false },
+    ]);
+  });
+});
+
+describe('renderSlack', () => {
+  it('should render Block Kit blocks', () => {
+    const [payload] = renderSlack(report);
+    const types = payload.blocks.map(block => block.type);
+    expect(types).toEqual(['header', 'section', 'section', 'section', 'section', 'divider', 'image']);
+    expect((payload.blocks[1] as any).text.text).toBe('Funds moved to <https://etherscan.io/address/0xabc|0xabc> by @alice.');
+    expect((payload.blocks[3] as any).text.text).toBe('```const a = 1 &lt; 2;```');
+    expect(payload.blocks[6]).toMatchObject({ image_url: 'https://example.com/graph.png', alt_text: 'Flow graph' });
+    expect(payload.text).toContain('Report #1');
+  });
+
+  it('should keep sections within 3000 characters and 50 blocks per message', () => {
+    const payloads = renderSlack(longReport(80));
+    expect(payloads.length).toBeGreaterThan(1);
+    for (const payload of payloads) {
+      expect(payload.blocks.length).toBeLessThanOrEqual(50);
+      expect(payload.blocks.every(block => block.type !== 'section' || block.text.text.length <= 3000)).toBe(true);
+    }
+  });
+});
+
+describe('Slack interactive blocks', () => {
+  it('should render actions as an actions block', () => {
+    const [payload] = renderSlack(confirm);
+    const actions = payload.blocks[payload.blocks.length - 1] as any;
+    expect(actions.type).toBe('actions');
+    expect(actions.elements[0]).toEqual({ type: 'button', action_id: 'ban', text: { type: 'plain_text', text: 'Ban' }, value: '42', style: 'danger' });
+    expect(actions.elements[2]).toMatchObject({ type: 'button', url: 'https://example.com/policy' });
+    expect(actions.elements[3]).toMatchObject({ type: 'static_select', action_id: 'reason', placeholder: { text: 'Reason' } });
+    expect(actions.elements[3].options[1]).toEqual({ text: { type: 'plain_text', text: 'scam' }, value: 'scam' });
+  });
+
+  it('should render modals with input blocks and private metadata', () => {
+    const view = renderSlackModal(form, 'C1');
+    expect(view).toMatchObject({ type: 'modal', callback_id: 'report', title: { text: 'Report a wallet' }, private_metadata: 'C1' });
+    expect(view.blocks[1]).toEqual({
+      type: 'input',
+      block_id: 'notes',
+      label: { type: 'plain_text', text: 'Notes' },
+      optional: true,
+      element: { type: 'plain_text_input', action_id: 'notes', multiline: true },
+    });
+  });
+});
+
+describe('renderMatrix', () => {
+  it('should render an HTML body with a plain text fallback', () => {
+    const [content] = renderMatrix(report);
+    expect(content.msgtype).toBe('m.text');
+    expect(content.format).toBe('org.matrix.custom.html');
+    expect(content.formatted_body).toContain('<h1>Report #1</h1>');
+    expect(content.formatted_body).toContain('<ul><li>Bridge (Stargate)</li><li><strong>Swap</strong></li></ul>');
+    expect(content.formatted_body).toContain('<hr>');
+    expect(content.body).toContain('Funds moved to 0xabc (https://etherscan.io/address/0xabc) by @alice.');
+  });
+});
+
+describe('renderTweetThread', () => {
+  it('should count URLs as 23 characters', () => {
+    expect(tweetLength(`see https://example.com/${'x'.repeat(100)}`)).toBe(4 + 23);
+  });
+
+  it('should number a thread and keep every tweet within 280 characters', () => {
+    const tweets = renderTweetThread(rich.message(rich.paragraph('Thread: ', 'funds moved through a mixer. '.repeat(30))));
+    expect(tweets.length).toBeGreaterThan(3);
+    tweets.forEach((tweet, index) => {
+      expect(tweetLength(tweet)).toBeLessThanOrEqual(280);
+      expect(tweet.endsWith(` ${index + 1}/${tweets.length}`)).toBe(true);
+    });
+  });
+
+  it('should leave a single tweet unnumbered', () => {
+    expect(renderTweetThread(rich.message(rich.paragraph('gm')))).toEqual(['gm']);
+  });
+});
+
+describe('renderPlainTextChunks', () => {
+  it('should render plain text chunks', () => {
+    const [text] = renderPlainTextChunks(report, 4000);
+    expect(text).toContain('Report #1\n\nFunds moved to 0xabc (https://etherscan.io/address/0xabc) by @alice.');
+    expect(text).toContain('• Bridge (Stargate)\n• Swap');
+  });
+});
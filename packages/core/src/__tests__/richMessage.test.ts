@@ -0,0 +1,81 @@
+import { blockToPlainText, chunkBlocks, rich, splitText, toRichMessage } from '../platform/richMessage';
+
+const sentence = (n: number) => `Sentence number ${n} describes a transfer.`;
+
+describe('splitText', () => {
+  it('should keep text that fits in one piece', () => {
+    expect(splitText('short text', 20)).toEqual(['short text']);
+  });
+
+  it('should prefer paragraph, then sentence, then word boundaries', () => {
+    const paragraphs = `${sentence(1)} ${sentence(2)}\n\n${sentence(3)}`;
+    expect(splitText(paragraphs, 100)).toEqual([`${sentence(1)} ${sentence(2)}`, sentence(3)]);
+
+    const sentences = [1, 2, 3, 4].map(sentence).join(' ');
+    const pieces = splitText(sentences, 100);
+    expect(pieces).toEqual([`${sentence(1)} ${sentence(2)}`, `${sentence(3)} ${sentence(4)}`]);
+
+    const words = 'alpha beta gamma delta epsilon zeta';
+    expect(splitText(words, 12)).toEqual(['alpha beta', 'gamma delta', 'epsilon zeta']);
+  });
+
+  it('should cut words only when there is no boundary and never split surrogate pairs', () => {
+    expect(splitText('a'.repeat(25), 10)).toEqual(['a'.repeat(10), 'a'.repeat(10), 'a'.repeat(5)]);
+    const emoji = '😀'.repeat(6); // 12 UTF-16 code units
+    const pieces = splitText(emoji, 5);
+    expect(pieces.join('')).toBe(emoji);
+    expect(pieces.every(piece => Array.from(piece).every(char => char === '😀'))).toBe(true);
+  });
+
+  it('should respect the limit for every piece', () => {
+    const text = Array.from({ length: 50 }, (_, i) => `${sentence(i)}${i % 7 === 6 ? '\n\n' : ' '}`).join('');
+    for (const piece of splitText(text, 120)) {
+      expect(piece.length).toBeLessThanOrEqual(120);
+    }
+  });
+});
+
+describe('toRichMessage', () => {
+  it('should turn blank-line separated text into paragraphs', () => {
+    expect(toRichMessage('first\n\n  second  \n\n')).toEqual({ blocks: [rich.paragraph('first'), rich.paragraph('second')] });
+    const message = rich.message(rich.heading('Title'));
+    expect(toRichMessage(message)).toBe(message);
+  });
+});
+
+describe('chunkBlocks', () => {
+  const measure = (block: any) => blockToPlainText(block).length;
+
+  it('should pack whole blocks into chunks', () => {
+    const blocks = [rich.paragraph('a'.repeat(40)), rich.paragraph('b'.repeat(40)), rich.paragraph('c'.repeat(40))];
+    expect(chunkBlocks(blocks, measure, 90).map(chunk => chunk.length)).toEqual([2, 1]);
+  });
+
+  it('should split oversized paragraphs without cutting links or mentions', () => {
+    const link = rich.link('https://example.com/tx/0xabc', 'the transaction');
+    const paragraph = rich.paragraph(`${sentence(1)} ${sentence(2)} See `, link, ` and ask `, rich.mention('u1', 'alice'), `. ${sentence(3)}`);
+    const chunks = chunkBlocks([paragraph], measure, 80);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    const nodes = chunks.flat().flatMap(block => (block as any).content);
+    expect(nodes.filter(node => node === link)).toHaveLength(1);
+    expect(nodes.filter(node => typeof node === 'object' && node.type === 'mention')).toHaveLength(1);
+    for (const chunk of chunks) {
+      expect(chunk.map(measure).reduce((sum, length) => sum + length, 0)).toBeLessThanOrEqual(80);
+    }
+  });
+
+  it('should split code blocks and lists into blocks of the same kind', () => {
+    const code = rich.code(Array.from({ length: 20 }, (_, i) => `line ${i}`).join('\n'), 'ts');
+    const codeChunks = chunkBlocks([code], measure, 40).flat();
+    expect(codeChunks.every(block => block.type === 'code' && block.language === 'ts')).toBe(true);
+    expect(codeChunks.map(block => (block as any).code).join('\n')).toBe((code as any).code);
+
+    const list = rich.list(Array.from({ length: 10 }, (_, i) => `item ${i} with some text`), true);
+    const lists = chunkBlocks([list], measure, 80).flat() as any[];
+    expect(lists.length).toBeGreaterThan(1);
+    expect(lists.every(block => block.type === 'list' && block.ordered)).toBe(true);
+    // Numbering continues across the split
+    expect(lists[1].start).toBe(1 + lists[0].items.length);
+  });
+});
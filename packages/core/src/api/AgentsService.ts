@@ -0,0 +1,550 @@
+// packages/core/src/api/AgentsService.ts
+
+import type { JuliaOSClientTS, RequestOptions } from './ApiClient';
+import * as api from '../generated/api';
+import { sleep } from './retry';
+import { Page, PageRequest, Paginator, pageParams, toPage } from './pagination';
+import { ValidationError } from './errors';
+import {
+  AgentSummary,
+  AgentListFilters,
+  CreateAgentRequest,
+  AgentUpdate,
+  AgentState,
+  TaskPayload,
+  TaskSubmissionResult,
+  ListAgentTasksResponse,
+  TaskListFilters,
+  AgentTaskSummary,
+  TaskExecutionResult,
+  TaskCancelResponse,
+  TaskStatus,
+  WaitForTaskOptions,
+  AgentMemoryResponse,
+  AgentMemorySetResponse,
+  AgentMemoryClearResponse,
+  AgentMemorySetOptions,
+  AgentMemoryEntry,
+  AgentMemoryListFilters,
+  AgentMemoryBatchGetResponse,
+  AgentMemoryBatchSetEntry,
+  AgentMemoryBatchSetOptions,
+  AgentMemoryBatchSetResponse,
+  AgentMemorySnapshot,
+  AgentMemoryImportOptions,
+  AgentMemoryImportResult,
+  CloneAgentOptions,
+  BulkDeletePayload,
+  BulkDeleteResponse,
+} from './types';
+
+const DEFAULT_TASK_TIMEOUT_MS = 300000;
+const DEFAULT_TASK_POLL_INTERVAL_MS = 1000;
+
+const TERMINAL_TASK_STATUSES: string[] = [
+  TaskStatus.TASK_COMPLETED,
+  TaskStatus.TASK_FAILED,
+  TaskStatus.TASK_CANCELLED,
+];
+
+// Thrown by waitForTask when a task ends as TASK_FAILED or TASK_CANCELLED
+export class TaskFailedError extends Error {
+  public readonly agentId: string;
+  public readonly taskId: string;
+  public readonly status: TaskStatus | string;
+  public readonly result?: TaskExecutionResult;
+
+  constructor(message: string, agentId: string, taskId: string, status: TaskStatus | string, result?: TaskExecutionResult) {
+    super(message);
+    this.name = 'TaskFailedError';
+    this.agentId = agentId;
+    this.taskId = taskId;
+    this.status = status;
+    this.result = result;
+    Object.setPrototypeOf(this, TaskFailedError.prototype);
+  }
+}
+
+// Thrown by waitForTask when the task is still running after timeoutMs. The task is not cancelled.
+export class TaskTimeoutError extends Error {
+  public readonly agentId: string;
+  public readonly taskId: string;
+  public readonly timeoutMs: number;
+  public readonly lastStatus?: TaskStatus | string;
+
+  constructor(agentId: string, taskId: string, timeoutMs: number, lastStatus?: TaskStatus | string) {
+    super(`Task ${taskId} of agent ${agentId} did not finish within ${timeoutMs}ms`);
+    this.name = 'TaskTimeoutError';
+    this.agentId = agentId;
+    this.taskId = taskId;
+    this.timeoutMs = timeoutMs;
+    this.lastStatus = lastStatus;
+    Object.setPrototypeOf(this, TaskTimeoutError.prototype);
+  }
+}
+
+// Thrown by waitForTask when its AbortSignal fires
+export class TaskAbortedError extends Error {
+  public readonly agentId: string;
+  public readonly taskId: string;
+  public readonly cancelled: boolean; // Whether the backend acknowledged the cancellation
+
+  constructor(agentId: string, taskId: string, cancelled: boolean) {
+    super(`Waiting for task ${taskId} of agent ${agentId} was aborted`);
+    this.name = 'TaskAbortedError';
+    this.agentId = agentId;
+    this.taskId = taskId;
+    this.cancelled = cancelled;
+    Object.setPrototypeOf(this, TaskAbortedError.prototype);
+  }
+}
+
+function matchesAgentFilters(agent: AgentSummary, filters?: AgentListFilters): boolean {
+  const state = filters?.state || filters?.status;
+  return (!state || agent.state === state) &&
+    (!filters?.trigger_type || agent.trigger_type === filters.trigger_type);
+}
+
+/**
+ * Client for the agent routes. Methods marked "Legacy server only" call routes that the legacy
+ * julia/src/api server serves but backend/src/api/spec/api-spec.yaml does not describe, so they
+ * have no generated counterpart and fail with NotFoundError against the backend server.
+ */
+export class AgentsService {
+  private apiClient: JuliaOSClientTS;
+
+  constructor(apiClient: JuliaOSClientTS) {
+    this.apiClient = apiClient;
+  }
+
+  /**
+   * Lists all agents, with optional filtering.
+   * Corresponds to GET /api/v1/agents
+   */
+  public async listAgents(filters?: AgentListFilters): Promise<AgentSummary[]> {
+    const agents = await api.listAgents(this.apiClient);
+    // The endpoint takes no query parameters, so filters are applied client-side
+    return agents.filter(agent => matchesAgentFilters(agent, filters));
+  }
+
+  /**
+   * Fetches one page of agents. Filters and paging are sent as query parameters; when the
+   * backend returns an unpaginated array they are applied client-side instead.
+   * Corresponds to GET /api/v1/agents?limit=&offset=&cursor=
+   */
+  public async listAgentsPage(filters?: AgentListFilters, page: PageRequest = {}): Promise<Page<AgentSummary>> {
+    const params = pageParams(page);
+    const state = filters?.state || filters?.status;
+    if (state) params['state'] = String(state);
+    if (filters?.trigger_type) params['trigger_type'] = String(filters.trigger_type);
+
+    const response = await this.apiClient.get<AgentSummary[] | Record<string, any>>('/agents', { params });
+    if (Array.isArray(response)) {
+      return toPage(response.filter(agent => matchesAgentFilters(agent, filters)), page);
+    }
+    return toPage<AgentSummary>(response, page, 'agents');
+  }
+
+  /**
+   * Iterates over all agents matching the filters, fetching them page by page:
+   * `for await (const agent of client.agents.iterate(filters)) { ... }`
+   */
+  public iterate(filters?: AgentListFilters, options: { pageSize?: number } = {}): Paginator<AgentSummary> {
+    return new Paginator(page => this.listAgentsPage(filters, page), options.pageSize);
+  }
+
+  /**
+   * Creates a new agent from a blueprint.
+   * Corresponds to POST /api/v1/agents
+   */
+  public async createAgent(payload: CreateAgentRequest): Promise<AgentSummary> {
+    return api.createAgent(this.apiClient, payload);
+  }
+
+  /**
+   * Gets the details of a specific agent.
+   * Corresponds to GET /api/v1/agents/{agent_id}
+   */
+  public async getAgent(agentId: string): Promise<AgentSummary> {
+    return api.getAgent(this.apiClient, agentId);
+  }
+
+  /**
+   * Updates the state of an existing agent.
+   * Corresponds to PUT /api/v1/agents/{agent_id}
+   */
+  public async updateAgent(agentId: string, payload: AgentUpdate): Promise<AgentSummary> {
+    return api.updateAgent(this.apiClient, agentId, payload);
+  }
+
+  /**
+   * Deletes an agent.
+   * Corresponds to DELETE /api/v1/agents/{agent_id}
+   */
+  public async deleteAgent(agentId: string): Promise<void> {
+    return api.deleteAgent(this.apiClient, agentId);
+  }
+
+  /**
+   * Clones an existing agent, optionally carrying its memory over to the clone.
+   * Legacy server only: POST /api/v1/agents/{agent_id}/clone
+   */
+  public async cloneAgent(
+    agentId: string,
+    newName: string,
+    parameterOverrides?: Record<string, any>,
+    options: CloneAgentOptions = {}
+  ): Promise<AgentSummary> {
+    // Snapshot first so the clone gets the memory as it was when cloning started
+    const snapshot = options.copyMemory ? await this.exportAgentMemory(agentId) : undefined;
+    const payload = { new_name: newName, parameter_overrides: parameterOverrides || {} };
+    const clone = await this.apiClient.post<AgentSummary>(`/agents/${agentId}/clone`, payload);
+    if (snapshot) {
+      await this.importAgentMemory(clone.id, snapshot);
+    }
+    return clone;
+  }
+
+  /**
+   * Deletes multiple agents in bulk.
+   * Legacy server only: POST /api/v1/agents/bulk-delete
+   */
+  public async bulkDeleteAgents(payload: BulkDeletePayload): Promise<BulkDeleteResponse> {
+    return this.apiClient.post<BulkDeleteResponse>('/agents/bulk-delete', payload);
+  }
+
+  // --- Agent Lifecycle (PUT /api/v1/agents/{agent_id} with the target state) ---
+  public async startAgent(agentId: string): Promise<AgentSummary> {
+    return this.updateAgent(agentId, { state: AgentState.RUNNING });
+  }
+
+  public async stopAgent(agentId: string): Promise<AgentSummary> {
+    return this.updateAgent(agentId, { state: AgentState.STOPPED });
+  }
+
+  public async pauseAgent(agentId: string): Promise<AgentSummary> {
+    return this.updateAgent(agentId, { state: AgentState.PAUSED });
+  }
+
+  public async resumeAgent(agentId: string): Promise<AgentSummary> {
+    return this.updateAgent(agentId, { state: AgentState.RUNNING });
+  }
+
+  // --- Agent Triggers and Output ---
+
+  /**
+   * Triggers a webhook agent, passing it an optional payload.
+   * Corresponds to POST /api/v1/agents/{agent_id}/webhook
+   */
+  public async triggerWebhook(agentId: string, payload?: Record<string, any>): Promise<any> {
+    return api.processAgentWebhook(this.apiClient, agentId, payload);
+  }
+
+  /**
+   * Corresponds to GET /api/v1/agents/{agent_id}/logs
+   */
+  public async getAgentLogs(agentId: string): Promise<Record<string, any>> {
+    return api.getAgentLogs(this.apiClient, agentId);
+  }
+
+  /**
+   * Corresponds to GET /api/v1/agents/{agent_id}/output
+   */
+  public async getAgentOutput(agentId: string): Promise<Record<string, any>> {
+    return api.getAgentOutput(this.apiClient, agentId);
+  }
+
+  // --- Agent Tasks (legacy server only: /api/v1/agents/{agent_id}/tasks) ---
+
+  /**
+   * Submits a task to an agent. Like other POSTs it is not retried unless it carries an
+   * idempotency key (`options.idempotencyKey`), which the server must deduplicate.
+   */
+  public async executeTask(agentId: string, task: TaskPayload, options?: RequestOptions): Promise<TaskSubmissionResult> {
+    return this.apiClient.post<TaskSubmissionResult>(`/agents/${agentId}/tasks`, task, options);
+  }
+
+  public async listAgentTasks(agentId: string, filters?: TaskListFilters): Promise<ListAgentTasksResponse> {
+    const params: Record<string, string> = {};
+    if (filters?.status_filter) {
+      params['status_filter'] = String(filters.status_filter);
+    }
+    if (filters?.limit !== undefined) {
+      params['limit'] = String(filters.limit);
+    }
+    return this.apiClient.get<ListAgentTasksResponse>(`/agents/${agentId}/tasks`, { params });
+  }
+
+  /**
+   * Fetches one page of an agent's tasks.
+   * Legacy server only: GET /api/v1/agents/{agent_id}/tasks?limit=&offset=&cursor=
+   */
+  public async listAgentTasksPage(agentId: string, filters?: TaskListFilters, page: PageRequest = {}): Promise<Page<AgentTaskSummary>> {
+    const params = pageParams({ ...page, pageSize: page.pageSize ?? filters?.limit });
+    if (filters?.status_filter) {
+      params['status_filter'] = String(filters.status_filter);
+    }
+    const response = await this.apiClient.get<ListAgentTasksResponse>(`/agents/${agentId}/tasks`, { params });
+    return toPage<AgentTaskSummary>(response, page, 'tasks');
+  }
+
+  /**
+   * Iterates over all of an agent's tasks, fetching them page by page.
+   */
+  public iterateTasks(agentId: string, filters?: TaskListFilters, options: { pageSize?: number } = {}): Paginator<AgentTaskSummary> {
+    return new Paginator(page => this.listAgentTasksPage(agentId, filters, page), options.pageSize ?? filters?.limit);
+  }
+
+  public async getTaskStatus(agentId: string, taskId: string): Promise<AgentTaskSummary> {
+    return this.apiClient.get<AgentTaskSummary>(`/agents/${agentId}/tasks/${taskId}`);
+  }
+
+  public async getTaskResult(agentId: string, taskId: string): Promise<TaskExecutionResult> {
+    return this.apiClient.get<TaskExecutionResult>(`/agents/${agentId}/tasks/${taskId}/result`);
+  }
+
+  public async cancelTask(agentId: string, taskId: string): Promise<TaskCancelResponse> {
+    return this.apiClient.post<TaskCancelResponse>(`/agents/${agentId}/tasks/${taskId}/cancel`);
+  }
+
+  /**
+   * Polls a task until it reaches a terminal status and resolves with its result.
+   * Rejects with TaskFailedError if the task failed or was cancelled, TaskTimeoutError
+   * once `timeoutMs` elapses, or TaskAbortedError when `signal` is aborted (after asking
+   * the backend to cancel the task, unless `cancelOnAbort` is false).
+   */
+  public async waitForTask(agentId: string, taskId: string, options: WaitForTaskOptions = {}): Promise<TaskExecutionResult> {
+    const timeoutMs = options.timeoutMs ?? DEFAULT_TASK_TIMEOUT_MS;
+    const pollIntervalMs = options.pollIntervalMs ?? DEFAULT_TASK_POLL_INTERVAL_MS;
+    const { signal, onProgress } = options;
+    const started = Date.now();
+    let lastStatus: TaskStatus | string | undefined;
+
+    for (let attempt = 1; ; attempt++) {
+      if (signal?.aborted) {
+        throw await this.abortTask(agentId, taskId, options);
+      }
+
+      let task: AgentTaskSummary;
+      try {
+        task = await this.apiClient.get<AgentTaskSummary>(`/agents/${agentId}/tasks/${taskId}`, { signal });
+      } catch (error) {
+        if (signal?.aborted) {
+          throw await this.abortTask(agentId, taskId, options);
+        }
+        throw error;
+      }
+      lastStatus = task.status;
+      onProgress?.({ agentId, taskId, task, attempt, elapsedMs: Date.now() - started });
+
+      if (TERMINAL_TASK_STATUSES.includes(task.status)) {
+        const result = await this.getTaskResult(agentId, taskId);
+        if (result.status === TaskStatus.TASK_COMPLETED) {
+          return result;
+        }
+        throw new TaskFailedError(
+          result.error || `Task ${taskId} ended with status ${result.status}`,
+          agentId,
+          taskId,
+          result.status,
+          result
+        );
+      }
+
+      const remaining = timeoutMs > 0 ? timeoutMs - (Date.now() - started) : Infinity;
+      if (remaining <= 0) {
+        throw new TaskTimeoutError(agentId, taskId, timeoutMs, lastStatus);
+      }
+      await sleep(Math.min(pollIntervalMs, remaining), signal);
+    }
+  }
+
+  /**
+   * Submits a task and waits for it to finish; see waitForTask for the options and failure modes.
+   */
+  public async executeAndWait(
+    agentId: string,
+    task: TaskPayload,
+    options: WaitForTaskOptions & { request?: RequestOptions } = {}
+  ): Promise<TaskExecutionResult> {
+    const { request, ...waitOptions } = options;
+    const submission = await this.executeTask(agentId, task, { ...request, signal: options.signal });
+    if (!submission.success || !submission.task_id) {
+      throw new TaskFailedError(
+        submission.error || `Task submission to agent ${agentId} failed`,
+        agentId,
+        submission.task_id,
+        TaskStatus.TASK_FAILED
+      );
+    }
+    return this.waitForTask(agentId, submission.task_id, waitOptions);
+  }
+
+  // Cancels the task if requested and builds the error waitForTask rejects with on abort
+  private async abortTask(agentId: string, taskId: string, options: WaitForTaskOptions): Promise<TaskAbortedError> {
+    let cancelled = false;
+    if (options.cancelOnAbort !== false) {
+      try {
+        const response = await this.cancelTask(agentId, taskId);
+        cancelled = response.success;
+      } catch {
+        // The task may already have finished or the backend may be unreachable; the abort still wins
+      }
+    }
+    return new TaskAbortedError(agentId, taskId, cancelled);
+  }
+
+  // --- Agent Memory (legacy server only: /api/v1/agents/{agent_id}/memory) ---
+  public async getAgentMemory(agentId: string, key: string): Promise<AgentMemoryResponse> {
+    return this.apiClient.get<AgentMemoryResponse>(`/agents/${agentId}/memory/${encodeURIComponent(key)}`);
+  }
+
+  public async setAgentMemory(agentId: string, key: string, value: any, options: AgentMemorySetOptions = {}): Promise<AgentMemorySetResponse> {
+    const payload: Record<string, any> = { value };
+    if (options.ttlSeconds !== undefined) {
+      payload['ttl_seconds'] = options.ttlSeconds;
+    }
+    return this.apiClient.post<AgentMemorySetResponse>(`/agents/${agentId}/memory/${encodeURIComponent(key)}`, payload);
+  }
+
+  public async clearAgentMemory(agentId: string): Promise<AgentMemoryClearResponse> {
+    return this.apiClient.delete<AgentMemoryClearResponse>(`/agents/${agentId}/memory`);
+  }
+
+  /**
+   * Fetches one page of an agent's memory keys, optionally restricted to a prefix.
+   * Legacy server only: GET /api/v1/agents/{agent_id}/memory?prefix=&include_values=&limit=&offset=&cursor=
+   */
+  public async listAgentMemory(agentId: string, filters: AgentMemoryListFilters = {}, page: PageRequest = {}): Promise<Page<AgentMemoryEntry>> {
+    const params = pageParams(page);
+    if (filters.prefix) params['prefix'] = filters.prefix;
+    if (filters.includeValues) params['include_values'] = 'true';
+    const response = await this.apiClient.get<Record<string, any>>(`/agents/${agentId}/memory`, { params });
+    return toPage<AgentMemoryEntry>(response, page, 'entries');
+  }
+
+  /**
+   * Iterates over all memory entries whose key starts with `prefix`.
+   */
+  public scanAgentMemory(
+    agentId: string,
+    prefix?: string,
+    options: { pageSize?: number; includeValues?: boolean } = {}
+  ): Paginator<AgentMemoryEntry> {
+    const filters = { prefix, includeValues: options.includeValues };
+    return new Paginator(page => this.listAgentMemory(agentId, filters, page), options.pageSize);
+  }
+
+  /**
+   * Reads several keys in one request; keys that are not set are listed in `missing`.
+   * Legacy server only: POST /api/v1/agents/{agent_id}/memory/batch-get
+   */
+  public async getAgentMemoryBatch(agentId: string, keys: string[]): Promise<AgentMemoryBatchGetResponse> {
+    return this.apiClient.post<AgentMemoryBatchGetResponse>(`/agents/${agentId}/memory/batch-get`, { keys });
+  }
+
+  /**
+   * Sets several keys atomically: either every entry is written or none is. With `replace`, the
+   * agent's existing memory is cleared as part of the same batch.
+   * Legacy server only: POST /api/v1/agents/{agent_id}/memory/batch
+   */
+  public async setAgentMemoryBatch(
+    agentId: string,
+    entries: AgentMemoryBatchSetEntry[],
+    options: AgentMemoryBatchSetOptions = {}
+  ): Promise<AgentMemoryBatchSetResponse> {
+    const payload: Record<string, any> = { entries, atomic: true };
+    if (options.replace) {
+      payload['replace'] = true;
+    }
+    return this.apiClient.post<AgentMemoryBatchSetResponse>(`/agents/${agentId}/memory/batch`, payload);
+  }
+
+  /**
+   * Exports an agent's memory (or the keys under `prefix`) as a JSON-serialisable snapshot,
+   * e.g. before upgrading the agent.
+   */
+  public async exportAgentMemory(agentId: string, options: { prefix?: string } = {}): Promise<AgentMemorySnapshot> {
+    const entries = await this.scanAgentMemory(agentId, options.prefix, { includeValues: true }).toArray();
+    return {
+      format_version: 1,
+      agent_id: agentId,
+      exported_at: new Date().toISOString(),
+      entries: entries.map(entry => ({ key: entry.key, value: entry.value, expires_at: entry.expires_at ?? null })),
+    };
+  }
+
+  /**
+   * Restores a snapshot from exportAgentMemory into an agent in a single atomic batch; with
+   * `clear`, the batch also replaces the existing memory, so a failed import leaves it untouched.
+   * Entries keep their original expiry: the remaining TTL is recomputed and entries that
+   * have expired since the export are skipped.
+   */
+  public async importAgentMemory(
+    agentId: string,
+    snapshot: AgentMemorySnapshot,
+    options: AgentMemoryImportOptions = {}
+  ): Promise<AgentMemoryImportResult> {
+    if (snapshot.format_version !== 1) {
+      throw new ValidationError(`Unsupported memory snapshot format: ${snapshot.format_version}`, {
+        statusCode: 400,
+        errorCode: 'INVALID_SNAPSHOT',
+        errorDetails: { field_errors: { format_version: ['Expected 1'] } },
+      });
+    }
+
+    const now = Date.now();
+    const entries: AgentMemoryBatchSetEntry[] = [];
+    let skippedExpired = 0;
+    for (const entry of snapshot.entries) {
+      if (options.prefix && !entry.key.startsWith(options.prefix)) continue;
+      const batchEntry: AgentMemoryBatchSetEntry = { key: entry.key, value: entry.value };
+      if (entry.expires_at) {
+        const remainingSeconds = Math.ceil((Date.parse(entry.expires_at) - now) / 1000);
+        if (remainingSeconds <= 0) {
+          skippedExpired++;
+          continue;
+        }
+        batchEntry.ttl_seconds = remainingSeconds;
+      }
+      entries.push(batchEntry);
+    }
+
+    if (entries.length > 0 || options.clear) {
+      await this.setAgentMemoryBatch(agentId, entries, { replace: options.clear });
+    }
+    return { imported: entries.length, skipped_expired: skippedExpired };
+  }
+
+  // --- Deprecated entry points from the former AgentsApiClient ---
+
+  /** @deprecated Use listAgents. */
+  public async list(agentType?: string, status?: string): Promise<AgentSummary[]> {
+    return this.listAgents({ type: agentType, status });
+  }
+
+  /** @deprecated Use getAgent. */
+  public async get(agentId: string): Promise<AgentSummary> {
+    return this.getAgent(agentId);
+  }
+
+  /** @deprecated Use getAgent. */
+  public async getAgentStatus(agentId: string): Promise<AgentSummary> {
+    return this.getAgent(agentId);
+  }
+
+  /** @deprecated Use createAgent. POST /agents/create no longer exists. */
+  public async create(payload: CreateAgentRequest): Promise<AgentSummary> {
+    return this.createAgent(payload);
+  }
+
+  /** @deprecated Use startAgent. */
+  public async start(agentId: string): Promise<AgentSummary> {
+    return this.startAgent(agentId);
+  }
+
+  /** @deprecated Use stopAgent. */
+  public async stop(agentId: string): Promise<AgentSummary> {
+    return this.stopAgent(agentId);
+  }
+}
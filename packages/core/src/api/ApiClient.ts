@@ -1,9 +1,25 @@
 // packages/core/src/api/ApiClient.ts
 
 import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse, AxiosError, InternalAxiosRequestConfig } from 'axios';
+import { AgentsService } from './AgentsService';
+import { EventsClient, EventsClientOptions } from './EventsClient';
+import { NotFoundError, ValidationError, toApiError } from './errors';
+import { ToolSummary, StrategySummary } from './types';
+import { ApiRequest, ApiRequester, listTools, listStrategies } from '../generated/api';
+import { Logger, getLogger } from '../logging/logger';
+import {
+  RetryPolicy,
+  resolveRetryPolicy,
+  isReplayable,
+  computeBackoffDelay,
+  parseRetryAfter,
+  generateIdempotencyKey,
+  sleep,
+} from './retry';
 
 
 // --- Type Definitions ---
+/** @deprecated Use ApiErrorEnvelope from ./errors. */
 export interface JuliaApiErrorDetail {
   message: string;
   error_code?: string;
@@ -11,10 +27,12 @@ export interface JuliaApiErrorDetail {
   status_code: number;
 }
 
+/** @deprecated Use ApiErrorEnvelope from ./errors. */
 export interface JuliaApiResponseError {
   error: JuliaApiErrorDetail;
 }
 
+/** @deprecated Use AgentSummary from ./types. */
 export interface Agent {
   agent_id: string;
   name: string;
@@ -24,11 +42,13 @@ export interface Agent {
   [key: string]: any; // Allow other dynamic properties
 }
 
+/** @deprecated GET /agents returns AgentSummary[] directly. */
 export interface AgentListResponse {
   agents: Agent[];
   // Add other potential pagination or metadata fields if the API returns them
 }
 
+/** @deprecated Use CreateAgentRequest from ./types. */
 export interface CreateAgentConfig {
     name: string;
     type: string;
@@ -38,83 +58,356 @@ export interface CreateAgentConfig {
     [key: string]: any;
 }
 
+/** @deprecated Use TaskPayload from ./types. */
 export interface ExecuteTaskPayload {
     ability: string;
     parameters?: Record<string, any>;
 }
 
-// Custom error class for API errors
-export class ApiClientError extends Error {
-  public readonly statusCode: number;
-  public readonly errorCode?: string;
-  public readonly errorDetails?: any;
+// --- Swarm Type Definitions ---
 
-  constructor(message: string, statusCode: number, errorCode?: string, errorDetails?: any) {
-    super(message);
-    this.name = 'ApiClientError';
-    this.statusCode = statusCode;
-    this.errorCode = errorCode;
-    this.errorDetails = errorDetails;
-    Object.setPrototypeOf(this, ApiClientError.prototype);
+// Corresponds to SwarmStatus enum in Julia backend (Swarms.jl)
+export enum SwarmStatus {
+  CREATED = 'SWARM_CREATED',
+  RUNNING = 'SWARM_RUNNING',
+  STOPPED = 'SWARM_STOPPED',
+  ERROR = 'SWARM_ERROR',
+  COMPLETED = 'SWARM_COMPLETED',
+}
+
+export type SwarmAlgorithmType = 'PSO' | 'DE' | 'GA';
+
+// Keyword arguments of PSOAlgorithm (algorithms/pso.jl)
+export interface PSOParams {
+  num_particles?: number;
+  inertia?: number;
+  c1?: number; // cognitive coefficient
+  c2?: number; // social coefficient
+  vel_clamp_factor?: number;
+}
+
+// Keyword arguments of DEAlgorithm (algorithms/de.jl)
+export interface DEParams {
+  pop_size?: number;
+  cr?: number; // crossover rate
+  f_factor?: number; // mutation factor
+}
+
+// Keyword arguments of GAAlgorithm (algorithms/ga.jl)
+export interface GAParams {
+  pop_size?: number;
+  mut_rate?: number;
+  cross_rate?: number;
+  elitism_k?: number;
+  tourn_size?: number;
+}
+
+export type SwarmAlgorithmConfig =
+  | { algorithm: 'PSO'; params?: PSOParams }
+  | { algorithm: 'DE'; params?: DEParams }
+  | { algorithm: 'GA'; params?: GAParams };
+
+// Definition of an optimization objective (maps to SwarmBase.OptimizationProblem)
+export interface SwarmObjective {
+  name: string;
+  description?: string;
+  objective_function_name: string; // Must be registered in the backend's objective registry
+  dimensions: number;
+  bounds: Array<[number, number]>; // One [min, max] pair per dimension
+  is_minimization?: boolean; // default true
+}
+
+export interface LaunchSwarmOptions {
+  objectiveId?: string; // From createObjective on the same client
+  objective?: SwarmObjective; // Inline alternative to objectiveId, e.g. when launching from another process
+  config: SwarmAlgorithmConfig;
+  name?: string; // Defaults to the objective name
+  maxIterations?: number;
+  targetFitness?: number;
+  autoStart?: boolean; // default true
+  // Generic options shared by all algorithms (e.g. iteration_delay_seconds, evaluation_timeout_seconds)
+  extraParams?: Record<string, any>;
+}
+
+// Matches Swarms.getSwarmStatus in the Julia backend
+export interface SwarmStatusInfo {
+  id: string;
+  name: string;
+  status: SwarmStatus | string;
+  algo: SwarmAlgorithmType | string;
+  agents: number;
+  iter: number;
+  best_fit: number | number[] | null;
+  created: string; // ISO DateTime string
+  updated: string; // ISO DateTime string
+}
+
+// Matches SwarmBase.SwarmSolution
+export interface SwarmSolution {
+  position: number[];
+  fitness: number | number[];
+  is_feasible: boolean;
+  metadata?: Record<string, any>;
+}
+
+export interface SwarmResult {
+  swarm_id: string;
+  status: SwarmStatus | string;
+  iterations: number;
+  best_fitness: number | number[] | null;
+  best_solution: SwarmSolution | null;
+}
+
+export interface SwarmConnection {
+  id: string;
+  source: string;
+  target: string;
+  type: string;
+  description: string | null;
+  strength: number;
+  last_interaction: string | null;
+  is_active: boolean;
+}
+
+// Response items of GET /marketplace/swarms
+export interface SwarmTopology {
+  swarm_id: string;
+  agents: string[];
+  connections: SwarmConnection[];
+  coordination_patterns: Record<string, any>;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SwarmAnalysisResponse {
+  message: string;
+  swarms_detected: number;
+  time_window_hours: number;
+  swarms: {
+    swarm_id: string;
+    agent_count: number;
+    connection_count: number;
+    dominant_pattern: string;
+  }[];
+}
+
+export interface AgentConnectionInfo {
+  id: string;
+  source_agent_id: string;
+  target_agent_id: string;
+  connection_type: string;
+  data_flow_description: string | null;
+  is_active: boolean;
+  created_at: string;
+  direction: 'incoming' | 'outgoing';
+}
+
+// --- Client Options ---
+export interface JuliaOSClientOptions {
+  retry?: Partial<RetryPolicy> | false; // Defaults to DEFAULT_RETRY_POLICY; false disables retries
+  // Send a generated Idempotency-Key on every POST/PATCH, which makes them retryable too. Only enable
+  // this against a server that deduplicates by that header; the JuliaOS backend does not (default false).
+  idempotencyKeys?: boolean;
+  timeoutMs?: number;
+  events?: EventsClientOptions; // Transport and reconnect settings for the `events` sub-client
+  logger?: Logger; // Requests are logged at debug level, retries as warnings (default getLogger())
+}
+
+// Per-request overrides accepted by get/post/put/delete
+export interface RequestOptions extends AxiosRequestConfig {
+  retry?: Partial<RetryPolicy> | false;
+  idempotencyKey?: string; // Sent as Idempotency-Key, which makes a POST/PATCH retryable, e.g. derived from an upstream event ID
+}
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+// --- Sub-client for Swarms ---
+function validateObjective(objective: SwarmObjective): void {
+  if (objective.dimensions <= 0 || objective.bounds.length !== objective.dimensions) {
+    throw new ValidationError(`Objective '${objective.name}' must define one [min, max] bound per dimension`, {
+      statusCode: 400,
+      errorCode: 'INVALID_OBJECTIVE',
+      errorDetails: { field_errors: { bounds: [`Expected ${objective.dimensions} bounds, got ${objective.bounds.length}`] } },
+    });
   }
 }
 
-// --- Sub-client for Agents ---
-class AgentsApiClient {
-  private mainClient: JuliaOSClientTS; // Changed to JuliaOSClientTS
+class SwarmsApiClient {
+  private mainClient: JuliaOSClientTS;
+  // The backend has no objective resource: objectives are registered with this client
+  // instance and sent as the swarm's problem_definition when the swarm is launched.
+  // Once launched, the swarm itself lives on the backend under /swarms.
+  private objectives: Map<string, SwarmObjective> = new Map();
+  private objectiveCounter = 0;
 
-  constructor(mainClient: JuliaOSClientTS) { // Changed to JuliaOSClientTS
+  constructor(mainClient: JuliaOSClientTS) {
     this.mainClient = mainClient;
   }
 
-  public async list(agentType?: string, status?: string): Promise<Agent[]> {
+  public async createObjective(objective: SwarmObjective): Promise<string> {
+    validateObjective(objective);
+    const objectiveId = `objective-${++this.objectiveCounter}`;
+    this.objectives.set(objectiveId, { ...objective });
+    return objectiveId;
+  }
+
+  public getObjective(objectiveId: string): SwarmObjective | undefined {
+    return this.objectives.get(objectiveId);
+  }
+
+  /**
+   * Creates a swarm for an objective (registered or inline) through POST /swarms and,
+   * unless `autoStart` is false, starts it. Returns the swarm ID.
+   */
+  public async launchSwarm(options: LaunchSwarmOptions): Promise<string> {
+    const objective = options.objective || (options.objectiveId ? this.objectives.get(options.objectiveId) : undefined);
+    if (!objective) {
+      throw new NotFoundError(`Unknown objective: ${options.objectiveId}`, { statusCode: 404, errorCode: 'OBJECTIVE_NOT_FOUND' });
+    }
+    if (options.objective) {
+      validateObjective(options.objective);
+    }
+
+    // Swarms.jl reads algorithm keyword arguments from "<algo>_specific_params"
+    const specificKey = `${options.config.algorithm.toLowerCase()}_specific_params`;
+    const payload = {
+      name: options.name || objective.name,
+      algorithm_type: options.config.algorithm,
+      algorithm_params: {
+        ...(options.extraParams || {}),
+        [specificKey]: options.config.params || {},
+      },
+      objective_description: objective.description || objective.name,
+      max_iterations: options.maxIterations ?? 100,
+      target_fitness: options.targetFitness ?? null,
+      problem_definition: {
+        dimensions: objective.dimensions,
+        bounds: objective.bounds,
+        is_minimization: objective.is_minimization ?? true,
+        objective_function_name: objective.objective_function_name,
+      },
+    };
+
+    const created = await this.mainClient.post<SwarmStatusInfo>('/swarms', payload);
+    if (options.autoStart !== false) {
+      await this.start(created.id);
+    }
+    return created.id;
+  }
+
+  public async list(status?: SwarmStatus | string): Promise<SwarmStatusInfo[]> {
     const params: Record<string, string> = {};
-    if (agentType) params['type'] = agentType;
-    if (status) params['status'] = status;
-    
-    // Assuming the actual API response for listing agents is { agents: Agent[] }
-    const response = await this.mainClient.get<AgentListResponse>('/agents', { params });
-    return response.agents || [];
+    if (status) params['status'] = status.replace(/^SWARM_/, ''); // The backend takes CREATED, RUNNING, ...
+    return this.mainClient.get<SwarmStatusInfo[]>('/swarms', { params });
   }
 
-  public async get(agentId: string): Promise<Agent> {
-    return this.mainClient.get<Agent>(`/agents/${agentId}`);
+  public async getSwarmStatus(swarmId: string): Promise<SwarmStatusInfo> {
+    return this.mainClient.get<SwarmStatusInfo>(`/swarms/${swarmId}`);
   }
 
-  public async create(config: CreateAgentConfig): Promise<Agent> { 
-    // The backend might return the full agent object or just a confirmation with ID.
-    // Adjusting to expect Agent based on common patterns.
-    return this.mainClient.post<Agent>('/agents/create', config); 
+  public async getSwarmResult(swarmId: string): Promise<SwarmResult> {
+    const status = await this.getSwarmStatus(swarmId);
+    let bestSolution: SwarmSolution | null = null;
+    try {
+      bestSolution = await this.mainClient.get<SwarmSolution>(`/swarms/${swarmId}/state/best_solution_found`);
+    } catch (error) {
+      // Not every algorithm publishes its best position to shared state
+      if (!(error instanceof NotFoundError)) {
+        throw error;
+      }
+    }
+    return {
+      swarm_id: status.id,
+      status: status.status,
+      iterations: status.iter,
+      best_fitness: status.best_fit,
+      best_solution: bestSolution,
+    };
   }
-  
-  public async start(agentId: string): Promise<any> { // Return type can be more specific if known
-    return this.mainClient.post(`/agents/${agentId}/start`);
+
+  public async start(swarmId: string): Promise<any> {
+    return this.mainClient.post(`/swarms/${swarmId}/start`);
   }
 
-  public async stop(agentId: string): Promise<any> { // Return type can be more specific
-    return this.mainClient.post(`/agents/${agentId}/stop`);
+  public async stop(swarmId: string): Promise<any> {
+    return this.mainClient.post(`/swarms/${swarmId}/stop`);
   }
-  
-  public async executeTask(agentId: string, taskPayload: ExecuteTaskPayload): Promise<any> { // Return type can be more specific
-    return this.mainClient.post(`/agents/${agentId}/execute_task`, taskPayload);
+
+  public async getMetrics(swarmId: string): Promise<{ status_summary: SwarmStatusInfo; queue_len: number }> {
+    return this.mainClient.get(`/swarms/${swarmId}/metrics`);
+  }
+
+  // --- Marketplace swarm coordination endpoints ---
+  public async listTopologies(): Promise<SwarmTopology[]> {
+    return this.mainClient.get<SwarmTopology[]>('/marketplace/swarms');
+  }
+
+  public async getPerformance(swarmId: string): Promise<Record<string, any>> {
+    return this.mainClient.get(`/marketplace/swarms/${swarmId}/performance`);
+  }
+
+  public async analyze(timeWindowHours?: number): Promise<SwarmAnalysisResponse> {
+    return this.mainClient.post<SwarmAnalysisResponse>('/marketplace/swarms/analyze', {
+      time_window_hours: timeWindowHours,
+    });
+  }
+
+  public async getGraphData(): Promise<Record<string, any>> {
+    return this.mainClient.get('/marketplace/swarms/graph-data');
+  }
+
+  public async getAgentConnections(agentId: string): Promise<AgentConnectionInfo[]> {
+    return this.mainClient.get<AgentConnectionInfo[]>(`/marketplace/agents/${agentId}/connections`);
+  }
+}
+
+// --- Sub-clients for Tools and Strategies ---
+class ToolsApiClient {
+  private mainClient: JuliaOSClientTS;
+
+  constructor(mainClient: JuliaOSClientTS) {
+    this.mainClient = mainClient;
+  }
+
+  public async list(): Promise<ToolSummary[]> {
+    return listTools(this.mainClient);
+  }
+}
+
+class StrategiesApiClient {
+  private mainClient: JuliaOSClientTS;
+
+  constructor(mainClient: JuliaOSClientTS) {
+    this.mainClient = mainClient;
+  }
+
+  public async list(): Promise<StrategySummary[]> {
+    return listStrategies(this.mainClient);
   }
-  // TODO: Add other agent methods: pause, resume, delete, get_task_status, get_task_result, list_agent_tasks, cancel_agent_task
 }
 
 // --- Main JuliaOS TypeScript Client ---
-export class JuliaOSClientTS {
+export class JuliaOSClientTS implements ApiRequester {
   private axiosInstance: AxiosInstance;
   private apiKey?: string;
+  private options: JuliaOSClientOptions;
+  private logger: Logger;
 
   // Sub-clients
-  public agents: AgentsApiClient;
-  // public swarms: SwarmsApiClient; // To be added
+  public agents: AgentsService;
+  public swarms: SwarmsApiClient;
+  public tools: ToolsApiClient;
+  public strategies: StrategiesApiClient;
+  public events: EventsClient;
   // ... other clients
 
-  constructor(baseURL: string, apiKey?: string) {
+  constructor(baseURL: string, apiKey?: string, options: JuliaOSClientOptions = {}) {
     this.apiKey = apiKey;
+    this.options = options;
+    this.logger = (options.logger || getLogger()).child({ module: 'JuliaOSClientTS' }, { secrets: apiKey ? [apiKey] : [] });
     this.axiosInstance = axios.create({
       baseURL: baseURL, // e.g., http://localhost:8080/api/v1 (JuliaOS backend port)
+      timeout: options.timeoutMs,
       headers: {
         'Content-Type': 'application/json',
       },
@@ -134,70 +427,105 @@ export class JuliaOSClientTS {
     );
 
     // Initialize sub-clients
-    this.agents = new AgentsApiClient(this);
-    // this.swarms = new SwarmsApiClient(this); // Example for future
+    this.agents = new AgentsService(this);
+    this.swarms = new SwarmsApiClient(this);
+    this.tools = new ToolsApiClient(this);
+    this.strategies = new StrategiesApiClient(this);
+    this.events = new EventsClient(baseURL, apiKey, options.events);
   }
   
   private handleApiError(error: AxiosError): never {
-    if (error.response) {
-      const responseData = error.response.data as JuliaApiResponseError | any;
-      if (responseData && responseData.error && responseData.error.message) {
-        const errDetail = responseData.error;
-        throw new ApiClientError(
-          errDetail.message,
-          errDetail.status_code || error.response.status,
-          errDetail.error_code,
-          errDetail.details
-        );
-      } else {
-        throw new ApiClientError(
-          (error.response.data as any)?.message || error.message,
-          error.response.status,
-          'UNKNOWN_CLIENT_ERROR',
-          error.response.data
-        );
+    throw toApiError(error);
+  }
+
+  /**
+   * Sends a request, retrying transient failures according to the effective retry policy.
+   * POST/PATCH requests are only retried when they carry an idempotency key, and no request is
+   * retried once its AbortSignal fires.
+   */
+  private async send<T>(config: RequestOptions): Promise<T> {
+    const { retry, idempotencyKey, ...axiosConfig } = config;
+    const method = (axiosConfig.method || 'GET').toUpperCase();
+    const headers: Record<string, any> = { ...(axiosConfig.headers as Record<string, any> || {}) };
+
+    const wantsKey = method === 'POST' || method === 'PATCH';
+    const key = idempotencyKey || (wantsKey && this.options.idempotencyKeys ? generateIdempotencyKey() : undefined);
+    if (key) {
+      headers[IDEMPOTENCY_KEY_HEADER] = key;
+    }
+
+    const retryDisabled = this.options.retry === false || retry === false;
+    const policy = resolveRetryPolicy(
+      this.options.retry === false ? undefined : this.options.retry,
+      retry === false ? undefined : retry
+    );
+    const maxRetries = retryDisabled || !isReplayable(method, !!key) ? 0 : policy.maxRetries;
+    // Retries of a request share its ID in the logs
+    const logger = this.logger.child({ request_id: key || generateIdempotencyKey() });
+
+    for (let attempt = 0; ; attempt++) {
+      const started = Date.now();
+      try {
+        const response: AxiosResponse<T> = await this.axiosInstance.request({ ...axiosConfig, method, headers });
+        logger.debug(`${method} ${axiosConfig.url}`, { status: response.status, duration_ms: Date.now() - started, attempt });
+        return response.data;
+      } catch (error) {
+        const axiosError = error as AxiosError;
+        const delay = attempt < maxRetries ? this.getRetryDelay(axiosError, attempt + 1, policy) : undefined;
+        const status = axiosError.response?.status;
+        if (delay === undefined) {
+          logger.debug(`${method} ${axiosConfig.url} failed`, { status, duration_ms: Date.now() - started, attempt, error });
+          this.handleApiError(axiosError);
+        }
+        logger.warn(`${method} ${axiosConfig.url} failed, retrying in ${delay}ms`, { status, attempt, error });
+        const signal = axiosConfig.signal as AbortSignal | undefined;
+        await sleep(delay, signal);
+        if (signal?.aborted) {
+          logger.debug(`${method} ${axiosConfig.url} aborted before retrying`, { attempt });
+          this.handleApiError(axiosError);
+        }
       }
-    } else if (error.request) {
-      throw new ApiClientError('No response received from server', 503, 'NETWORK_ERROR', error.request);
-    } else {
-      throw new ApiClientError(`Request setup error: ${error.message}`, 500, 'REQUEST_SETUP_ERROR');
     }
   }
 
-  public async get<T = any>(path: string, config?: AxiosRequestConfig): Promise<T> {
-    try {
-      const response: AxiosResponse<T> = await this.axiosInstance.get(path, config);
-      return response.data;
-    } catch (error) {
-      this.handleApiError(error as AxiosError);
+  // Returns the delay before the given retry, or undefined if the failure should not be retried
+  private getRetryDelay(error: AxiosError, retry: number, policy: RetryPolicy): number | undefined {
+    if (axios.isCancel(error)) {
+      return undefined; // Aborted through the caller's AbortSignal
+    }
+    if (!error.response) {
+      // No response: network failure or timeout. Errors raised before sending are not retried.
+      return error.request && policy.retryOnNetworkError ? computeBackoffDelay(retry, policy) : undefined;
+    }
+    if (!policy.retryOnStatus.includes(error.response.status)) {
+      return undefined;
     }
+    const retryAfter = parseRetryAfter(error.response.headers?.['retry-after']);
+    if (retryAfter !== undefined && (error.response.status === 429 || error.response.status === 503)) {
+      return Math.min(retryAfter, policy.maxDelayMs);
+    }
+    return computeBackoffDelay(retry, policy);
   }
 
-  public async post<T = any>(path: string, data?: any, config?: AxiosRequestConfig): Promise<T> {
-    try {
-      const response: AxiosResponse<T> = await this.axiosInstance.post(path, data, config);
-      return response.data;
-    } catch (error) {
-      this.handleApiError(error as AxiosError);
-    }
+  // Transport used by the request functions generated from the OpenAPI spec
+  public async request<T = any>(req: ApiRequest): Promise<T> {
+    return this.send<T>({ method: req.method, url: req.path, data: req.body, params: req.query });
   }
 
-  public async put<T = any>(path: string, data?: any, config?: AxiosRequestConfig): Promise<T> {
-    try {
-      const response: AxiosResponse<T> = await this.axiosInstance.put(path, data, config);
-      return response.data;
-    } catch (error) {
-      this.handleApiError(error as AxiosError);
-    }
+  public async get<T = any>(path: string, config?: RequestOptions): Promise<T> {
+    return this.send<T>({ ...config, method: 'GET', url: path });
   }
 
-  public async delete<T = any>(path: string, config?: AxiosRequestConfig): Promise<T> {
-    try {
-      const response: AxiosResponse<T> = await this.axiosInstance.delete(path, config);
-      return response.data;
-    } catch (error) {
-      this.handleApiError(error as AxiosError);
-    }
+  public async post<T = any>(path: string, data?: any, config?: RequestOptions): Promise<T> {
+    return this.send<T>({ ...config, method: 'POST', url: path, data });
+  }
+
+  public async put<T = any>(path: string, data?: any, config?: RequestOptions): Promise<T> {
+    return this.send<T>({ ...config, method: 'PUT', url: path, data });
+  }
+
+  public async delete<T = any>(path: string, config?: RequestOptions): Promise<T> {
+    return this.send<T>({ ...config, method: 'DELETE', url: path });
   }
 
   public async getStatus(): Promise<any> { // Example: Get overall backend status
@@ -205,6 +533,16 @@ export class JuliaOSClientTS {
   }
 }
 
+/**
+ * @deprecated Use JuliaOSClientTS. Kept for code written against the former
+ * `ApiClient` entry point; defaults to the local backend when no URL is given.
+ */
+export class ApiClient extends JuliaOSClientTS {
+  constructor(baseURL: string = 'http://localhost:8052/api/v1', apiKey?: string, options?: JuliaOSClientOptions) {
+    super(baseURL, apiKey, options);
+  }
+}
+
 // Example Usage (can be moved to a test file or an example script)
 /*
 async function main() {
@@ -216,30 +554,35 @@ async function main() {
     console.log('Status:', status);
 
     console.log('Listing agents...');
-    const agents = await juliaosClient.agents.list();
+    const agents = await juliaosClient.agents.listAgents();
     console.log('Agents:', agents);
 
     if (agents.length > 0 && agents[0]) {
-      console.log(`Getting details for agent ${agents[0].agent_id}...`);
-      const agentDetail = await juliaosClient.agents.get(agents[0].agent_id);
+      console.log(`Getting details for agent ${agents[0].id}...`);
+      const agentDetail = await juliaosClient.agents.getAgent(agents[0].id);
       console.log('Agent Detail:', agentDetail);
     }
 
-    // const newAgentPayload: CreateAgentConfig = {
+    // const newAgentPayload: CreateAgentRequest = {
+    //   id: "my-ts-agent",
     //   name: "MyTSAgentFromSDK",
-    //   type: "SimpleDataAgent", 
-    //   abilities: ["ping"]
+    //   description: "Agent created from the TypeScript SDK",
+    //   blueprint: {
+    //     tools: [{ name: "ping", config: {} }],
+    //     strategy: { name: "plan_execute", config: {} },
+    //     trigger: { type: "webhook", params: {} }
+    //   }
     // };
     // console.log('Creating agent...');
-    // const newAgent = await juliaosClient.agents.create(newAgentPayload);
+    // const newAgent = await juliaosClient.agents.createAgent(newAgentPayload);
     // console.log('New Agent:', newAgent);
 
-    // if (newAgent && newAgent.agent_id) {
-    //   console.log(`Starting agent ${newAgent.agent_id}...`);
-    //   await juliaosClient.agents.start(newAgent.agent_id);
-    //   console.log(`Executing task on agent ${newAgent.agent_id}...`);
-    //   const taskResult = await juliaosClient.agents.executeTask(newAgent.agent_id, { ability: "ping" });
-    //   console.log('Task Result:', taskResult);
+    // if (newAgent && newAgent.id) {
+    //   console.log(`Starting agent ${newAgent.id}...`);
+    //   await juliaosClient.agents.startAgent(newAgent.id);
+    //   console.log(`Triggering agent ${newAgent.id}...`);
+    //   await juliaosClient.agents.triggerWebhook(newAgent.id, { text: "ping" });
+    //   console.log('Agent Output:', await juliaosClient.agents.getAgentOutput(newAgent.id));
     // }
 
   } catch (error) {
@@ -0,0 +1,394 @@
+// packages/core/src/api/EventsClient.ts
+
+import { RetryPolicy, computeBackoffDelay, resolveRetryPolicy } from './retry';
+import {
+  RealtimeEvent,
+  RealtimeEventFilter,
+  RealtimeEventType,
+  EventStreamState,
+} from './types';
+
+// Minimal surface shared by the browser WebSocket and the `ws` package
+export interface WebSocketLike {
+  onopen: ((event: any) => void) | null;
+  onmessage: ((event: { data: any }) => void) | null;
+  onclose: ((event: any) => void) | null;
+  onerror: ((event: any) => void) | null;
+  close(code?: number, reason?: string): void;
+}
+
+// Handshake options of the `ws` package; browsers ignore the third constructor argument
+export interface WebSocketOptions {
+  headers?: Record<string, string>;
+}
+
+export type WebSocketConstructor = new (url: string, protocols?: string | string[], options?: WebSocketOptions) => WebSocketLike;
+
+const IS_NODE = typeof process !== 'undefined' && !!process.versions?.node;
+
+// The DOM typings declare WebSocket on every runtime, but Node only has it from version 22
+interface WebSocketGlobal {
+  WebSocket?: WebSocketConstructor;
+}
+
+export interface EventsClientOptions {
+  path?: string; // Stream endpoint relative to the client base URL (default /events)
+  transport?: 'auto' | 'websocket' | 'sse'; // 'auto' prefers WebSocket when one is available
+  WebSocket?: WebSocketConstructor; // Defaults to globalThis.WebSocket; in Node pass `ws` so the API key goes in a header
+  // Send the API key as the `api_key` URL parameter of the WebSocket handshake instead of the
+  // X-API-Key header. Defaults to true outside Node: browsers cannot set handshake headers, so
+  // the key ends up in the URL and in any proxy logs that record it.
+  apiKeyInQuery?: boolean;
+  fetch?: typeof fetch; // Used for SSE; defaults to globalThis.fetch
+  reconnect?: Partial<RetryPolicy> | false; // Backoff between reconnects; retries forever by default
+  autoConnect?: boolean; // Connect on the first subscription and disconnect after the last (default true)
+}
+
+export interface EventSubscription {
+  unsubscribe(): void;
+}
+
+// Callbacks a transport uses to report back to the EventsClient
+interface TransportHandlers {
+  onOpen(): void;
+  onMessage(data: string, id?: string, eventType?: string): void;
+  onClose(error?: Error): void;
+}
+
+interface EventTransport {
+  close(): void;
+}
+
+interface SubscriptionEntry {
+  filter: RealtimeEventFilter<any>;
+  handler: (event: RealtimeEvent<any>) => void;
+}
+
+const DEFAULT_RECONNECT_POLICY: Partial<RetryPolicy> = {
+  maxRetries: Infinity,
+  baseDelayMs: 500,
+  maxDelayMs: 30000,
+};
+
+/**
+ * Subscribes to the backend's real-time event stream over WebSocket or Server-Sent Events.
+ * Reconnects with backoff and resumes from the last received event ID. The API key goes in the
+ * X-API-Key header, except on browser WebSockets, which send it as the `api_key` URL parameter.
+ */
+export class EventsClient {
+  private baseURL: string;
+  private apiKey?: string;
+  private options: EventsClientOptions;
+  private reconnectPolicy?: RetryPolicy;
+
+  private subscriptions: Set<SubscriptionEntry> = new Set();
+  private stateListeners: Set<(state: EventStreamState) => void> = new Set();
+  private errorListeners: Set<(error: Error) => void> = new Set();
+
+  private transport?: EventTransport;
+  private state: EventStreamState = 'disconnected';
+  private cursor?: string;
+  private reconnectAttempt = 0;
+  private reconnectTimer?: ReturnType<typeof setTimeout>;
+
+  constructor(baseURL: string, apiKey?: string, options: EventsClientOptions = {}) {
+    this.baseURL = baseURL;
+    this.apiKey = apiKey;
+    this.options = options;
+    this.reconnectPolicy = options.reconnect === false
+      ? undefined
+      : resolveRetryPolicy(DEFAULT_RECONNECT_POLICY, options.reconnect);
+  }
+
+  /**
+   * Delivers every event matching the filter to the handler.
+   */
+  public subscribe<K extends RealtimeEventType = RealtimeEventType>(
+    filter: RealtimeEventFilter<K>,
+    handler: (event: RealtimeEvent<K>) => void
+  ): EventSubscription {
+    const entry: SubscriptionEntry = { filter, handler };
+    this.subscriptions.add(entry);
+    if (this.options.autoConnect !== false && this.state === 'disconnected') {
+      this.connect();
+    }
+    return {
+      unsubscribe: () => {
+        if (!this.subscriptions.delete(entry)) return;
+        if (this.options.autoConnect !== false && this.subscriptions.size === 0) {
+          this.disconnect();
+        }
+      },
+    };
+  }
+
+  /**
+   * Subscribes to a single event type, optionally scoped to an agent or swarm.
+   */
+  public on<K extends RealtimeEventType>(
+    type: K,
+    handler: (event: RealtimeEvent<K>) => void,
+    filter: Omit<RealtimeEventFilter<K>, 'types'> = {}
+  ): EventSubscription {
+    return this.subscribe<K>({ ...filter, types: [type] }, handler);
+  }
+
+  public onStateChange(listener: (state: EventStreamState) => void): () => void {
+    this.stateListeners.add(listener);
+    return () => this.stateListeners.delete(listener);
+  }
+
+  // Stream failures and exceptions thrown by subscription handlers
+  public onError(listener: (error: Error) => void): () => void {
+    this.errorListeners.add(listener);
+    return () => this.errorListeners.delete(listener);
+  }
+
+  public getState(): EventStreamState {
+    return this.state;
+  }
+
+  // ID of the last event received, sent as the resume cursor on reconnect
+  public getCursor(): string | undefined {
+    return this.cursor;
+  }
+
+  public connect(): void {
+    if (this.transport) return;
+    this.clearReconnectTimer();
+    this.setState(this.reconnectAttempt > 0 ? 'reconnecting' : 'connecting');
+    try {
+      this.transport = this.openTransport();
+    } catch (error) {
+      // Missing WebSocket/fetch implementations are configuration errors, not worth retrying
+      this.reconnectAttempt = 0;
+      this.setState('disconnected');
+      throw error;
+    }
+  }
+
+  public disconnect(): void {
+    this.clearReconnectTimer();
+    this.reconnectAttempt = 0;
+    const transport = this.transport;
+    this.transport = undefined;
+    transport?.close();
+    this.setState('disconnected');
+  }
+
+  private openTransport(): EventTransport {
+    const handlers: TransportHandlers = {
+      onOpen: () => {
+        if (this.transport !== transport) return;
+        this.reconnectAttempt = 0;
+        this.setState('connected');
+      },
+      onMessage: (data, id, eventType) => {
+        if (this.transport !== transport) return;
+        this.handleMessage(data, id, eventType);
+      },
+      onClose: (error) => {
+        if (this.transport !== transport) return;
+        this.transport = undefined;
+        this.handleClose(error);
+      },
+    };
+
+    const WebSocketImpl = this.options.WebSocket || (globalThis as WebSocketGlobal).WebSocket;
+    const mode = this.options.transport || 'auto';
+    let transport: EventTransport;
+    if (mode === 'websocket' || (mode === 'auto' && WebSocketImpl)) {
+      if (!WebSocketImpl) {
+        throw new Error('No WebSocket implementation available; pass one as options.WebSocket');
+      }
+      const headers = this.apiKey && !this.apiKeyInQuery() ? { 'X-API-Key': this.apiKey } : undefined;
+      transport = openWebSocket(WebSocketImpl, this.buildUrl(true), headers, handlers);
+    } else {
+      const fetchImpl = this.options.fetch || globalThis.fetch;
+      if (!fetchImpl) {
+        throw new Error('No fetch implementation available for the SSE transport; pass one as options.fetch');
+      }
+      const headers: Record<string, string> = {};
+      if (this.apiKey) headers['X-API-Key'] = this.apiKey;
+      if (this.cursor) headers['Last-Event-ID'] = this.cursor;
+      transport = openEventSource(fetchImpl, this.buildUrl(false), headers, handlers);
+    }
+    return transport;
+  }
+
+  private buildUrl(websocket: boolean): string {
+    const base = this.baseURL.replace(/\/+$/, '');
+    const url = new URL(`${base}${this.options.path || '/events'}`);
+    if (websocket) {
+      url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+      if (this.apiKey && this.apiKeyInQuery()) url.searchParams.set('api_key', this.apiKey);
+    }
+    if (this.cursor) url.searchParams.set('cursor', this.cursor);
+    return url.toString();
+  }
+
+  private apiKeyInQuery(): boolean {
+    return this.options.apiKeyInQuery ?? !IS_NODE;
+  }
+
+  private handleMessage(data: string, id?: string, eventType?: string): void {
+    let event: RealtimeEvent;
+    try {
+      event = JSON.parse(data);
+    } catch {
+      this.reportError(new Error(`Ignoring malformed event stream message: ${data.slice(0, 100)}`));
+      return;
+    }
+    if (!event.type && eventType) {
+      event.type = eventType as RealtimeEventType;
+    }
+    const cursor = event.id ?? id;
+    if (cursor !== undefined && cursor !== '') {
+      this.cursor = String(cursor);
+    }
+
+    for (const entry of Array.from(this.subscriptions)) {
+      if (!matchesFilter(event, entry.filter)) continue;
+      try {
+        entry.handler(event);
+      } catch (error) {
+        this.reportError(error as Error);
+      }
+    }
+  }
+
+  private handleClose(error?: Error): void {
+    if (error) {
+      this.reportError(error);
+    }
+    const policy = this.reconnectPolicy;
+    if (!policy || this.reconnectAttempt >= policy.maxRetries) {
+      this.reconnectAttempt = 0;
+      this.setState('disconnected');
+      return;
+    }
+    this.reconnectAttempt++;
+    this.setState('reconnecting');
+    const delay = computeBackoffDelay(this.reconnectAttempt, policy);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
+      this.connect();
+    }, delay);
+  }
+
+  private clearReconnectTimer(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = undefined;
+    }
+  }
+
+  private setState(state: EventStreamState): void {
+    if (this.state === state) return;
+    this.state = state;
+    this.stateListeners.forEach(listener => listener(state));
+  }
+
+  private reportError(error: Error): void {
+    this.errorListeners.forEach(listener => listener(error));
+  }
+}
+
+function matchesFilter(event: RealtimeEvent, filter: RealtimeEventFilter<any>): boolean {
+  if (filter.types && filter.types.length > 0 && !filter.types.includes(event.type)) return false;
+  const payload = (event.payload || {}) as Record<string, any>;
+  if (filter.agentId && payload.agent_id !== filter.agentId) return false;
+  if (filter.swarmId && payload.swarm_id !== filter.swarmId) return false;
+  return !filter.where || filter.where(event);
+}
+
+function openWebSocket(
+  WebSocketImpl: WebSocketConstructor,
+  url: string,
+  headers: Record<string, string> | undefined,
+  handlers: TransportHandlers
+): EventTransport {
+  const socket = headers ? new WebSocketImpl(url, undefined, { headers }) : new WebSocketImpl(url);
+  let closed = false;
+  socket.onopen = () => handlers.onOpen();
+  socket.onmessage = (event) => handlers.onMessage(typeof event.data === 'string' ? event.data : String(event.data));
+  socket.onerror = () => {
+    // Browsers expose no error details; the close event that follows triggers the reconnect
+  };
+  socket.onclose = (event) => {
+    if (closed) return;
+    closed = true;
+    const clean = event && event.code === 1000;
+    handlers.onClose(clean ? undefined : new Error(`Event stream WebSocket closed (code ${event?.code ?? 'unknown'})`));
+  };
+  return {
+    close: () => {
+      closed = true;
+      socket.close(1000, 'client disconnect');
+    },
+  };
+}
+
+// Server-Sent Events over fetch, so the API key can be sent as a header in both Node and the browser
+function openEventSource(
+  fetchImpl: typeof fetch,
+  url: string,
+  headers: Record<string, string>,
+  handlers: TransportHandlers
+): EventTransport {
+  const controller = new AbortController();
+
+  (async () => {
+    const response = await fetchImpl(url, {
+      headers: { ...headers, Accept: 'text/event-stream' },
+      signal: controller.signal,
+    });
+    if (!response.ok || !response.body) {
+      throw new Error(`Event stream request failed with status ${response.status}`);
+    }
+    handlers.onOpen();
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let data: string[] = [];
+    let id: string | undefined;
+    let eventType: string | undefined;
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let newline: number;
+      while ((newline = buffer.indexOf('\n')) >= 0) {
+        const line = buffer.slice(0, newline).replace(/\r$/, '');
+        buffer = buffer.slice(newline + 1);
+
+        if (line === '') {
+          if (data.length > 0) {
+            handlers.onMessage(data.join('\n'), id, eventType);
+          }
+          data = [];
+          eventType = undefined;
+          continue;
+        }
+        if (line.startsWith(':')) continue; // Comment / keep-alive
+
+        const colon = line.indexOf(':');
+        const field = colon < 0 ? line : line.slice(0, colon);
+        const fieldValue = colon < 0 ? '' : line.slice(colon + 1).replace(/^ /, '');
+        if (field === 'data') data.push(fieldValue);
+        else if (field === 'id') id = fieldValue;
+        else if (field === 'event') eventType = fieldValue;
+      }
+    }
+    throw new Error('Event stream ended');
+  })().catch((error: Error) => {
+    if (!controller.signal.aborted) {
+      handlers.onClose(error);
+    }
+  });
+
+  return { close: () => controller.abort() };
+}
@@ -0,0 +1,315 @@
+// packages/core/src/api/errors.ts
+//
+// Error taxonomy shared by the SDK and the frontend. This module must stay free of
+// imports: scripts/generate-ts-client.js copies it to frontend/lib/generated/errors.ts.
+
+// Error codes emitted by backend/src/api/error_handling.jl (ErrorCodes)
+export enum ApiErrorCode {
+  VALIDATION_ERROR = 'validation_error',
+  BAD_REQUEST = 'bad_request',
+  UNAUTHORIZED = 'unauthorized',
+  FORBIDDEN = 'forbidden',
+  NOT_FOUND = 'not_found',
+  CONFLICT = 'conflict',
+  RATE_LIMITED = 'rate_limited',
+  INTERNAL_ERROR = 'internal_error',
+  SERVICE_UNAVAILABLE = 'service_unavailable',
+  TIMEOUT = 'timeout',
+  // Raised on the client side, never sent by the backend
+  NETWORK_ERROR = 'NETWORK_ERROR',
+  REQUEST_SETUP_ERROR = 'REQUEST_SETUP_ERROR',
+  UNKNOWN_CLIENT_ERROR = 'UNKNOWN_CLIENT_ERROR',
+}
+
+// Error body written by create_error_response in error_handling.jl. The legacy
+// julia/src/api routes send `error_code` and `status_code` instead of `code`.
+export interface ApiErrorEnvelope {
+  error: {
+    code?: string;
+    error_code?: string;
+    message: string;
+    details?: Record<string, any> | null;
+    request_id?: string;
+    timestamp?: string;
+    status_code?: number;
+  };
+}
+
+export type FieldErrors = Record<string, string[]>;
+
+export interface ApiErrorInit {
+  statusCode: number;
+  errorCode?: string;
+  errorDetails?: any;
+  requestId?: string;
+  timestamp?: string;
+  cause?: unknown;
+}
+
+// Base class for every error raised by the API clients
+export class ApiClientError extends Error {
+  public readonly statusCode: number;
+  public readonly errorCode?: string;
+  public readonly errorDetails?: any;
+  public readonly requestId?: string; // Backend request ID, for correlating with server logs
+  public readonly timestamp?: string;
+  public readonly cause?: unknown;
+
+  constructor(message: string, statusCode: number, errorCode?: string, errorDetails?: any);
+  constructor(message: string, init: ApiErrorInit);
+  constructor(message: string, statusOrInit: number | ApiErrorInit, errorCode?: string, errorDetails?: any) {
+    super(message);
+    const init: ApiErrorInit = typeof statusOrInit === 'number'
+      ? { statusCode: statusOrInit, errorCode, errorDetails }
+      : statusOrInit;
+    this.name = 'ApiClientError';
+    this.statusCode = init.statusCode;
+    this.errorCode = init.errorCode;
+    this.errorDetails = init.errorDetails;
+    this.requestId = init.requestId;
+    this.timestamp = init.timestamp;
+    this.cause = init.cause;
+    Object.setPrototypeOf(this, ApiClientError.prototype);
+  }
+}
+
+// 400: validation_error / bad_request
+export class ValidationError extends ApiClientError {
+  public readonly fieldErrors: FieldErrors;
+
+  constructor(message: string, init: ApiErrorInit) {
+    super(message, init);
+    this.name = 'ValidationError';
+    this.fieldErrors = extractFieldErrors(message, init.errorDetails);
+    Object.setPrototypeOf(this, ValidationError.prototype);
+  }
+}
+
+// 401 unauthorized / 403 forbidden
+export class AuthError extends ApiClientError {
+  public readonly forbidden: boolean; // Authenticated but not allowed, as opposed to not authenticated
+
+  constructor(message: string, init: ApiErrorInit) {
+    super(message, init);
+    this.name = 'AuthError';
+    this.forbidden = init.statusCode === 403 || init.errorCode === ApiErrorCode.FORBIDDEN;
+    Object.setPrototypeOf(this, AuthError.prototype);
+  }
+}
+
+// 404
+export class NotFoundError extends ApiClientError {
+  constructor(message: string, init: ApiErrorInit) {
+    super(message, init);
+    this.name = 'NotFoundError';
+    Object.setPrototypeOf(this, NotFoundError.prototype);
+  }
+}
+
+// 409
+export class ConflictError extends ApiClientError {
+  constructor(message: string, init: ApiErrorInit) {
+    super(message, init);
+    this.name = 'ConflictError';
+    Object.setPrototypeOf(this, ConflictError.prototype);
+  }
+}
+
+// 429
+export class RateLimitedError extends ApiClientError {
+  public readonly retryAfterMs?: number; // From details.retry_after_seconds or the Retry-After header
+
+  constructor(message: string, init: ApiErrorInit & { retryAfterMs?: number }) {
+    super(message, init);
+    this.name = 'RateLimitedError';
+    this.retryAfterMs = init.retryAfterMs;
+    Object.setPrototypeOf(this, RateLimitedError.prototype);
+  }
+}
+
+// 5xx other than timeouts
+export class ServerError extends ApiClientError {
+  constructor(message: string, init: ApiErrorInit) {
+    super(message, init);
+    this.name = 'ServerError';
+    Object.setPrototypeOf(this, ServerError.prototype);
+  }
+}
+
+// No response was received
+export class NetworkError extends ApiClientError {
+  constructor(message: string, init: ApiErrorInit) {
+    super(message, init);
+    this.name = 'NetworkError';
+    Object.setPrototypeOf(this, NetworkError.prototype);
+  }
+}
+
+// Client-side request timeout, or a 408/504 or `timeout` error from the backend
+export class TimeoutError extends ApiClientError {
+  constructor(message: string, init: ApiErrorInit) {
+    super(message, init);
+    this.name = 'TimeoutError';
+    Object.setPrototypeOf(this, TimeoutError.prototype);
+  }
+}
+
+type ApiErrorClass = new (message: string, init: ApiErrorInit) => ApiClientError;
+
+// Backend codes (lower-cased, so legacy codes like NOT_FOUND match too) to error classes
+const ERROR_CLASSES_BY_CODE: Record<string, ApiErrorClass> = {
+  validation_error: ValidationError,
+  bad_request: ValidationError,
+  invalid_input: ValidationError,
+  unauthorized: AuthError,
+  forbidden: AuthError,
+  not_found: NotFoundError,
+  conflict: ConflictError,
+  rate_limited: RateLimitedError,
+  internal_error: ServerError,
+  server_error: ServerError,
+  external_service_error: ServerError,
+  service_unavailable: ServerError,
+  timeout: TimeoutError,
+};
+
+function errorClassForStatus(status: number): ApiErrorClass {
+  if (status === 400 || status === 422) return ValidationError;
+  if (status === 401 || status === 403) return AuthError;
+  if (status === 404) return NotFoundError;
+  if (status === 409) return ConflictError;
+  if (status === 429) return RateLimitedError;
+  if (status === 408 || status === 504) return TimeoutError;
+  if (status >= 500) return ServerError;
+  return ApiClientError;
+}
+
+function extractFieldErrors(message: string, details: any): FieldErrors {
+  if (!details || typeof details !== 'object') return {};
+  if (details.field_errors && typeof details.field_errors === 'object') {
+    const fieldErrors: FieldErrors = {};
+    for (const [field, errors] of Object.entries(details.field_errors)) {
+      fieldErrors[field] = Array.isArray(errors) ? errors.map(String) : [String(errors)];
+    }
+    return fieldErrors;
+  }
+  // Legacy routes report a single offending field as details.field
+  if (typeof details.field === 'string') {
+    return { [details.field]: [message] };
+  }
+  return {};
+}
+
+function parseRetryAfterMs(details: any, headerValue: unknown): number | undefined {
+  const seconds = details?.retry_after_seconds;
+  if (typeof seconds === 'number') return seconds * 1000;
+  if (headerValue === undefined || headerValue === null || headerValue === '') return undefined;
+  const text = String(headerValue).trim();
+  if (/^\d+(\.\d+)?$/.test(text)) return Math.round(parseFloat(text) * 1000);
+  const date = Date.parse(text);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Fields read from an error body before its shape is known
+interface ErrorBody {
+  error?: unknown;
+  message?: unknown;
+  code?: unknown;
+  error_code?: unknown;
+  request_id?: unknown;
+}
+
+// Fields read from an error thrown by an axios-style HTTP client
+interface HttpClientFailure {
+  response?: { status: number; data?: unknown; headers?: Record<string, any> };
+  request?: unknown;
+  code?: unknown;
+  name?: unknown;
+  message?: unknown;
+}
+
+function isErrorBody(value: unknown): value is ErrorBody {
+  return typeof value === 'object' && value !== null;
+}
+
+function isHttpClientFailure(value: unknown): value is HttpClientFailure {
+  return typeof value === 'object' && value !== null;
+}
+
+export function isApiErrorEnvelope(data: unknown): data is ApiErrorEnvelope {
+  return isErrorBody(data) && isErrorBody(data.error) && typeof data.error.message === 'string';
+}
+
+/**
+ * Builds the typed error for an HTTP error response, reading the backend error envelope
+ * when present and falling back to the HTTP status otherwise.
+ */
+export function errorFromResponse(
+  status: number,
+  data: unknown,
+  headers: Record<string, any> = {},
+  fallbackMessage?: string
+): ApiClientError {
+  let message: string;
+  let init: ApiErrorInit & { retryAfterMs?: number };
+
+  if (isApiErrorEnvelope(data)) {
+    const error = data.error;
+    message = error.message;
+    init = {
+      statusCode: error.status_code || status,
+      errorCode: error.code || error.error_code,
+      errorDetails: error.details ?? undefined,
+      requestId: error.request_id,
+      timestamp: error.timestamp,
+    };
+  } else {
+    const body: ErrorBody = isErrorBody(data) ? data : {};
+    message = (typeof body.message === 'string' && body.message) ||
+      (typeof body.error === 'string' && body.error) ||
+      fallbackMessage ||
+      `Request failed with status ${status}`;
+    init = { statusCode: status, errorCode: ApiErrorCode.UNKNOWN_CLIENT_ERROR, errorDetails: data };
+  }
+
+  const byCode = init.errorCode ? ERROR_CLASSES_BY_CODE[init.errorCode.toLowerCase()] : undefined;
+  const ErrorClass = byCode || errorClassForStatus(init.statusCode);
+  if (ErrorClass === RateLimitedError) {
+    init.retryAfterMs = parseRetryAfterMs(init.errorDetails, headers['retry-after'] ?? headers['Retry-After']);
+  }
+  return new ErrorClass(message, init);
+}
+
+/**
+ * Converts any failure from an HTTP client into an ApiClientError subclass. Understands
+ * axios-style errors (`response`, `request`, `code`) without depending on axios.
+ */
+export function toApiError(error: unknown): ApiClientError {
+  if (error instanceof ApiClientError) return error;
+  const err: HttpClientFailure = isHttpClientFailure(error) ? error : {};
+  const errorMessage = typeof err.message === 'string' ? err.message : undefined;
+
+  if (err.response) {
+    return errorFromResponse(err.response.status, err.response.data, err.response.headers || {}, errorMessage);
+  }
+  if (err.code === 'ECONNABORTED' || err.code === 'ETIMEDOUT' || err.name === 'TimeoutError') {
+    return new TimeoutError(errorMessage || 'Request timed out', {
+      statusCode: 408,
+      errorCode: ApiErrorCode.TIMEOUT,
+      cause: error,
+    });
+  }
+  if (err.request) {
+    return new NetworkError('No response received from server', {
+      statusCode: 503,
+      errorCode: ApiErrorCode.NETWORK_ERROR,
+      errorDetails: err.request,
+      cause: error,
+    });
+  }
+  return new ApiClientError(`Request setup error: ${errorMessage ?? String(error)}`, {
+    statusCode: 500,
+    errorCode: ApiErrorCode.REQUEST_SETUP_ERROR,
+    cause: error,
+  });
+}
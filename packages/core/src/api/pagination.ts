@@ -0,0 +1,177 @@
+// packages/core/src/api/pagination.ts
+
+export const DEFAULT_PAGE_SIZE = 100;
+// Largest `limit` the backend accepts on its list routes
+export const MAX_PAGE_SIZE = 1000;
+
+// Position of a page request: a cursor takes precedence over an offset
+export interface PageRequest {
+  pageSize?: number;
+  offset?: number;
+  cursor?: string;
+}
+
+export interface Page<T> {
+  items: T[];
+  offset: number; // Offset of the first item in the full listing
+  total?: number; // Total number of items, when the backend reports it
+  nextCursor?: string;
+  hasMore: boolean;
+  listing?: T[]; // The complete listing, when the backend ignored paging and returned all of it
+}
+
+// Shape of a paginated list response; any of these fields may be missing
+interface PagedEnvelope {
+  total?: number;
+  total_count?: number;
+  next_cursor?: string | null;
+  has_more?: boolean;
+  // Page-number envelope produced by paginated_response in backend/src/api/error_handling.jl
+  pagination?: { total?: number; page?: number; limit?: number; has_next?: boolean };
+  [key: string]: any;
+}
+
+function resolvePageSize(request: PageRequest): number {
+  return Math.min(request.pageSize ?? DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+}
+
+/**
+ * Builds the query parameters for a page request; the page size is capped at MAX_PAGE_SIZE.
+ */
+export function pageParams(request: PageRequest): Record<string, string> {
+  const pageSize = resolvePageSize(request);
+  const params: Record<string, string> = { limit: String(pageSize) };
+  if (request.cursor) {
+    params['cursor'] = request.cursor;
+  } else if (request.offset) {
+    params['offset'] = String(request.offset);
+    // Backends using page numbers (1-based) read `page` instead of `offset`
+    params['page'] = String(Math.floor(request.offset / pageSize) + 1);
+  }
+  return params;
+}
+
+/**
+ * Normalizes a list response into a Page. `itemsKey` names the array field of an
+ * envelope response (e.g. `tasks`); `data` and `items` are also recognised.
+ *
+ * Plain arrays, and envelopes holding more items than were asked for, come from backends that
+ * ignore limit/offset: they are treated as the complete listing and sliced client-side. Other
+ * envelopes without total/next_cursor/has_more are taken as one page of the listing, with more
+ * to come until a page comes back short. `total` is only set when the backend reports one or
+ * returned the complete listing.
+ */
+export function toPage<T>(response: unknown, request: PageRequest, itemsKey?: string): Page<T> {
+  const pageSize = resolvePageSize(request);
+  const offset = request.offset ?? 0;
+
+  let items: T[];
+  let envelope: PagedEnvelope = {};
+  if (Array.isArray(response)) {
+    items = response;
+  } else {
+    envelope = (response || {}) as PagedEnvelope;
+    items = (itemsKey && envelope[itemsKey]) || envelope.items || envelope.data || [];
+  }
+
+  const total = envelope.total ?? envelope.total_count ?? envelope.pagination?.total;
+  const nextCursor = envelope.next_cursor || undefined;
+  const reportedHasMore = envelope.has_more ?? envelope.pagination?.has_next;
+  const paginated = total !== undefined || nextCursor !== undefined || reportedHasMore !== undefined;
+
+  if (!paginated) {
+    if (Array.isArray(response) || items.length > pageSize) {
+      return {
+        items: items.slice(offset, offset + pageSize),
+        offset,
+        total: items.length,
+        hasMore: offset + pageSize < items.length,
+        listing: items,
+      };
+    }
+    return { items, offset, hasMore: items.length === pageSize };
+  }
+
+  const hasMore = reportedHasMore ?? (nextCursor !== undefined || (total !== undefined && offset + items.length < total));
+  return { items, offset, total, nextCursor, hasMore: hasMore && items.length > 0 };
+}
+
+// Identifies an item to tell a repeated page apart from the next one
+function itemKey(item: unknown): string {
+  const id = item && typeof item === 'object' ? (item as { id?: unknown }).id : undefined;
+  return id !== undefined ? String(id) : JSON.stringify(item);
+}
+
+/**
+ * Async iterator over a paginated listing. Iterate it directly for items, or use
+ * `pages()` for whole pages; `total` is set once the first page has been fetched.
+ *
+ * A complete listing returned in place of a page is fetched once and paged in memory. A page
+ * starting with the same item as the one before means the backend ignores the offset, and
+ * ends the iteration instead of repeating that page forever.
+ */
+export class Paginator<T> implements AsyncIterable<T> {
+  public total?: number;
+  private fetchPage: (request: PageRequest) => Promise<Page<T>>;
+  private pageSize: number;
+
+  constructor(fetchPage: (request: PageRequest) => Promise<Page<T>>, pageSize: number = DEFAULT_PAGE_SIZE) {
+    if (pageSize < 1) {
+      throw new Error('pageSize must be at least 1');
+    }
+    this.fetchPage = fetchPage;
+    this.pageSize = pageSize;
+  }
+
+  public async *pages(): AsyncGenerator<Page<T>> {
+    let request: PageRequest = { pageSize: this.pageSize, offset: 0 };
+    let firstKey: string | undefined;
+    for (;;) {
+      const page = await this.fetchPage(request);
+      if (page.listing) {
+        yield* this.listingPages(page);
+        return;
+      }
+      const key = page.items.length > 0 ? itemKey(page.items[0]) : undefined;
+      if (key !== undefined && key === firstKey) return;
+      firstKey = key;
+      if (page.total !== undefined) {
+        this.total = page.total;
+      }
+      yield page;
+      if (!page.hasMore) return;
+      request = {
+        pageSize: this.pageSize,
+        offset: page.offset + page.items.length,
+        cursor: page.nextCursor,
+      };
+    }
+  }
+
+  // Pages through the complete listing returned with the first page, without fetching it again
+  private *listingPages({ listing = [], ...first }: Page<T>): Generator<Page<T>> {
+    const pageSize = resolvePageSize({ pageSize: this.pageSize });
+    this.total = listing.length;
+    yield first;
+    for (let offset = first.offset + pageSize; offset < listing.length; offset += pageSize) {
+      yield { items: listing.slice(offset, offset + pageSize), offset, total: listing.length, hasMore: offset + pageSize < listing.length };
+    }
+  }
+
+  public async *[Symbol.asyncIterator](): AsyncIterator<T> {
+    for await (const page of this.pages()) {
+      yield* page.items;
+    }
+  }
+
+  // Collects up to `limit` items (default: all of them)
+  public async toArray(limit: number = Infinity): Promise<T[]> {
+    const items: T[] = [];
+    if (limit <= 0) return items;
+    for await (const item of this) {
+      items.push(item);
+      if (items.length >= limit) break;
+    }
+    return items;
+  }
+}
@@ -0,0 +1,86 @@
+// packages/core/src/api/retry.ts
+
+export interface RetryPolicy {
+  maxRetries: number; // Retries after the first attempt; 0 disables retrying
+  baseDelayMs: number; // Delay before the first retry, doubled on each further retry
+  maxDelayMs: number; // Upper bound for a single backoff delay (and for honored Retry-After values)
+  jitter: boolean; // Full jitter: pick a random delay in [0, computed backoff]
+  retryOnStatus: number[];
+  retryOnNetworkError: boolean;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 250,
+  maxDelayMs: 10000,
+  jitter: true,
+  retryOnStatus: [408, 429, 500, 502, 503, 504],
+  retryOnNetworkError: true,
+};
+
+// Methods that can be replayed without an idempotency key
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+export function resolveRetryPolicy(...overrides: Array<Partial<RetryPolicy> | undefined>): RetryPolicy {
+  return Object.assign({}, DEFAULT_RETRY_POLICY, ...overrides.filter(Boolean));
+}
+
+export function isReplayable(method: string, hasIdempotencyKey: boolean): boolean {
+  return IDEMPOTENT_METHODS.includes(method.toUpperCase()) || hasIdempotencyKey;
+}
+
+/**
+ * Exponential backoff for the given retry number (1-based), with optional full jitter.
+ */
+export function computeBackoffDelay(retry: number, policy: RetryPolicy, random: () => number = Math.random): number {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, retry - 1));
+  return policy.jitter ? Math.floor(random() * exponential) : exponential;
+}
+
+/**
+ * Parses a Retry-After header (delta-seconds or HTTP-date) into milliseconds.
+ * Returns undefined when the header is absent or malformed.
+ */
+export function parseRetryAfter(value: unknown, now: number = Date.now()): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const text = String(value).trim();
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    return Math.round(parseFloat(text) * 1000);
+  }
+  const date = Date.parse(text);
+  if (isNaN(date)) return undefined;
+  return Math.max(0, date - now);
+}
+
+export function generateIdempotencyKey(): string {
+  if (typeof globalThis.crypto?.randomUUID === 'function') {
+    return globalThis.crypto.randomUUID();
+  }
+  // Fallback for runtimes without Web Crypto
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, c => {
+    const r = (Math.random() * 16) | 0;
+    return (c === 'x' ? r : (r & 0x3) | 0x8).toString(16);
+  });
+}
+
+/**
+ * Resolves after `ms` milliseconds, or as soon as `signal` is aborted.
+ * Callers check `signal.aborted` afterwards to tell the two apart.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
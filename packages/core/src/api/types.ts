@@ -0,0 +1,359 @@
+// packages/core/src/api/types.ts
+
+// --- Types from the backend OpenAPI spec (backend/src/api/spec/api-spec.yaml) ---
+
+// Corresponds to AgentSummary.state
+export enum AgentState {
+  CREATED = 'CREATED',
+  RUNNING = 'RUNNING',
+  PAUSED = 'PAUSED',
+  STOPPED = 'STOPPED',
+}
+
+// Corresponds to AgentSummary.trigger_type
+export enum TriggerType {
+  PERIODIC = 'PERIODIC',
+  WEBHOOK = 'WEBHOOK',
+}
+
+// Models generated from the spec by scripts/generate-ts-client.js
+export type {
+  AgentSummary,
+  ToolBlueprint,
+  StrategyBlueprint,
+  TriggerConfig,
+  AgentBlueprint,
+  CreateAgentRequest,
+  AgentUpdate,
+  ToolSummary,
+  StrategySummary,
+} from '../generated/api';
+
+// Filters for listing agents
+export interface AgentListFilters {
+  state?: AgentState | string;
+  trigger_type?: TriggerType | string;
+  /** @deprecated Legacy agent type filter, ignored by the current backend. */
+  type?: AgentType | string;
+  /** @deprecated Use `state`. */
+  status?: AgentStatus | string;
+}
+
+// --- Task types (agent task queue routes) ---
+
+// Corresponds to TaskStatus enum in Julia backend (Agents.jl)
+export enum TaskStatus {
+  TASK_PENDING = 'TASK_PENDING',
+  TASK_RUNNING = 'TASK_RUNNING',
+  TASK_COMPLETED = 'TASK_COMPLETED',
+  TASK_FAILED = 'TASK_FAILED',
+  TASK_CANCELLED = 'TASK_CANCELLED',
+  TASK_UNKNOWN = 'TASK_UNKNOWN',
+}
+
+// Payload for executing a task (matches AgentHandlers.execute_agent_task_handler expectations)
+export interface TaskPayload {
+  ability: string;
+  mode?: 'direct' | 'queue'; // default "direct"
+  priority?: number; // for queue mode
+  [key: string]: any; // Allow other parameters for the ability
+}
+
+// Result of submitting a task (matches AgentHandlers.execute_agent_task_handler response)
+export interface TaskSubmissionResult {
+  success: boolean;
+  queued?: boolean; // True if task was queued, false if direct (or not present)
+  agent_id: string;
+  task_id: string;
+  queue_length?: number; // If queued
+  // If direct and successful, may contain ability's output directly merged here
+  [key: string]: any;
+}
+
+// Summary of a task when listing tasks
+export interface AgentTaskSummary {
+  task_id: string;
+  status: TaskStatus | string;
+  submitted_time: string; // ISO DateTime string
+  start_time?: string | null; // ISO DateTime string
+  end_time?: string | null; // ISO DateTime string
+  ability: string;
+}
+
+// Response when listing agent tasks
+export interface ListAgentTasksResponse {
+  success: boolean;
+  agent_id: string;
+  tasks: AgentTaskSummary[];
+  count: number; // Number of tasks in this response
+  total?: number; // Total matching tasks, when the backend paginates
+  next_cursor?: string | null;
+  has_more?: boolean;
+}
+
+// Detailed result of a specific task (matches AgentHandlers.get_task_result_handler response)
+export interface TaskExecutionResult {
+  task_id: string;
+  status: TaskStatus | string;
+  submitted_time: string; // ISO DateTime string
+  start_time?: string | null; // ISO DateTime string
+  end_time?: string | null; // ISO DateTime string
+  input: TaskPayload; // The original task input
+  result?: any; // Output from the ability if successful
+  error?: string | null; // Error message if failed or cancelled
+}
+
+export interface TaskCancelResponse {
+  success: boolean;
+  task_id: string;
+  message?: string;
+}
+
+// Filters for listing tasks
+export interface TaskListFilters {
+  status_filter?: TaskStatus | string;
+  limit?: number;
+}
+
+// Snapshot passed to WaitForTaskOptions.onProgress after every poll
+export interface TaskProgress {
+  agentId: string;
+  taskId: string;
+  task: AgentTaskSummary;
+  attempt: number; // 1-based poll number
+  elapsedMs: number;
+}
+
+// Options for AgentsService.waitForTask / executeAndWait
+export interface WaitForTaskOptions {
+  timeoutMs?: number; // Default 300000 (5 minutes); 0 waits indefinitely
+  pollIntervalMs?: number; // Default 1000
+  signal?: AbortSignal; // Aborting cancels the task on the backend and rejects with TaskAbortedError
+  cancelOnAbort?: boolean; // Default true; set to false to stop waiting without cancelling the task
+  onProgress?: (progress: TaskProgress) => void;
+}
+
+// --- Real-time event types (events sub-client) ---
+
+export type RealtimeEventType = 'agent_status' | 'execution_update' | 'swarm_change' | 'performance_update';
+
+export interface AgentStatusUpdate {
+  agent_id: string;
+  status: 'healthy' | 'warning' | 'error' | 'idle';
+  last_execution: string | null;
+  success_rate: number;
+}
+
+export interface ExecutionUpdate {
+  execution_id: string;
+  agent_id: string;
+  status: 'started' | 'completed' | 'failed' | 'timeout';
+  execution_time_ms: number | null;
+  error_message: string | null;
+}
+
+export interface SwarmChange {
+  swarm_id: string;
+  status?: string; // SwarmStatus value, e.g. SWARM_RUNNING
+  iteration?: number;
+  best_fitness?: number | null;
+  [key: string]: any;
+}
+
+export interface PerformanceUpdate {
+  agent_id?: string;
+  swarm_id?: string;
+  metrics: Record<string, number>;
+}
+
+export interface RealtimeEventPayloads {
+  agent_status: AgentStatusUpdate;
+  execution_update: ExecutionUpdate;
+  swarm_change: SwarmChange;
+  performance_update: PerformanceUpdate;
+}
+
+// Wire format of a stream message; `id` is the resume cursor for reconnects
+export interface RealtimeEvent<K extends RealtimeEventType = RealtimeEventType> {
+  id?: string;
+  type: K;
+  payload: RealtimeEventPayloads[K];
+  timestamp: string;
+}
+
+// Selects the events delivered to a subscription; omitted fields match everything
+export interface RealtimeEventFilter<K extends RealtimeEventType = RealtimeEventType> {
+  types?: K[];
+  agentId?: string;
+  swarmId?: string;
+  where?: (event: RealtimeEvent<K>) => boolean;
+}
+
+export type EventStreamState = 'disconnected' | 'connecting' | 'connected' | 'reconnecting';
+
+// --- Memory types (agent memory routes) ---
+
+export interface AgentMemoryResponse {
+  key: string;
+  value: any;
+}
+
+export interface AgentMemorySetResponse {
+  message: string;
+  agent_id: string;
+  key: string;
+}
+
+export interface AgentMemoryClearResponse {
+  message: string;
+  agent_id: string;
+}
+
+export interface AgentMemorySetOptions {
+  ttlSeconds?: number; // Entry expires after this many seconds; omit to keep it until cleared
+}
+
+export interface AgentMemoryEntry {
+  key: string;
+  value?: any; // Present when values were requested
+  expires_at?: string | null; // ISO DateTime string, null if the entry does not expire
+}
+
+export interface AgentMemoryListFilters {
+  prefix?: string; // Only keys starting with this prefix, e.g. "conversation:"
+  includeValues?: boolean;
+}
+
+export interface AgentMemoryBatchGetResponse {
+  agent_id: string;
+  entries: Record<string, any>;
+  missing: string[]; // Requested keys that are not set (or have expired)
+}
+
+export interface AgentMemoryBatchSetEntry {
+  key: string;
+  value: any;
+  ttl_seconds?: number;
+}
+
+export interface AgentMemoryBatchSetOptions {
+  replace?: boolean; // Clear the agent's memory first, in the same atomic batch (default false)
+}
+
+export interface AgentMemoryBatchSetResponse {
+  message: string;
+  agent_id: string;
+  keys: string[];
+}
+
+// Portable JSON snapshot produced by exportAgentMemory and read by importAgentMemory
+export interface AgentMemorySnapshot {
+  format_version: 1;
+  agent_id: string;
+  exported_at: string; // ISO DateTime string
+  entries: AgentMemoryEntry[];
+}
+
+export interface AgentMemoryImportOptions {
+  clear?: boolean; // Replace the target agent's memory instead of merging into it (default false)
+  prefix?: string; // Only import keys starting with this prefix
+}
+
+export interface AgentMemoryImportResult {
+  imported: number;
+  skipped_expired: number;
+}
+
+export interface CloneAgentOptions {
+  copyMemory?: boolean; // Export the source agent's memory and import it into the clone
+}
+
+// --- Clone and bulk operations ---
+
+export interface BulkDeletePayload {
+  agent_ids: string[];
+}
+
+export interface BulkDeleteResultItem {
+  agent_id: string;
+  success: boolean;
+  message?: string;
+  error?: string;
+}
+
+export interface BulkDeleteResponse {
+  message: string;
+  results: BulkDeleteResultItem[];
+}
+
+// --- Legacy types (kept for existing callers) ---
+
+/** @deprecated Agent types are no longer part of the agent model; use an AgentBlueprint. */
+export enum AgentType {
+  TRADING = 'TRADING',
+  MONITOR = 'MONITOR',
+  ARBITRAGE = 'ARBITRAGE',
+  DATA_COLLECTION = 'DATA_COLLECTION',
+  NOTIFICATION = 'NOTIFICATION',
+  CUSTOM = 'CUSTOM',
+  DEV = 'DEV',
+}
+
+/** @deprecated Use AgentState. */
+export enum AgentStatus {
+  CREATED = 'CREATED',
+  INITIALIZING = 'INITIALIZING',
+  RUNNING = 'RUNNING',
+  PAUSED = 'PAUSED',
+  STOPPED = 'STOPPED',
+  ERROR = 'ERROR',
+}
+
+/** @deprecated Use CreateAgentRequest. */
+export interface AgentConfigCreatePayload {
+  name: string;
+  type: AgentType | string;
+  abilities?: string[];
+  chains?: string[];
+  parameters?: Record<string, any>;
+  llm_config?: Record<string, any>;
+  memory_config?: Record<string, any>;
+  queue_config?: Record<string, any>;
+  max_task_history?: number;
+}
+
+/** @deprecated Use AgentSummary. */
+export interface AgentInfo {
+  id: string;
+  name: string;
+  type: AgentType | string;
+  status: AgentStatus | string;
+  created?: string;
+  updated?: string;
+}
+
+/** @deprecated Use AgentSummary. */
+export interface AgentStatusDetail extends AgentInfo {
+  uptime_seconds?: number;
+  time_since_last_activity_seconds?: number;
+  tasks_completed?: number;
+  queue_len?: number;
+  memory_size?: number;
+  last_error?: string | null;
+  last_error_timestamp?: string | null;
+}
+
+/** @deprecated Use AgentUpdate. */
+export interface AgentUpdatePayload {
+  name?: string;
+  config?: {
+    parameters?: Record<string, any>;
+  };
+}
+
+/** @deprecated Lifecycle methods now return the updated AgentSummary. */
+export interface AgentLifecycleResponse {
+  message: string;
+  agent_id: string;
+  new_status: AgentStatus | string;
+}
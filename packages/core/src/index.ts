@@ -0,0 +1,26 @@
+// packages/core/src/index.ts
+
+export * from './api/types';
+export * from './api/AgentsService';
+export * from './api/EventsClient';
+export * from './api/ApiClient';
+export * from './api/errors';
+export * from './api/retry';
+export * from './api/pagination';
+export type { ApiRequest, ApiRequester, HttpMethod } from './generated/api';
+export * from './logging/logger';
+export * from './platform/types';
+export * from './platform/Platform';
+export * from './platform/middleware';
+export * from './platform/moderation';
+export * from './platform/health';
+export * from './platform/metrics';
+export * from './platform/PlatformRegistry';
+export * from './platform/AgentBridge';
+export * from './platform/commandLine';
+export * from './platform/CommandRouter';
+export * from './platform/OutboundQueue';
+export * from './platform/richMessage';
+export * from './platform/renderers';
+export * from './platform/ApprovalManager';
+export * from './platform/ConversationStore';
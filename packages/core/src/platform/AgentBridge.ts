@@ -0,0 +1,249 @@
+// packages/core/src/platform/AgentBridge.ts
+
+import { AgentsService } from '../api/AgentsService';
+import { Conversation, ConversationStore } from './ConversationStore';
+import { Platform } from './Platform';
+import { CommandData, MessageData, SendOptions } from './types';
+
+export type BridgeEventType = 'message' | 'command' | 'mention';
+
+/**
+ * Routes inbound platform events to an agent. Every field except `agentId` narrows the match;
+ * omitted fields match anything. Routes are checked in order and the first match wins.
+ */
+export interface AgentRoute {
+  agentId: string;
+  platform?: string; // Connector name or type, e.g. 'support-bot' or 'telegram'
+  channels?: string[]; // Channel, chat or room IDs
+  events?: BridgeEventType[]; // Defaults to ['message', 'command']
+  commands?: string[]; // Only forward these commands (without prefix)
+  payload?: Record<string, any>; // Extra fields merged into the webhook payload
+}
+
+// An inbound event as seen by the bridge
+export interface BridgeEvent {
+  type: BridgeEventType;
+  platform: Platform<any>;
+  data: MessageData | CommandData;
+  conversation?: Conversation; // Set when the bridge has a ConversationStore; includes `data` as its last message
+}
+
+export interface BridgeResult {
+  route: AgentRoute;
+  output: Record<string, any>;
+  reply?: string;
+}
+
+export interface AgentBridgeOptions {
+  routes: AgentRoute[];
+  /** Reply with the agent output in the originating channel (default true) */
+  reply?: boolean;
+  /** Builds the webhook payload; defaults to `defaultBridgePayload` */
+  buildPayload?: (event: BridgeEvent, route: AgentRoute) => Record<string, any>;
+  /** Extracts the reply text from the agent output; defaults to `defaultReplyText` */
+  formatReply?: (output: Record<string, any>, event: BridgeEvent) => string | undefined;
+  /** Message sent back to the channel when forwarding fails; nothing is sent if omitted */
+  errorReply?: string;
+  /** Called with every forwarding failure (default logs to the platform's logger) */
+  onError?: (error: Error, event: BridgeEvent) => void;
+  /** Records forwarded messages and agent replies; the payload then carries the conversation history */
+  conversations?: ConversationStore;
+}
+
+type AgentWebhookClient = Pick<AgentsService, 'triggerWebhook' | 'getAgentOutput'>;
+
+const DEFAULT_EVENTS: BridgeEventType[] = ['message', 'command'];
+
+/**
+ * Webhook payload sent for a bridged event. Field names follow the backend's snake_case convention.
+ */
+export function defaultBridgePayload(event: BridgeEvent, route: AgentRoute): Record<string, any> {
+  const { data, platform } = event;
+  const payload: Record<string, any> = {
+    source: { platform: platform.getType(), connector: platform.getName() },
+    event: event.type,
+    text: data.content,
+    sender: data.sender,
+    sender_name: data.senderName,
+    channel_id: data.channelId,
+    message_id: data.messageId,
+    thread_id: data.threadId,
+    reply_to: data.replyTo,
+    timestamp: data.timestamp.toISOString(),
+  };
+  if (event.type === 'command') {
+    const command = data as CommandData;
+    payload.command = command.command;
+    payload.args = command.args;
+  }
+  if (event.conversation) {
+    payload.conversation_id = event.conversation.id;
+    // Earlier turns, oldest first; the last recorded message is this one
+    payload.history = event.conversation.messages.slice(0, -1).map(message => ({
+      role: message.role,
+      text: message.content,
+      sender: message.sender,
+      sender_name: message.senderName,
+      message_id: message.messageId,
+      timestamp: message.timestamp.toISOString(),
+    }));
+  }
+  return { ...payload, ...route.payload };
+}
+
+/**
+ * Picks the reply text out of an agent output: a string output is used as is, otherwise the first
+ * string among `reply`, `response`, `text`, `message` and `content`.
+ */
+export function defaultReplyText(output: Record<string, any>): string | undefined {
+  if (typeof output === 'string') return output;
+  if (!output || typeof output !== 'object') return undefined;
+  for (const key of ['reply', 'response', 'text', 'message', 'content']) {
+    if (typeof output[key] === 'string' && output[key].trim()) return output[key];
+  }
+  return undefined;
+}
+
+// Replies go to the thread of the event they answer and quote it where the platform has no threads
+function replyTarget(data: MessageData): SendOptions | undefined {
+  return data.threadId || data.messageId ? { threadId: data.threadId, replyTo: data.messageId } : undefined;
+}
+
+/**
+ * Forwards messages and commands from platform connectors to agents through
+ * POST /agents/{agent_id}/webhook, reads GET /agents/{agent_id}/output and replies in the
+ * channel and thread the event came from:
+ *
+ *   const bridge = new AgentBridge(client.agents, { routes: [{ platform: 'telegram', agentId: 'news' }] });
+ *   bridge.attach(telegram);
+ *
+ * Calls to the same agent are serialised because the backend keeps a single output per agent.
+ */
+export class AgentBridge {
+  private agents: AgentWebhookClient;
+  private options: AgentBridgeOptions;
+  private attached: Map<Platform<any>, Array<[BridgeEventType, (data: any) => void]>> = new Map();
+  private agentQueues: Map<string, Promise<unknown>> = new Map();
+  private pending: Set<Promise<unknown>> = new Set();
+
+  constructor(agents: AgentWebhookClient, options: AgentBridgeOptions) {
+    this.agents = agents;
+    this.options = options;
+  }
+
+  /**
+   * Starts forwarding the platform's events. Attaching the same platform twice is a no-op.
+   */
+  public attach(platform: Platform<any>): void {
+    if (this.attached.has(platform)) return;
+    const listeners: Array<[BridgeEventType, (data: any) => void]> = (['message', 'command', 'mention'] as const).map(
+      type => [type, (data: MessageData) => this.track(this.handle({ type, platform, data }))]
+    );
+    for (const [type, listener] of listeners) platform.on(type, listener);
+    this.attached.set(platform, listeners);
+  }
+
+  public detach(platform: Platform<any>): void {
+    const listeners = this.attached.get(platform);
+    if (!listeners) return;
+    for (const [type, listener] of listeners) platform.off(type, listener);
+    this.attached.delete(platform);
+  }
+
+  public detachAll(): void {
+    for (const platform of Array.from(this.attached.keys())) this.detach(platform);
+  }
+
+  /**
+   * Returns the first route matching the event, if any.
+   */
+  public resolveRoute(event: BridgeEvent): AgentRoute | undefined {
+    const { platform, data } = event;
+    return this.options.routes.find(route => {
+      if (!(route.events || DEFAULT_EVENTS).includes(event.type)) return false;
+      if (route.platform && route.platform !== platform.getName() && route.platform.toLowerCase() !== platform.getType().toLowerCase()) {
+        return false;
+      }
+      if (route.channels && (!data.channelId || !route.channels.includes(data.channelId))) return false;
+      if (route.commands) {
+        return event.type === 'command' && route.commands.includes((data as CommandData).command);
+      }
+      return true;
+    });
+  }
+
+  /**
+   * Forwards a single event. Resolves with undefined when no route matches; failures are
+   * reported through `onError` rather than rejected so platform listeners never see them.
+   */
+  public async handle(event: BridgeEvent): Promise<BridgeResult | undefined> {
+    const route = this.resolveRoute(event);
+    if (!route) return undefined;
+    try {
+      return await this.enqueue(route.agentId, () => this.forward(event, route));
+    } catch (error) {
+      await this.reportError(error as Error, event, route);
+      return undefined;
+    }
+  }
+
+  /**
+   * Resolves once every event forwarded so far has been handled, e.g. before shutting down.
+   */
+  public async drain(): Promise<void> {
+    while (this.pending.size > 0) {
+      await Promise.all(Array.from(this.pending));
+    }
+  }
+
+  private async forward(bridged: BridgeEvent, route: AgentRoute): Promise<BridgeResult> {
+    const { conversations } = this.options;
+    const conversation = conversations && (await conversations.record(bridged.platform, bridged.data));
+    const event: BridgeEvent = conversation ? { ...bridged, conversation } : bridged;
+
+    const buildPayload = this.options.buildPayload || defaultBridgePayload;
+    await this.agents.triggerWebhook(route.agentId, buildPayload(event, route));
+    const output = await this.agents.getAgentOutput(route.agentId);
+
+    const formatReply = this.options.formatReply || defaultReplyText;
+    const reply = this.options.reply === false ? undefined : formatReply(output, event);
+    if (reply && event.data.channelId) {
+      await event.platform.sendMessage(reply, event.data.channelId, replyTarget(event.data));
+      if (conversation) await conversations!.recordReply(conversation.id, reply);
+    }
+    return { route, output, reply };
+  }
+
+  private enqueue<T>(agentId: string, step: () => Promise<T>): Promise<T> {
+    const previous = this.agentQueues.get(agentId) || Promise.resolve();
+    const next = previous.then(step, step);
+    const settled = next.catch(() => undefined);
+    this.agentQueues.set(agentId, settled);
+    settled.then(() => {
+      if (this.agentQueues.get(agentId) === settled) this.agentQueues.delete(agentId);
+    });
+    return next;
+  }
+
+  private track(handling: Promise<unknown>): void {
+    // handle() only rejects when an onError callback throws; that must not go unhandled
+    const settled = handling.catch(() => undefined);
+    this.pending.add(settled);
+    settled.then(() => this.pending.delete(settled));
+  }
+
+  private async reportError(error: Error, event: BridgeEvent, route: AgentRoute): Promise<void> {
+    if (this.options.onError) {
+      this.options.onError(error, event);
+    } else {
+      event.platform.getLogger().child({ agent_id: route.agentId }).error(`Failed to forward ${event.type} to agent`, { error });
+    }
+    if (this.options.errorReply && event.data.channelId) {
+      try {
+        await event.platform.sendMessage(this.options.errorReply, event.data.channelId, replyTarget(event.data));
+      } catch {
+        // The platform reports its own send failures
+      }
+    }
+  }
+}
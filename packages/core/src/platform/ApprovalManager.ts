@@ -0,0 +1,179 @@
+// packages/core/src/platform/ApprovalManager.ts
+
+import { getLogger } from '../logging/logger';
+import { Platform } from './Platform';
+import { RichMessage, rich, toRichMessage } from './richMessage';
+import { InteractionData } from './types';
+
+export interface ApprovalRequest {
+  prompt: RichMessage | string; // What is being approved, e.g. the ban an agent wants to carry out
+  approvers?: string[]; // Platform user IDs allowed to decide; anyone who sees the prompt if omitted
+  timeoutMs?: number; // Overrides ApprovalManagerOptions.timeoutMs
+  approveLabel?: string;
+  rejectLabel?: string;
+}
+
+export type ApprovalStatus = 'approved' | 'rejected' | 'expired' | 'cancelled';
+
+export interface ApprovalDecision {
+  id: string;
+  status: ApprovalStatus;
+  approved: boolean;
+  decidedBy?: string; // User ID of the approver, for approved and rejected requests
+  decidedByName?: string;
+  decidedAt: Date;
+}
+
+export interface ApprovalManagerOptions {
+  /** How long a request waits for a decision before it expires (default 10 minutes) */
+  timeoutMs?: number;
+  /** Answer to users who are not among the approvers */
+  deniedReply?: string;
+  /** Answer once a request is decided; return undefined to stay silent */
+  formatDecision?: (decision: ApprovalDecision) => string | undefined;
+}
+
+interface PendingApproval {
+  approvers?: string[];
+  timer: NodeJS.Timeout;
+  resolve: (decision: ApprovalDecision) => void;
+}
+
+const logger = getLogger({ module: 'ApprovalManager' });
+
+const ACTION_PREFIX = 'approval:';
+const ACTION_PATTERN = /^approval:([a-z0-9]+):(approve|reject)$/;
+
+export function defaultDecisionText(decision: ApprovalDecision): string | undefined {
+  if (decision.status !== 'approved' && decision.status !== 'rejected') return undefined;
+  const by = decision.decidedByName || decision.decidedBy;
+  return `${decision.approved ? 'Approved' : 'Rejected'}${by ? ` by ${by}` : ''}.`;
+}
+
+/**
+ * Asks humans to confirm an action with Approve/Reject buttons and resolves with their choice:
+ *
+ *   const approvals = new ApprovalManager();
+ *   const decision = await approvals.request(slack, channelId, {
+ *     prompt: `Ban ${userId} for spam?`,
+ *     approvers: moderatorIds,
+ *   });
+ *   if (decision.approved) await banUser(userId);
+ *
+ * The platform must render RichMessage actions (Slack, Discord) and emit `interaction` events;
+ * `request` attaches to it on first use.
+ */
+export class ApprovalManager {
+  private options: ApprovalManagerOptions;
+  private pending: Map<string, PendingApproval> = new Map();
+  private attached: Map<Platform<any>, (interaction: InteractionData) => void> = new Map();
+
+  constructor(options: ApprovalManagerOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * Sends the prompt to the channel and waits for a decision. Rejects only if the prompt
+   * cannot be sent; an unanswered request resolves as 'expired'.
+   */
+  public async request(platform: Platform<any>, channelId: string, request: ApprovalRequest): Promise<ApprovalDecision> {
+    this.attach(platform);
+    const id = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+    const decision = new Promise<ApprovalDecision>(resolve => {
+      const timer = setTimeout(() => this.settle(id, 'expired'), request.timeoutMs ?? this.options.timeoutMs ?? 10 * 60 * 1000);
+      this.pending.set(id, { approvers: request.approvers, timer, resolve });
+    });
+
+    const prompt = toRichMessage(request.prompt);
+    try {
+      await platform.sendRichMessage({
+        ...prompt,
+        actions: [
+          ...(prompt.actions || []),
+          rich.button(`${ACTION_PREFIX}${id}:approve`, request.approveLabel || 'Approve', { style: 'primary' }),
+          rich.button(`${ACTION_PREFIX}${id}:reject`, request.rejectLabel || 'Reject', { style: 'danger' }),
+        ],
+      }, channelId);
+    } catch (error) {
+      clearTimeout(this.pending.get(id)!.timer);
+      this.pending.delete(id);
+      throw error;
+    }
+    return decision;
+  }
+
+  /**
+   * Decides a pending request from an interaction. Returns false when the interaction is not an
+   * approval button, so other listeners can handle it.
+   */
+  public handle(interaction: InteractionData): boolean {
+    const match = interaction.kind === 'button' ? ACTION_PATTERN.exec(interaction.actionId) : null;
+    if (!match) return false;
+    const [, id, choice] = match;
+    const pending = this.pending.get(id);
+    if (!pending) {
+      this.answer(interaction, 'This request is no longer pending.');
+      return true;
+    }
+    if (pending.approvers && !pending.approvers.includes(interaction.sender)) {
+      this.answer(interaction, this.options.deniedReply || 'You are not allowed to decide this request.');
+      return true;
+    }
+
+    const decision = this.settle(id, choice === 'approve' ? 'approved' : 'rejected', interaction);
+    const text = decision && (this.options.formatDecision || defaultDecisionText)(decision);
+    if (text) this.answer(interaction, text);
+    return true;
+  }
+
+  // Resolves a pending request as 'cancelled'; returns false if it was already decided
+  public cancel(id: string): boolean {
+    return this.settle(id, 'cancelled') !== undefined;
+  }
+
+  public pendingIds(): string[] {
+    return Array.from(this.pending.keys());
+  }
+
+  public attach(platform: Platform<any>): void {
+    if (this.attached.has(platform)) return;
+    const listener = (interaction: InteractionData) => {
+      this.handle(interaction);
+    };
+    platform.on('interaction', listener);
+    this.attached.set(platform, listener);
+  }
+
+  public detach(platform: Platform<any>): void {
+    const listener = this.attached.get(platform);
+    if (!listener) return;
+    platform.off('interaction', listener);
+    this.attached.delete(platform);
+  }
+
+  // Detaches from every platform and cancels all pending requests
+  public close(): void {
+    for (const platform of Array.from(this.attached.keys())) this.detach(platform);
+    for (const id of this.pendingIds()) this.cancel(id);
+  }
+
+  private settle(id: string, status: ApprovalStatus, interaction?: InteractionData): ApprovalDecision | undefined {
+    const pending = this.pending.get(id);
+    if (!pending) return undefined;
+    clearTimeout(pending.timer);
+    this.pending.delete(id);
+    const decision: ApprovalDecision = {
+      id,
+      status,
+      approved: status === 'approved',
+      ...(interaction ? { decidedBy: interaction.sender, decidedByName: interaction.senderName } : {}),
+      decidedAt: new Date(),
+    };
+    pending.resolve(decision);
+    return decision;
+  }
+
+  private answer(interaction: InteractionData, text: string): void {
+    interaction.reply?.(text).catch(error => logger.error('Failed to answer approval interaction', { error }));
+  }
+}
@@ -0,0 +1,442 @@
+// packages/core/src/platform/CommandRouter.ts
+
+import { Platform } from './Platform';
+import { CommandData } from './types';
+
+export type CommandValueType = 'string' | 'number' | 'integer' | 'boolean';
+
+// A positional argument, e.g. `<address>`
+export interface CommandArgument {
+  name: string;
+  description?: string;
+  type?: CommandValueType; // Defaults to 'string'
+  required?: boolean; // Defaults to true unless a default is given
+  variadic?: boolean; // Collects all remaining arguments into an array; must be last
+  choices?: string[];
+  default?: any;
+}
+
+// A named option, e.g. `--urgency high` or `-u high`; boolean options are flags (`--dry-run`, `--no-dry-run`)
+export interface CommandOption {
+  name: string;
+  alias?: string; // Single letter
+  description?: string;
+  type?: CommandValueType; // Defaults to 'string'
+  required?: boolean;
+  choices?: string[];
+  default?: any;
+}
+
+export interface CommandContext {
+  platform: Platform<any>;
+  message: CommandData;
+  path: string[]; // Canonical names of the resolved command and subcommands
+  args: Record<string, any>;
+  options: Record<string, any>;
+  reply(content: string): Promise<void>;
+}
+
+/**
+ * A permission name resolved by `CommandRouterOptions.checkPermission`, or a predicate.
+ */
+export type CommandPermission = string | ((context: CommandContext) => boolean | Promise<boolean>);
+
+export interface CommandDefinition {
+  name: string;
+  aliases?: string[];
+  description?: string;
+  args?: CommandArgument[];
+  options?: CommandOption[];
+  permission?: CommandPermission; // Also applies to subcommands
+  hidden?: boolean; // Left out of help listings
+  subcommands?: CommandDefinition[];
+  /** Returned text is sent back to the channel */
+  handler?: (context: CommandContext) => string | void | Promise<string | void>;
+}
+
+export interface CommandRouterOptions {
+  /** Prefix shown in help and usage; defaults to the platform's `commandPrefix` parameter, then '/' */
+  prefix?: string;
+  /** Name of the built-in help command, or false to disable it (default 'help') */
+  helpCommand?: string | false;
+  /** Resolves named permissions; named permissions are denied when this is not set */
+  checkPermission?: (permission: string, context: CommandContext) => boolean | Promise<boolean>;
+  /** Reply to commands that are not registered (default false, other handlers may own them) */
+  replyToUnknown?: boolean;
+  deniedReply?: string;
+  /** Called when a handler throws (default logs to the platform's logger) */
+  onError?: (error: Error, context: CommandContext) => void;
+}
+
+export type CommandDispatchStatus = 'handled' | 'help' | 'unknown' | 'usage' | 'denied' | 'error';
+
+export interface CommandDispatchResult {
+  status: CommandDispatchStatus;
+  path: string[];
+  reply?: string;
+}
+
+/**
+ * Thrown while parsing arguments and by handlers to reply with an error plus the command usage.
+ */
+export class CommandUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CommandUsageError';
+    Object.setPrototypeOf(this, CommandUsageError.prototype);
+  }
+}
+
+const BOOLEAN_VALUES: Record<string, boolean> = {
+  true: true, yes: true, on: true, '1': true,
+  false: false, no: false, off: false, '0': false,
+};
+
+function matches(definition: CommandDefinition, token: string): boolean {
+  const name = token.toLowerCase();
+  return definition.name.toLowerCase() === name || (definition.aliases || []).some(alias => alias.toLowerCase() === name);
+}
+
+function convertValue(raw: string, type: CommandValueType, label: string, choices?: string[]): any {
+  if (choices && !choices.includes(raw)) {
+    throw new CommandUsageError(`${label} must be one of: ${choices.join(', ')}`);
+  }
+  switch (type) {
+    case 'number':
+    case 'integer': {
+      const value = Number(raw);
+      if (raw.trim() === '' || Number.isNaN(value) || (type === 'integer' && !Number.isInteger(value))) {
+        throw new CommandUsageError(`${label} must be ${type === 'integer' ? 'an integer' : 'a number'}, got '${raw}'`);
+      }
+      return value;
+    }
+    case 'boolean': {
+      const value = BOOLEAN_VALUES[raw.toLowerCase()];
+      if (value === undefined) throw new CommandUsageError(`${label} must be true or false, got '${raw}'`);
+      return value;
+    }
+    default:
+      return raw;
+  }
+}
+
+function isOptionToken(token: string): boolean {
+  return token.length > 1 && token.startsWith('-') && Number.isNaN(Number(token));
+}
+
+/**
+ * Declarative command handling shared by all connectors. Commands are defined once and work on
+ * every attached platform:
+ *
+ *   router.command({
+ *     name: 'investigate',
+ *     args: [{ name: 'address' }],
+ *     options: [{ name: 'urgency', alias: 'u', choices: ['low', 'medium', 'high'], default: 'medium' }],
+ *     handler: ({ args, options }) => `Investigating ${args.address} (${options.urgency})`,
+ *   });
+ *   router.attach(telegram);
+ *
+ * Invalid input is answered with the error and the command usage; `help [command]` is generated
+ * from the definitions.
+ */
+export class CommandRouter {
+  private commands: CommandDefinition[] = [];
+  private options: CommandRouterOptions;
+  private attached: Map<Platform<any>, (data: CommandData) => void> = new Map();
+  private pending: Set<Promise<unknown>> = new Set();
+
+  constructor(options: CommandRouterOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * Registers a top-level command. Throws if the name or an alias is already taken.
+   */
+  public command(definition: CommandDefinition): this {
+    for (const name of [definition.name, ...(definition.aliases || [])]) {
+      if (this.commands.some(existing => matches(existing, name)) || this.isHelp(name)) {
+        throw new Error(`Command '${name}' is already registered`);
+      }
+    }
+    this.commands.push(definition);
+    return this;
+  }
+
+  public attach(platform: Platform<any>): void {
+    if (this.attached.has(platform)) return;
+    const listener = (data: CommandData) => this.track(this.dispatch(platform, data));
+    platform.on('command', listener);
+    this.attached.set(platform, listener);
+  }
+
+  public detach(platform: Platform<any>): void {
+    const listener = this.attached.get(platform);
+    if (!listener) return;
+    platform.off('command', listener);
+    this.attached.delete(platform);
+  }
+
+  /**
+   * Resolves once every command received so far has been handled.
+   */
+  public async drain(): Promise<void> {
+    while (this.pending.size > 0) {
+      await Promise.all(Array.from(this.pending));
+    }
+  }
+
+  /**
+   * Parses and runs a command received from a platform, replying in its channel and thread.
+   */
+  public async dispatch(platform: Platform<any>, message: CommandData): Promise<CommandDispatchResult> {
+    const prefix = this.prefixFor(platform);
+    const reply = async (content: string) => {
+      if (message.channelId) {
+        await platform.sendMessage(content, message.channelId, { threadId: message.threadId, replyTo: message.messageId });
+      }
+    };
+    const respond = async (status: CommandDispatchStatus, path: string[], text?: string): Promise<CommandDispatchResult> => {
+      if (text) await reply(text);
+      return { status, path, reply: text };
+    };
+
+    if (this.isHelp(message.command)) {
+      return respond('help', [message.command], this.help(message.args, prefix));
+    }
+
+    const resolved = this.resolve([message.command, ...message.args]);
+    if (!resolved) {
+      const hint = this.options.replyToUnknown ? this.unknownCommandText(message.command, prefix) : undefined;
+      return respond('unknown', [message.command], hint);
+    }
+
+    const { chain, rest } = resolved;
+    const definition = chain[chain.length - 1];
+    const path = chain.map(entry => entry.name);
+    const context: CommandContext = { platform, message, path, args: {}, options: {}, reply };
+
+    if (!(await this.isPermitted(chain, context))) {
+      return respond('denied', path, this.options.deniedReply || 'You do not have permission to use this command.');
+    }
+
+    if (!definition.handler) {
+      return respond('usage', path, this.describe(chain, prefix));
+    }
+
+    try {
+      const parsed = this.parseArguments(definition, rest);
+      context.args = parsed.args;
+      context.options = parsed.options;
+      const output = await definition.handler(context);
+      return respond('handled', path, typeof output === 'string' && output ? output : undefined);
+    } catch (error) {
+      if (error instanceof CommandUsageError) {
+        return respond('usage', path, `${error.message}\nUsage: ${this.usage(chain, prefix)}`);
+      }
+      if (this.options.onError) {
+        this.options.onError(error as Error, context);
+      } else {
+        platform.getLogger().error(`Command '${path.join(' ')}' failed`, { error });
+      }
+      return { status: 'error', path };
+    }
+  }
+
+  /**
+   * Help text for all visible commands, or the detailed help of the command at `path`.
+   */
+  public help(path: string[] = [], prefix = this.options.prefix || '/'): string {
+    if (path.length > 0) {
+      const resolved = this.resolve(path);
+      if (resolved && resolved.rest.length === 0) return this.describe(resolved.chain, prefix);
+      return this.unknownCommandText(path.join(' '), prefix);
+    }
+    const lines = ['Available commands:'];
+    for (const definition of this.commands.filter(command => !command.hidden)) {
+      lines.push(`  ${this.usage([definition], prefix)}${definition.description ? ` - ${definition.description}` : ''}`);
+    }
+    if (this.options.helpCommand !== false) {
+      lines.push(`Use ${prefix}${this.helpName()} <command> for details.`);
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * One-line usage of a command chain, e.g. `/investigate <address> [--urgency <low|medium|high>]`.
+   */
+  public usage(chain: CommandDefinition[], prefix = this.options.prefix || '/'): string {
+    const definition = chain[chain.length - 1];
+    const parts = [`${prefix}${chain.map(entry => entry.name).join(' ')}`];
+    if (definition.subcommands?.length && !definition.handler) {
+      parts.push('<subcommand>');
+    }
+    for (const arg of definition.args || []) {
+      const label = arg.choices ? arg.choices.join('|') : arg.name;
+      const name = arg.variadic ? `${label}...` : label;
+      parts.push(this.isRequired(arg) ? `<${name}>` : `[${name}]`);
+    }
+    for (const option of definition.options || []) {
+      const value = option.type === 'boolean' ? '' : ` <${option.choices ? option.choices.join('|') : option.name}>`;
+      const flag = `--${option.name}${value}`;
+      parts.push(option.required ? flag : `[${flag}]`);
+    }
+    return parts.join(' ');
+  }
+
+  private describe(chain: CommandDefinition[], prefix: string): string {
+    const definition = chain[chain.length - 1];
+    const lines = [`Usage: ${this.usage(chain, prefix)}`];
+    if (definition.description) lines.push(definition.description);
+    if (definition.aliases?.length) lines.push(`Aliases: ${definition.aliases.join(', ')}`);
+    if (definition.args?.length) {
+      lines.push('Arguments:');
+      for (const arg of definition.args) {
+        lines.push(`  ${arg.name}${this.describeValue(arg.type, arg.default)}${arg.description ? ` - ${arg.description}` : ''}`);
+      }
+    }
+    if (definition.options?.length) {
+      lines.push('Options:');
+      for (const option of definition.options) {
+        const names = option.alias ? `-${option.alias}, --${option.name}` : `--${option.name}`;
+        lines.push(`  ${names}${this.describeValue(option.type, option.default)}${option.description ? ` - ${option.description}` : ''}`);
+      }
+    }
+    const subcommands = (definition.subcommands || []).filter(command => !command.hidden);
+    if (subcommands.length) {
+      lines.push('Subcommands:');
+      for (const subcommand of subcommands) {
+        lines.push(`  ${subcommand.name}${subcommand.description ? ` - ${subcommand.description}` : ''}`);
+      }
+    }
+    return lines.join('\n');
+  }
+
+  private describeValue(type?: CommandValueType, defaultValue?: any): string {
+    const parts = [];
+    if (type && type !== 'string') parts.push(type);
+    if (defaultValue !== undefined) parts.push(`default: ${defaultValue}`);
+    return parts.length ? ` (${parts.join(', ')})` : '';
+  }
+
+  private resolve(tokens: string[]): { chain: CommandDefinition[]; rest: string[] } | undefined {
+    const [name, ...rest] = tokens;
+    const root = this.commands.find(command => matches(command, name));
+    if (!root) return undefined;
+    const chain = [root];
+    while (rest.length > 0) {
+      const subcommand = (chain[chain.length - 1].subcommands || []).find(command => matches(command, rest[0]));
+      if (!subcommand) break;
+      chain.push(subcommand);
+      rest.shift();
+    }
+    return { chain, rest };
+  }
+
+  private async isPermitted(chain: CommandDefinition[], context: CommandContext): Promise<boolean> {
+    for (const { permission } of chain) {
+      if (!permission) continue;
+      if (typeof permission === 'function') {
+        if (!(await permission(context))) return false;
+      } else if (!this.options.checkPermission || !(await this.options.checkPermission(permission, context))) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  private parseArguments(definition: CommandDefinition, tokens: string[]): { args: Record<string, any>; options: Record<string, any> } {
+    const optionSpecs = definition.options || [];
+    const options: Record<string, any> = {};
+    const positionals: string[] = [];
+
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+      if (token === '--') {
+        positionals.push(...tokens.slice(i + 1));
+        break;
+      }
+      if (!isOptionToken(token)) {
+        positionals.push(token);
+        continue;
+      }
+
+      const long = token.startsWith('--');
+      const body = long ? token.slice(2) : token.slice(1);
+      const equals = long ? body.indexOf('=') : -1;
+      const flag = equals >= 0 ? body.slice(0, equals) : body;
+      const inline = equals >= 0 ? body.slice(equals + 1) : undefined;
+      const negated = long && flag.startsWith('no-') && !optionSpecs.some(spec => spec.name === flag);
+      const name = negated ? flag.slice(3) : flag;
+      const spec = optionSpecs.find(option => (long ? option.name === name : option.alias === name));
+      if (!spec) throw new CommandUsageError(`Unknown option '${token}'`);
+
+      const type = spec.type || 'string';
+      const label = `Option --${spec.name}`;
+      if (type === 'boolean') {
+        options[spec.name] = inline !== undefined ? convertValue(inline, type, label) : !negated;
+        continue;
+      }
+      if (negated) throw new CommandUsageError(`Unknown option '${token}'`);
+      const raw = inline !== undefined ? inline : tokens[++i];
+      if (raw === undefined) throw new CommandUsageError(`${label} requires a value`);
+      options[spec.name] = convertValue(raw, type, label, spec.choices);
+    }
+
+    for (const spec of optionSpecs) {
+      if (options[spec.name] !== undefined) continue;
+      if (spec.default !== undefined) options[spec.name] = spec.default;
+      else if (spec.required) throw new CommandUsageError(`Missing required option --${spec.name}`);
+    }
+
+    const args: Record<string, any> = {};
+    const argSpecs = definition.args || [];
+    argSpecs.forEach((spec, index) => {
+      const type = spec.type || 'string';
+      const label = `Argument ${spec.name}`;
+      const raw = spec.variadic ? positionals.slice(index) : positionals[index];
+      const missing = spec.variadic ? (raw as string[]).length === 0 : raw === undefined;
+      if (missing) {
+        if (this.isRequired(spec)) throw new CommandUsageError(`Missing required argument <${spec.name}>`);
+        if (spec.default !== undefined) args[spec.name] = spec.default;
+        return;
+      }
+      args[spec.name] = spec.variadic
+        ? (raw as string[]).map(value => convertValue(value, type, label, spec.choices))
+        : convertValue(raw as string, type, label, spec.choices);
+    });
+
+    const consumed = argSpecs.some(spec => spec.variadic) ? positionals.length : argSpecs.length;
+    if (positionals.length > consumed) {
+      throw new CommandUsageError(`Unexpected argument '${positionals[consumed]}'`);
+    }
+    return { args, options };
+  }
+
+  private isRequired(arg: CommandArgument): boolean {
+    return arg.required ?? arg.default === undefined;
+  }
+
+  private isHelp(name: string): boolean {
+    return this.options.helpCommand !== false && name.toLowerCase() === this.helpName();
+  }
+
+  private helpName(): string {
+    return (this.options.helpCommand || 'help').toLowerCase();
+  }
+
+  private unknownCommandText(name: string, prefix: string): string {
+    const hint = this.options.helpCommand !== false ? ` Use ${prefix}${this.helpName()} to list commands.` : '';
+    return `Unknown command '${name}'.${hint}`;
+  }
+
+  private prefixFor(platform: Platform<any>): string {
+    return this.options.prefix || platform.getCommandPrefix() || '/';
+  }
+
+  private track(handling: Promise<unknown>): void {
+    // Send failures are reported by the platform's own 'error' event
+    const settled = handling.catch(() => undefined);
+    this.pending.add(settled);
+    settled.then(() => this.pending.delete(settled));
+  }
+}
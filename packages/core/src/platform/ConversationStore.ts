@@ -0,0 +1,252 @@
+// packages/core/src/platform/ConversationStore.ts
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { Platform } from './Platform';
+import { MessageData } from './types';
+
+export type ConversationRole = 'user' | 'agent';
+
+// One turn of a conversation
+export interface ConversationMessage {
+  role: ConversationRole;
+  content: string;
+  sender?: string; // Platform user ID; unset for agent replies
+  senderName?: string;
+  messageId?: string;
+  timestamp: Date;
+}
+
+export interface Conversation {
+  id: string; // `<connector name>:<conversation key>`, see Platform.getConversationKey
+  messages: ConversationMessage[]; // Oldest first
+}
+
+/**
+ * Keeps conversation histories. Histories are read and written whole; ConversationStore
+ * serialises updates to each conversation, so backends need no locking of their own.
+ */
+export interface ConversationStorage {
+  load(id: string): Promise<ConversationMessage[] | undefined>;
+  save(id: string, messages: ConversationMessage[]): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+export interface ConversationStoreOptions {
+  /** Where histories are kept (default MemoryConversationStorage) */
+  storage?: ConversationStorage;
+  /** Messages kept per conversation, oldest dropped first (default 20) */
+  maxMessages?: number;
+  /** Messages older than this are dropped from a conversation when it is next updated */
+  maxAgeMs?: number;
+  /** Message IDs remembered to follow reply chains (default 10000) */
+  trackedMessages?: number;
+}
+
+export class MemoryConversationStorage implements ConversationStorage {
+  private conversations: Map<string, ConversationMessage[]> = new Map();
+
+  async load(id: string): Promise<ConversationMessage[] | undefined> {
+    return this.conversations.get(id);
+  }
+
+  async save(id: string, messages: ConversationMessage[]): Promise<void> {
+    this.conversations.set(id, messages);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.conversations.delete(id);
+  }
+}
+
+function serialize(messages: ConversationMessage[]): string {
+  return JSON.stringify(messages);
+}
+
+function deserialize(json: string): ConversationMessage[] {
+  return (JSON.parse(json) as Array<ConversationMessage & { timestamp: string }>).map(message => ({
+    ...message,
+    timestamp: new Date(message.timestamp),
+  }));
+}
+
+// Stores each conversation as a JSON file in `directory`
+export class FileConversationStorage implements ConversationStorage {
+  private directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  async load(id: string): Promise<ConversationMessage[] | undefined> {
+    try {
+      return deserialize(await fs.readFile(this.fileFor(id), 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw error;
+    }
+  }
+
+  async save(id: string, messages: ConversationMessage[]): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const file = this.fileFor(id);
+    // Write then rename so readers never see a partial file
+    await fs.writeFile(`${file}.tmp`, serialize(messages));
+    await fs.rename(`${file}.tmp`, file);
+  }
+
+  async delete(id: string): Promise<void> {
+    await fs.rm(this.fileFor(id), { force: true });
+  }
+
+  private fileFor(id: string): string {
+    return path.join(this.directory, `${encodeURIComponent(id)}.json`);
+  }
+}
+
+/**
+ * The part of a synchronous SQLite driver the storage uses. better-sqlite3 databases and
+ * node:sqlite's DatabaseSync both fit.
+ */
+export interface SqliteDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): {
+    run(...params: unknown[]): unknown;
+    get(...params: unknown[]): unknown;
+  };
+}
+
+// Stores conversations in a `conversations` table (created if missing) of a SQLite database
+export class SqliteConversationStorage implements ConversationStorage {
+  private db: SqliteDatabase;
+  private table: string;
+
+  constructor(db: SqliteDatabase, table = 'conversations') {
+    this.db = db;
+    this.table = table;
+    this.db.exec(`CREATE TABLE IF NOT EXISTS ${table} (id TEXT PRIMARY KEY, messages TEXT NOT NULL, updated_at INTEGER NOT NULL)`);
+  }
+
+  async load(id: string): Promise<ConversationMessage[] | undefined> {
+    const row = this.db.prepare(`SELECT messages FROM ${this.table} WHERE id = ?`).get(id) as { messages: string } | undefined;
+    return row ? deserialize(row.messages) : undefined;
+  }
+
+  async save(id: string, messages: ConversationMessage[]): Promise<void> {
+    this.db
+      .prepare(`INSERT INTO ${this.table} (id, messages, updated_at) VALUES (?, ?, ?) ON CONFLICT(id) DO UPDATE SET messages = excluded.messages, updated_at = excluded.updated_at`)
+      .run(id, serialize(messages), Date.now());
+  }
+
+  async delete(id: string): Promise<void> {
+    this.db.prepare(`DELETE FROM ${this.table} WHERE id = ?`).run(id);
+  }
+}
+
+/**
+ * Groups messages into conversations and keeps a bounded rolling history of each, so agents can
+ * answer with context:
+ *
+ *   const conversations = new ConversationStore({ storage: new FileConversationStorage('./data/conversations') });
+ *   const bridge = new AgentBridge(client.agents, { routes, conversations });
+ *
+ * A message belongs to its platform thread if it has one, otherwise to the conversation of the
+ * message it replies to, otherwise to its channel. Reply chains are followed through the last
+ * `trackedMessages` message IDs seen, which are held in memory.
+ */
+export class ConversationStore {
+  private storage: ConversationStorage;
+  private options: ConversationStoreOptions;
+  private messageConversations: Map<string, string> = new Map();
+  private queues: Map<string, Promise<unknown>> = new Map();
+
+  constructor(options: ConversationStoreOptions = {}) {
+    this.storage = options.storage || new MemoryConversationStorage();
+    this.options = options;
+  }
+
+  /**
+   * Returns the ID of the conversation a message belongs to, or undefined for messages outside
+   * any channel.
+   */
+  public resolve(platform: Platform<any>, data: MessageData): string | undefined {
+    if (!data.threadId && data.replyTo) {
+      const replied = this.messageConversations.get(this.messageKey(platform, data.replyTo));
+      if (replied) return replied;
+    }
+    const key = platform.getConversationKey(data);
+    return key === undefined ? undefined : `${platform.getName()}:${key}`;
+  }
+
+  /**
+   * Appends an inbound message to its conversation and returns the updated conversation, or
+   * undefined when the message belongs to none.
+   */
+  public async record(platform: Platform<any>, data: MessageData): Promise<Conversation | undefined> {
+    const id = this.resolve(platform, data);
+    if (!id) return undefined;
+    if (data.messageId) this.track(this.messageKey(platform, data.messageId), id);
+    return this.append(id, {
+      role: 'user',
+      content: data.content,
+      sender: data.sender,
+      senderName: data.senderName,
+      messageId: data.messageId,
+      timestamp: data.timestamp,
+    });
+  }
+
+  /**
+   * Appends an agent reply. Pass the platform and message ID of the sent reply when known, so
+   * users replying to it stay in the conversation.
+   */
+  public async recordReply(id: string, content: string, sent?: { platform: Platform<any>; messageId: string }): Promise<Conversation> {
+    if (sent) this.track(this.messageKey(sent.platform, sent.messageId), id);
+    return this.append(id, { role: 'agent', content, messageId: sent?.messageId, timestamp: new Date() });
+  }
+
+  public async get(id: string): Promise<Conversation> {
+    return { id, messages: this.prune((await this.storage.load(id)) || []) };
+  }
+
+  public async clear(id: string): Promise<void> {
+    await this.enqueue(id, () => this.storage.delete(id));
+  }
+
+  private append(id: string, message: ConversationMessage): Promise<Conversation> {
+    return this.enqueue(id, async () => {
+      const messages = this.prune([...((await this.storage.load(id)) || []), message]);
+      await this.storage.save(id, messages);
+      return { id, messages };
+    });
+  }
+
+  private prune(messages: ConversationMessage[]): ConversationMessage[] {
+    const { maxAgeMs } = this.options;
+    const recent = maxAgeMs === undefined ? messages : messages.filter(message => Date.now() - message.timestamp.getTime() <= maxAgeMs);
+    return recent.slice(-(this.options.maxMessages ?? 20));
+  }
+
+  private messageKey(platform: Platform<any>, messageId: string): string {
+    return `${platform.getName()}:${messageId}`;
+  }
+
+  private track(messageKey: string, id: string): void {
+    this.messageConversations.delete(messageKey);
+    this.messageConversations.set(messageKey, id);
+    if (this.messageConversations.size > (this.options.trackedMessages ?? 10000)) {
+      this.messageConversations.delete(this.messageConversations.keys().next().value as string);
+    }
+  }
+
+  private enqueue<T>(id: string, step: () => Promise<T>): Promise<T> {
+    const previous = this.queues.get(id) || Promise.resolve();
+    const next = previous.then(step, step);
+    const settled = next.catch(() => undefined);
+    this.queues.set(id, settled);
+    settled.then(() => {
+      if (this.queues.get(id) === settled) this.queues.delete(id);
+    });
+    return next;
+  }
+}
@@ -0,0 +1,246 @@
+// packages/core/src/platform/OutboundQueue.ts
+
+import { parseRetryAfter, sleep } from '../api/retry';
+
+// At most `limit` sends per sliding window of `intervalMs`
+export interface RateLimit {
+  limit: number;
+  intervalMs: number;
+}
+
+export interface OutboundRateLimits {
+  global?: RateLimit; // Across all chats of one connector
+  perChat?: RateLimit; // Per chat, channel or room
+}
+
+export interface OutboundQueueOptions extends OutboundRateLimits {
+  maxRetries?: number; // Retries of a rate-limited send (default 3)
+  defaultRetryAfterMs?: number; // Used when a rate-limit error carries no retry-after (default 1000)
+  maxRetryAfterMs?: number; // Upper bound for a single retry-after wait (default 60000)
+  maxQueued?: number; // Sends waiting across all chats before enqueue rejects (default unlimited)
+  /** Returns the wait in ms if the error is a rate-limit response, undefined otherwise */
+  getRetryAfter?: (error: unknown) => number | undefined;
+}
+
+export interface OutboundQueueMetrics {
+  depth: number; // Sends waiting or in flight
+  inFlight: number;
+  chats: Record<string, number>; // Depth per chat
+  sent: number;
+  failed: number;
+  retried: number;
+  rateLimited: number; // Rate-limit responses received from the platform
+  pausedUntil?: number; // Epoch ms while the queue waits out a retry-after
+}
+
+/**
+ * Published limits for bot accounts, used when a connector does not configure its own.
+ */
+export const PLATFORM_RATE_LIMITS: Record<string, OutboundRateLimits> = {
+  telegram: { global: { limit: 30, intervalMs: 1000 }, perChat: { limit: 1, intervalMs: 1000 } },
+  discord: { global: { limit: 50, intervalMs: 1000 }, perChat: { limit: 5, intervalMs: 5000 } },
+  slack: { perChat: { limit: 1, intervalMs: 1000 } },
+  twitter: { global: { limit: 100, intervalMs: 15 * 60 * 1000 } },
+  matrix: { global: { limit: 10, intervalMs: 50000 } },
+};
+
+export class OutboundQueueError extends Error {
+  public reason: 'full' | 'cleared';
+
+  constructor(message: string, reason: 'full' | 'cleared') {
+    super(message);
+    this.name = 'OutboundQueueError';
+    this.reason = reason;
+    Object.setPrototypeOf(this, OutboundQueueError.prototype);
+  }
+}
+
+/**
+ * Recognises the rate-limit errors of the connector SDKs and returns the wait they ask for:
+ * telegraf (`response.parameters.retry_after`), Slack (`retryAfter` seconds), twitter-api-v2
+ * (`rateLimit.reset`), matrix-js-sdk (`M_LIMIT_EXCEEDED`, `retry_after_ms`) and discord.js or
+ * plain HTTP errors with status 429 and `retryAfter` ms or a Retry-After header.
+ */
+export function defaultRetryAfter(error: unknown, now: number = Date.now()): number | undefined {
+  const e = error as any;
+  if (!e || typeof e !== 'object') return undefined;
+
+  if (e.response?.error_code === 429) {
+    return parseRetryAfter(e.response.parameters?.retry_after, now) ?? 0;
+  }
+  if (e.code === 'slack_webapi_rate_limited_error') {
+    return parseRetryAfter(e.retryAfter, now) ?? 0;
+  }
+  if (e.errcode === 'M_LIMIT_EXCEEDED' || e.data?.errcode === 'M_LIMIT_EXCEEDED') {
+    return e.data?.retry_after_ms ?? e.retry_after_ms ?? 0;
+  }
+
+  const status = e.status ?? e.statusCode ?? e.httpStatus ?? e.code;
+  if (status !== 429 && !e.rateLimitError) return undefined;
+  if (typeof e.retryAfter === 'number') return e.retryAfter;
+  if (typeof e.rateLimit?.reset === 'number') return Math.max(0, e.rateLimit.reset * 1000 - now);
+  const headers = e.headers ?? e.response?.headers;
+  const header = typeof headers?.get === 'function' ? headers.get('retry-after') : headers?.['retry-after'];
+  return parseRetryAfter(header, now) ?? 0;
+}
+
+interface Job {
+  send: () => Promise<any>;
+  resolve: (value: any) => void;
+  reject: (error: unknown) => void;
+  retries: number;
+}
+
+interface Lane {
+  jobs: Job[];
+  sending: boolean; // The first job is in flight
+}
+
+/**
+ * Queues outbound platform calls. Sends to the same chat run one at a time in enqueue order;
+ * different chats proceed in parallel within the global limit. A rate-limit error pauses the
+ * whole queue for the retry-after the platform asked for, then retries the same send, so later
+ * messages to that chat are never delivered ahead of it. Other errors reject the send.
+ */
+export class OutboundQueue {
+  private options: OutboundQueueOptions;
+  private lanes: Map<string, Lane> = new Map();
+  private running: Set<Promise<void>> = new Set();
+  private windows: Map<string, number[]> = new Map();
+  private pausedUntil = 0;
+  private inFlight = 0;
+  private counters = { sent: 0, failed: 0, retried: 0, rateLimited: 0 };
+
+  constructor(options: OutboundQueueOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * Queues `send` for `chatId` and resolves with its result once it has been delivered.
+   */
+  public enqueue<T>(chatId: string, send: () => Promise<T>): Promise<T> {
+    if (this.options.maxQueued !== undefined && this.depth() >= this.options.maxQueued) {
+      return Promise.reject(new OutboundQueueError(`Outbound queue is full (${this.options.maxQueued} pending)`, 'full'));
+    }
+    return new Promise<T>((resolve, reject) => {
+      const job: Job = { send, resolve, reject, retries: 0 };
+      const lane = this.lanes.get(chatId);
+      if (lane) {
+        lane.jobs.push(job);
+        return;
+      }
+      this.lanes.set(chatId, { jobs: [job], sending: false });
+      const running = this.runLane(chatId);
+      this.running.add(running);
+      running.then(() => this.running.delete(running));
+    });
+  }
+
+  /**
+   * Sends waiting or in flight, for one chat or overall.
+   */
+  public depth(chatId?: string): number {
+    if (chatId !== undefined) return this.lanes.get(chatId)?.jobs.length || 0;
+    let depth = 0;
+    this.lanes.forEach(lane => (depth += lane.jobs.length));
+    return depth;
+  }
+
+  public getMetrics(): OutboundQueueMetrics {
+    const chats: Record<string, number> = {};
+    this.lanes.forEach((lane, chatId) => (chats[chatId] = lane.jobs.length));
+    return {
+      depth: this.depth(),
+      inFlight: this.inFlight,
+      chats,
+      ...this.counters,
+      pausedUntil: this.pausedUntil > Date.now() ? this.pausedUntil : undefined,
+    };
+  }
+
+  /**
+   * Resolves once every queued send has settled.
+   */
+  public async drain(): Promise<void> {
+    while (this.running.size > 0) {
+      await Promise.all(Array.from(this.running));
+    }
+  }
+
+  /**
+   * Rejects every send that has not started yet.
+   */
+  public clear(): void {
+    this.lanes.forEach(lane => {
+      for (const job of lane.jobs.splice(lane.sending ? 1 : 0)) {
+        job.reject(new OutboundQueueError('Outbound queue was cleared', 'cleared'));
+      }
+    });
+  }
+
+  private async runLane(chatId: string): Promise<void> {
+    const lane = this.lanes.get(chatId)!;
+    while (lane.jobs.length > 0) {
+      await this.waitForSlot(chatId);
+      const job = lane.jobs[0];
+      if (!job) break; // Cleared while waiting
+      lane.sending = true;
+      this.inFlight++;
+      try {
+        const result = await job.send();
+        this.counters.sent++;
+        lane.jobs.shift();
+        job.resolve(result);
+      } catch (error) {
+        const retryAfter = (this.options.getRetryAfter || defaultRetryAfter)(error);
+        if (retryAfter !== undefined) this.counters.rateLimited++;
+        if (retryAfter !== undefined && job.retries < (this.options.maxRetries ?? 3)) {
+          job.retries++;
+          this.counters.retried++;
+          const wait = Math.min(retryAfter || this.options.defaultRetryAfterMs || 1000, this.options.maxRetryAfterMs ?? 60000);
+          this.pausedUntil = Math.max(this.pausedUntil, Date.now() + wait);
+        } else {
+          this.counters.failed++;
+          lane.jobs.shift();
+          job.reject(error);
+        }
+      } finally {
+        lane.sending = false;
+        this.inFlight--;
+      }
+    }
+    this.lanes.delete(chatId);
+  }
+
+  // Waits until both the global and the chat window have room, then takes a slot in each
+  private async waitForSlot(chatId: string): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      const wait = Math.max(
+        this.pausedUntil - now,
+        this.windowWait('global', this.options.global, now),
+        this.windowWait(`chat:${chatId}`, this.options.perChat, now)
+      );
+      if (wait <= 0) break;
+      await sleep(wait);
+    }
+    const now = Date.now();
+    this.record('global', this.options.global, now);
+    this.record(`chat:${chatId}`, this.options.perChat, now);
+  }
+
+  private windowWait(key: string, limit: RateLimit | undefined, now: number): number {
+    if (!limit) return 0;
+    const window = (this.windows.get(key) || []).filter(sentAt => sentAt > now - limit.intervalMs);
+    if (window.length > 0) this.windows.set(key, window);
+    else this.windows.delete(key);
+    return window.length < limit.limit ? 0 : window[0] + limit.intervalMs - now;
+  }
+
+  private record(key: string, limit: RateLimit | undefined, now: number): void {
+    if (!limit) return;
+    const window = this.windows.get(key) || [];
+    window.push(now);
+    this.windows.set(key, window);
+  }
+}
@@ -0,0 +1,271 @@
+// packages/core/src/platform/Platform.ts
+
+import { EventEmitter } from 'events';
+import { Logger, collectSecrets, getLogger } from '../logging/logger';
+import {
+  InboundEventType,
+  MessageData,
+  ModerationData,
+  ModerationRequest,
+  PlatformConfig,
+  PlatformEventMap,
+  PlatformEventName,
+  PlatformEventListener,
+  SendOptions,
+} from './types';
+import { HealthTracker, PlatformHealth } from './health';
+import { InboundContext, InboundMiddleware } from './middleware';
+import { OutboundQueue, OutboundQueueMetrics, PLATFORM_RATE_LIMITS } from './OutboundQueue';
+import { RichMessage, toRichMessage } from './richMessage';
+import { PLATFORM_MESSAGE_LIMITS, renderPlainTextChunks } from './renderers';
+
+const INBOUND_EVENTS: InboundEventType[] = ['message', 'command', 'mention'];
+// Events counted as inbound activity in the health report
+const ACTIVITY_EVENTS = [...INBOUND_EVENTS, 'reaction', 'interaction'];
+
+/**
+ * Base class for chat platform connectors (Discord, Telegram, Slack, ...).
+ *
+ * Lifecycle: `start()` connects unless already connected and `stop()` disconnects
+ * unless already disconnected; concurrent calls share the in-flight transition.
+ * Subclasses implement `connect`/`disconnect`, call `setConnected` once the
+ * platform session is up or down, and emit the events of their event map.
+ *
+ * Outbound calls made through `enqueueOutbound` are rate limited and ordered per chat by an
+ * OutboundQueue using the platform's PLATFORM_RATE_LIMITS, overridden by the `outbound`
+ * parameter (`false` disables queuing).
+ *
+ * Inbound `message`, `command` and `mention` events pass through the middleware added with
+ * `use` before listeners see them, in order per channel. Middleware can drop, tag or escalate
+ * them and request moderation actions, which `moderate` carries out.
+ *
+ * `getHealth` reports connection history, activity, errors and outbound latency, tuned by the
+ * `health` parameter (see HealthOptions).
+ *
+ * `logger` tags entries with the connector name and platform type and masks the credentials
+ * found in `parameters`.
+ */
+export abstract class Platform<E extends PlatformEventMap = PlatformEventMap> extends EventEmitter {
+  protected name: string;
+  protected type: string;
+  protected parameters: Record<string, any>;
+  protected isConnected: boolean = false;
+  protected outbound?: OutboundQueue;
+  protected logger: Logger;
+  private transition?: Promise<void>;
+  private health: HealthTracker;
+  private middleware: InboundMiddleware[] = [];
+  private inboundQueues: Map<string, Promise<void>> = new Map();
+
+  constructor(config: PlatformConfig) {
+    super();
+    this.name = config.name;
+    this.type = config.type;
+    this.parameters = config.parameters || {};
+    this.health = new HealthTracker(this.parameters.health);
+    this.logger = (config.logger || getLogger()).child(
+      { connector: this.name, platform: this.type },
+      { secrets: collectSecrets(this.parameters) }
+    );
+    if (this.parameters.outbound !== false) {
+      this.outbound = new OutboundQueue({ ...PLATFORM_RATE_LIMITS[this.type?.toLowerCase()], ...this.parameters.outbound });
+    }
+  }
+
+  // Opens the platform session; must call setConnected(true) on success
+  abstract connect(): Promise<void>;
+
+  // Closes the platform session; must call setConnected(false)
+  abstract disconnect(): Promise<void>;
+
+  // Sends a text message to a channel, chat or room; `options` puts it in a thread or makes it a reply
+  abstract sendMessage(content: string, channelId: string, options?: SendOptions): Promise<void>;
+
+  /**
+   * Sends a rich message, split into as many messages as the platform's length limit requires.
+   * The default sends plain text chunks through `sendMessage`; connectors override this to
+   * render their native formatting.
+   */
+  async sendRichMessage(message: RichMessage | string, channelId: string, options?: SendOptions): Promise<void> {
+    const maxLength = PLATFORM_MESSAGE_LIMITS[this.type?.toLowerCase()] || 4000;
+    for (const chunk of renderPlainTextChunks(toRichMessage(message), maxLength)) {
+      await this.sendMessage(chunk, channelId, options);
+    }
+  }
+
+  async start(): Promise<void> {
+    while (this.transition) await this.transition;
+    if (this.isActive()) return;
+    await this.runTransition(() => this.connect());
+  }
+
+  async stop(): Promise<void> {
+    while (this.transition) await this.transition;
+    if (!this.isActive()) return;
+    await this.runTransition(() => this.disconnect());
+  }
+
+  getName(): string {
+    return this.name;
+  }
+
+  getType(): string {
+    return this.type;
+  }
+
+  isActive(): boolean {
+    return this.isConnected;
+  }
+
+  // Prefix marking a message as a command, from the `commandPrefix` parameter
+  getCommandPrefix(): string | undefined {
+    return this.parameters.commandPrefix;
+  }
+
+  /**
+   * Identifies the conversation a message belongs to within this connector: its thread, scoped to
+   * the channel, or the channel itself. Connectors whose threads span channels override this.
+   */
+  getConversationKey(data: MessageData): string | undefined {
+    if (!data.channelId) return undefined;
+    return data.threadId ? `${data.channelId}/${data.threadId}` : data.channelId;
+  }
+
+  getOutboundMetrics(): OutboundQueueMetrics | undefined {
+    return this.outbound?.getMetrics();
+  }
+
+  getLogger(): Logger {
+    return this.logger;
+  }
+
+  getHealth(): PlatformHealth {
+    return this.health.snapshot(this.name, this.type, this.isActive(), {
+      platformLatencyMs: this.getPlatformLatency(),
+      outboundQueue: this.getOutboundMetrics(),
+    });
+  }
+
+  // Adds inbound middleware to the end of the chain
+  use(middleware: InboundMiddleware): this {
+    this.middleware.push(middleware);
+    return this;
+  }
+
+  /**
+   * Deletes a message or mutes, kicks or bans a user. Connectors override this for the actions
+   * their platform supports; the default supports none.
+   */
+  async moderate(request: ModerationRequest): Promise<void> {
+    throw new Error(`${this.type} connector does not support ${request.action}`);
+  }
+
+  // Runs an outbound API call for a chat through the outbound queue
+  protected enqueueOutbound<T>(chatId: string, send: () => Promise<T>): Promise<T> {
+    const timed = async () => {
+      const started = Date.now();
+      try {
+        const result = await send();
+        this.health.recordOutbound(Date.now() - started);
+        return result;
+      } catch (error) {
+        this.health.recordOutbound(Date.now() - started, true);
+        throw error;
+      }
+    };
+    return this.outbound ? this.outbound.enqueue(chatId, timed) : timed();
+  }
+
+  // Round trip to the platform measured by its client, e.g. a gateway heartbeat, if it has one
+  protected getPlatformLatency(): number | undefined {
+    return undefined;
+  }
+
+  // `reason` says why the connection dropped and shows up in the health report
+  protected setConnected(connected: boolean, reason?: string): void {
+    if (this.isConnected === connected) return;
+    this.isConnected = connected;
+    this.health.recordConnection(connected, reason);
+    super.emit(connected ? 'connected' : 'disconnected');
+  }
+
+  private async processInbound(type: InboundEventType, data: MessageData): Promise<void> {
+    const context = new InboundContext(this, type, data);
+    for (const middleware of this.middleware) {
+      try {
+        await middleware(context);
+      } catch (error) {
+        // A broken filter must not silence the connector
+        this.logger.error('Inbound middleware failed', { error });
+      }
+      if (context.dropped) break;
+    }
+    if (!context.dropped) super.emit(type, data);
+
+    const failed: ModerationData['failed'] = [];
+    for (const request of context.actions) {
+      try {
+        await this.moderate(request);
+      } catch (error) {
+        this.logger.error(`Failed to ${request.action} ${request.userId}`, { error });
+        failed.push({ request, error: error as Error });
+      }
+    }
+    if (context.dropped || context.escalations.length > 0 || context.actions.length > 0) {
+      const moderation: ModerationData = {
+        type,
+        data,
+        dropped: context.dropped,
+        escalations: context.escalations,
+        actions: context.actions,
+        failed,
+        timestamp: new Date(),
+      };
+      super.emit('moderation', moderation);
+    }
+  }
+
+  private async runTransition(step: () => Promise<void>): Promise<void> {
+    const transition = step();
+    this.transition = transition.catch(() => undefined);
+    try {
+      await transition;
+    } finally {
+      this.transition = undefined;
+    }
+  }
+
+  // --- Typed EventEmitter surface ---
+
+  on<K extends PlatformEventName<E>>(event: K, listener: PlatformEventListener<E, K>): this {
+    return super.on(event, listener as (...args: any[]) => void);
+  }
+
+  once<K extends PlatformEventName<E>>(event: K, listener: PlatformEventListener<E, K>): this {
+    return super.once(event, listener as (...args: any[]) => void);
+  }
+
+  off<K extends PlatformEventName<E>>(event: K, listener: PlatformEventListener<E, K>): this {
+    return super.off(event, listener as (...args: any[]) => void);
+  }
+
+  emit<K extends PlatformEventName<E>>(event: K, ...args: E[K] extends any[] ? E[K] : never): boolean {
+    if (event === 'error') this.health.recordError(args[0]);
+    if (ACTIVITY_EVENTS.includes(event)) this.health.recordInbound(event);
+    if (this.middleware.length === 0 || !INBOUND_EVENTS.includes(event as InboundEventType)) {
+      return super.emit(event, ...args);
+    }
+    // Events of a channel stay in order while middleware awaits
+    const data = args[0] as MessageData;
+    const key = data.channelId || '';
+    const previous = this.inboundQueues.get(key) || Promise.resolve();
+    const next = previous
+      .then(() => this.processInbound(event as InboundEventType, data))
+      .catch(error => this.logger.error(`Failed to process inbound ${event}`, { error }));
+    this.inboundQueues.set(key, next);
+    next.then(() => {
+      if (this.inboundQueues.get(key) === next) this.inboundQueues.delete(key);
+    });
+    return this.listenerCount(event) > 0;
+  }
+}
@@ -0,0 +1,55 @@
+// packages/core/src/platform/PlatformRegistry.ts
+
+import { Platform } from './Platform';
+import { PlatformConfig } from './types';
+
+export type PlatformConstructor<C extends PlatformConfig = PlatformConfig> = new (config: C) => Platform<any>;
+
+/**
+ * Maps connector types to their classes so connectors can be created from config:
+ *
+ *   platformRegistry.register('discord', DiscordConnector);
+ *   const connector = platformRegistry.create({ name: 'support', type: 'discord', parameters: { ... } });
+ *
+ * The connector packages register themselves with the default `platformRegistry` when imported.
+ */
+export class PlatformRegistry {
+  private connectors: Map<string, PlatformConstructor<any>> = new Map();
+
+  public register<C extends PlatformConfig>(type: string, connector: PlatformConstructor<C>): void {
+    const key = type.toLowerCase();
+    const existing = this.connectors.get(key);
+    if (existing && existing !== connector) {
+      throw new Error(`A different connector is already registered for platform type '${type}'`);
+    }
+    this.connectors.set(key, connector);
+  }
+
+  public unregister(type: string): boolean {
+    return this.connectors.delete(type.toLowerCase());
+  }
+
+  public has(type: string): boolean {
+    return this.connectors.has(type.toLowerCase());
+  }
+
+  public types(): string[] {
+    return Array.from(this.connectors.keys());
+  }
+
+  public create<P extends Platform<any> = Platform>(config: PlatformConfig): P {
+    const connector = this.connectors.get(config.type?.toLowerCase());
+    if (!connector) {
+      const known = this.types().join(', ') || 'none';
+      throw new Error(`Unknown platform type '${config.type}' for connector '${config.name}' (registered: ${known})`);
+    }
+    return new connector(config) as P;
+  }
+
+  public createAll(configs: PlatformConfig[]): Platform[] {
+    return configs.map(config => this.create(config));
+  }
+}
+
+// Default registry used by the connector packages
+export const platformRegistry = new PlatformRegistry();
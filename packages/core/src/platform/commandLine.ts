@@ -0,0 +1,61 @@
+// packages/core/src/platform/commandLine.ts
+
+export interface ParsedCommandLine {
+  command: string;
+  args: string[];
+  content: string; // Text after the prefix
+}
+
+/**
+ * Splits a command line into tokens on whitespace. Double quotes group words anywhere
+ * (`"hello world"`, `--name="a b"`); an unterminated one runs to the end of the input. Single
+ * quotes are plain text, so apostrophes in chat (`what's`, `don't`) stay as they are. A
+ * backslash escapes a double quote or whitespace and is kept before anything else, so paths and
+ * patterns pass through unchanged.
+ */
+export function tokenizeCommandLine(input: string): string[] {
+  const tokens: string[] = [];
+  let current = '';
+  let inToken = false;
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (char === '\\' && i + 1 < input.length && isEscapable(input[i + 1], inQuotes)) {
+      current += input[++i];
+      inToken = true;
+    } else if (inQuotes) {
+      if (char === '"') inQuotes = false;
+      else current += char;
+    } else if (char === '"') {
+      inQuotes = true;
+      inToken = true;
+    } else if (/\s/.test(char)) {
+      if (inToken) tokens.push(current);
+      current = '';
+      inToken = false;
+    } else {
+      current += char;
+      inToken = true;
+    }
+  }
+  if (inToken) tokens.push(current);
+  return tokens;
+}
+
+// Inside quotes only a closing quote needs escaping
+function isEscapable(char: string, inQuotes: boolean): boolean {
+  return char === '"' || (!inQuotes && /\s/.test(char));
+}
+
+/**
+ * Parses a chat message that starts with `prefix` into a command name and its arguments.
+ * Returns undefined when the message is not a command.
+ */
+export function parseCommandLine(text: string, prefix: string): ParsedCommandLine | undefined {
+  if (!text.startsWith(prefix)) return undefined;
+  const content = text.slice(prefix.length).trim();
+  const [command, ...args] = tokenizeCommandLine(content);
+  if (!command) return undefined;
+  return { command, args, content };
+}
@@ -0,0 +1,148 @@
+// packages/core/src/platform/health.ts
+
+import { OutboundQueueMetrics } from './OutboundQueue';
+
+export interface HealthOptions {
+  historySize?: number; // Connection changes kept (default 50)
+  /** Report 'degraded' when connected but nothing arrived for this long (default never) */
+  staleAfterMs?: number;
+  /** Report 'degraded' for this long after an error (default 5 minutes) */
+  errorWindowMs?: number;
+}
+
+export type HealthStatus = 'healthy' | 'degraded' | 'down';
+
+export interface ConnectionChange {
+  connected: boolean;
+  at: Date;
+  reason?: string; // Why the connection dropped, when the connector knows
+}
+
+// Upper bounds in seconds of the outbound latency histogram buckets
+export const LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+export interface LatencyStats {
+  count: number;
+  sumMs: number;
+  lastMs?: number;
+  maxMs?: number;
+  buckets: number[]; // Cumulative counts per LATENCY_BUCKETS entry
+}
+
+export interface PlatformHealth {
+  name: string;
+  type: string;
+  status: HealthStatus;
+  reasons: string[]; // Why the status is not 'healthy'
+  connected: boolean;
+  since?: Date; // Start of the current connection state
+  connections: ConnectionChange[]; // Oldest first
+  disconnects: number;
+  inbound: Record<string, number>; // Events received, by event name
+  outbound: number; // Successful outbound API calls
+  outboundFailed: number;
+  errors: number;
+  lastInboundAt?: Date;
+  lastOutboundAt?: Date;
+  lastErrorAt?: Date;
+  lastError?: string;
+  latency: LatencyStats; // Outbound API calls
+  platformLatencyMs?: number; // Reported by the platform, e.g. the Discord gateway heartbeat
+  outboundQueue?: OutboundQueueMetrics;
+}
+
+/**
+ * Counts what a connector does for its health report. Platform feeds it from `setConnected`,
+ * emitted events and `enqueueOutbound`, so connectors get it without extra calls.
+ */
+export class HealthTracker {
+  private options: Required<Omit<HealthOptions, 'staleAfterMs'>> & HealthOptions;
+  private connections: ConnectionChange[] = [];
+  private disconnects = 0;
+  private inbound: Record<string, number> = {};
+  private outbound = 0;
+  private outboundFailed = 0;
+  private errors = 0;
+  private lastInboundAt?: Date;
+  private lastOutboundAt?: Date;
+  private lastErrorAt?: Date;
+  private lastError?: string;
+  private latency: LatencyStats = { count: 0, sumMs: 0, buckets: LATENCY_BUCKETS.map(() => 0) };
+
+  constructor(options: HealthOptions = {}) {
+    this.options = { historySize: 50, errorWindowMs: 5 * 60 * 1000, ...options };
+  }
+
+  public recordConnection(connected: boolean, reason?: string): void {
+    this.connections.push({ connected, at: new Date(), reason });
+    if (this.connections.length > this.options.historySize) this.connections.shift();
+    if (!connected) this.disconnects++;
+  }
+
+  public recordInbound(event: string): void {
+    this.inbound[event] = (this.inbound[event] || 0) + 1;
+    this.lastInboundAt = new Date();
+  }
+
+  public recordOutbound(latencyMs: number, failed = false): void {
+    if (failed) {
+      this.outboundFailed++;
+      return;
+    }
+    this.outbound++;
+    this.lastOutboundAt = new Date();
+    const latency = this.latency;
+    latency.count++;
+    latency.sumMs += latencyMs;
+    latency.lastMs = latencyMs;
+    latency.maxMs = Math.max(latency.maxMs ?? 0, latencyMs);
+    LATENCY_BUCKETS.forEach((bound, index) => {
+      if (latencyMs <= bound * 1000) latency.buckets[index]++;
+    });
+  }
+
+  public recordError(error: unknown): void {
+    this.errors++;
+    this.lastErrorAt = new Date();
+    this.lastError = error instanceof Error ? error.message : String(error);
+  }
+
+  public snapshot(name: string, type: string, connected: boolean, extra: Pick<PlatformHealth, 'platformLatencyMs' | 'outboundQueue'> = {}): PlatformHealth {
+    const now = Date.now();
+    const last = this.connections[this.connections.length - 1];
+    const reasons: string[] = [];
+    if (!connected) {
+      reasons.push(last?.reason ? `Disconnected: ${last.reason}` : 'Disconnected');
+    } else {
+      const lastActivity = Math.max(this.lastInboundAt?.getTime() ?? 0, last?.at.getTime() ?? 0);
+      if (this.options.staleAfterMs !== undefined && now - lastActivity > this.options.staleAfterMs) {
+        reasons.push(`Nothing received for ${Math.round((now - lastActivity) / 1000)}s`);
+      }
+      if (this.lastErrorAt && now - this.lastErrorAt.getTime() < this.options.errorWindowMs) {
+        reasons.push(`Recent error: ${this.lastError}`);
+      }
+      if (extra.outboundQueue?.pausedUntil) reasons.push('Outbound queue is rate limited');
+    }
+
+    return {
+      name,
+      type,
+      status: !connected ? 'down' : reasons.length > 0 ? 'degraded' : 'healthy',
+      reasons,
+      connected,
+      since: last?.connected === connected ? last.at : undefined,
+      connections: [...this.connections],
+      disconnects: this.disconnects,
+      inbound: { ...this.inbound },
+      outbound: this.outbound,
+      outboundFailed: this.outboundFailed,
+      errors: this.errors,
+      lastInboundAt: this.lastInboundAt,
+      lastOutboundAt: this.lastOutboundAt,
+      lastErrorAt: this.lastErrorAt,
+      lastError: this.lastError,
+      latency: { ...this.latency, buckets: [...this.latency.buckets] },
+      ...extra,
+    };
+  }
+}
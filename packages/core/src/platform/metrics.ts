@@ -0,0 +1,159 @@
+// packages/core/src/platform/metrics.ts
+
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { getLogger } from '../logging/logger';
+import { LATENCY_BUCKETS, PlatformHealth } from './health';
+import type { Platform } from './Platform';
+
+export interface MetricsServerOptions {
+  /** Connectors to report, or a function returning the current ones */
+  platforms: Platform<any>[] | (() => Platform<any>[]);
+  port?: number; // Default 9464; 0 picks a free port
+  host?: string; // Default '127.0.0.1'; use '0.0.0.0' to let a remote Prometheus scrape
+  prefix?: string; // Metric name prefix (default 'juliaos_platform')
+}
+
+interface Metric {
+  name: string;
+  help: string;
+  type: 'gauge' | 'counter' | 'histogram';
+  samples: Array<{ suffix?: string; labels: Record<string, string>; value: number }>;
+}
+
+const logger = getLogger({ module: 'MetricsServer' });
+
+const escapeLabel = (value: string) => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+const seconds = (date?: Date) => (date ? date.getTime() / 1000 : undefined);
+
+function formatMetric(metric: Metric): string {
+  const lines = [`# HELP ${metric.name} ${metric.help}`, `# TYPE ${metric.name} ${metric.type}`];
+  for (const sample of metric.samples) {
+    const labels = Object.entries(sample.labels).map(([key, value]) => `${key}="${escapeLabel(value)}"`).join(',');
+    lines.push(`${metric.name}${sample.suffix || ''}{${labels}} ${sample.value}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Renders connector health in the Prometheus text exposition format. Every series carries the
+ * `platform` (connector name) and `type` labels.
+ */
+export function renderPrometheusMetrics(health: PlatformHealth[], prefix = 'juliaos_platform'): string {
+  const metrics: Metric[] = [];
+  const add = (
+    name: string,
+    type: Metric['type'],
+    help: string,
+    value: (health: PlatformHealth) => number | undefined | Array<{ suffix?: string; labels?: Record<string, string>; value: number }>
+  ) => {
+    const metric: Metric = { name: `${prefix}_${name}`, type, help, samples: [] };
+    for (const entry of health) {
+      const labels = { platform: entry.name, type: entry.type };
+      const result = value(entry);
+      if (result === undefined) continue;
+      const samples = Array.isArray(result) ? result : [{ value: result }];
+      for (const sample of samples) {
+        metric.samples.push({ suffix: sample.suffix, labels: { ...labels, ...sample.labels }, value: sample.value });
+      }
+    }
+    if (metric.samples.length > 0) metrics.push(metric);
+  };
+
+  add('up', 'gauge', 'Whether the connector is connected', entry => (entry.connected ? 1 : 0));
+  add('healthy', 'gauge', 'Whether the connector is connected with no recent errors or stalls', entry => (entry.status === 'healthy' ? 1 : 0));
+  add('state_since_timestamp_seconds', 'gauge', 'Start of the current connection state', entry => seconds(entry.since));
+  add('disconnects_total', 'counter', 'Connections lost or closed', entry => entry.disconnects);
+  add('inbound_events_total', 'counter', 'Events received from the platform', entry =>
+    Object.entries(entry.inbound).map(([event, value]) => ({ labels: { event }, value }))
+  );
+  add('outbound_calls_total', 'counter', 'Outbound API calls', entry => [
+    { labels: { result: 'success' }, value: entry.outbound },
+    { labels: { result: 'failure' }, value: entry.outboundFailed },
+  ]);
+  add('errors_total', 'counter', 'Errors reported by the connector', entry => entry.errors);
+  add('last_inbound_timestamp_seconds', 'gauge', 'Time of the last event received', entry => seconds(entry.lastInboundAt));
+  add('last_outbound_timestamp_seconds', 'gauge', 'Time of the last successful outbound call', entry => seconds(entry.lastOutboundAt));
+  add('last_error_timestamp_seconds', 'gauge', 'Time of the last error', entry => seconds(entry.lastErrorAt));
+  add('outbound_latency_seconds', 'histogram', 'Duration of successful outbound API calls', entry => [
+    ...LATENCY_BUCKETS.map((bound, index) => ({ suffix: '_bucket', labels: { le: String(bound) }, value: entry.latency.buckets[index] })),
+    { suffix: '_bucket', labels: { le: '+Inf' }, value: entry.latency.count },
+    { suffix: '_sum', value: entry.latency.sumMs / 1000 },
+    { suffix: '_count', value: entry.latency.count },
+  ]);
+  add('latency_seconds', 'gauge', 'Round trip reported by the platform client, e.g. the gateway heartbeat', entry =>
+    entry.platformLatencyMs === undefined ? undefined : entry.platformLatencyMs / 1000
+  );
+  add('outbound_queue_depth', 'gauge', 'Outbound calls waiting or in flight', entry => entry.outboundQueue?.depth);
+  add('outbound_rate_limited_total', 'counter', 'Rate-limit responses received from the platform', entry => entry.outboundQueue?.rateLimited);
+  add('outbound_retried_total', 'counter', 'Outbound calls retried after a rate limit', entry => entry.outboundQueue?.retried);
+
+  return metrics.map(formatMetric).join('\n') + '\n';
+}
+
+/**
+ * Small HTTP server for monitoring: `GET /metrics` returns Prometheus metrics and `GET /health`
+ * the health of every connector as JSON, with status 503 while any of them is down.
+ *
+ *   const metrics = new MetricsServer({ platforms: [discord, telegram] });
+ *   await metrics.start();
+ */
+export class MetricsServer {
+  private options: MetricsServerOptions;
+  private server?: Server;
+
+  constructor(options: MetricsServerOptions) {
+    this.options = options;
+  }
+
+  public async start(): Promise<void> {
+    if (this.server) return;
+    const server = createServer((req, res) => {
+      const path = (req.url || '/').split('?')[0];
+      if (req.method !== 'GET' || (path !== '/metrics' && path !== '/health')) {
+        res.writeHead(404, { 'Content-Type': 'text/plain' }).end('Not found\n');
+        return;
+      }
+      try {
+        const health = this.platforms().map(platform => platform.getHealth());
+        if (path === '/metrics') {
+          res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+          res.end(renderPrometheusMetrics(health, this.options.prefix));
+        } else {
+          const down = health.some(entry => entry.status === 'down');
+          res.writeHead(down ? 503 : 200, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ status: down ? 'down' : health.some(entry => entry.status === 'degraded') ? 'degraded' : 'healthy', platforms: health }));
+        }
+      } catch (error) {
+        logger.error('Failed to collect platform metrics', { error });
+        res.writeHead(500, { 'Content-Type': 'text/plain' }).end('Failed to collect metrics\n');
+      }
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port ?? 9464, this.options.host || '127.0.0.1', () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+    this.server = server;
+  }
+
+  public async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+    this.server = undefined;
+    await new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve())));
+  }
+
+  // Port the server listens on, once started
+  public get port(): number | undefined {
+    return (this.server?.address() as AddressInfo | null)?.port;
+  }
+
+  private platforms(): Platform<any>[] {
+    const { platforms } = this.options;
+    return typeof platforms === 'function' ? platforms() : platforms;
+  }
+}
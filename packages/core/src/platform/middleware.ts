@@ -0,0 +1,52 @@
+// packages/core/src/platform/middleware.ts
+
+import type { Platform } from './Platform';
+import { CommandData, InboundEventType, MessageData, ModerationAction, ModerationRequest } from './types';
+
+/**
+ * What a middleware sees and decides about one inbound event. Calling `drop` stops the chain
+ * and the event never reaches listeners; tags are added to `data.tags` for listeners to read.
+ */
+export class InboundContext {
+  public readonly platform: Platform<any>;
+  public readonly type: InboundEventType;
+  public readonly data: MessageData | CommandData;
+  public dropped?: string;
+  public readonly escalations: string[] = [];
+  public readonly actions: ModerationRequest[] = [];
+
+  constructor(platform: Platform<any>, type: InboundEventType, data: MessageData | CommandData) {
+    this.platform = platform;
+    this.type = type;
+    this.data = data;
+  }
+
+  public tag(...tags: string[]): void {
+    this.data.tags = Array.from(new Set([...(this.data.tags || []), ...tags]));
+  }
+
+  public drop(reason: string): void {
+    this.dropped ??= reason;
+  }
+
+  public escalate(reason: string): void {
+    this.escalations.push(reason);
+  }
+
+  // Requests an action against the sender, or the message itself for 'delete', once the chain ends
+  public moderate(action: ModerationAction, options: Omit<Partial<ModerationRequest>, 'action'> = {}): void {
+    this.actions.push({
+      action,
+      userId: this.data.sender,
+      channelId: this.data.channelId,
+      messageId: this.data.messageId,
+      ...options,
+    });
+  }
+}
+
+/**
+ * Inspects an inbound event before listeners see it. Middleware runs in the order it was added
+ * with Platform.use; the chain stops at the first one that drops the event.
+ */
+export type InboundMiddleware = (context: InboundContext) => void | Promise<void>;
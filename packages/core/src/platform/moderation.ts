@@ -0,0 +1,217 @@
+// packages/core/src/platform/moderation.ts
+
+import { AgentsService } from '../api/AgentsService';
+import { defaultBridgePayload } from './AgentBridge';
+import { InboundContext, InboundMiddleware } from './middleware';
+import { InboundEventType, ModerationAction } from './types';
+
+export interface ModerationFilterOptions {
+  /** Event types checked (default all inbound events) */
+  events?: InboundEventType[];
+  /** User IDs never checked, e.g. moderators */
+  exempt?: string[];
+}
+
+// What a filter does with a matching message
+export type FilterVerdict = 'drop' | 'tag' | 'escalate';
+
+export interface FloodFilterOptions extends ModerationFilterOptions {
+  /** Messages a user may send to a channel within `windowMs` */
+  maxMessages: number;
+  windowMs: number;
+  /** Times the same text may be repeated within the window (default unlimited) */
+  maxDuplicates?: number;
+  verdict?: FilterVerdict; // Default 'drop'
+  /** Actions taken against the sender, e.g. ['delete', 'mute'] */
+  moderate?: ModerationAction[];
+  /** How long 'mute' lasts (default 10 minutes) */
+  muteMs?: number;
+}
+
+export interface ContentFilterOptions extends ModerationFilterOptions {
+  /** Whole words or phrases, matched case-insensitively */
+  words?: string[];
+  patterns?: RegExp[];
+  verdict?: FilterVerdict; // Default 'drop'
+  tag?: string; // Tag added to matching messages (default 'filtered')
+  moderate?: ModerationAction[];
+  muteMs?: number;
+}
+
+export interface CooldownOptions extends ModerationFilterOptions {
+  /** Minimum time between two events of a user */
+  ms: number;
+}
+
+// Decision of a remote moderation agent
+export interface ModerationVerdict {
+  verdict: 'allow' | FilterVerdict;
+  reason?: string;
+  tags?: string[];
+  moderate?: ModerationAction[];
+  durationMs?: number;
+}
+
+export interface RemoteModerationOptions extends ModerationFilterOptions {
+  agentId: string;
+  /** Builds the webhook payload; defaults to the AgentBridge payload */
+  buildPayload?: (context: InboundContext) => Record<string, any>;
+  /** Reads the verdict from the agent output; defaults to `defaultModerationVerdict` */
+  parseVerdict?: (output: Record<string, any>) => ModerationVerdict | undefined;
+  /** Drop messages when the agent cannot be reached (default false, they pass unchecked) */
+  failClosed?: boolean;
+}
+
+const MODERATION_ACTIONS: ModerationAction[] = ['delete', 'mute', 'kick', 'ban'];
+const DEFAULT_MUTE_MS = 10 * 60 * 1000;
+const TRACKED_SENDERS = 10000;
+
+function applies(options: ModerationFilterOptions, context: InboundContext): boolean {
+  if (options.events && !options.events.includes(context.type)) return false;
+  return !options.exempt?.includes(context.data.sender);
+}
+
+function senderKey(context: InboundContext, perChannel = true): string {
+  const { platform, data } = context;
+  return perChannel ? `${platform.getName()}:${data.channelId}:${data.sender}` : `${platform.getName()}:${data.sender}`;
+}
+
+function apply(context: InboundContext, verdict: FilterVerdict, reason: string, tag: string, actions: ModerationAction[] = [], durationMs?: number): void {
+  context.tag(tag);
+  if (verdict === 'drop') context.drop(reason);
+  if (verdict === 'escalate') context.escalate(reason);
+  for (const action of actions) {
+    context.moderate(action, { reason, ...(action === 'mute' || action === 'ban' ? { durationMs } : {}) });
+  }
+}
+
+// Forgets the least recently active sender once too many are tracked
+function remember<T>(map: Map<string, T>, key: string, value: T): void {
+  map.delete(key);
+  map.set(key, value);
+  if (map.size > TRACKED_SENDERS) map.delete(map.keys().next().value as string);
+}
+
+/**
+ * Catches users who post too fast, or repeat the same text, in a channel.
+ */
+export function floodFilter(options: FloodFilterOptions): InboundMiddleware {
+  const history: Map<string, Array<{ at: number; text: string }>> = new Map();
+  return context => {
+    if (!applies(options, context)) return;
+    const key = senderKey(context);
+    const now = Date.now();
+    const text = context.data.content.trim().toLowerCase();
+    const recent = (history.get(key) || []).filter(entry => now - entry.at < options.windowMs);
+    recent.push({ at: now, text });
+    remember(history, key, recent);
+
+    const duplicates = recent.filter(entry => entry.text === text).length;
+    const reason = recent.length > options.maxMessages
+      ? `More than ${options.maxMessages} messages in ${options.windowMs / 1000}s`
+      : options.maxDuplicates !== undefined && duplicates > options.maxDuplicates
+        ? `Same message repeated ${duplicates} times`
+        : undefined;
+    if (reason) apply(context, options.verdict || 'drop', reason, 'spam', options.moderate, options.muteMs ?? DEFAULT_MUTE_MS);
+  };
+}
+
+/**
+ * Matches messages against a word list and regular expressions.
+ */
+export function contentFilter(options: ContentFilterOptions): InboundMiddleware {
+  const escaped = (options.words || []).map(word => word.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).filter(Boolean);
+  const patterns = [...(options.patterns || [])];
+  // Letters and digits around a word mean it is part of a longer one
+  if (escaped.length > 0) patterns.unshift(new RegExp(`(?<![\\p{L}\\p{N}])(?:${escaped.join('|')})(?![\\p{L}\\p{N}])`, 'iu'));
+  return context => {
+    if (!applies(options, context)) return;
+    const match = patterns.map(pattern => context.data.content.match(pattern)).find(Boolean);
+    if (!match) return;
+    const tag = options.tag || 'filtered';
+    apply(context, options.verdict || 'drop', `Matched ${tag} content "${match[0]}"`, tag, options.moderate, options.muteMs ?? DEFAULT_MUTE_MS);
+  };
+}
+
+/**
+ * Drops events from a user who sent one less than `ms` ago on the same platform, e.g. to keep
+ * expensive commands from being spammed.
+ */
+export function cooldown(options: CooldownOptions): InboundMiddleware {
+  const lastSeen: Map<string, number> = new Map();
+  return context => {
+    if (!applies(options, context)) return;
+    const key = senderKey(context, false);
+    const now = Date.now();
+    const last = lastSeen.get(key);
+    if (last !== undefined && now - last < options.ms) {
+      context.drop(`Cooldown of ${options.ms / 1000}s`);
+      return;
+    }
+    remember(lastSeen, key, now);
+  };
+}
+
+/**
+ * Reads a verdict from an agent output: `verdict` (or `action`) is one of allow, drop, tag or
+ * escalate, with optional `reason`, `tags`, `moderate` (an action or a list of them) and
+ * `duration_ms`. Outputs without a recognised verdict allow the message.
+ */
+export function defaultModerationVerdict(output: Record<string, any>): ModerationVerdict | undefined {
+  if (!output || typeof output !== 'object') return undefined;
+  const verdict = output.verdict ?? output.action;
+  if (!['allow', 'drop', 'tag', 'escalate'].includes(verdict)) return undefined;
+  const moderate = ([] as unknown[]).concat(output.moderate ?? []).filter((action): action is ModerationAction =>
+    MODERATION_ACTIONS.includes(action as ModerationAction)
+  );
+  return {
+    verdict,
+    reason: typeof output.reason === 'string' ? output.reason : undefined,
+    tags: Array.isArray(output.tags) ? output.tags.filter((tag: unknown) => typeof tag === 'string') : undefined,
+    moderate,
+    durationMs: typeof output.duration_ms === 'number' ? output.duration_ms : undefined,
+  };
+}
+
+/**
+ * Asks a moderation agent about every message through POST /agents/{agent_id}/webhook and
+ * GET /agents/{agent_id}/output, e.g. an agent running the backend's telegram_moderator
+ * strategy. Calls are serialised because the backend keeps a single output per agent.
+ */
+export function remoteModeration(
+  agents: Pick<AgentsService, 'triggerWebhook' | 'getAgentOutput'>,
+  options: RemoteModerationOptions
+): InboundMiddleware {
+  let queue: Promise<unknown> = Promise.resolve();
+  const ask = (context: InboundContext): Promise<Record<string, any>> => {
+    const payload = options.buildPayload
+      ? options.buildPayload(context)
+      : defaultBridgePayload({ type: context.type, platform: context.platform, data: context.data }, { agentId: options.agentId });
+    const step = async () => {
+      await agents.triggerWebhook(options.agentId, payload);
+      return agents.getAgentOutput(options.agentId);
+    };
+    const next = queue.then(step, step);
+    queue = next.catch(() => undefined);
+    return next;
+  };
+
+  return async context => {
+    if (!applies(options, context)) return;
+    let output: Record<string, any>;
+    try {
+      output = await ask(context);
+    } catch (error) {
+      if (!options.failClosed) throw error;
+      context.platform.getLogger().child({ agent_id: options.agentId }).error('Moderation agent failed, dropping message', { error });
+      context.drop('Moderation agent unavailable');
+      return;
+    }
+    const verdict = (options.parseVerdict || defaultModerationVerdict)(output);
+    if (!verdict) return;
+    if (verdict.tags?.length) context.tag(...verdict.tags);
+    if (verdict.verdict === 'allow') return;
+    const reason = verdict.reason || `Flagged by moderation agent ${options.agentId}`;
+    apply(context, verdict.verdict, reason, 'flagged', verdict.moderate, verdict.durationMs);
+  };
+}
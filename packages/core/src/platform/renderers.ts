@@ -0,0 +1,668 @@
+// packages/core/src/platform/renderers.ts
+
+import {
+  InlineNode,
+  RichAction,
+  RichAttachment,
+  RichBlock,
+  RichMessage,
+  RichModal,
+  RichSelectOption,
+  blockToPlainText,
+  chunkBlocks,
+  inlineToPlainText,
+} from './richMessage';
+
+/**
+ * Maximum characters per message (per tweet for Twitter).
+ */
+export const PLATFORM_MESSAGE_LIMITS: Record<string, number> = {
+  telegram: 4096,
+  discord: 2000,
+  slack: 3000, // Per section block; 50 blocks per message
+  matrix: 32000,
+  twitter: 280,
+};
+
+type InlineRenderer = (node: InlineNode) => string;
+
+function renderBlocks(
+  blocks: RichBlock[],
+  inline: InlineRenderer,
+  format: (block: RichBlock, text: (nodes: InlineNode[]) => string) => string,
+  separator = '\n\n'
+): string {
+  const text = (nodes: InlineNode[]) => nodes.map(inline).join('');
+  return blocks.map(block => format(block, text)).join(separator);
+}
+
+function chunked(
+  message: RichMessage,
+  maxLength: number,
+  render: (blocks: RichBlock[]) => string,
+  separator = '\n\n'
+): string[] {
+  return chunkBlocks(message.blocks, block => render([block]).length, maxLength, separator.length).map(render);
+}
+
+function listMarker(block: Extract<RichBlock, { type: 'list' }>, index: number): string {
+  return block.ordered ? `${(block.start || 1) + index}.` : '•';
+}
+
+// --- Plain text ---
+
+export function renderPlainText(blocks: RichBlock[]): string {
+  return blocks.map(blockToPlainText).join('\n\n');
+}
+
+/**
+ * Plain text chunks, for platforms without formatting or as a fallback.
+ */
+export function renderPlainTextChunks(message: RichMessage, maxLength: number): string[] {
+  return chunked(message, maxLength, renderPlainText);
+}
+
+// --- Telegram ---
+
+export type TelegramParseMode = 'MarkdownV2' | 'HTML';
+
+const escapeMarkdownV2 = (text: string) => text.replace(/[_*[\]()~`>#+\-=|{}.!\\]/g, '\\$&');
+const escapeMarkdownV2Code = (text: string) => text.replace(/[`\\]/g, '\\$&');
+const escapeHtml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+function telegramMention(userId: string): string {
+  return /^\d+$/.test(userId) ? `tg://user?id=${userId}` : `https://t.me/${userId.replace(/^@/, '')}`;
+}
+
+function telegramMarkdownInline(node: InlineNode): string {
+  if (typeof node === 'string') return escapeMarkdownV2(node);
+  switch (node.type) {
+    case 'bold':
+      return `*${escapeMarkdownV2(node.text)}*`;
+    case 'italic':
+      return `_${escapeMarkdownV2(node.text)}_`;
+    case 'strike':
+      return `~${escapeMarkdownV2(node.text)}~`;
+    case 'code':
+      return `\`${escapeMarkdownV2Code(node.text)}\``;
+    case 'link':
+      return `[${escapeMarkdownV2(node.text || node.url)}](${node.url.replace(/[)\\]/g, '\\$&')})`;
+    case 'mention':
+      return `[${escapeMarkdownV2(`@${node.name || node.userId}`)}](${telegramMention(node.userId)})`;
+  }
+}
+
+function telegramHtmlInline(node: InlineNode): string {
+  if (typeof node === 'string') return escapeHtml(node);
+  switch (node.type) {
+    case 'bold':
+      return `<b>${escapeHtml(node.text)}</b>`;
+    case 'italic':
+      return `<i>${escapeHtml(node.text)}</i>`;
+    case 'strike':
+      return `<s>${escapeHtml(node.text)}</s>`;
+    case 'code':
+      return `<code>${escapeHtml(node.text)}</code>`;
+    case 'link':
+      return `<a href="${escapeHtml(node.url)}">${escapeHtml(node.text || node.url)}</a>`;
+    case 'mention':
+      return `<a href="${telegramMention(node.userId)}">${escapeHtml(`@${node.name || node.userId}`)}</a>`;
+  }
+}
+
+function renderTelegramBlocks(blocks: RichBlock[], parseMode: TelegramParseMode): string {
+  const markdown = parseMode === 'MarkdownV2';
+  return renderBlocks(blocks, markdown ? telegramMarkdownInline : telegramHtmlInline, (block, text) => {
+    switch (block.type) {
+      case 'heading':
+        return markdown ? `*${text(block.content)}*` : `<b>${text(block.content)}</b>`;
+      case 'paragraph':
+        return text(block.content);
+      case 'quote':
+        return markdown
+          ? text(block.content).split('\n').map(line => `>${line}`).join('\n')
+          : `<blockquote>${text(block.content)}</blockquote>`;
+      case 'list':
+        return block.items
+          .map((item, index) => `${markdown ? escapeMarkdownV2(listMarker(block, index)) : listMarker(block, index)} ${text(item)}`)
+          .join('\n');
+      case 'code':
+        if (markdown) return `\`\`\`${block.language || ''}\n${escapeMarkdownV2Code(block.code)}\n\`\`\``;
+        return block.language
+          ? `<pre><code class="language-${escapeHtml(block.language)}">${escapeHtml(block.code)}</code></pre>`
+          : `<pre>${escapeHtml(block.code)}</pre>`;
+      case 'divider':
+        return '———';
+    }
+  });
+}
+
+/**
+ * Telegram message texts for `parse_mode` MarkdownV2 or HTML, each within the 4096 limit.
+ */
+export function renderTelegram(
+  message: RichMessage,
+  options: { parseMode?: TelegramParseMode; maxLength?: number } = {}
+): string[] {
+  const parseMode = options.parseMode || 'HTML';
+  return chunked(message, options.maxLength || PLATFORM_MESSAGE_LIMITS.telegram, blocks => renderTelegramBlocks(blocks, parseMode));
+}
+
+export type TelegramInlineButton = { text: string; callback_data: string } | { text: string; url: string };
+
+const TELEGRAM_BUTTONS_PER_ROW = 4;
+const TELEGRAM_CALLBACK_DATA_LIMIT = 64; // Bytes
+
+function telegramCallbackData(id: string, separator: string, value?: string): string {
+  const data = value !== undefined ? `${id}${separator}${value}` : id;
+  if (new TextEncoder().encode(data).length > TELEGRAM_CALLBACK_DATA_LIMIT) {
+    throw new Error(`Callback data of action '${id}' exceeds Telegram's ${TELEGRAM_CALLBACK_DATA_LIMIT} bytes`);
+  }
+  return data;
+}
+
+/**
+ * An inline keyboard for a message. Buttons share rows of up to four; Telegram has no select
+ * menus, so each option of a select becomes a button on its own row. Callback data is the action
+ * ID, followed by `|value` for buttons and `#value` for options; action IDs must not contain either.
+ */
+export function renderTelegramKeyboard(actions: RichAction[]): TelegramInlineButton[][] {
+  const rows: TelegramInlineButton[][] = [];
+  let buttons: TelegramInlineButton[] | undefined;
+  for (const action of actions) {
+    if (action.type === 'select') {
+      buttons = undefined;
+      for (const option of action.options) {
+        rows.push([{ text: option.label, callback_data: telegramCallbackData(action.id, '#', option.value) }]);
+      }
+      continue;
+    }
+    const button: TelegramInlineButton = action.url
+      ? { text: action.label, url: action.url }
+      : { text: action.label, callback_data: telegramCallbackData(action.id, '|', action.value) };
+    if (buttons && buttons.length < TELEGRAM_BUTTONS_PER_ROW) {
+      buttons.push(button);
+    } else {
+      buttons = [button];
+      rows.push(buttons);
+    }
+  }
+  return rows;
+}
+
+export function parseTelegramCallbackData(data: string): { kind: 'button' | 'select'; actionId: string; value?: string } {
+  const index = data.search(/[|#]/);
+  if (index === -1) return { kind: 'button', actionId: data };
+  return { kind: data[index] === '#' ? 'select' : 'button', actionId: data.slice(0, index), value: data.slice(index + 1) };
+}
+
+// --- Discord ---
+
+// Subset of Discord's embed object used by the renderer
+export interface DiscordEmbed {
+  title?: string;
+  description?: string;
+  url?: string;
+  color?: number;
+  image?: { url: string };
+}
+
+export type DiscordComponent =
+  | { type: 2; style: 1 | 2 | 4 | 5; label: string; custom_id?: string; url?: string } // Button
+  | { type: 3; custom_id: string; options: RichSelectOption[]; placeholder?: string; min_values?: number; max_values?: number }; // String select
+
+export interface DiscordActionRow {
+  type: 1;
+  components: DiscordComponent[];
+}
+
+export interface DiscordMessagePayload {
+  content?: string;
+  embeds?: DiscordEmbed[];
+  components?: DiscordActionRow[];
+}
+
+export interface DiscordModal {
+  custom_id: string;
+  title: string;
+  components: Array<{
+    type: 1;
+    components: [{ type: 4; custom_id: string; label: string; style: 1 | 2; required: boolean; placeholder?: string; value?: string }];
+  }>;
+}
+
+const DISCORD_ROW_LIMIT = 5;
+const DISCORD_VALUE_SEPARATOR = '|';
+
+const escapeDiscord = (text: string) => text.replace(/[\\*_~`|>#[\]]/g, '\\$&');
+
+function discordInline(node: InlineNode): string {
+  if (typeof node === 'string') return escapeDiscord(node);
+  switch (node.type) {
+    case 'bold':
+      return `**${escapeDiscord(node.text)}**`;
+    case 'italic':
+      return `*${escapeDiscord(node.text)}*`;
+    case 'strike':
+      return `~~${escapeDiscord(node.text)}~~`;
+    case 'code':
+      return node.text.includes('`') ? `\`\` ${node.text} \`\`` : `\`${node.text}\``;
+    case 'link':
+      return node.text && node.text !== node.url ? `[${escapeDiscord(node.text)}](${node.url})` : node.url;
+    case 'mention':
+      return /^\d+$/.test(node.userId) ? `<@${node.userId}>` : `@${escapeDiscord(node.name || node.userId)}`;
+  }
+}
+
+function renderDiscordBlocks(blocks: RichBlock[]): string {
+  return renderBlocks(blocks, discordInline, (block, text) => {
+    switch (block.type) {
+      case 'heading':
+        return `${'#'.repeat(block.level || 1)} ${text(block.content)}`;
+      case 'paragraph':
+        return text(block.content);
+      case 'quote':
+        return text(block.content).split('\n').map(line => `> ${line}`).join('\n');
+      case 'list':
+        return block.items.map((item, index) => `${block.ordered ? listMarker(block, index) : '-'} ${text(item)}`).join('\n');
+      case 'code':
+        return `\`\`\`${block.language || ''}\n${block.code.replace(/```/g, '`\u200b``')}\n\`\`\``;
+      case 'divider':
+        return '———';
+    }
+  });
+}
+
+/**
+ * Discord buttons carry a single custom ID, so a button value is appended to its action ID after
+ * a `|`; action IDs must not contain one.
+ */
+export function parseDiscordCustomId(customId: string): { actionId: string; value?: string } {
+  const index = customId.indexOf(DISCORD_VALUE_SEPARATOR);
+  return index === -1 ? { actionId: customId } : { actionId: customId.slice(0, index), value: customId.slice(index + 1) };
+}
+
+/**
+ * Action rows for a message: up to five buttons per row and one select menu per row, at most five
+ * rows (Discord rejects more, so further actions are dropped).
+ */
+export function renderDiscordComponents(actions: RichAction[]): DiscordActionRow[] {
+  const rows: DiscordActionRow[] = [];
+  for (const action of actions) {
+    if (action.type === 'select') {
+      rows.push({
+        type: 1,
+        components: [{
+          type: 3,
+          custom_id: action.id,
+          options: action.options.slice(0, 25),
+          ...(action.placeholder ? { placeholder: action.placeholder } : {}),
+          ...(action.maxValues && action.maxValues > 1 ? { min_values: 1, max_values: Math.min(action.maxValues, action.options.length) } : {}),
+        }],
+      });
+      continue;
+    }
+    const button: DiscordComponent = action.url
+      ? { type: 2, style: 5, label: action.label, url: action.url }
+      : {
+          type: 2,
+          style: action.style === 'primary' ? 1 : action.style === 'danger' ? 4 : 2,
+          label: action.label,
+          custom_id: action.value !== undefined ? `${action.id}${DISCORD_VALUE_SEPARATOR}${action.value}` : action.id,
+        };
+    const last = rows[rows.length - 1];
+    if (last && last.components[0].type === 2 && last.components.length < DISCORD_ROW_LIMIT) last.components.push(button);
+    else rows.push({ type: 1, components: [button] });
+  }
+  return rows.slice(0, DISCORD_ROW_LIMIT);
+}
+
+// A modal holds up to five text inputs
+export function renderDiscordModal(modal: RichModal): DiscordModal {
+  return {
+    custom_id: modal.id,
+    title: modal.title.slice(0, 45),
+    components: modal.fields.slice(0, 5).map(field => ({
+      type: 1 as const,
+      components: [{
+        type: 4 as const,
+        custom_id: field.id,
+        label: field.label.slice(0, 45),
+        style: field.multiline ? 2 as const : 1 as const,
+        required: field.required !== false,
+        ...(field.placeholder ? { placeholder: field.placeholder.slice(0, 100) } : {}),
+        ...(field.value !== undefined ? { value: field.value } : {}),
+      }],
+    })),
+  };
+}
+
+/**
+ * Discord message payloads: markdown content within the 2000 limit, or with `embeds` one embed
+ * per payload (description limit 4096) titled by a leading heading. Image attachments with a URL
+ * are shown in the last embed, and actions become components of the last payload.
+ */
+export function renderDiscord(
+  message: RichMessage,
+  options: { embeds?: boolean; color?: number; maxLength?: number } = {}
+): DiscordMessagePayload[] {
+  const payloads = renderDiscordContent(message, options);
+  if (message.actions?.length) {
+    if (payloads.length === 0) payloads.push({});
+    payloads[payloads.length - 1].components = renderDiscordComponents(message.actions);
+  }
+  return payloads;
+}
+
+function renderDiscordContent(
+  message: RichMessage,
+  options: { embeds?: boolean; color?: number; maxLength?: number }
+): DiscordMessagePayload[] {
+  if (!options.embeds) {
+    return chunked(message, options.maxLength || PLATFORM_MESSAGE_LIMITS.discord, renderDiscordBlocks).map(content => ({ content }));
+  }
+
+  const [first, ...rest] = message.blocks;
+  const title = first?.type === 'heading' ? first.content.map(inlineToPlainText).join('').slice(0, 256) : undefined;
+  const body = title ? rest : message.blocks;
+  const descriptions = chunked({ blocks: body }, options.maxLength || 4096, renderDiscordBlocks);
+  const embeds: DiscordEmbed[] = (descriptions.length ? descriptions : ['']).map((description, index) => ({
+    ...(index === 0 && title ? { title } : {}),
+    ...(description ? { description } : {}),
+    ...(options.color !== undefined ? { color: options.color } : {}),
+  }));
+  const image = (message.attachments || []).find(attachment => attachment.kind === 'image' && attachment.url);
+  if (image) embeds[embeds.length - 1].image = { url: image.url! };
+  return embeds.map(embed => ({ embeds: [embed] }));
+}
+
+// --- Slack ---
+
+type SlackPlainText = { type: 'plain_text'; text: string };
+
+export interface SlackOption {
+  text: SlackPlainText;
+  value: string;
+  description?: SlackPlainText;
+}
+
+export type SlackActionElement =
+  | { type: 'button'; action_id: string; text: SlackPlainText; value?: string; style?: 'primary' | 'danger'; url?: string }
+  | { type: 'static_select' | 'multi_static_select'; action_id: string; options: SlackOption[]; placeholder?: SlackPlainText; max_selected_items?: number };
+
+export type SlackBlock =
+  | { type: 'header'; text: SlackPlainText }
+  | { type: 'section'; text: { type: 'mrkdwn'; text: string } }
+  | { type: 'divider' }
+  | { type: 'image'; image_url: string; alt_text: string; title?: SlackPlainText }
+  | { type: 'actions'; elements: SlackActionElement[] }
+  | {
+      type: 'input';
+      block_id: string;
+      label: SlackPlainText;
+      optional: boolean;
+      element: { type: 'plain_text_input'; action_id: string; multiline: boolean; placeholder?: SlackPlainText; initial_value?: string };
+    };
+
+export interface SlackMessagePayload {
+  text: string; // Notification and accessibility fallback
+  blocks: SlackBlock[];
+}
+
+export interface SlackModalView {
+  type: 'modal';
+  callback_id: string;
+  title: SlackPlainText;
+  submit: SlackPlainText;
+  close: SlackPlainText;
+  blocks: SlackBlock[];
+  private_metadata?: string;
+}
+
+const SLACK_MAX_BLOCKS = 50;
+const SLACK_HEADER_LIMIT = 150;
+const SLACK_MAX_ACTION_ELEMENTS = 25;
+const escapeSlack = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+const slackPlainText = (text: string, maxLength: number): SlackPlainText => ({ type: 'plain_text', text: text.slice(0, maxLength) });
+
+function slackInline(node: InlineNode): string {
+  if (typeof node === 'string') return escapeSlack(node);
+  switch (node.type) {
+    case 'bold':
+      return `*${escapeSlack(node.text)}*`;
+    case 'italic':
+      return `_${escapeSlack(node.text)}_`;
+    case 'strike':
+      return `~${escapeSlack(node.text)}~`;
+    case 'code':
+      return `\`${escapeSlack(node.text)}\``;
+    case 'link':
+      return node.text ? `<${node.url}|${escapeSlack(node.text).replace(/\|/g, '¦')}>` : `<${node.url}>`;
+    case 'mention':
+      return /^[UW][A-Z0-9]+$/.test(node.userId) ? `<@${node.userId}>` : `@${escapeSlack(node.name || node.userId)}`;
+  }
+}
+
+function renderSlackMrkdwn(blocks: RichBlock[]): string {
+  return renderBlocks(blocks, slackInline, (block, text) => {
+    switch (block.type) {
+      case 'heading':
+        return `*${text(block.content)}*`;
+      case 'paragraph':
+        return text(block.content);
+      case 'quote':
+        return text(block.content).split('\n').map(line => `>${line}`).join('\n');
+      case 'list':
+        return block.items.map((item, index) => `${listMarker(block, index)} ${text(item)}`).join('\n');
+      case 'code':
+        return `\`\`\`${escapeSlack(block.code)}\`\`\``;
+      case 'divider':
+        return '———';
+    }
+  });
+}
+
+function slackBlocks(block: RichBlock, maxLength: number): SlackBlock[] {
+  if (block.type === 'divider') return [{ type: 'divider' }];
+  if (block.type === 'heading') {
+    const text = block.content.map(inlineToPlainText).join('');
+    if (text.length <= SLACK_HEADER_LIMIT) return [{ type: 'header', text: { type: 'plain_text', text } }];
+  }
+  return chunked({ blocks: [block] }, maxLength, renderSlackMrkdwn).map(text => ({
+    type: 'section' as const,
+    text: { type: 'mrkdwn' as const, text },
+  }));
+}
+
+function slackAttachmentBlock(attachment: RichAttachment): SlackBlock | undefined {
+  if (!attachment.url) return undefined;
+  if (attachment.kind === 'image') {
+    return {
+      type: 'image',
+      image_url: attachment.url,
+      alt_text: attachment.caption || attachment.filename || 'image',
+      ...(attachment.caption ? { title: { type: 'plain_text' as const, text: attachment.caption } } : {}),
+    };
+  }
+  const label = escapeSlack(attachment.caption || attachment.filename || attachment.url);
+  return { type: 'section', text: { type: 'mrkdwn', text: `<${attachment.url}|${label}>` } };
+}
+
+function slackActionElement(action: RichAction): SlackActionElement {
+  if (action.type === 'button') {
+    return {
+      type: 'button',
+      action_id: action.id,
+      text: slackPlainText(action.label, 75),
+      ...(action.value !== undefined ? { value: action.value } : {}),
+      ...(action.style ? { style: action.style } : {}),
+      ...(action.url ? { url: action.url } : {}),
+    };
+  }
+  const multiple = (action.maxValues || 1) > 1;
+  return {
+    type: multiple ? 'multi_static_select' : 'static_select',
+    action_id: action.id,
+    options: action.options.slice(0, 100).map(option => ({
+      text: slackPlainText(option.label, 75),
+      value: option.value,
+      ...(option.description ? { description: slackPlainText(option.description, 75) } : {}),
+    })),
+    ...(action.placeholder ? { placeholder: slackPlainText(action.placeholder, 150) } : {}),
+    ...(multiple ? { max_selected_items: action.maxValues } : {}),
+  };
+}
+
+/**
+ * A modal view for `views.open`. Each field is an input block whose block and action IDs are
+ * the field ID; `privateMetadata` comes back with the submission.
+ */
+export function renderSlackModal(modal: RichModal, privateMetadata?: string): SlackModalView {
+  return {
+    type: 'modal',
+    callback_id: modal.id,
+    title: slackPlainText(modal.title, 24),
+    submit: slackPlainText(modal.submitLabel || 'Submit', 24),
+    close: slackPlainText('Cancel', 24),
+    blocks: modal.fields.map(field => ({
+      type: 'input' as const,
+      block_id: field.id,
+      label: slackPlainText(field.label, 2000),
+      optional: field.required === false,
+      element: {
+        type: 'plain_text_input' as const,
+        action_id: field.id,
+        multiline: field.multiline || false,
+        ...(field.placeholder ? { placeholder: slackPlainText(field.placeholder, 150) } : {}),
+        ...(field.value !== undefined ? { initial_value: field.value } : {}),
+      },
+    })),
+    ...(privateMetadata ? { private_metadata: privateMetadata } : {}),
+  };
+}
+
+/**
+ * Slack Block Kit payloads: headers, mrkdwn sections (3000 characters each), dividers, image
+ * blocks and actions blocks, at most 50 blocks per message, with a plain text fallback.
+ */
+export function renderSlack(message: RichMessage, options: { maxLength?: number } = {}): SlackMessagePayload[] {
+  const maxLength = options.maxLength || PLATFORM_MESSAGE_LIMITS.slack;
+  const blocks: Array<{ block: SlackBlock; source?: RichBlock }> = [];
+  for (const block of message.blocks) {
+    for (const slackBlock of slackBlocks(block, maxLength)) blocks.push({ block: slackBlock, source: block });
+  }
+  for (const attachment of message.attachments || []) {
+    const block = slackAttachmentBlock(attachment);
+    if (block) blocks.push({ block });
+  }
+  const actions = message.actions || [];
+  for (let i = 0; i < actions.length; i += SLACK_MAX_ACTION_ELEMENTS) {
+    blocks.push({ block: { type: 'actions', elements: actions.slice(i, i + SLACK_MAX_ACTION_ELEMENTS).map(slackActionElement) } });
+  }
+
+  const payloads: SlackMessagePayload[] = [];
+  for (let i = 0; i < blocks.length; i += SLACK_MAX_BLOCKS) {
+    const group = blocks.slice(i, i + SLACK_MAX_BLOCKS);
+    const sources = group.map(entry => entry.source).filter((source, index, all): source is RichBlock => !!source && all.indexOf(source) === index);
+    payloads.push({
+      text: renderPlainText(sources).slice(0, maxLength) || ' ',
+      blocks: group.map(entry => entry.block),
+    });
+  }
+  return payloads;
+}
+
+// --- Matrix ---
+
+export interface MatrixMessageContent {
+  msgtype: 'm.text';
+  body: string;
+  format: 'org.matrix.custom.html';
+  formatted_body: string;
+}
+
+function matrixInline(node: InlineNode): string {
+  if (typeof node === 'string') return escapeHtml(node);
+  switch (node.type) {
+    case 'bold':
+      return `<strong>${escapeHtml(node.text)}</strong>`;
+    case 'italic':
+      return `<em>${escapeHtml(node.text)}</em>`;
+    case 'strike':
+      return `<del>${escapeHtml(node.text)}</del>`;
+    case 'code':
+      return `<code>${escapeHtml(node.text)}</code>`;
+    case 'link':
+      return `<a href="${escapeHtml(node.url)}">${escapeHtml(node.text || node.url)}</a>`;
+    case 'mention':
+      return `<a href="https://matrix.to/#/${encodeURIComponent(node.userId)}">${escapeHtml(node.name || node.userId)}</a>`;
+  }
+}
+
+function renderMatrixHtml(blocks: RichBlock[]): string {
+  return renderBlocks(blocks, matrixInline, (block, text) => {
+    switch (block.type) {
+      case 'heading':
+        return `<h${block.level || 1}>${text(block.content)}</h${block.level || 1}>`;
+      case 'paragraph':
+        return `<p>${text(block.content).replace(/\n/g, '<br>')}</p>`;
+      case 'quote':
+        return `<blockquote>${text(block.content).replace(/\n/g, '<br>')}</blockquote>`;
+      case 'list': {
+        const tag = block.ordered ? 'ol' : 'ul';
+        const start = block.ordered && block.start && block.start !== 1 ? ` start="${block.start}"` : '';
+        return `<${tag}${start}>${block.items.map(item => `<li>${text(item)}</li>`).join('')}</${tag}>`;
+      }
+      case 'code': {
+        const language = block.language ? ` class="language-${escapeHtml(block.language)}"` : '';
+        return `<pre><code${language}>${escapeHtml(block.code)}</code></pre>`;
+      }
+      case 'divider':
+        return '<hr>';
+    }
+  }, '');
+}
+
+/**
+ * Matrix `m.text` contents with an HTML `formatted_body` and a plain text `body`.
+ */
+export function renderMatrix(message: RichMessage, options: { maxLength?: number } = {}): MatrixMessageContent[] {
+  const maxLength = options.maxLength || PLATFORM_MESSAGE_LIMITS.matrix;
+  return chunkBlocks(message.blocks, block => renderMatrixHtml([block]).length, maxLength, 0).map(blocks => ({
+    msgtype: 'm.text',
+    body: renderPlainText(blocks),
+    format: 'org.matrix.custom.html',
+    formatted_body: renderMatrixHtml(blocks),
+  }));
+}
+
+// --- Twitter ---
+
+const URL_PATTERN = /https?:\/\/\S+/g;
+const TWITTER_URL_LENGTH = 23;
+
+/**
+ * Length of a tweet as Twitter counts it: every URL counts as 23 characters.
+ */
+export function tweetLength(text: string): number {
+  return Array.from(text.replace(URL_PATTERN, 'x'.repeat(TWITTER_URL_LENGTH))).length;
+}
+
+/**
+ * Tweets for a thread, each within 280 characters including the ` 1/3` counter added when
+ * the message needs more than one tweet.
+ */
+export function renderTweetThread(
+  message: RichMessage,
+  options: { maxLength?: number; numbered?: boolean } = {}
+): string[] {
+  const maxLength = options.maxLength || PLATFORM_MESSAGE_LIMITS.twitter;
+  const measure = (block: RichBlock) => tweetLength(renderPlainText([block]));
+  const single = chunkBlocks(message.blocks, measure, maxLength);
+  if (single.length <= 1 || options.numbered === false) return single.map(renderPlainText);
+
+  // Reserve room for the " 12/12" counter
+  const counter = ` ${single.length * 2}/${single.length * 2}`.length;
+  const tweets = chunkBlocks(message.blocks, measure, maxLength - counter).map(renderPlainText);
+  return tweets.map((tweet, index) => `${tweet} ${index + 1}/${tweets.length}`);
+}
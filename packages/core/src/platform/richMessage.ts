@@ -0,0 +1,322 @@
+// packages/core/src/platform/richMessage.ts
+
+/**
+ * Inline content of a block. Plain strings are text; the other nodes map to the native
+ * formatting of each platform (see renderers.ts).
+ */
+export type InlineNode =
+  | string
+  | { type: 'bold' | 'italic' | 'strike' | 'code'; text: string }
+  | { type: 'link'; url: string; text?: string }
+  | { type: 'mention'; userId: string; name?: string };
+
+export type RichBlock =
+  | { type: 'heading'; content: InlineNode[]; level?: 1 | 2 | 3 }
+  | { type: 'paragraph'; content: InlineNode[] }
+  | { type: 'quote'; content: InlineNode[] }
+  | { type: 'list'; items: InlineNode[][]; ordered?: boolean; start?: number }
+  | { type: 'code'; code: string; language?: string }
+  | { type: 'divider' };
+
+export interface RichAttachment {
+  kind: 'image' | 'video' | 'file';
+  url?: string; // Either a public URL or inline data
+  data?: Uint8Array;
+  filename?: string;
+  mimeType?: string;
+  caption?: string;
+}
+
+export interface RichSelectOption {
+  label: string;
+  value: string;
+  description?: string;
+}
+
+/**
+ * A button or menu shown below a message. Choosing one emits an `interaction` event with the
+ * action's `id` (see InteractionData); buttons with a `url` open it instead.
+ */
+export type RichAction =
+  | { type: 'button'; id: string; label: string; value?: string; style?: 'primary' | 'danger'; url?: string }
+  | { type: 'select'; id: string; options: RichSelectOption[]; placeholder?: string; maxValues?: number };
+
+export interface RichModalField {
+  id: string;
+  label: string;
+  placeholder?: string;
+  value?: string; // Initial value
+  multiline?: boolean;
+  required?: boolean; // Defaults to true
+}
+
+// A form shown in a dialog; submitting it emits an `interaction` event of kind 'modal'
+export interface RichModal {
+  id: string;
+  title: string;
+  submitLabel?: string;
+  fields: RichModalField[];
+}
+
+/**
+ * A platform-neutral message. Build one with the `rich` helpers:
+ *
+ *   rich.message(
+ *     rich.heading('Investigation report'),
+ *     rich.paragraph('Funds moved to ', rich.link('https://etherscan.io/address/0xabc', '0xabc'), '.'),
+ *     rich.list(['Bridge hop via Stargate', 'Swap on Uniswap']),
+ *   )
+ */
+export interface RichMessage {
+  blocks: RichBlock[];
+  attachments?: RichAttachment[];
+  actions?: RichAction[]; // Rendered by platforms with interactive components; ignored elsewhere
+}
+
+type InlineInput = string | InlineNode[];
+
+const toInline = (content: InlineInput): InlineNode[] => (typeof content === 'string' ? [content] : content);
+
+export const rich = {
+  message: (...blocks: RichBlock[]): RichMessage => ({ blocks }),
+  heading: (content: InlineInput, level: 1 | 2 | 3 = 1): RichBlock => ({ type: 'heading', content: toInline(content), level }),
+  paragraph: (...content: InlineNode[]): RichBlock => ({ type: 'paragraph', content }),
+  quote: (...content: InlineNode[]): RichBlock => ({ type: 'quote', content }),
+  list: (items: InlineInput[], ordered = false): RichBlock => ({ type: 'list', items: items.map(toInline), ordered }),
+  code: (code: string, language?: string): RichBlock => ({ type: 'code', code, language }),
+  divider: (): RichBlock => ({ type: 'divider' }),
+  bold: (text: string): InlineNode => ({ type: 'bold', text }),
+  italic: (text: string): InlineNode => ({ type: 'italic', text }),
+  strike: (text: string): InlineNode => ({ type: 'strike', text }),
+  inlineCode: (text: string): InlineNode => ({ type: 'code', text }),
+  link: (url: string, text?: string): InlineNode => ({ type: 'link', url, text }),
+  mention: (userId: string, name?: string): InlineNode => ({ type: 'mention', userId, name }),
+  image: (url: string, caption?: string): RichAttachment => ({ kind: 'image', url, caption }),
+  file: (url: string, filename?: string): RichAttachment => ({ kind: 'file', url, filename }),
+  button: (id: string, label: string, options: { value?: string; style?: 'primary' | 'danger'; url?: string } = {}): RichAction => ({
+    type: 'button',
+    id,
+    label,
+    ...options,
+  }),
+  select: (id: string, options: Array<string | RichSelectOption>, placeholder?: string): RichAction => ({
+    type: 'select',
+    id,
+    options: options.map(option => (typeof option === 'string' ? { label: option, value: option } : option)),
+    placeholder,
+  }),
+};
+
+/**
+ * Wraps plain text in a message, one paragraph per blank-line separated section.
+ */
+export function toRichMessage(input: string | RichMessage): RichMessage {
+  if (typeof input !== 'string') return input;
+  const paragraphs = input.split(/\n\s*\n/).map(text => text.trim()).filter(Boolean);
+  return { blocks: paragraphs.map(text => rich.paragraph(text)) };
+}
+
+export function inlineToPlainText(node: InlineNode): string {
+  if (typeof node === 'string') return node;
+  switch (node.type) {
+    case 'link':
+      return node.text && node.text !== node.url ? `${node.text} (${node.url})` : node.url;
+    case 'mention':
+      return `@${node.name || node.userId}`;
+    default:
+      return node.text;
+  }
+}
+
+const SPLIT_BOUNDARIES: RegExp[] = [/\n\s*\n/g, /\n/g, /[.!?…](?=\s)/g, /[;:,](?=\s)/g, /\s/g];
+
+/**
+ * Offsets at which `text` should be cut so that no piece exceeds `maxLength` characters,
+ * preferring paragraph breaks, then line breaks, sentence ends, clause ends and whitespace,
+ * and only cutting mid-word when a piece has no boundary in its last 70%.
+ */
+export function findSplitPoints(text: string, maxLength: number): number[] {
+  const points: number[] = [];
+  let start = 0;
+  while (text.length - start > maxLength) {
+    const window = text.slice(start, start + maxLength);
+    let cut = 0;
+    for (const boundary of SPLIT_BOUNDARIES) {
+      let last = -1;
+      for (const match of window.matchAll(boundary)) {
+        const end = match[0].trim() ? match.index! + match[0].length : match.index!;
+        if (end > 0) last = end;
+      }
+      if (last >= maxLength * 0.3) {
+        cut = last;
+        break;
+      }
+    }
+    if (!cut) {
+      cut = maxLength;
+      // Keep surrogate pairs together
+      const code = text.charCodeAt(start + cut - 1);
+      if (code >= 0xd800 && code <= 0xdbff) cut--;
+    }
+    start += cut;
+    while (start < text.length && /\s/.test(text[start])) start++;
+    points.push(start);
+  }
+  return points;
+}
+
+/**
+ * Splits plain text into pieces of at most `maxLength` characters at natural boundaries.
+ */
+export function splitText(text: string, maxLength: number): string[] {
+  const bounds = [0, ...findSplitPoints(text, maxLength), text.length];
+  const pieces: string[] = [];
+  for (let i = 0; i < bounds.length - 1; i++) {
+    const piece = text.slice(bounds[i], bounds[i + 1]).trim();
+    if (piece) pieces.push(piece);
+  }
+  return pieces;
+}
+
+function isAtomic(node: InlineNode): boolean {
+  return typeof node !== 'string' && (node.type === 'link' || node.type === 'mention');
+}
+
+function withText(node: InlineNode, text: string): InlineNode {
+  return typeof node === 'string' ? text : { ...(node as { type: 'bold'; text: string }), text };
+}
+
+// Cuts inline content at plain-text offsets; links and mentions are never cut
+function splitInline(nodes: InlineNode[], maxLength: number): InlineNode[][] {
+  const plain = nodes.map(inlineToPlainText);
+  const points = findSplitPoints(plain.join(''), maxLength);
+  if (points.length === 0) return [nodes];
+
+  const pieces: InlineNode[][] = [[]];
+  let offset = 0;
+  let next = 0;
+  nodes.forEach((node, index) => {
+    const length = plain[index].length;
+    let consumed = 0;
+    while (next < points.length && points[next] < offset + length) {
+      const cut = points[next++] - offset;
+      if (isAtomic(node)) {
+        // Move the cut before the node unless that would leave an empty piece
+        if (pieces[pieces.length - 1].length > 0) pieces.push([]);
+        continue;
+      }
+      const head = plain[index].slice(consumed, cut).trimEnd();
+      if (head) pieces[pieces.length - 1].push(withText(node, head));
+      pieces.push([]);
+      consumed = cut;
+    }
+    const rest = plain[index].slice(consumed);
+    const text = pieces[pieces.length - 1].length === 0 ? rest.trimStart() : rest;
+    if (isAtomic(node)) pieces[pieces.length - 1].push(node);
+    else if (text) pieces[pieces.length - 1].push(withText(node, text));
+    offset += length;
+  });
+  return pieces.filter(piece => piece.length > 0);
+}
+
+export function blockToPlainText(block: RichBlock): string {
+  switch (block.type) {
+    case 'heading':
+    case 'paragraph':
+      return block.content.map(inlineToPlainText).join('');
+    case 'quote':
+      return block.content.map(inlineToPlainText).join('').split('\n').map(line => `> ${line}`).join('\n');
+    case 'list':
+      return block.items
+        .map((item, index) => `${block.ordered ? `${(block.start || 1) + index}.` : '•'} ${item.map(inlineToPlainText).join('')}`)
+        .join('\n');
+    case 'code':
+      return block.code;
+    case 'divider':
+      return '———';
+  }
+}
+
+// Splits a block into smaller blocks of the same type, each at most `maxLength` plain characters
+function splitBlock(block: RichBlock, maxLength: number): RichBlock[] {
+  switch (block.type) {
+    case 'heading':
+    case 'paragraph':
+    case 'quote':
+      return splitInline(block.content, maxLength).map(content => ({ ...block, content }));
+    case 'code':
+      return splitText(block.code, maxLength).map(code => ({ ...block, code }));
+    case 'list': {
+      const lists: RichBlock[] = [];
+      let items: InlineNode[][] = [];
+      let length = 0;
+      let start = block.start || 1;
+      const flush = () => {
+        if (items.length === 0) return;
+        lists.push({ ...block, items, start });
+        start += items.length;
+        items = [];
+        length = 0;
+      };
+      for (const item of block.items) {
+        for (const piece of splitInline(item, maxLength)) {
+          const pieceLength = piece.map(inlineToPlainText).join('').length + 4;
+          if (length + pieceLength > maxLength) flush();
+          items.push(piece);
+          length += pieceLength;
+        }
+      }
+      flush();
+      return lists;
+    }
+    default:
+      return [block];
+  }
+}
+
+/**
+ * Groups blocks into chunks whose rendering (blocks joined by `separatorLength` characters)
+ * fits in `maxLength`. Blocks that do not fit on their own are split at paragraph, sentence or
+ * word boundaries and rendered again, so formatting is never cut in the middle.
+ */
+export function chunkBlocks(
+  blocks: RichBlock[],
+  measure: (block: RichBlock) => number,
+  maxLength: number,
+  separatorLength = 2
+): RichBlock[][] {
+  const fitted: Array<{ block: RichBlock; length: number }> = [];
+  const fit = (block: RichBlock, depth: number) => {
+    const length = measure(block);
+    const plainLength = blockToPlainText(block).length;
+    if (length <= maxLength || depth > 8 || plainLength <= 1) {
+      fitted.push({ block, length });
+      return;
+    }
+    // Leave room for the markup the renderer adds around the plain text
+    const budget = Math.max(1, Math.floor((plainLength * maxLength) / length * 0.9) - depth * 8);
+    const pieces = splitBlock(block, Math.min(budget, plainLength - 1));
+    if (pieces.length <= 1 && measure(pieces[0] || block) >= length) {
+      fitted.push({ block, length });
+      return;
+    }
+    for (const piece of pieces) fit(piece, depth + 1);
+  };
+  for (const block of blocks) fit(block, 0);
+
+  const chunks: RichBlock[][] = [];
+  let current: RichBlock[] = [];
+  let length = 0;
+  for (const entry of fitted) {
+    const added = current.length > 0 ? separatorLength + entry.length : entry.length;
+    if (current.length > 0 && length + added > maxLength) {
+      chunks.push(current);
+      current = [];
+      length = 0;
+    }
+    length += current.length > 0 ? separatorLength + entry.length : entry.length;
+    current.push(entry.block);
+  }
+  if (current.length > 0) chunks.push(current);
+  return chunks;
+}
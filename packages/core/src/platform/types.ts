@@ -0,0 +1,122 @@
+// packages/core/src/platform/types.ts
+
+import type { Logger } from '../logging/logger';
+import { RichMessage, RichModal } from './richMessage';
+
+// Configuration every connector receives; connector-specific settings live in `parameters`
+export interface PlatformConfig {
+  name: string;
+  type: string; // Registry key, e.g. 'discord' or 'telegram'
+  parameters?: Record<string, any>;
+  logger?: Logger; // Defaults to the shared logger from getLogger
+}
+
+// A file attached to an inbound message; connectors download it by `fileId`
+export interface MessageAttachment {
+  kind: 'image' | 'video' | 'audio' | 'file' | 'sticker';
+  fileId: string;
+  filename?: string;
+  mimeType?: string;
+  size?: number; // Bytes
+}
+
+// An inbound message, normalised across platforms
+export interface MessageData {
+  content: string; // Text, or the caption of a media message
+  sender: string; // Platform user ID
+  senderName?: string;
+  channelId?: string; // Channel, chat, room or tweet the message belongs to; replies go here
+  messageId?: string;
+  threadId?: string; // Thread within the channel: Slack thread_ts, Discord thread, Telegram topic, Matrix thread root, tweet conversation
+  replyTo?: string; // Message ID this message replies to
+  timestamp: Date;
+  attachments?: MessageAttachment[];
+  tags?: string[]; // Labels added by inbound middleware, e.g. 'spam'
+}
+
+// Where an outbound message goes within its channel; connectors ignore what their platform lacks
+export interface SendOptions {
+  threadId?: string; // Thread to post in, as found in MessageData.threadId
+  replyTo?: string; // Message ID to reply to
+}
+
+// A message that started with the connector's command prefix
+export interface CommandData extends MessageData {
+  command: string;
+  args: string[];
+}
+
+export interface ReactionData {
+  reaction: string; // Emoji or reaction key
+  sender: string;
+  messageId: string; // Message the reaction was added to
+  channelId?: string;
+  timestamp: Date;
+}
+
+export type InteractionKind = 'button' | 'select' | 'modal' | 'slash';
+
+/**
+ * A button click, menu choice, modal submission or slash command. Connectors acknowledge the
+ * interaction themselves; `reply` and `openModal` are set when the platform supports them.
+ */
+export interface InteractionData {
+  kind: InteractionKind;
+  actionId: string; // Button or menu ID, modal ID, or slash command name (with subcommands, space separated)
+  values: string[]; // Clicked button value, selected options or slash command arguments
+  fields?: Record<string, string>; // Submitted modal fields or named slash command options
+  sender: string;
+  senderName?: string;
+  channelId?: string;
+  messageId?: string; // Message carrying the button or menu
+  timestamp: Date;
+  reply?: (message: RichMessage | string) => Promise<void>;
+  openModal?: (modal: RichModal) => Promise<void>; // Must be called right away, before any await
+}
+
+// Inbound events that pass through the middleware chain before listeners see them
+export type InboundEventType = 'message' | 'command' | 'mention';
+
+export type ModerationAction = 'delete' | 'mute' | 'kick' | 'ban';
+
+// A moderation action against a user or message, carried out by Platform.moderate
+export interface ModerationRequest {
+  action: ModerationAction;
+  userId: string;
+  channelId?: string;
+  messageId?: string; // Required for 'delete'
+  durationMs?: number; // For 'mute' and 'ban'; permanent where the platform allows when omitted
+  reason?: string;
+}
+
+// Emitted as `moderation` whenever middleware drops or escalates a message or requests actions
+export interface ModerationData {
+  type: InboundEventType;
+  data: MessageData | CommandData;
+  dropped?: string; // Reason the message was dropped
+  escalations: string[]; // Reasons given to escalate, e.g. to human moderators
+  actions: ModerationRequest[];
+  failed: Array<{ request: ModerationRequest; error: Error }>;
+  timestamp: Date;
+}
+
+/**
+ * Events emitted by every Platform, mapped to their listener arguments.
+ * Connectors extend this map with platform-specific events.
+ */
+export interface PlatformEventMap {
+  message: [MessageData];
+  command: [CommandData];
+  mention: [MessageData];
+  reaction: [ReactionData];
+  interaction: [InteractionData];
+  moderation: [ModerationData];
+  error: [Error];
+  connected: [];
+  disconnected: [];
+}
+
+export type PlatformEventName<E extends PlatformEventMap = PlatformEventMap> = keyof E & string;
+
+export type PlatformEventListener<E extends PlatformEventMap, K extends keyof E> =
+  E[K] extends any[] ? (...args: E[K]) => void : never;
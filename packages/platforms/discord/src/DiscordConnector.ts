@@ -1,133 +1,393 @@
-import { Client, GatewayIntentBits, Events, Message } from 'discord.js';
-import { Platform, PlatformConfig, MessageData } from '../../../core/src';
-
-export interface DiscordConfig extends PlatformConfig {
-  parameters: {
-    token: string;
-    commandPrefix: string;
-    intents?: GatewayIntentBits[];
-  };
-}
-
-export class DiscordConnector extends Platform {
-  private client: Client;
-  private commandPrefix: string;
-
-  constructor(config: DiscordConfig) {
-    super(config);
-    
-    // Set default intents if not provided
-    const intents = config.parameters.intents || [
-      GatewayIntentBits.Guilds,
-      GatewayIntentBits.GuildMessages,
-      GatewayIntentBits.MessageContent
-    ];
-    
-    this.client = new Client({ intents });
-    this.commandPrefix = config.parameters.commandPrefix;
-    
-    // Set up message handling
-    this.setupMessageHandler();
-  }
-
-  async connect(): Promise<void> {
-    try {
-      await this.client.login(this.parameters.token);
-      this.setConnected(true);
-      console.log(`Discord connector ${this.name} connected successfully`);
-    } catch (error) {
-      console.error('Failed to connect to Discord:', error);
-      this.emit('error', error);
-      throw error;
-    }
-  }
-
-  async disconnect(): Promise<void> {
-    try {
-      await this.client.destroy();
-      this.setConnected(false);
-      console.log(`Discord connector ${this.name} disconnected`);
-    } catch (error) {
-      console.error('Failed to disconnect from Discord:', error);
-      this.emit('error', error);
-      throw error;
-    }
-  }
-
-  async start(): Promise<void> {
-    if (!this.isActive()) {
-      await this.connect();
-    }
-  }
-
-  async stop(): Promise<void> {
-    if (this.isActive()) {
-      await this.disconnect();
-    }
-  }
-
-  async sendMessage(message: string, channelId: string): Promise<void> {
-    try {
-      const channel = await this.client.channels.fetch(channelId);
-      if (channel?.isSendable()) {
-        await channel.send(message);
-      } else {
-        throw new Error('Channel is not text-based');
-      }
-    } catch (error) {
-      console.error('Failed to send Discord message:', error);
-      this.emit('error', error);
-      throw error;
-    }
-  }
-
-  private setupMessageHandler(): void {
-    this.client.on(Events.MessageCreate, (message: Message) => {
-      // Ignore bot messages to prevent feedback loops
-      if (message.author.bot) return;
-
-      const content = message.content;
-      
-      // Process as command if it starts with the command prefix
-      if (content.startsWith(this.commandPrefix)) {
-        const commandContent = content.slice(this.commandPrefix.length).trim();
-        const commandParts = commandContent.split(/\s+/);
-        const command = commandParts[0];
-        const args = commandParts.slice(1);
-        
-        this.emit('command', {
-          command,
-          args,
-          content: commandContent,
-          sender: message.author.id,
-          senderName: message.author.username,
-          channelId: message.channelId,
-          timestamp: message.createdAt
-        });
-        
-        return;
-      }
-
-      // Process as regular message
-      const messageData: MessageData = {
-        content: message.content,
-        sender: message.author.id,
-        channelId: message.channelId,
-        timestamp: message.createdAt
-      };
-
-      this.emit('message', messageData);
-    });
-
-    // Set up connection status events
-    this.client.on(Events.ClientReady, () => {
-      console.log(`Logged in as ${this.client.user?.tag}!`);
-      this.emit('ready', this.client.user?.tag);
-    });
-
-    this.client.on(Events.Error, (error) => {
-      console.error('Discord client error:', error);
-      this.emit('error', error);
-    });
-  }
-} 
\ No newline at end of file
+import {
+  ApplicationCommandOptionData,
+  ApplicationCommandOptionType,
+  ButtonInteraction,
+  ChatInputApplicationCommandData,
+  ChatInputCommandInteraction,
+  Client,
+  CommandInteractionOption,
+  GatewayIntentBits,
+  Events,
+  Interaction,
+  Message,
+  MessageCreateOptions,
+  ModalSubmitInteraction,
+  StringSelectMenuInteraction,
+} from 'discord.js';
+import {
+  Platform,
+  PlatformConfig,
+  PlatformEventMap,
+  MessageData,
+  ModerationRequest,
+  InteractionData,
+  RichMessage,
+  SendOptions,
+  CommandDefinition,
+  CommandValueType,
+  PLATFORM_MESSAGE_LIMITS,
+  parseCommandLine,
+  parseDiscordCustomId,
+  renderDiscord,
+  renderDiscordModal,
+  splitText,
+  toRichMessage,
+} from '@juliaos/core';
+
+export interface DiscordConfig extends PlatformConfig {
+  parameters: {
+    token: string;
+    commandPrefix: string;
+    intents?: GatewayIntentBits[];
+    embeds?: boolean; // Send rich messages as embeds instead of markdown
+    embedColor?: number;
+  };
+}
+
+export interface DiscordEventMap extends PlatformEventMap {
+  ready: [string | undefined]; // Bot user tag
+}
+
+// Longest timeout Discord accepts
+const MAX_TIMEOUT_MS = 28 * 24 * 60 * 60 * 1000;
+
+type DiscordInteraction = ButtonInteraction | StringSelectMenuInteraction | ModalSubmitInteraction | ChatInputCommandInteraction;
+
+const SLASH_OPTION_TYPES: Record<CommandValueType, ApplicationCommandOptionType> = {
+  string: ApplicationCommandOptionType.String,
+  number: ApplicationCommandOptionType.Number,
+  integer: ApplicationCommandOptionType.Integer,
+  boolean: ApplicationCommandOptionType.Boolean,
+};
+
+function slashOptions(definition: CommandDefinition): ApplicationCommandOptionData[] {
+  const options = [
+    ...(definition.args || []).map(arg => ({ ...arg, required: arg.required ?? arg.default === undefined })),
+    ...(definition.options || []).map(option => ({ ...option, required: option.required || false })),
+  ];
+  // Discord wants required options first
+  return options
+    .sort((a, b) => Number(b.required) - Number(a.required))
+    .map(option => ({
+      type: SLASH_OPTION_TYPES[option.type || 'string'],
+      name: option.name.toLowerCase(),
+      description: (option.description || option.name).slice(0, 100),
+      required: option.required,
+      ...(option.choices && (option.type || 'string') === 'string'
+        ? { choices: option.choices.slice(0, 25).map(choice => ({ name: choice, value: choice })) }
+        : {}),
+    }) as ApplicationCommandOptionData);
+}
+
+/**
+ * Converts a CommandRouter definition into a slash command: arguments and options become
+ * command options and one level of subcommands becomes Discord subcommands.
+ */
+export function toSlashCommand(definition: CommandDefinition): ChatInputApplicationCommandData {
+  const subcommands = (definition.subcommands || []).filter(subcommand => !subcommand.hidden);
+  return {
+    name: definition.name.toLowerCase(),
+    description: (definition.description || definition.name).slice(0, 100),
+    options: subcommands.length
+      ? subcommands.map(subcommand => ({
+          type: ApplicationCommandOptionType.Subcommand,
+          name: subcommand.name.toLowerCase(),
+          description: (subcommand.description || subcommand.name).slice(0, 100),
+          options: slashOptions(subcommand),
+        }) as ApplicationCommandOptionData)
+      : slashOptions(definition),
+  };
+}
+
+export class DiscordConnector extends Platform<DiscordEventMap> {
+  private client: Client;
+  private commandPrefix: string;
+
+  constructor(config: DiscordConfig) {
+    super(config);
+    
+    // Set default intents if not provided
+    const intents = config.parameters.intents || [
+      GatewayIntentBits.Guilds,
+      GatewayIntentBits.GuildMessages,
+      GatewayIntentBits.MessageContent
+    ];
+    
+    this.client = new Client({ intents });
+    this.commandPrefix = config.parameters.commandPrefix;
+    
+    // Set up message handling
+    this.setupMessageHandler();
+  }
+
+  async connect(): Promise<void> {
+    try {
+      await this.client.login(this.parameters.token);
+      this.setConnected(true);
+      this.logger.info('Connected');
+    } catch (error) {
+      this.logger.error('Failed to connect to Discord', { error });
+      this.emit('error', error as Error);
+      throw error;
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    try {
+      await this.client.destroy();
+      this.setConnected(false);
+      this.logger.info('Disconnected');
+    } catch (error) {
+      this.logger.error('Failed to disconnect from Discord', { error });
+      this.emit('error', error as Error);
+      throw error;
+    }
+  }
+
+  async sendMessage(message: string, channelId: string, options?: SendOptions): Promise<void> {
+    try {
+      for (const chunk of splitText(message, PLATFORM_MESSAGE_LIMITS.discord)) {
+        await this.send(channelId, { content: chunk }, options);
+      }
+    } catch (error) {
+      this.logger.error('Failed to send Discord message', { error });
+      this.emit('error', error as Error);
+      throw error;
+    }
+  }
+
+  async sendRichMessage(message: RichMessage | string, channelId: string, options?: SendOptions): Promise<void> {
+    const rich = toRichMessage(message);
+    const embeds = this.parameters.embeds || false;
+    const payloads: MessageCreateOptions[] = renderDiscord(rich, { embeds, color: this.parameters.embedColor });
+    // Image URLs are already shown in the embed
+    const files = (rich.attachments || [])
+      .filter(attachment => !(embeds && attachment.kind === 'image' && attachment.url))
+      .map(attachment => ({
+        attachment: attachment.data ? Buffer.from(attachment.data) : attachment.url!,
+        name: attachment.filename,
+        description: attachment.caption,
+      }));
+    if (files.length > 0) {
+      if (payloads.length === 0) payloads.push({});
+      payloads[payloads.length - 1].files = files;
+    }
+
+    try {
+      for (const payload of payloads) {
+        await this.send(channelId, payload, options);
+      }
+    } catch (error) {
+      this.logger.error('Failed to send Discord message', { error });
+      this.emit('error', error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * Registers slash commands, globally or for one guild (guild commands update instantly).
+   * Invocations are emitted as `interaction` events of kind 'slash'.
+   */
+  async registerSlashCommands(commands: CommandDefinition[], guildId?: string): Promise<void> {
+    try {
+      if (!this.client.application) throw new Error('Discord client is not connected');
+      const data = commands.filter(command => !command.hidden).map(toSlashCommand);
+      await (guildId ? this.client.application.commands.set(data, guildId) : this.client.application.commands.set(data));
+    } catch (error) {
+      this.logger.error('Failed to register Discord slash commands', { error });
+      this.emit('error', error as Error);
+      throw error;
+    }
+  }
+
+  // Bans are permanent on Discord; mutes are timeouts of at most 28 days
+  async moderate(request: ModerationRequest): Promise<void> {
+    const { action, channelId, messageId, userId, reason } = request;
+    try {
+      if (!channelId) throw new Error(`Discord ${action} needs a channel ID`);
+      await this.enqueueOutbound(channelId, async () => {
+        const channel = await this.client.channels.fetch(channelId);
+        if (!channel || !('guild' in channel)) throw new Error('Channel is not in a server');
+        if (action === 'delete') {
+          if (!messageId || !channel.isTextBased()) throw new Error('Discord delete needs a message in a text channel');
+          await channel.messages.delete(messageId);
+        } else if (action === 'ban') {
+          await channel.guild.members.ban(userId, { reason });
+        } else {
+          const member = await channel.guild.members.fetch(userId);
+          await (action === 'kick' ? member.kick(reason) : member.timeout(Math.min(request.durationMs ?? MAX_TIMEOUT_MS, MAX_TIMEOUT_MS), reason));
+        }
+      });
+    } catch (error) {
+      this.logger.error(`Failed to ${action} on Discord`, { error });
+      this.emit('error', error as Error);
+      throw error;
+    }
+  }
+
+  // Average gateway heartbeat round trip; -1 until the first heartbeat is acknowledged
+  protected getPlatformLatency(): number | undefined {
+    const ping = this.client.ws.ping;
+    return ping >= 0 ? ping : undefined;
+  }
+
+  // Threads are channels of their own, so a thread target replaces the channel
+  private send(channelId: string, payload: MessageCreateOptions, options?: SendOptions): Promise<void> {
+    const targetId = options?.threadId || channelId;
+    const reply = options?.replyTo ? { reply: { messageReference: options.replyTo, failIfNotExists: false } } : {};
+    return this.enqueueOutbound(targetId, async () => {
+      const channel = await this.client.channels.fetch(targetId);
+      if (channel?.isSendable()) {
+        await channel.send({ ...payload, ...reply });
+      } else {
+        throw new Error('Channel is not text-based');
+      }
+    });
+  }
+
+  private setupMessageHandler(): void {
+    this.client.on(Events.MessageCreate, (message: Message) => {
+      // Ignore bot messages to prevent feedback loops
+      if (message.author.bot) return;
+
+      const content = message.content;
+      // Threads are channels of their own, so replies in a thread stay there
+      const threadId = message.channel.isThread() ? message.channelId : undefined;
+      const replyTo = message.reference?.messageId;
+      
+      // Process as command if it starts with the command prefix
+      const parsed = parseCommandLine(content, this.commandPrefix);
+      if (parsed) {
+        this.emit('command', {
+          ...parsed,
+          sender: message.author.id,
+          senderName: message.author.username,
+          channelId: message.channelId,
+          messageId: message.id,
+          threadId,
+          replyTo,
+          timestamp: message.createdAt
+        });
+        
+        return;
+      }
+
+      // Process as regular message
+      const messageData: MessageData = {
+        content: message.content,
+        sender: message.author.id,
+        senderName: message.author.username,
+        channelId: message.channelId,
+        messageId: message.id,
+        threadId,
+        replyTo,
+        timestamp: message.createdAt
+      };
+
+      this.emit('message', messageData);
+    });
+
+    this.client.on(Events.InteractionCreate, async (interaction: Interaction) => {
+      if (!(interaction.isButton() || interaction.isStringSelectMenu() || interaction.isModalSubmit() || interaction.isChatInputCommand())) {
+        return;
+      }
+      try {
+        await this.handleInteraction(interaction);
+      } catch (error) {
+        this.logger.error('Failed to handle Discord interaction', { error });
+        this.emit('error', error as Error);
+      }
+    });
+
+    // Set up connection status events
+    this.client.on(Events.ClientReady, () => {
+      this.logger.info(`Logged in as ${this.client.user?.tag}`);
+      this.emit('ready', this.client.user?.tag);
+    });
+
+    // discord.js resumes dropped gateway sessions itself; report the gap meanwhile
+    this.client.on(Events.ShardDisconnect, (event, shardId) => {
+      this.logger.warn(`Shard ${shardId} disconnected`, { code: event.code });
+      this.setConnected(false, `Gateway closed with code ${event.code}`);
+    });
+
+    this.client.on(Events.ShardReconnecting, (shardId) => {
+      this.logger.info(`Shard ${shardId} reconnecting`);
+      this.setConnected(false, 'Gateway reconnecting');
+    });
+
+    this.client.on(Events.ShardResume, () => this.setConnected(true));
+
+    this.client.on(Events.Error, (error) => {
+      this.logger.error('Discord client error', { error });
+      this.emit('error', error as Error);
+    });
+  }
+
+  /**
+   * Emits the interaction, then acknowledges it within Discord's three seconds: listeners may open
+   * a modal right away, otherwise the interaction is deferred and replies are sent as follow-ups.
+   */
+  private async handleInteraction(interaction: DiscordInteraction): Promise<void> {
+    let modalOpened = false;
+    let acknowledgement: Promise<unknown> | undefined;
+    // Commands and modals opened by a command get a reply of their own; components update their message
+    const ownReply = interaction.isChatInputCommand() || (interaction.isModalSubmit() && !interaction.isFromMessage());
+    const acknowledge = () => (acknowledgement ??= ownReply || !('deferUpdate' in interaction)
+      ? interaction.deferReply()
+      : interaction.deferUpdate());
+
+    const data: InteractionData = {
+      ...this.interactionData(interaction),
+      sender: interaction.user.id,
+      senderName: interaction.user.username,
+      channelId: interaction.channelId || undefined,
+      messageId: 'message' in interaction ? interaction.message?.id : undefined,
+      timestamp: interaction.createdAt,
+      reply: async message => {
+        await acknowledge();
+        for (const payload of renderDiscord(toRichMessage(message), { embeds: this.parameters.embeds, color: this.parameters.embedColor })) {
+          await (ownReply && !interaction.replied ? interaction.editReply(payload) : interaction.followUp(payload));
+        }
+      },
+      ...(interaction.isModalSubmit() ? {} : {
+        openModal: async modal => {
+          modalOpened = true;
+          await interaction.showModal(renderDiscordModal(modal));
+        }
+      })
+    };
+    this.emit('interaction', data);
+    if (!modalOpened) await acknowledge();
+  }
+
+  private interactionData(interaction: DiscordInteraction): Pick<InteractionData, 'kind' | 'actionId' | 'values' | 'fields'> {
+    if (interaction.isButton()) {
+      const { actionId, value } = parseDiscordCustomId(interaction.customId);
+      return { kind: 'button', actionId, values: value !== undefined ? [value] : [] };
+    }
+    if (interaction.isStringSelectMenu()) {
+      return { kind: 'select', actionId: interaction.customId, values: interaction.values };
+    }
+    if (interaction.isModalSubmit()) {
+      const fields: Record<string, string> = {};
+      interaction.fields.fields.forEach((field, customId) => {
+        if ('value' in field && typeof field.value === 'string') fields[customId] = field.value;
+      });
+      return { kind: 'modal', actionId: interaction.customId, values: [], fields };
+    }
+    // Subcommand groups and subcommands wrap the options that were filled in
+    const path = [interaction.commandName];
+    let options: readonly CommandInteractionOption[] = interaction.options.data;
+    while (options.length === 1 && (options[0].type === ApplicationCommandOptionType.Subcommand || options[0].type === ApplicationCommandOptionType.SubcommandGroup)) {
+      path.push(options[0].name);
+      options = options[0].options || [];
+    }
+    return {
+      kind: 'slash',
+      actionId: path.join(' '),
+      values: options.map(option => String(option.value)),
+      fields: Object.fromEntries(options.map(option => [option.name, String(option.value)]))
+    };
+  }
+}
@@ -1,2 +1,7 @@
-export { DiscordConnector } from './DiscordConnector';
-export type { DiscordConfig } from './DiscordConnector';
\ No newline at end of file
+import { platformRegistry } from '@juliaos/core';
+import { DiscordConnector } from './DiscordConnector';
+
+platformRegistry.register('discord', DiscordConnector);
+
+export { DiscordConnector, toSlashCommand } from './DiscordConnector';
+export type { DiscordConfig, DiscordEventMap } from './DiscordConnector';
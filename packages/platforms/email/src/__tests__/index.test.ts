@@ -0,0 +1,275 @@
+import { EventEmitter } from 'events';
+import { simpleParser } from 'mailparser';
+import { EmailConnector, EmailConfig, EmailMessageData, EmailCommandData } from '../index';
+
+// In-process stand-in for the IMAP server: the mailbox every ImapFlow client sees
+const mockServer = {
+  down: false,
+  uidValidity: BigInt(1),
+  messages: [] as Array<{ uid: number; source: string; seen: boolean }>,
+};
+
+// Stands in for ImapFlow on top of mockServer
+class MockImapFlow extends EventEmitter {
+  public usable = false;
+  public mailbox: { path: string; uidValidity: bigint } | false = false;
+
+  constructor(public options: any) {
+    super();
+  }
+
+  async connect() {
+    if (mockServer.down) throw new Error('connect ECONNREFUSED');
+    this.usable = true;
+  }
+
+  async getMailboxLock(path: string) {
+    this.mailbox = { path, uidValidity: mockServer.uidValidity };
+    return { path, release: jest.fn() };
+  }
+
+  async search(query: { seen?: boolean }) {
+    return mockServer.messages.filter(message => query.seen === undefined || message.seen === query.seen).map(message => message.uid);
+  }
+
+  async fetchAll(uids: number[]) {
+    return mockServer.messages
+      .filter(message => uids.includes(message.uid))
+      .map(({ uid, source }) => ({ seq: uid, uid, source: Buffer.from(source) }));
+  }
+
+  async messageFlagsAdd(uids: number[], flags: string[]) {
+    if (flags.includes('\\Seen')) {
+      mockServer.messages.filter(message => uids.includes(message.uid)).forEach(message => (message.seen = true));
+    }
+    return true;
+  }
+
+  async logout() {
+    this.drop();
+  }
+
+  drop() {
+    this.usable = false;
+    this.emit('close');
+  }
+}
+
+const mockClients: MockImapFlow[] = [];
+const mockSent: Buffer[] = [];
+
+jest.mock('imapflow', () => ({
+  ImapFlow: jest.fn((options: any) => {
+    const client = new MockImapFlow(options);
+    mockClients.push(client);
+    return client;
+  }),
+}));
+
+// Real nodemailer messages, written to memory instead of an SMTP server
+jest.mock('nodemailer', () => {
+  const nodemailer = jest.requireActual('nodemailer');
+  return {
+    ...nodemailer,
+    createTransport: jest.fn(() => {
+      const transport = nodemailer.createTransport({ streamTransport: true, buffer: true });
+      const sendMail = transport.sendMail.bind(transport);
+      transport.sendMail = async (mail: unknown) => {
+        const info = await sendMail(mail);
+        mockSent.push(info.message);
+        return info;
+      };
+      return transport;
+    }),
+  };
+});
+
+const email = (headers: Record<string, string>, body = 'Hello', extra = '') =>
+  [
+    ...Object.entries({
+      From: 'Alice <alice@example.com>',
+      To: 'bot@juliaos.test',
+      Subject: 'Invoice 42',
+      Date: 'Mon, 19 Oct 2026 10:00:00 +0000',
+      ...headers,
+    }).map(([name, value]) => `${name}: ${value}`),
+    ...(extra ? [extra] : []),
+    '',
+    body,
+  ].join('\r\n');
+
+const withAttachment = email(
+  { 'Message-ID': '<m2@example.com>', 'In-Reply-To': '<m1@example.com>', References: '<m0@example.com> <m1@example.com>', Cc: 'bob@example.com' },
+  [
+    '--b1',
+    'Content-Type: text/plain; charset=utf-8',
+    '',
+    'Please find the invoice attached.',
+    '--b1',
+    'Content-Type: application/pdf; name="invoice.pdf"',
+    'Content-Disposition: attachment; filename="invoice.pdf"',
+    'Content-Transfer-Encoding: base64',
+    '',
+    Buffer.from('%PDF-1.4').toString('base64'),
+    '--b1--',
+  ].join('\r\n'),
+  'MIME-Version: 1.0\r\nContent-Type: multipart/mixed; boundary="b1"'
+);
+
+describe('EmailConnector', () => {
+  let connector: EmailConnector;
+  let messages: EmailMessageData[];
+  let errors: Error[];
+
+  const config: EmailConfig = {
+    name: 'billing',
+    type: 'email',
+    parameters: {
+      address: 'Bot@juliaos.test',
+      displayName: 'Billing bot',
+      commandPrefix: '!',
+      smtp: { host: 'smtp.juliaos.test', user: 'bot', password: 'smtp-secret' },
+      imap: { host: 'imap.juliaos.test', password: 'imap-secret', pollIntervalMs: 60000 },
+      outbound: false,
+    },
+  };
+
+  const sent = (index: number) => simpleParser(mockSent[index]);
+
+  beforeEach(() => {
+    mockServer.down = false;
+    mockServer.uidValidity = BigInt(1);
+    mockServer.messages = [];
+    mockClients.length = 0;
+    mockSent.length = 0;
+    connector = new EmailConnector(config);
+    messages = [];
+    errors = [];
+    connector.on('message', data => messages.push(data));
+    connector.on('error', error => errors.push(error));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    await connector.stop();
+    jest.clearAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  it('should emit unseen messages with their subject, threading headers and attachments', async () => {
+    mockServer.messages.push({ uid: 7, source: withAttachment, seen: false });
+    await connector.start();
+
+    expect(mockClients[0].options).toEqual(expect.objectContaining({ host: 'imap.juliaos.test', port: 993, secure: true, auth: { user: 'bot@juliaos.test', pass: 'imap-secret' } }));
+    expect(messages).toEqual([
+      expect.objectContaining({
+        content: 'Please find the invoice attached.',
+        sender: 'alice@example.com',
+        senderName: 'Alice',
+        channelId: '<m2@example.com>',
+        messageId: '<m2@example.com>',
+        threadId: '<m0@example.com>',
+        replyTo: '<m1@example.com>',
+        subject: 'Invoice 42',
+        to: ['bot@juliaos.test'],
+        cc: ['bob@example.com'],
+        references: ['<m0@example.com>', '<m1@example.com>'],
+        attachments: [{ kind: 'file', fileId: '<m2@example.com>:0', filename: 'invoice.pdf', mimeType: 'application/pdf', size: 8 }],
+      }),
+    ]);
+    expect(connector.getAttachment('<m2@example.com>:0')?.toString()).toBe('%PDF-1.4');
+    expect(mockServer.messages[0].seen).toBe(true);
+    expect(connector.getConversationKey(messages[0])).toBe('thread:<m0@example.com>');
+  });
+
+  it('should only emit messages that arrived since the last poll', async () => {
+    mockServer.messages.push({ uid: 1, source: email({ 'Message-ID': '<a@example.com>' }), seen: false });
+    await connector.start();
+    mockServer.messages.push({ uid: 2, source: email({ 'Message-ID': '<b@example.com>' }), seen: false });
+    await connector.poll();
+    await connector.poll();
+
+    expect(messages.map(message => message.messageId)).toEqual(['<a@example.com>', '<b@example.com>']);
+  });
+
+  it('should reply over SMTP in the same thread', async () => {
+    mockServer.messages.push({ uid: 7, source: withAttachment, seen: false });
+    await connector.start();
+    await connector.sendMessage('Thanks, paid.', messages[0].channelId!);
+
+    const reply = await sent(0);
+    expect(reply.from?.value).toEqual([{ name: 'Billing bot', address: 'bot@juliaos.test' }]);
+    expect(reply.to).toEqual(expect.objectContaining({ text: 'alice@example.com' }));
+    expect(reply.subject).toBe('Re: Invoice 42');
+    expect(reply.inReplyTo).toBe('<m2@example.com>');
+    expect(reply.references).toEqual(['<m0@example.com>', '<m1@example.com>', '<m2@example.com>']);
+    expect(reply.text?.trim()).toBe('Thanks, paid.');
+  });
+
+  it('should thread follow-ups to its own messages and start new ones for addresses', async () => {
+    await connector.start();
+    const messageId = await connector.send({ to: 'carol@example.com', subject: 'Weekly report', text: 'All good.' });
+    await connector.sendRichMessage({ blocks: [{ type: 'paragraph', content: ['See attached.'] }], attachments: [{ kind: 'file', data: Buffer.from('a,b'), filename: 'report.csv', mimeType: 'text/csv' }] }, messageId);
+    await connector.sendMessage('Hi', 'dave@example.com');
+
+    const followUp = await sent(1);
+    expect(followUp.subject).toBe('Re: Weekly report');
+    expect(followUp.inReplyTo).toBe(messageId);
+    expect(followUp.attachments.map(attachment => [attachment.filename, attachment.content.toString()])).toEqual([['report.csv', 'a,b']]);
+
+    const fresh = await sent(2);
+    expect(fresh.subject).toBe('Billing bot');
+    expect(fresh.inReplyTo).toBeUndefined();
+    await expect(connector.sendMessage('?', '<unknown@example.com>')).rejects.toThrow('Unknown message <unknown@example.com>');
+  });
+
+  it('should accept raw MIME without a mailbox and ignore automatic and own mail', async () => {
+    connector = new EmailConnector({ ...config, parameters: { ...config.parameters, imap: undefined } });
+    connector.on('message', data => messages.push(data));
+    await connector.start();
+
+    expect(await connector.receiveMime(email({ 'Message-ID': '<r1@example.com>', 'Reply-To': 'support@example.com' }))).toBeDefined();
+    expect(await connector.receiveMime(email({ 'Message-ID': '<r1@example.com>' }))).toBeUndefined();
+    expect(await connector.receiveMime(email({ 'Message-ID': '<r2@example.com>', 'Auto-Submitted': 'auto-replied' }))).toBeUndefined();
+    expect(await connector.receiveMime(email({ 'Message-ID': '<r3@example.com>', From: 'bot@juliaos.test' }))).toBeUndefined();
+    expect(mockClients).toHaveLength(0);
+    expect(messages.map(message => message.messageId)).toEqual(['<r1@example.com>']);
+
+    await connector.sendMessage('On it', '<r1@example.com>');
+    expect((await sent(0)).to).toEqual(expect.objectContaining({ text: 'support@example.com' }));
+  });
+
+  it('should read commands from the subject or the first line of the body', async () => {
+    const commands: EmailCommandData[] = [];
+    connector.on('command', data => commands.push(data));
+    mockServer.messages.push(
+      { uid: 1, source: email({ 'Message-ID': '<c1@example.com>', Subject: '!status invoice-42' }), seen: false },
+      { uid: 2, source: email({ 'Message-ID': '<c2@example.com>', Subject: 'Question' }, '!help\r\nThanks'), seen: false }
+    );
+    await connector.start();
+
+    expect(commands.map(command => [command.command, command.args, command.subject])).toEqual([
+      ['status', ['invoice-42'], '!status invoice-42'],
+      ['help', [], 'Question'],
+    ]);
+    expect(messages).toHaveLength(0);
+  });
+
+  it('should reconnect on the next poll after the IMAP connection drops', async () => {
+    await connector.start();
+    mockClients[0].drop();
+    expect(connector.isActive()).toBe(false);
+    expect(connector.getHealth().reasons).toEqual(['Disconnected: IMAP connection closed']);
+
+    mockServer.down = true;
+    await connector.poll();
+    expect(errors.map(error => error.message)).toEqual(['connect ECONNREFUSED']);
+
+    mockServer.down = false;
+    mockServer.messages.push({ uid: 3, source: email({ 'Message-ID': '<late@example.com>' }), seen: false });
+    await connector.poll();
+    expect(connector.isActive()).toBe(true);
+    expect(mockClients).toHaveLength(3);
+    expect(messages.map(message => message.messageId)).toEqual(['<late@example.com>']);
+  });
+});
@@ -0,0 +1,425 @@
+import { ImapFlow } from 'imapflow';
+import { AddressObject, ParsedMail, simpleParser } from 'mailparser';
+import { createTransport, Transporter } from 'nodemailer';
+import Mail from 'nodemailer/lib/mailer';
+import {
+  Platform,
+  PlatformConfig,
+  PlatformEventMap,
+  CommandData,
+  MessageAttachment,
+  MessageData,
+  RichMessage,
+  platformRegistry,
+  parseCommandLine,
+  renderPlainText,
+  rich,
+  toRichMessage,
+} from '@juliaos/core';
+
+const MESSAGE_CACHE_LIMIT = 500;
+
+export interface EmailServerConfig {
+  host: string;
+  port?: number;
+  secure?: boolean; // TLS from the start; otherwise STARTTLS when the server offers it
+  user?: string;
+  password?: string;
+}
+
+export interface EmailConfig extends PlatformConfig {
+  parameters: {
+    address: string; // Address the connector receives mail at and sends from
+    displayName?: string;
+    commandPrefix?: string; // Commands are read from the subject or the first line of the body
+    smtp: EmailServerConfig; // Default port 587
+    /** Mailbox to poll; without it messages only arrive through receiveMime */
+    imap?: EmailServerConfig & {
+      mailbox?: string; // Default 'INBOX'
+      pollIntervalMs?: number; // Default 60000
+      markSeen?: boolean; // Flag processed messages as read (default true)
+    };
+  };
+}
+
+// An inbound email with the headers needed to answer it in the same thread
+export interface EmailMessageData extends MessageData {
+  subject: string;
+  to: string[];
+  cc: string[];
+  references: string[]; // Message-IDs of the thread, oldest first
+  html?: string;
+}
+
+export type EmailCommandData = EmailMessageData & CommandData;
+
+export interface EmailEventMap extends PlatformEventMap {
+  message: [EmailMessageData];
+  command: [EmailCommandData];
+}
+
+export interface EmailAttachment {
+  filename?: string;
+  content: Buffer | string;
+  contentType?: string;
+}
+
+export interface OutgoingEmail {
+  to: string | string[];
+  cc?: string | string[];
+  subject: string;
+  text: string;
+  html?: string;
+  attachments?: EmailAttachment[];
+  inReplyTo?: string; // Message-ID of the message answered
+  references?: string[];
+}
+
+// What replying to a message needs, kept for recent inbound and sent messages
+interface StoredEmail {
+  replyTo: string[];
+  subject: string;
+  references: string[];
+  attachments: Buffer[];
+  inbound: boolean;
+}
+
+const addresses = (value?: AddressObject | AddressObject[]): string[] =>
+  (Array.isArray(value) ? value : value ? [value] : [])
+    .flatMap(entry => entry.value)
+    .map(entry => entry.address?.toLowerCase())
+    .filter((address): address is string => !!address);
+
+// mailparser gives a string for a single ID and an array for several
+const messageIds = (value?: string | string[]): string[] =>
+  (Array.isArray(value) ? value : value ? [value] : []).flatMap(ids => ids.split(/\s+/)).filter(Boolean);
+
+const attachmentKind = (contentType: string): MessageAttachment['kind'] => {
+  const [type] = contentType.split('/');
+  return type === 'image' || type === 'video' || type === 'audio' ? type : 'file';
+};
+
+/**
+ * Connector for email: polls an IMAP mailbox for new messages and answers them over SMTP in
+ * the same thread (`In-Reply-To` and `References`). Mail delivered some other way, e.g. piped
+ * from the MTA, can be handed over as raw MIME with `receiveMime`.
+ *
+ * The channel of an inbound message is its Message-ID, so `sendMessage(text, data.channelId)`
+ * replies to it; a channel that is an address starts a new conversation instead.
+ */
+export class EmailConnector extends Platform<EmailEventMap> {
+  private address: string;
+  private displayName?: string;
+  private commandPrefix?: string;
+  private smtpConfig: EmailServerConfig;
+  private imapConfig?: EmailConfig['parameters']['imap'];
+  private transport?: Transporter;
+  private imap?: ImapFlow;
+  private pollTimer?: NodeJS.Timeout;
+  private polling?: Promise<void>;
+  private uidValidity?: bigint;
+  private lastUid = 0;
+  private messages: Map<string, StoredEmail> = new Map();
+
+  constructor(config: EmailConfig) {
+    super(config);
+    this.address = config.parameters.address.toLowerCase();
+    this.displayName = config.parameters.displayName;
+    this.commandPrefix = config.parameters.commandPrefix;
+    this.smtpConfig = config.parameters.smtp;
+    this.imapConfig = config.parameters.imap;
+  }
+
+  async connect(): Promise<void> {
+    try {
+      const { host, port = 587, secure = false, user, password } = this.smtpConfig;
+      this.transport = createTransport({ host, port, secure, auth: user ? { user, pass: password } : undefined });
+
+      if (this.imapConfig) {
+        await this.openMailbox();
+        await this.poll();
+        this.pollTimer = setInterval(() => this.poll(), this.imapConfig.pollIntervalMs ?? 60000);
+      }
+
+      this.setConnected(true);
+      this.logger.info('Connected', { address: this.address, imap: !!this.imapConfig });
+    } catch (error) {
+      this.logger.error('Failed to connect to the mail servers', { error });
+      await this.close();
+      this.emit('error', error as Error);
+      throw error;
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    try {
+      await this.close();
+      this.setConnected(false);
+      this.logger.info('Disconnected');
+    } catch (error) {
+      this.logger.error('Failed to disconnect from the mail servers', { error });
+      this.emit('error', error as Error);
+      throw error;
+    }
+  }
+
+  // A connector whose IMAP connection dropped is inactive while it reconnects but still polls
+  async stop(): Promise<void> {
+    if (!this.isActive() && this.pollTimer) {
+      await this.disconnect();
+      return;
+    }
+    await super.stop();
+  }
+
+  // Every message is its own channel, so replies are grouped by the thread's first message instead
+  getConversationKey(data: MessageData): string | undefined {
+    return data.threadId ? `thread:${data.threadId}` : data.channelId;
+  }
+
+  /**
+   * Replies to the message whose Message-ID is `channelId`, or mails `content` to the address
+   * `channelId` with the connector's name as the subject.
+   */
+  async sendMessage(content: string, channelId: string): Promise<void> {
+    await this.send({ ...this.replyHeaders(channelId), text: content });
+  }
+
+  // Sends the message as plain text; attachments with data are attached, the others linked
+  async sendRichMessage(message: RichMessage | string, channelId: string): Promise<void> {
+    const { blocks, attachments = [] } = toRichMessage(message);
+    const links = attachments.filter(attachment => attachment.url).map(attachment => rich.link(attachment.url!));
+    const text = renderPlainText(links.length ? [...blocks, rich.paragraph(...links.flatMap((link, i) => (i ? ['\n', link] : [link])))] : blocks);
+    await this.send({
+      ...this.replyHeaders(channelId),
+      text,
+      attachments: attachments
+        .filter(attachment => attachment.data)
+        .map(attachment => ({ filename: attachment.filename, content: Buffer.from(attachment.data!), contentType: attachment.mimeType })),
+    });
+  }
+
+  // Sends an email from the connector's address and returns its Message-ID
+  async send(email: OutgoingEmail): Promise<string> {
+    const transport = this.transport;
+    if (!transport) throw new Error('Email connector is not connected');
+    const to = Array.isArray(email.to) ? email.to : [email.to];
+    const mail: Mail.Options = {
+      from: this.displayName ? { name: this.displayName, address: this.address } : this.address,
+      to,
+      cc: email.cc,
+      subject: email.subject,
+      text: email.text,
+      html: email.html,
+      attachments: email.attachments,
+      inReplyTo: email.inReplyTo,
+      references: email.references,
+    };
+    try {
+      const info = await this.enqueueOutbound(to[0], () => transport.sendMail(mail));
+      this.remember(info.messageId, {
+        replyTo: to,
+        subject: email.subject,
+        references: email.references || [],
+        attachments: [],
+        inbound: false,
+      });
+      return info.messageId;
+    } catch (error) {
+      this.logger.error('Failed to send email', { error });
+      this.emit('error', error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * Processes one message in raw MIME form, e.g. piped from the MTA or posted by an inbound
+   * mail webhook, and emits it like a polled message. Returns undefined for messages that are
+   * ignored: mail from the connector itself, automatic replies and duplicates.
+   */
+  async receiveMime(source: Buffer | string): Promise<EmailMessageData | undefined> {
+    let mail: ParsedMail;
+    try {
+      mail = await simpleParser(source);
+    } catch (error) {
+      this.logger.error('Failed to parse email', { error });
+      this.emit('error', error as Error);
+      throw error;
+    }
+    return this.processMail(mail);
+  }
+
+  // Contents of an attachment of a recent message, by the fileId of its MessageAttachment
+  getAttachment(fileId: string): Buffer | undefined {
+    const separator = fileId.lastIndexOf(':');
+    return this.messages.get(fileId.slice(0, separator))?.attachments[Number(fileId.slice(separator + 1))];
+  }
+
+  // Polls the mailbox now instead of waiting for the next interval
+  async poll(): Promise<void> {
+    if (!this.polling) {
+      this.polling = this.fetchNewMessages().finally(() => {
+        this.polling = undefined;
+      });
+    }
+    return this.polling;
+  }
+
+  // Headers of a reply to the message `channelId`, or of a new email to that address
+  private replyHeaders(channelId: string): Pick<OutgoingEmail, 'to' | 'subject' | 'inReplyTo' | 'references'> {
+    if (!channelId.startsWith('<')) {
+      return { to: channelId, subject: this.displayName || this.name };
+    }
+    const original = this.messages.get(channelId);
+    if (!original) throw new Error(`Unknown message ${channelId}; replies need a message received or sent recently`);
+    return {
+      to: original.replyTo,
+      subject: /^re:/i.test(original.subject) ? original.subject : `Re: ${original.subject}`,
+      inReplyTo: channelId,
+      references: [...original.references, channelId],
+    };
+  }
+
+  private async openMailbox(): Promise<void> {
+    const { host, port = 993, secure = true, user = this.address, password } = this.imapConfig!;
+    const client = new ImapFlow({ host, port, secure, auth: { user, pass: password }, logger: false });
+    client.on('error', error => this.logger.warn('IMAP connection error', { error }));
+    client.on('close', () => {
+      if (this.imap !== client) return;
+      // The next poll opens a new connection
+      this.imap = undefined;
+      this.setConnected(false, 'IMAP connection closed');
+    });
+    await client.connect();
+    this.imap = client;
+  }
+
+  private async fetchNewMessages(): Promise<void> {
+    const { mailbox = 'INBOX', markSeen = true } = this.imapConfig!;
+    try {
+      if (!this.imap) {
+        await this.openMailbox();
+        this.setConnected(true);
+      }
+      const client = this.imap!;
+      const lock = await client.getMailboxLock(mailbox);
+      try {
+        const uidValidity = client.mailbox ? client.mailbox.uidValidity : undefined;
+        if (uidValidity !== this.uidValidity) {
+          // UIDs from before the mailbox was recreated mean nothing now
+          this.uidValidity = uidValidity;
+          this.lastUid = 0;
+        }
+        const uids = ((await client.search({ seen: false }, { uid: true })) || []).filter(uid => uid > this.lastUid);
+        if (uids.length === 0) return;
+
+        const fetched = await client.fetchAll(uids, { uid: true, source: true }, { uid: true });
+        for (const { uid, source } of fetched.sort((a, b) => a.uid - b.uid)) {
+          try {
+            if (source) await this.receiveMime(source);
+          } catch {
+            // Already reported; marking it seen keeps a malformed message from coming back every poll
+          }
+          this.lastUid = Math.max(this.lastUid, uid);
+        }
+        if (markSeen) await client.messageFlagsAdd(uids, ['\\Seen'], { uid: true });
+      } finally {
+        lock.release();
+      }
+    } catch (error) {
+      this.logger.error('Failed to poll mailbox', { error, mailbox });
+      this.emit('error', error as Error);
+    }
+  }
+
+  private async processMail(mail: ParsedMail): Promise<EmailMessageData | undefined> {
+    const sender = addresses(mail.from)[0];
+    const autoSubmitted = String(mail.headers.get('auto-submitted') || 'no').toLowerCase() !== 'no';
+    const bulk = /^(bulk|junk|list)$/i.test(String(mail.headers.get('precedence') || ''));
+    // Answering automatic replies or our own mail could loop forever
+    if (!sender || sender === this.address || autoSubmitted || bulk) {
+      this.logger.debug('Ignoring email', { messageId: mail.messageId, autoSubmitted, bulk });
+      return undefined;
+    }
+    if (mail.messageId && this.messages.get(mail.messageId)?.inbound) return undefined;
+
+    try {
+      const messageId = mail.messageId;
+      const replyTo = messageIds(mail.inReplyTo)[0];
+      const references = messageIds(mail.references);
+      const subject = mail.subject || '';
+      const content = (mail.text || '').trim();
+
+      const data: EmailMessageData = {
+        content,
+        sender,
+        senderName: mail.from?.value[0]?.name || undefined,
+        channelId: messageId || sender,
+        messageId,
+        threadId: references[0] || replyTo || messageId,
+        replyTo,
+        timestamp: mail.date || new Date(),
+        subject,
+        to: addresses(mail.to),
+        cc: addresses(mail.cc),
+        references,
+        html: mail.html || undefined,
+        attachments: messageId
+          ? mail.attachments.map((attachment, index) => ({
+              kind: attachmentKind(attachment.contentType),
+              fileId: `${messageId}:${index}`,
+              filename: attachment.filename,
+              mimeType: attachment.contentType,
+              size: attachment.size,
+            }))
+          : undefined,
+      };
+
+      if (messageId) {
+        this.remember(messageId, {
+          replyTo: addresses(mail.replyTo).length ? addresses(mail.replyTo) : [sender],
+          subject,
+          references: references.length ? references : replyTo ? [replyTo] : [],
+          attachments: mail.attachments.map(attachment => attachment.content),
+          inbound: true,
+        });
+      }
+
+      const parsed = this.commandPrefix
+        ? parseCommandLine(subject.trim(), this.commandPrefix) || parseCommandLine(content.split('\n')[0].trim(), this.commandPrefix)
+        : undefined;
+      if (parsed) {
+        this.emit('command', { ...data, ...parsed });
+        return data;
+      }
+
+      this.emit('message', data);
+      return data;
+    } catch (error) {
+      this.logger.error('Error processing email', { error, messageId: mail.messageId });
+      this.emit('error', error as Error);
+      throw error;
+    }
+  }
+
+  private remember(messageId: string, email: StoredEmail): void {
+    this.messages.delete(messageId);
+    this.messages.set(messageId, email);
+    if (this.messages.size > MESSAGE_CACHE_LIMIT) {
+      this.messages.delete(this.messages.keys().next().value as string);
+    }
+  }
+
+  private async close(): Promise<void> {
+    if (this.pollTimer) clearInterval(this.pollTimer);
+    this.pollTimer = undefined;
+    await this.polling;
+    const client = this.imap;
+    this.imap = undefined;
+    if (client?.usable) await client.logout();
+    this.transport?.close();
+    this.transport = undefined;
+  }
+}
+
+platformRegistry.register('email', EmailConnector);
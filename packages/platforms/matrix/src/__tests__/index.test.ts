@@ -1,32 +1,118 @@
-import { MatrixConnector, MatrixConfig } from '../index';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EventEmitter } from 'events';
+import { MatrixConnector, MatrixConfig, FileStorage } from '../index';
 import * as sdk from 'matrix-js-sdk';
-import { MatrixClient, MatrixEvent, Room, RoomMember, RoomEvent, RoomMemberEvent, RoomState } from 'matrix-js-sdk';
+import { ClientEvent, CryptoEvent, MatrixClient, MatrixEvent, MatrixEventEvent, Room, RoomMember, RoomEvent, RoomMemberEvent, SyncState } from 'matrix-js-sdk';
+import { VerificationPhase, VerificationRequestEvent, VerifierEvent } from 'matrix-js-sdk/lib/crypto-api';
 
 jest.mock('matrix-js-sdk');
+jest.mock('@matrix-org/olm', () => ({}), { virtual: true });
+
+interface MockEventOptions {
+  type?: string;
+  sender?: string;
+  content?: Record<string, any>;
+  id?: string;
+  encrypted?: boolean;
+}
+
+// Encrypted events report m.room.encrypted until decryptEventIfNeeded swaps in the clear content
+class MockEvent extends EventEmitter {
+  failed = false;
+  private decrypted: boolean;
+
+  constructor(private options: MockEventOptions) {
+    super();
+    this.decrypted = !options.encrypted;
+  }
+
+  getType() { return this.decrypted ? this.options.type || 'm.room.message' : 'm.room.encrypted'; }
+  getSender() { return this.options.sender || '@other:example.com'; }
+  getContent() { return this.decrypted ? this.options.content || {} : { algorithm: 'm.megolm.v1.aes-sha2' }; }
+  getId() { return this.options.id || 'event1'; }
+  getTs() { return 1700000000000; }
+  isEncrypted() { return !!this.options.encrypted; }
+  isDecryptionFailure() { return this.failed; }
+
+  decrypt(failed = false) {
+    this.failed = failed;
+    this.decrypted = true;
+    if (failed) this.options.content = { msgtype: 'm.bad.encrypted', body: '** Unable to decrypt: DecryptionError: Unknown session **' };
+  }
+}
+
+const mockEvent = (options: MockEventOptions) => new MockEvent(options) as unknown as MatrixEvent & MockEvent;
+
+class MockVerificationRequest extends EventEmitter {
+  otherUserId = '@admin:example.com';
+  otherDeviceId = 'ADMINDEVICE';
+  roomId = undefined;
+  phase = VerificationPhase.Requested;
+  verifier: any = undefined;
+  accept = jest.fn().mockResolvedValue(undefined);
+  cancel = jest.fn().mockResolvedValue(undefined);
+
+  start() {
+    const verifier = new EventEmitter() as any;
+    verifier.verify = jest.fn().mockResolvedValue(undefined);
+    this.verifier = verifier;
+    this.phase = VerificationPhase.Started;
+    this.emit(VerificationRequestEvent.Change);
+    return verifier;
+  }
+}
+
+const sas = () => ({
+  sas: { emoji: [['🐶', 'Dog'], ['🔑', 'Key']], decimal: [1234, 5678, 9012] },
+  confirm: jest.fn().mockResolvedValue(undefined),
+  mismatch: jest.fn()
+});
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
 
 describe('MatrixConnector', () => {
   let connector: MatrixConnector;
-  let mockClient: jest.Mocked<Partial<MatrixClient>>;
+  let mockClient: any;
   let mockConfig: MatrixConfig;
+  const room = { roomId: 'room1' } as unknown as Room;
+
+  // Handlers are registered on connect
+  const handler = (event: string) => mockClient.on.mock.calls.find((call: any[]) => call[0] === event)?.[1];
+  const timeline = (event: MatrixEvent) => handler(RoomEvent.Timeline)(event, room, false, false, { liveEvent: true });
 
   beforeEach(() => {
     mockConfig = {
-      homeserverUrl: 'https://matrix.example.com',
-      accessToken: 'mock_token',
-      userId: '@user:example.com',
-      commandPrefix: '!',
-      autoJoin: true
+      name: 'matrix',
+      type: 'matrix',
+      parameters: {
+        homeserverUrl: 'https://matrix.example.com',
+        accessToken: 'mock_token',
+        userId: '@user:example.com',
+        commandPrefix: '!',
+        autoJoin: true
+      }
     };
 
     mockClient = {
       startClient: jest.fn().mockResolvedValue(undefined),
       stopClient: jest.fn().mockResolvedValue(undefined),
       on: jest.fn(),
+      sendTextMessage: jest.fn().mockResolvedValue({}),
       sendMessage: jest.fn().mockResolvedValue({}),
       sendEvent: jest.fn().mockResolvedValue({}),
       redactEvent: jest.fn().mockResolvedValue({}),
       joinRoom: jest.fn().mockResolvedValue({}),
-      leave: jest.fn().mockResolvedValue({})
+      leave: jest.fn().mockResolvedValue({}),
+      kick: jest.fn().mockResolvedValue({}),
+      ban: jest.fn().mockResolvedValue({}),
+      setPowerLevel: jest.fn().mockResolvedValue({}),
+      getRoom: jest.fn(),
+      initCrypto: jest.fn().mockResolvedValue(undefined),
+      setGlobalErrorOnUnknownDevices: jest.fn(),
+      getCrypto: jest.fn().mockReturnValue({ setDeviceVerified: jest.fn().mockResolvedValue(undefined) }),
+      decryptEventIfNeeded: jest.fn(async (event: MockEvent) => event.decrypt())
     } as jest.Mocked<Partial<MatrixClient>>;
 
     (sdk.createClient as jest.Mock).mockReturnValue(mockClient);
@@ -39,27 +125,38 @@ describe('MatrixConnector', () => {
   });
 
   describe('connect and disconnect', () => {
-    it('should start the client and emit connected event', async () => {
-      const connectPromise = connector.connect();
-      
-      // Simulate successful connection
-      await connectPromise;
+    it('should start the client and register handlers', async () => {
+      await connector.connect();
 
       expect(mockClient.startClient).toHaveBeenCalled();
       expect(mockClient.on).toHaveBeenCalled();
+      expect(mockClient.initCrypto).not.toHaveBeenCalled();
+      expect(connector.isActive()).toBe(true);
     });
 
     it('should handle connection errors', async () => {
       const error = new Error('Connection failed');
       mockClient.startClient.mockRejectedValue(error);
+      connector.on('error', () => {});
 
       await expect(connector.connect()).rejects.toThrow('Connection failed');
     });
 
-    it('should stop the client and emit disconnected event', async () => {
-      const disconnectPromise = connector.disconnect();
+    it('should report sync outages until the client syncs again', async () => {
+      await connector.connect();
+      (mockClient as any).clientRunning = true;
+
+      handler(ClientEvent.Sync)(SyncState.Error, SyncState.Syncing, { error: new Error('Connection refused') });
+      expect(connector.isActive()).toBe(false);
+      expect(connector.getHealth().reasons).toEqual(['Disconnected: Connection refused']);
 
-      await disconnectPromise;
+      handler(ClientEvent.Sync)(SyncState.Syncing, SyncState.Error);
+      expect(connector.isActive()).toBe(true);
+      expect(connector.getHealth().disconnects).toBe(1);
+    });
+
+    it('should stop the client', async () => {
+      await connector.disconnect();
 
       expect(mockClient.stopClient).toHaveBeenCalled();
     });
@@ -67,329 +164,446 @@ describe('MatrixConnector', () => {
     it('should handle disconnection errors', async () => {
       const error = new Error('Disconnection failed');
       mockClient.stopClient.mockRejectedValue(error);
+      connector.on('error', () => {});
 
       await expect(connector.disconnect()).rejects.toThrow('Disconnection failed');
     });
   });
 
   describe('message handling', () => {
-    it('should handle regular messages', () => {
-      const mockEvent = {
-        getType: () => 'm.room.message',
-        getSender: () => '@other:example.com',
-        getContent: () => ({ body: 'Hello world' }),
-        getId: () => 'event1'
-      } as unknown as MatrixEvent;
-
-      const mockRoom = {
-        roomId: 'room1'
-      } as unknown as Room;
-
-      const mockTimelineData = {
-        timeline: { live: true },
-        liveEvent: true
-      };
-
-      // Get the message handler
-      const messageHandler = mockClient.on.mock.calls.find(
-        call => call[0] === RoomEvent.Timeline
-      )?.[1] as (event: MatrixEvent, room: Room | undefined, toStartOfTimeline: boolean | undefined, removed: boolean, data: any) => void;
+    beforeEach(async () => {
+      await connector.connect();
+    });
 
-      if (messageHandler) {
-        const messageSpy = jest.fn();
-        connector.on('message', messageSpy);
+    it('should handle regular messages', () => {
+      const messageSpy = jest.fn();
+      connector.on('message', messageSpy);
 
-        messageHandler(mockEvent, mockRoom, false, false, mockTimelineData);
+      timeline(mockEvent({ content: { body: 'Hello world' } }));
 
-        expect(messageSpy).toHaveBeenCalledWith({
-          content: 'Hello world',
-          authorId: '@other:example.com',
-          roomId: 'room1',
-          messageId: 'event1',
-          raw: mockEvent
-        });
-      }
+      expect(messageSpy).toHaveBeenCalledWith({
+        content: 'Hello world',
+        sender: '@other:example.com',
+        channelId: 'room1',
+        messageId: 'event1',
+        timestamp: new Date(1700000000000)
+      });
     });
 
     it('should handle commands', () => {
-      const mockEvent = {
-        getType: () => 'm.room.message',
-        getSender: () => '@other:example.com',
-        getContent: () => ({ body: '!command arg1 arg2' }),
-        getId: () => 'event1'
-      } as unknown as MatrixEvent;
-
-      const mockRoom = {
-        roomId: 'room1'
-      } as unknown as Room;
-
-      const mockTimelineData = {
-        timeline: { live: true },
-        liveEvent: true
-      };
-
-      // Get the message handler
-      const messageHandler = mockClient.on.mock.calls.find(
-        call => call[0] === RoomEvent.Timeline
-      )?.[1] as (event: MatrixEvent, room: Room | undefined, toStartOfTimeline: boolean | undefined, removed: boolean, data: any) => void;
+      const commandSpy = jest.fn();
+      connector.on('command', commandSpy);
+
+      timeline(mockEvent({ content: { body: '!command arg1 arg2' } }));
+
+      expect(commandSpy).toHaveBeenCalledWith(expect.objectContaining({
+        command: 'command',
+        args: ['arg1', 'arg2'],
+        sender: '@other:example.com',
+        channelId: 'room1',
+        messageId: 'event1'
+      }));
+    });
 
-      if (messageHandler) {
-        const commandSpy = jest.fn();
-        connector.on('command', commandSpy);
+    it('should report threads and replies', () => {
+      const messageSpy = jest.fn();
+      connector.on('message', messageSpy);
 
-        messageHandler(mockEvent, mockRoom, false, false, mockTimelineData);
+      timeline(mockEvent({ content: { body: 'in thread', 'm.relates_to': { rel_type: 'm.thread', event_id: '$root', is_falling_back: true, 'm.in_reply_to': { event_id: '$latest' } } } }));
+      timeline(mockEvent({ content: { body: 'quoted', 'm.relates_to': { 'm.in_reply_to': { event_id: '$quoted' } } } }));
 
-        expect(commandSpy).toHaveBeenCalledWith({
-          content: 'command arg1 arg2',
-          authorId: '@other:example.com',
-          roomId: 'room1',
-          messageId: 'event1',
-          raw: mockEvent
-        });
-      }
+      expect(messageSpy.mock.calls[0][0]).toMatchObject({ threadId: '$root', replyTo: undefined });
+      expect(messageSpy.mock.calls[1][0]).toMatchObject({ threadId: undefined, replyTo: '$quoted' });
     });
 
     it('should ignore messages from self', () => {
-      const mockEvent = {
-        getType: () => 'm.room.message',
-        getSender: () => mockConfig.userId,
-        getContent: () => ({ body: 'Hello world' }),
-        getId: () => 'event1'
-      } as unknown as MatrixEvent;
-
-      const mockRoom = {
-        roomId: 'room1'
-      } as unknown as Room;
-
-      const mockTimelineData = {
-        timeline: { live: true },
-        liveEvent: true
-      };
+      const messageSpy = jest.fn();
+      connector.on('message', messageSpy);
 
-      // Get the message handler
-      const messageHandler = mockClient.on.mock.calls.find(
-        call => call[0] === RoomEvent.Timeline
-      )?.[1] as (event: MatrixEvent, room: Room | undefined, toStartOfTimeline: boolean | undefined, removed: boolean, data: any) => void;
+      timeline(mockEvent({ sender: mockConfig.parameters.userId, content: { body: 'Hello world' } }));
 
-      if (messageHandler) {
-        const messageSpy = jest.fn();
-        connector.on('message', messageSpy);
+      expect(messageSpy).not.toHaveBeenCalled();
+    });
 
-        messageHandler(mockEvent, mockRoom, false, false, mockTimelineData);
+    it('should ignore encrypted events when encryption is disabled', () => {
+      const messageSpy = jest.fn();
+      connector.on('message', messageSpy);
 
-        expect(messageSpy).not.toHaveBeenCalled();
-      }
+      timeline(mockEvent({ encrypted: true, content: { body: 'secret' } }));
+
+      expect(mockClient.decryptEventIfNeeded).not.toHaveBeenCalled();
+      expect(messageSpy).not.toHaveBeenCalled();
     });
   });
 
   describe('message operations', () => {
     it('should send a message successfully', async () => {
-      const content = 'Test message';
-      const roomId = 'room1';
+      await connector.sendMessage('Test message', 'room1');
 
-      mockClient.sendMessage.mockResolvedValue({} as any);
+      expect(mockClient.sendTextMessage).toHaveBeenCalledWith('room1', 'Test message');
+    });
 
-      await connector.sendMessage(content, roomId);
+    it('should send a message in a thread', async () => {
+      await connector.sendMessage('Threaded', 'room1', { threadId: '$root' });
 
-      expect(mockClient.sendMessage).toHaveBeenCalledWith(roomId, {
+      expect(mockClient.sendMessage).toHaveBeenCalledWith('room1', {
         msgtype: 'm.text',
-        body: content
+        body: 'Threaded',
+        'm.relates_to': {
+          rel_type: 'm.thread',
+          event_id: '$root',
+          is_falling_back: true,
+          'm.in_reply_to': { event_id: '$root' }
+        }
       });
+      expect(mockClient.sendTextMessage).not.toHaveBeenCalled();
     });
 
     it('should handle send message errors', async () => {
-      const error = new Error('Failed to send');
-      mockClient.sendMessage.mockRejectedValue(error);
+      mockClient.sendTextMessage.mockRejectedValue(new Error('Failed to send'));
+      connector.on('error', () => {});
 
       await expect(connector.sendMessage('Test', 'room1')).rejects.toThrow('Failed to send');
     });
 
     it('should edit a message successfully', async () => {
-      const roomId = 'room1';
-      const messageId = 'msg1';
-      const newContent = 'Updated message';
+      await connector.editMessage('room1', 'msg1', 'Updated message');
 
-      mockClient.sendEvent.mockResolvedValue({} as any);
-
-      await connector.editMessage(roomId, messageId, newContent);
-
-      expect(mockClient.sendEvent).toHaveBeenCalledWith(roomId, 'm.room.message', {
+      expect(mockClient.sendMessage).toHaveBeenCalledWith('room1', {
         msgtype: 'm.text',
-        body: `* ${newContent}`,
+        body: '* Updated message',
         'm.new_content': {
           msgtype: 'm.text',
-          body: newContent
+          body: 'Updated message'
         },
         'm.relates_to': {
           rel_type: 'm.replace',
-          event_id: messageId
+          event_id: 'msg1'
         }
       });
     });
 
     it('should handle edit message errors', async () => {
-      const error = new Error('Failed to edit');
-      mockClient.sendEvent.mockRejectedValue(error);
+      mockClient.sendMessage.mockRejectedValue(new Error('Failed to edit'));
+      connector.on('error', () => {});
 
       await expect(connector.editMessage('room1', 'msg1', 'Updated')).rejects.toThrow('Failed to edit');
     });
 
     it('should delete a message successfully', async () => {
-      const roomId = 'room1';
-      const messageId = 'msg1';
-
-      mockClient.redactEvent.mockResolvedValue({} as any);
+      await connector.deleteMessage('room1', 'msg1');
 
-      await connector.deleteMessage(roomId, messageId);
-
-      expect(mockClient.redactEvent).toHaveBeenCalledWith(roomId, messageId);
+      expect(mockClient.redactEvent).toHaveBeenCalledWith('room1', 'msg1');
     });
 
     it('should handle delete message errors', async () => {
-      const error = new Error('Failed to delete');
-      mockClient.redactEvent.mockRejectedValue(error);
+      mockClient.redactEvent.mockRejectedValue(new Error('Failed to delete'));
+      connector.on('error', () => {});
 
       await expect(connector.deleteMessage('room1', 'msg1')).rejects.toThrow('Failed to delete');
     });
   });
 
   describe('room management', () => {
-    it('should auto-join rooms when invited', () => {
-      const mockEvent = {} as MatrixEvent;
-      const mockMember = {
-        membership: 'invite',
-        userId: mockConfig.userId,
-        roomId: 'room1'
-      } as unknown as RoomMember;
-
-      const mockState = {} as RoomState;
-      const mockOldState = null;
-      const mockPrevMember = null;
-
-      // Get the membership handler
-      const membershipHandler = mockClient.on.mock.calls.find(
-        call => call[0] === RoomMemberEvent.Membership
-      )?.[1] as (event: MatrixEvent, member: RoomMember, oldMembership: string | null, roomState: RoomState, oldState: RoomState | null) => void;
+    it('should auto-join rooms when invited', async () => {
+      await connector.connect();
+      const member = { membership: 'invite', userId: mockConfig.parameters.userId, roomId: 'room1' } as unknown as RoomMember;
 
-      if (membershipHandler) {
-        mockClient.joinRoom.mockResolvedValue({ roomId: 'room1' } as Room);
+      handler(RoomMemberEvent.Membership)({} as MatrixEvent, member);
 
-        membershipHandler(mockEvent, mockMember, null, mockState, mockOldState);
-
-        expect(mockClient.joinRoom).toHaveBeenCalledWith('room1');
-      }
+      expect(mockClient.joinRoom).toHaveBeenCalledWith('room1');
     });
 
     it('should handle room joining errors', async () => {
-      const error = new Error('Failed to join');
-      mockClient.joinRoom.mockRejectedValue(error);
+      mockClient.joinRoom.mockRejectedValue(new Error('Failed to join'));
+      connector.on('error', () => {});
 
       await expect(connector.joinRoom('room1')).rejects.toThrow('Failed to join');
     });
 
     it('should leave a room successfully', async () => {
-      const roomId = 'room1';
-
-      mockClient.leave.mockResolvedValue({} as any);
+      await connector.leaveRoom('room1');
 
-      await connector.leaveRoom(roomId);
-
-      expect(mockClient.leave).toHaveBeenCalledWith(roomId);
+      expect(mockClient.leave).toHaveBeenCalledWith('room1');
     });
 
     it('should handle room leaving errors', async () => {
-      const error = new Error('Failed to leave');
-      mockClient.leave.mockRejectedValue(error);
+      mockClient.leave.mockRejectedValue(new Error('Failed to leave'));
+      connector.on('error', () => {});
 
       await expect(connector.leaveRoom('room1')).rejects.toThrow('Failed to leave');
     });
   });
 
+  describe('moderation', () => {
+    it('should redact, mute, kick and ban', async () => {
+      await connector.moderate({ action: 'delete', userId: '@spammer:matrix.org', channelId: 'room1', messageId: 'msg1', reason: 'spam' });
+      await connector.moderate({ action: 'mute', userId: '@spammer:matrix.org', channelId: 'room1' });
+      await connector.moderate({ action: 'kick', userId: '@spammer:matrix.org', channelId: 'room1', reason: 'spam' });
+      await connector.moderate({ action: 'ban', userId: '@spammer:matrix.org', channelId: 'room1', reason: 'spam' });
+
+      expect(mockClient.redactEvent).toHaveBeenCalledWith('room1', 'msg1', undefined, { reason: 'spam' });
+      expect(mockClient.setPowerLevel).toHaveBeenCalledWith('room1', '@spammer:matrix.org', -1);
+      expect(mockClient.kick).toHaveBeenCalledWith('room1', '@spammer:matrix.org', 'spam');
+      expect(mockClient.ban).toHaveBeenCalledWith('room1', '@spammer:matrix.org', 'spam');
+    });
+
+    it('should restore the power level from before a timed mute', async () => {
+      const powerLevels = { getContent: () => ({ users: { '@spammer:matrix.org': 10 } }) };
+      mockClient.getRoom.mockReturnValue({ currentState: { getStateEvents: jest.fn().mockReturnValue(powerLevels) } });
+
+      await connector.moderate({ action: 'mute', userId: '@spammer:matrix.org', channelId: 'room1', durationMs: 20 });
+      await connector.moderate({ action: 'mute', userId: '@spammer:matrix.org', channelId: 'room1', durationMs: 20 });
+      await connector.moderate({ action: 'mute', userId: '@other:matrix.org', channelId: 'room1', durationMs: 20 });
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(mockClient.setPowerLevel.mock.calls).toEqual([
+        ['room1', '@spammer:matrix.org', -1],
+        ['room1', '@spammer:matrix.org', -1],
+        ['room1', '@other:matrix.org', -1],
+        ['room1', '@spammer:matrix.org', 10],
+        ['room1', '@other:matrix.org', undefined],
+      ]);
+    });
+
+    it('should handle moderation errors', async () => {
+      mockClient.ban.mockRejectedValue(new Error('Insufficient power level'));
+      connector.on('error', () => {});
+
+      await expect(connector.moderate({ action: 'ban', userId: '@spammer:matrix.org', channelId: 'room1' })).rejects.toThrow('Insufficient power level');
+    });
+  });
+
   describe('reactions', () => {
     it('should add a reaction successfully', async () => {
-      const roomId = 'room1';
-      const eventId = 'event1';
-      const key = '👍';
-
-      mockClient.sendEvent.mockResolvedValue({} as any);
-
-      await connector.addReaction(roomId, eventId, key);
-
-      expect(mockClient.sendEvent).toHaveBeenCalledWith(
-        roomId,
-        'm.reaction',
-        {
-          'm.relates_to': {
-            rel_type: 'm.annotation',
-            event_id: eventId,
-            key: key
-          }
+      await connector.addReaction('room1', 'event1', '👍');
+
+      expect(mockClient.sendEvent).toHaveBeenCalledWith('room1', 'm.reaction', {
+        'm.relates_to': {
+          rel_type: 'm.annotation',
+          event_id: 'event1',
+          key: '👍'
         }
-      );
+      });
     });
 
     it('should remove a reaction successfully', async () => {
-      const roomId = 'room1';
-      const eventId = 'event1';
-      const key = '👍';
-      const reactionEventId = 'reaction1';
-
-      mockClient.getRelations.mockResolvedValue({
-        events: [{
-          getId: () => reactionEventId,
-          getContent: () => ({
-            'm.relates_to': { key }
-          }),
-          getSender: () => mockConfig.userId
-        }]
-      } as any);
-
-      mockClient.redactEvent.mockResolvedValue({} as any);
-
-      await connector.removeReaction(roomId, eventId, key);
-
-      expect(mockClient.redactEvent).toHaveBeenCalledWith(roomId, reactionEventId);
-    });
-
-    it('should handle reaction events', () => {
-      const mockEvent = {
-        getType: () => 'm.reaction',
-        getSender: () => '@other:example.com',
-        getContent: () => ({
-          'm.relates_to': {
-            rel_type: 'm.annotation',
-            event_id: 'event1',
-            key: '👍'
-          }
-        }),
-        getId: () => 'reaction1'
-      } as unknown as MatrixEvent;
-
-      const mockRoom = {
-        roomId: 'room1'
-      } as unknown as Room;
-
-      const mockTimelineData = {
-        timeline: { live: true },
-        liveEvent: true
+      const reaction = mockEvent({
+        type: 'm.reaction',
+        id: 'reaction1',
+        content: { 'm.relates_to': { rel_type: 'm.annotation', event_id: 'event1', key: '👍' } }
+      });
+      mockClient.getRoom.mockReturnValue({
+        getUnfilteredTimelineSet: () => ({ getLiveTimeline: () => ({ getEvents: () => [reaction] }) })
+      });
+
+      await connector.removeReaction('room1', 'event1', '👍');
+
+      expect(mockClient.redactEvent).toHaveBeenCalledWith('room1', 'reaction1');
+    });
+
+    it('should handle reaction events', async () => {
+      await connector.connect();
+      const reactionSpy = jest.fn();
+      connector.on('reaction', reactionSpy);
+
+      timeline(mockEvent({
+        type: 'm.reaction',
+        content: { 'm.relates_to': { rel_type: 'm.annotation', event_id: 'event1', key: '👍' } }
+      }));
+
+      expect(reactionSpy).toHaveBeenCalledWith({
+        reaction: '👍',
+        sender: '@other:example.com',
+        messageId: 'event1',
+        channelId: 'room1',
+        timestamp: new Date(1700000000000)
+      });
+    });
+  });
+
+  describe('end-to-end encryption', () => {
+    let storePath: string;
+
+    beforeEach(async () => {
+      storePath = fs.mkdtempSync(path.join(os.tmpdir(), 'matrix-crypto-'));
+      mockConfig.parameters.encryption = {
+        deviceId: 'BOTDEVICE',
+        storePath,
+        pickleKey: 'pickle',
+        trustedUsers: ['@admin:example.com']
       };
+      connector = new MatrixConnector(mockConfig);
+      await connector.connect();
+    });
 
-      const messageHandler = mockClient.on.mock.calls.find(
-        call => call[0] === RoomEvent.Timeline
-      )?.[1] as (event: MatrixEvent, room: Room | undefined, toStartOfTimeline: boolean | undefined, removed: boolean, data: any) => void;
+    afterEach(() => {
+      fs.rmSync(storePath, { recursive: true, force: true });
+      delete (globalThis as any).Olm;
+    });
 
-      if (messageHandler) {
-        const reactionSpy = jest.fn();
-        connector.on('reaction', reactionSpy);
+    it('should initialize crypto with a persistent store before syncing', () => {
+      expect(sdk.createClient).toHaveBeenLastCalledWith(expect.objectContaining({
+        deviceId: 'BOTDEVICE',
+        pickleKey: 'pickle',
+        cryptoStore: expect.any(sdk.LocalStorageCryptoStore)
+      }));
+      expect((sdk.LocalStorageCryptoStore as unknown as jest.Mock).mock.calls[0][0]).toBeInstanceOf(FileStorage);
+      expect((globalThis as any).Olm).toBeDefined();
+      expect(mockClient.initCrypto.mock.invocationCallOrder[0]).toBeLessThan(mockClient.startClient.mock.invocationCallOrder[0]);
+      expect(mockClient.setGlobalErrorOnUnknownDevices).toHaveBeenCalledWith(false);
+      expect(mockClient.getCrypto().globalBlacklistUnverifiedDevices).toBe(false);
+    });
 
-        messageHandler(mockEvent, mockRoom, false, false, mockTimelineData);
+    it('should fail to connect when crypto cannot be initialized', async () => {
+      mockClient.initCrypto.mockRejectedValue(new Error('Olm failed'));
+      mockClient.startClient.mockClear();
+      connector.on('error', () => {});
 
-        expect(reactionSpy).toHaveBeenCalledWith({
-          eventId: 'event1',
-          key: '👍',
-          userId: '@other:example.com'
-        });
-      }
+      await expect(connector.connect()).rejects.toThrow('Olm failed');
+      expect(mockClient.startClient).not.toHaveBeenCalled();
+    });
+
+    it('should route decrypted messages through the message and command handlers', async () => {
+      const messageSpy = jest.fn();
+      const commandSpy = jest.fn();
+      connector.on('message', messageSpy);
+      connector.on('command', commandSpy);
+
+      const message = mockEvent({ encrypted: true, content: { body: 'Hello in private' } });
+      timeline(message);
+      timeline(mockEvent({ encrypted: true, id: 'event2', content: { body: '!status now' } }));
+      await flush();
+
+      expect(mockClient.decryptEventIfNeeded).toHaveBeenCalledWith(message);
+      expect(messageSpy).toHaveBeenCalledWith(expect.objectContaining({ content: 'Hello in private', messageId: 'event1' }));
+      expect(commandSpy).toHaveBeenCalledWith(expect.objectContaining({ command: 'status', args: ['now'], messageId: 'event2' }));
+    });
+
+    it('should report decryption failures and handle the event once its key arrives', async () => {
+      const failureSpy = jest.fn();
+      const messageSpy = jest.fn();
+      connector.on('decryptionFailed', failureSpy);
+      connector.on('message', messageSpy);
+      mockClient.decryptEventIfNeeded.mockImplementationOnce(async (event: MockEvent) => event.decrypt(true));
+
+      const event = mockEvent({ encrypted: true, content: { body: 'late key' } });
+      timeline(event);
+      await flush();
+
+      expect(failureSpy).toHaveBeenCalledWith(expect.objectContaining({ eventId: 'event1', roomId: 'room1', sender: '@other:example.com' }));
+      expect(messageSpy).not.toHaveBeenCalled();
+
+      // The SDK retries when the room key arrives
+      (event as any).options.content = { body: 'late key' };
+      event.failed = false;
+      event.emit(MatrixEventEvent.Decrypted, event);
+
+      expect(messageSpy).toHaveBeenCalledWith(expect.objectContaining({ content: 'late key' }));
     });
+
+    it('should accept requests from trusted users but leave the emoji comparison to listeners', async () => {
+      const verifiedSpy = jest.fn();
+      const requestSpy = jest.fn();
+      const sasSpy = jest.fn();
+      connector.on('deviceVerified', verifiedSpy);
+      connector.on('verificationRequest', requestSpy);
+      connector.on('verificationSas', sasSpy);
+      const request = new MockVerificationRequest();
+
+      handler(CryptoEvent.VerificationRequestReceived)(request);
+      expect(request.accept).toHaveBeenCalled();
+      expect(requestSpy).not.toHaveBeenCalled();
+
+      const verifier = request.start();
+      const callbacks = sas();
+      verifier.emit(VerifierEvent.ShowSas, callbacks);
+      await flush();
+
+      expect(verifier.verify).toHaveBeenCalled();
+      expect(callbacks.confirm).not.toHaveBeenCalled();
+      expect(sasSpy).toHaveBeenCalledWith(expect.objectContaining({ userId: '@admin:example.com', emoji: ['🐶 Dog', '🔑 Key'] }));
+
+      await sasSpy.mock.calls[0][0].confirm();
+      expect(callbacks.confirm).toHaveBeenCalled();
+      expect(verifiedSpy).toHaveBeenCalledWith({ userId: '@admin:example.com', deviceId: 'ADMINDEVICE' });
+    });
+
+    it('should leave verification with other users to listeners', async () => {
+      const requestSpy = jest.fn();
+      const sasSpy = jest.fn();
+      connector.on('verificationRequest', requestSpy);
+      connector.on('verificationSas', sasSpy);
+      const request = new MockVerificationRequest();
+      request.otherUserId = '@stranger:example.com';
+
+      handler(CryptoEvent.VerificationRequestReceived)(request);
+      expect(request.accept).not.toHaveBeenCalled();
+      expect(requestSpy).toHaveBeenCalledWith(expect.objectContaining({ userId: '@stranger:example.com', deviceId: 'ADMINDEVICE' }));
+
+      await requestSpy.mock.calls[0][0].accept();
+      expect(request.accept).toHaveBeenCalled();
+
+      const verifier = request.start();
+      const callbacks = sas();
+      verifier.emit(VerifierEvent.ShowSas, callbacks);
+
+      expect(callbacks.confirm).not.toHaveBeenCalled();
+      expect(sasSpy).toHaveBeenCalledWith(expect.objectContaining({ emoji: ['🐶 Dog', '🔑 Key'], decimal: [1234, 5678, 9012] }));
+      sasSpy.mock.calls[0][0].mismatch();
+      expect(callbacks.mismatch).toHaveBeenCalled();
+    });
+
+    it('should stop watching requests once they are cancelled', () => {
+      const request = new MockVerificationRequest();
+      handler(CryptoEvent.VerificationRequestReceived)(request);
+
+      request.phase = VerificationPhase.Cancelled;
+      request.emit(VerificationRequestEvent.Change);
+
+      expect(request.listenerCount(VerificationRequestEvent.Change)).toBe(0);
+    });
+
+    it('should mark devices verified out of band', async () => {
+      await connector.verifyDevice('@admin:example.com', 'ADMINDEVICE');
+
+      expect(mockClient.getCrypto().setDeviceVerified).toHaveBeenCalledWith('@admin:example.com', 'ADMINDEVICE', true);
+    });
+  });
+});
+
+describe('FileStorage', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'matrix-storage-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should persist items across instances', () => {
+    const storage = new FileStorage(directory);
+    storage.setItem('crypto.account', 'pickled');
+    storage.setItem('crypto.sessions/abc+/=', '{"id":1}');
+    storage.removeItem('crypto.account');
+
+    const reopened = new FileStorage(directory);
+    expect(reopened.getItem('crypto.account')).toBeNull();
+    expect(reopened.getItem('crypto.sessions/abc+/=')).toBe('{"id":1}');
+    expect(reopened.length).toBe(1);
+    expect(reopened.key(0)).toBe('crypto.sessions/abc+/=');
+  });
+
+  it('should clear every item', () => {
+    const storage = new FileStorage(directory);
+    storage.setItem('a', '1');
+    storage.setItem('b', '2');
+    expect(storage.key(1)).toBe('b');
+
+    storage.clear();
+    expect(storage.length).toBe(0);
+    expect(fs.readdirSync(directory)).toEqual([]);
   });
-}); 
\ No newline at end of file
+});
@@ -0,0 +1,59 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * A Web Storage backed by a directory, one file per key, so `LocalStorageCryptoStore` keeps the
+ * Olm account and room keys across restarts. Reads are served from memory; writes go straight
+ * to disk because the crypto store expects them to be durable once `setItem` returns.
+ */
+export class FileStorage implements Storage {
+  private directory: string;
+  private items: Map<string, string> = new Map();
+  private keys: string[] | null = null;
+
+  constructor(directory: string) {
+    this.directory = directory;
+    fs.mkdirSync(directory, { recursive: true });
+    for (const file of fs.readdirSync(directory)) {
+      if (file.endsWith('.tmp')) continue;
+      this.items.set(decodeURIComponent(file), fs.readFileSync(path.join(directory, file), 'utf8'));
+    }
+  }
+
+  get length(): number {
+    return this.items.size;
+  }
+
+  key(index: number): string | null {
+    // LocalStorageCryptoStore walks every key by index, so keep the list until it changes
+    this.keys ??= Array.from(this.items.keys());
+    return this.keys[index] ?? null;
+  }
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    const file = this.fileFor(key);
+    // Write then rename, so a crash never leaves a truncated key behind
+    fs.writeFileSync(`${file}.tmp`, value);
+    fs.renameSync(`${file}.tmp`, file);
+    if (!this.items.has(key)) this.keys = null;
+    this.items.set(key, String(value));
+  }
+
+  removeItem(key: string): void {
+    if (!this.items.delete(key)) return;
+    this.keys = null;
+    fs.rmSync(this.fileFor(key), { force: true });
+  }
+
+  clear(): void {
+    for (const key of Array.from(this.items.keys())) this.removeItem(key);
+  }
+
+  private fileFor(key: string): string {
+    return path.join(this.directory, encodeURIComponent(key));
+  }
+}
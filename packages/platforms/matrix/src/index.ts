@@ -1,299 +1,580 @@
-import { EventEmitter } from 'events';
-import * as sdk from 'matrix-js-sdk';
-import { MatrixClient, MatrixEvent, Room, RoomMember, RoomEvent, RoomMemberEvent, IRoomTimelineData } from 'matrix-js-sdk';
-
-// Define interfaces to match the Platform abstract class requirements
-export interface PlatformConfig {
-  name: string;
-  type: string;
-  parameters?: Record<string, any>;
-}
-
-export interface MessageData {
-  content: string;
-  sender: string;
-  channelId?: string;
-  timestamp: Date;
-}
-
-export interface MatrixConfig extends PlatformConfig {
-  parameters: {
-    homeserverUrl: string;
-    accessToken: string;
-    userId: string;
-    commandPrefix: string;
-    autoJoin?: boolean;
-  };
-}
-
-export interface MatrixMessage {
-  content: string;
-  authorId: string;
-  roomId: string;
-  messageId: string;
-  raw: MatrixEvent;
-}
-
-export interface MatrixReaction {
-  eventId: string;
-  key: string;
-  userId: string;
-}
-
-export class MatrixConnector extends EventEmitter {
-  protected name: string;
-  protected type: string;
-  protected parameters: Record<string, any>;
-  protected isConnected: boolean;
-  
-  private client: MatrixClient;
-  private commandPrefix: string;
-  private autoJoin: boolean;
-  private userId: string;
-
-  constructor(config: MatrixConfig) {
-    super();
-    this.name = config.name;
-    this.type = config.type;
-    this.parameters = config.parameters || {};
-    this.isConnected = false;
-    
-    this.commandPrefix = config.parameters.commandPrefix;
-    this.autoJoin = config.parameters.autoJoin || false;
-    this.userId = config.parameters.userId;
-    
-    this.client = sdk.createClient({
-      baseUrl: config.parameters.homeserverUrl,
-      accessToken: config.parameters.accessToken,
-      userId: config.parameters.userId
-    });
-  }
-
-  async connect(): Promise<void> {
-    try {
-      await this.client.startClient();
-      this.setupEventHandlers();
-      this.setConnected(true);
-      console.log(`Matrix connector ${this.name} connected successfully`);
-    } catch (error) {
-      console.error('Failed to connect to Matrix:', error);
-      this.emit('error', error);
-      throw error;
-    }
-  }
-
-  async disconnect(): Promise<void> {
-    try {
-      await this.client.stopClient();
-      this.setConnected(false);
-      console.log(`Matrix connector ${this.name} disconnected`);
-    } catch (error) {
-      console.error('Failed to disconnect from Matrix:', error);
-      this.emit('error', error);
-      throw error;
-    }
-  }
-  
-  async start(): Promise<void> {
-    if (!this.isActive()) {
-      await this.connect();
-    }
-  }
-
-  async stop(): Promise<void> {
-    if (this.isActive()) {
-      await this.disconnect();
-    }
-  }
-
-  private setupEventHandlers(): void {
-    this.client.on(RoomEvent.Timeline, (event: MatrixEvent, room: Room | undefined, toStartOfTimeline: boolean | undefined, removed: boolean, data: IRoomTimelineData) => {
-      if (!room || event.getType() !== 'm.room.message') return;
-      if (event.getSender() === this.userId) return;
-
-      const content = event.getContent();
-      const msgContent = content.body;
-      const sender = event.getSender()!;
-      const roomId = room.roomId;
-      const messageId = event.getId()!;
-      const timestamp = new Date(event.getTs());
-
-      // Check if it's a command
-      if (msgContent.startsWith(this.commandPrefix)) {
-        const commandContent = msgContent.slice(this.commandPrefix.length).trim();
-        const commandParts = commandContent.split(/\s+/);
-        const command = commandParts[0];
-        const args = commandParts.slice(1);
-        
-        this.emit('command', {
-          command,
-          args,
-          content: commandContent,
-          sender,
-          channelId: roomId,
-          messageId,
-          timestamp
-        });
-        
-        return;
-      }
-      
-      // Process as regular message
-      const messageData: MessageData = {
-        content: msgContent,
-        sender,
-        channelId: roomId,
-        timestamp
-      };
-      
-      this.emit('message', messageData);
-    });
-
-    if (this.autoJoin) {
-      this.client.on(RoomMemberEvent.Membership, (event: MatrixEvent, member: RoomMember) => {
-        if (member.membership === 'invite' && member.userId === this.userId) {
-          this.joinRoom(member.roomId);
-        }
-      });
-    }
-
-    // Add reaction handler
-    this.client.on(RoomEvent.Timeline, (event: MatrixEvent, room: Room | undefined, toStartOfTimeline: boolean | undefined, removed: boolean, data: any) => {
-      if (!room || event.getType() !== 'm.reaction') return;
-
-      const content = event.getContent();
-      const relation = content['m.relates_to'];
-      
-      if (relation && relation.rel_type === 'm.annotation') {
-        this.emit('reaction', {
-          eventId: relation.event_id,
-          key: relation.key,
-          userId: event.getSender()!,
-          roomId: room.roomId,
-          timestamp: new Date(event.getTs())
-        });
-      }
-    });
-  }
-
-  async sendMessage(content: string, roomId: string): Promise<void> {
-    try {
-      await this.client.sendTextMessage(roomId, content);
-    } catch (error) {
-      console.error('Failed to send Matrix message:', error);
-      this.emit('error', error);
-      throw error;
-    }
-  }
-
-  async editMessage(roomId: string, messageId: string, newContent: string): Promise<void> {
-    try {
-      await this.client.sendMessage(roomId, {
-        'msgtype': sdk.MsgType.Text,
-        'body': `* ${newContent}`,
-        'm.new_content': {
-          'msgtype': sdk.MsgType.Text,
-          'body': newContent
-        },
-        'm.relates_to': {
-          'rel_type': sdk.RelationType.Replace,
-          'event_id': messageId
-        }
-      });
-    } catch (error) {
-      console.error('Failed to edit Matrix message:', error);
-      this.emit('error', error);
-      throw error;
-    }
-  }
-
-  async deleteMessage(roomId: string, messageId: string): Promise<void> {
-    try {
-      await this.client.redactEvent(roomId, messageId);
-    } catch (error) {
-      console.error('Failed to delete Matrix message:', error);
-      this.emit('error', error);
-      throw error;
-    }
-  }
-
-  async joinRoom(roomId: string): Promise<void> {
-    try {
-      await this.client.joinRoom(roomId);
-    } catch (error) {
-      console.error('Failed to join Matrix room:', error);
-      this.emit('error', error);
-      throw error;
-    }
-  }
-
-  async leaveRoom(roomId: string): Promise<void> {
-    try {
-      await this.client.leave(roomId);
-    } catch (error) {
-      console.error('Failed to leave Matrix room:', error);
-      this.emit('error', error);
-      throw error;
-    }
-  }
-
-  async addReaction(roomId: string, eventId: string, key: string): Promise<void> {
-    try {
-      await this.client.sendEvent(roomId, sdk.EventType.Reaction, {
-        'm.relates_to': {
-          'rel_type': sdk.RelationType.Annotation,
-          'event_id': eventId,
-          'key': key
-        }
-      });
-    } catch (error) {
-      console.error('Failed to add Matrix reaction:', error);
-      this.emit('error', error);
-      throw error;
-    }
-  }
-
-  async removeReaction(roomId: string, eventId: string, key: string): Promise<void> {
-    try {
-      // Find the reaction event
-      const room = this.client.getRoom(roomId);
-      if (!room) throw new Error(`Room not found: ${roomId}`);
-      
-      const timeline = room.getUnfilteredTimelineSet().getLiveTimeline().getEvents();
-      const reactionEvent = timeline.find(e => 
-        e.getType() === 'm.reaction' && 
-        e.getContent()?.['m.relates_to']?.event_id === eventId &&
-        e.getContent()?.['m.relates_to']?.key === key
-      );
-      
-      if (reactionEvent) {
-        await this.client.redactEvent(roomId, reactionEvent.getId()!);
-      }
-    } catch (error) {
-      console.error('Failed to remove Matrix reaction:', error);
-      this.emit('error', error);
-      throw error;
-    }
-  }
-  
-  getName(): string {
-    return this.name;
-  }
-
-  getType(): string {
-    return this.type;
-  }
-
-  isActive(): boolean {
-    return this.isConnected;
-  }
-
-  protected setConnected(connected: boolean): void {
-    this.isConnected = connected;
-    if (connected) {
-      this.emit('connected');
-    } else {
-      this.emit('disconnected');
-    }
-  }
-} 
\ No newline at end of file
+import * as sdk from 'matrix-js-sdk';
+import {
+  ClientEvent,
+  CryptoEvent,
+  LocalStorageCryptoStore,
+  MatrixClient,
+  MatrixEvent,
+  MatrixEventEvent,
+  Room,
+  RoomMember,
+  RoomEvent,
+  RoomMemberEvent,
+  SyncState,
+} from 'matrix-js-sdk';
+import {
+  VerificationPhase,
+  VerificationRequest,
+  VerificationRequestEvent,
+  Verifier,
+  VerifierEvent,
+} from 'matrix-js-sdk/lib/crypto-api';
+import {
+  Platform,
+  PlatformConfig,
+  PlatformEventMap,
+  MessageData,
+  ModerationRequest,
+  RichMessage,
+  SendOptions,
+  PLATFORM_MESSAGE_LIMITS,
+  platformRegistry,
+  parseCommandLine,
+  renderMatrix,
+  rich,
+  splitText,
+  toRichMessage,
+} from '@juliaos/core';
+import { FileStorage } from './cryptoStore';
+
+export type { PlatformConfig, MessageData } from '@juliaos/core';
+export { FileStorage } from './cryptoStore';
+
+declare global {
+  // The legacy crypto of matrix-js-sdk reads the Olm library from this global
+  var Olm: unknown;
+}
+
+export interface MatrixEncryptionConfig {
+  deviceId: string; // Device the access token was issued for; the crypto keys belong to it
+  storePath: string; // Directory for the crypto store; losing it means losing access to past room keys
+  pickleKey?: string; // Encrypts the Olm account in the store
+  trustedUsers?: string[]; // Verification requests from these users are accepted automatically; the emoji still need confirming
+  blockUnverifiedDevices?: boolean; // Only share room keys with verified devices (default false)
+}
+
+export interface MatrixConfig extends PlatformConfig {
+  parameters: {
+    homeserverUrl: string;
+    accessToken: string;
+    userId: string;
+    commandPrefix: string;
+    autoJoin?: boolean;
+    encryption?: MatrixEncryptionConfig; // Join and read end-to-end encrypted rooms
+  };
+}
+
+export interface MatrixMessage {
+  content: string;
+  authorId: string;
+  roomId: string;
+  messageId: string;
+  raw: MatrixEvent;
+}
+
+export interface MatrixReaction {
+  eventId: string;
+  key: string;
+  userId: string;
+}
+
+// Another user or device asking to verify the bot's device
+export interface MatrixVerificationData {
+  userId: string;
+  deviceId?: string;
+  roomId?: string; // Set for verification in a direct message
+  accept: () => Promise<void>;
+  cancel: () => Promise<void>;
+}
+
+// Short authentication string to compare with the one shown on the other device
+export interface MatrixSasData {
+  userId: string;
+  deviceId?: string;
+  emoji?: string[]; // e.g. '🐶 Dog'
+  decimal?: number[];
+  confirm: () => Promise<void>;
+  mismatch: () => void;
+}
+
+export interface MatrixDecryptionFailure {
+  eventId: string;
+  roomId: string;
+  sender: string;
+  reason: string;
+}
+
+export interface MatrixEventMap extends PlatformEventMap {
+  verificationRequest: [MatrixVerificationData];
+  verificationSas: [MatrixSasData];
+  deviceVerified: [{ userId: string; deviceId?: string }];
+  decryptionFailed: [MatrixDecryptionFailure];
+}
+
+/**
+ * `m.relates_to` of an outgoing message. Thread messages carry a reply to the message they answer,
+ * or a fallback reply to the thread root for clients without thread support.
+ */
+function relatesTo(options?: SendOptions): { 'm.relates_to'?: Record<string, any> } {
+  if (options?.threadId) {
+    return {
+      'm.relates_to': {
+        'rel_type': 'm.thread',
+        'event_id': options.threadId,
+        'is_falling_back': !options.replyTo,
+        'm.in_reply_to': { 'event_id': options.replyTo || options.threadId }
+      }
+    };
+  }
+  return options?.replyTo ? { 'm.relates_to': { 'm.in_reply_to': { 'event_id': options.replyTo } } } : {};
+}
+
+/**
+ * Connector for Matrix. With the `encryption` parameter the client loads Olm and keeps its keys
+ * in `storePath`, so encrypted rooms work like any other: decrypted messages arrive as `message`
+ * and `command` events, and replies are encrypted. Verification requests from `trustedUsers` are
+ * accepted automatically; others are emitted as `verificationRequest`. Either way the emoji are
+ * emitted as `verificationSas`, and a person who compared them with the other device calls
+ * `confirm()` or `mismatch()`.
+ */
+export class MatrixConnector extends Platform<MatrixEventMap> {
+  private client: MatrixClient;
+  private commandPrefix: string;
+  private autoJoin: boolean;
+  private userId: string;
+  private encryption?: MatrixEncryptionConfig;
+  // Timed mutes by room and user, with the power level to restore when they end
+  private mutes: Map<string, { powerLevel?: number; timer?: NodeJS.Timeout }> = new Map();
+
+  constructor(config: MatrixConfig) {
+    super(config);
+    this.commandPrefix = config.parameters.commandPrefix;
+    this.autoJoin = config.parameters.autoJoin || false;
+    this.userId = config.parameters.userId;
+    this.encryption = config.parameters.encryption;
+    
+    this.client = sdk.createClient({
+      baseUrl: config.parameters.homeserverUrl,
+      accessToken: config.parameters.accessToken,
+      userId: config.parameters.userId,
+      ...(this.encryption ? {
+        deviceId: this.encryption.deviceId,
+        pickleKey: this.encryption.pickleKey,
+        cryptoStore: new LocalStorageCryptoStore(new FileStorage(this.encryption.storePath))
+      } : {})
+    });
+  }
+
+  async connect(): Promise<void> {
+    try {
+      if (this.encryption) await this.initCrypto(this.encryption);
+      await this.client.startClient();
+      this.setupEventHandlers();
+      this.setConnected(true);
+      this.logger.info('Connected');
+    } catch (error) {
+      this.logger.error('Failed to connect to Matrix', { error });
+      this.emit('error', error as Error);
+      throw error;
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    try {
+      await this.client.stopClient();
+      this.setConnected(false);
+      this.logger.info('Disconnected');
+    } catch (error) {
+      this.logger.error('Failed to disconnect from Matrix', { error });
+      this.emit('error', error as Error);
+      throw error;
+    }
+  }
+
+  // Crypto has to be ready before the first sync, or encrypted events in it cannot be decrypted
+  private async initCrypto(encryption: MatrixEncryptionConfig): Promise<void> {
+    // Olm is only needed for encrypted rooms, so it is loaded on demand
+    globalThis.Olm ??= require('@matrix-org/olm');
+    await this.client.initCrypto();
+    // A bot cannot click through "unknown devices" warnings; share keys unless told to block
+    this.client.setGlobalErrorOnUnknownDevices(false);
+    this.client.getCrypto()!.globalBlacklistUnverifiedDevices = encryption.blockUnverifiedDevices || false;
+    this.logger.info('Initialized encryption', { device_id: encryption.deviceId });
+  }
+
+  private setupEventHandlers(): void {
+    this.client.on(RoomEvent.Timeline, (event: MatrixEvent, room: Room | undefined) => {
+      if (!room) return;
+      if (!this.encryption || !event.isEncrypted()) {
+        this.handleRoomEvent(event, room);
+        return;
+      }
+      this.client.decryptEventIfNeeded(event)
+        .then(() => this.handleDecryptedEvent(event, room))
+        .catch(error => this.logger.error('Failed to decrypt Matrix event', { error }));
+    });
+
+    // The client keeps retrying a failing sync; report the outage until it syncs again
+    this.client.on(ClientEvent.Sync, (state: SyncState, _previous: SyncState | null, data?: { error?: Error }) => {
+      if (state === SyncState.Error || state === SyncState.Reconnecting) {
+        this.setConnected(false, data?.error?.message || `Sync ${state.toLowerCase()}`);
+      } else if (state === SyncState.Syncing && this.client.clientRunning) {
+        this.setConnected(true);
+      }
+    });
+
+    if (this.autoJoin) {
+      this.client.on(RoomMemberEvent.Membership, (event: MatrixEvent, member: RoomMember) => {
+        if (member.membership === 'invite' && member.userId === this.userId) {
+          this.joinRoom(member.roomId);
+        }
+      });
+    }
+
+    if (this.encryption) {
+      this.client.on(CryptoEvent.VerificationRequestReceived, request => this.handleVerificationRequest(request));
+    }
+  }
+
+  private handleDecryptedEvent(event: MatrixEvent, room: Room): void {
+    if (!event.isDecryptionFailure()) {
+      this.handleRoomEvent(event, room);
+      return;
+    }
+    this.emit('decryptionFailed', {
+      eventId: event.getId()!,
+      roomId: room.roomId,
+      sender: event.getSender()!,
+      reason: event.getContent().body || 'Unable to decrypt'
+    });
+    // The room key often arrives after the message; the SDK then decrypts it again
+    event.once(MatrixEventEvent.Decrypted, () => {
+      if (!event.isDecryptionFailure()) this.handleRoomEvent(event, room);
+    });
+  }
+
+  private handleRoomEvent(event: MatrixEvent, room: Room): void {
+    if (event.getType() === 'm.room.message') {
+      this.handleMessage(event, room);
+    } else if (event.getType() === 'm.reaction') {
+      this.handleReaction(event, room);
+    }
+  }
+
+  private handleMessage(event: MatrixEvent, room: Room): void {
+    if (event.getSender() === this.userId) return;
+
+    const content = event.getContent();
+    const msgContent = content.body;
+    const sender = event.getSender()!;
+    const roomId = room.roomId;
+    const messageId = event.getId()!;
+    const timestamp = new Date(event.getTs());
+    const relation = content['m.relates_to'];
+    const threadId: string | undefined = relation?.rel_type === 'm.thread' ? relation.event_id : undefined;
+    // Thread messages from clients without thread support carry a fallback reply to the latest message
+    const replyTo: string | undefined = relation?.is_falling_back ? undefined : relation?.['m.in_reply_to']?.event_id;
+
+    // Check if it's a command
+    const parsed = parseCommandLine(msgContent, this.commandPrefix);
+    if (parsed) {
+      this.emit('command', {
+        ...parsed,
+        sender,
+        channelId: roomId,
+        messageId,
+        threadId,
+        replyTo,
+        timestamp
+      });
+      
+      return;
+    }
+    
+    // Process as regular message
+    const messageData: MessageData = {
+      content: msgContent,
+      sender,
+      channelId: roomId,
+      messageId,
+      threadId,
+      replyTo,
+      timestamp
+    };
+    
+    this.emit('message', messageData);
+  }
+
+  private handleReaction(event: MatrixEvent, room: Room): void {
+    const content = event.getContent();
+    const relation = content['m.relates_to'];
+    
+    if (relation && relation.rel_type === 'm.annotation' && relation.key && relation.event_id) {
+      this.emit('reaction', {
+        reaction: relation.key,
+        sender: event.getSender()!,
+        messageId: relation.event_id,
+        channelId: room.roomId,
+        timestamp: new Date(event.getTs())
+      });
+    }
+  }
+
+  private handleVerificationRequest(request: VerificationRequest): void {
+    const trusted = this.encryption?.trustedUsers?.includes(request.otherUserId) || false;
+    let verifying = false;
+    const onChange = () => {
+      if (request.phase === VerificationPhase.Cancelled || request.phase === VerificationPhase.Done) {
+        request.off(VerificationRequestEvent.Change, onChange);
+        return;
+      }
+      // The verifier appears once either side picks a method, e.g. the user clicks "Verify with emoji"
+      if (verifying || !request.verifier) return;
+      verifying = true;
+      this.runVerifier(request, request.verifier);
+    };
+    request.on(VerificationRequestEvent.Change, onChange);
+
+    if (trusted) {
+      request.accept().catch(error => this.logger.error('Failed to accept Matrix verification request', { error }));
+    } else {
+      this.emit('verificationRequest', {
+        userId: request.otherUserId,
+        deviceId: request.otherDeviceId,
+        roomId: request.roomId,
+        accept: () => request.accept(),
+        cancel: () => request.cancel()
+      });
+    }
+    onChange();
+  }
+
+  private runVerifier(request: VerificationRequest, verifier: Verifier): void {
+    // Never confirmed here: the emoji only prove the keys match once someone compares them
+    verifier.on(VerifierEvent.ShowSas, sas => {
+      this.emit('verificationSas', {
+        userId: request.otherUserId,
+        deviceId: request.otherDeviceId,
+        emoji: sas.sas.emoji?.map(([emoji, name]) => `${emoji} ${name}`),
+        decimal: sas.sas.decimal,
+        confirm: () => sas.confirm(),
+        mismatch: () => sas.mismatch()
+      });
+    });
+    verifier.verify()
+      .then(() => this.emit('deviceVerified', { userId: request.otherUserId, deviceId: request.otherDeviceId }))
+      .catch(error => this.logger.error(`Matrix verification with ${request.otherUserId} failed`, { error }));
+  }
+
+  // Marks a device as verified after comparing its keys out of band
+  async verifyDevice(userId: string, deviceId: string): Promise<void> {
+    try {
+      const crypto = this.client.getCrypto();
+      if (!crypto) throw new Error('Matrix encryption is not enabled');
+      await crypto.setDeviceVerified(userId, deviceId, true);
+    } catch (error) {
+      this.logger.error('Failed to verify Matrix device', { error });
+      this.emit('error', error as Error);
+      throw error;
+    }
+  }
+
+  async sendMessage(content: string, roomId: string, options?: SendOptions): Promise<void> {
+    const relation = relatesTo(options);
+    try {
+      for (const chunk of splitText(content, PLATFORM_MESSAGE_LIMITS.matrix)) {
+        await this.enqueueOutbound(roomId, () => relation['m.relates_to']
+          ? this.client.sendMessage(roomId, { msgtype: sdk.MsgType.Text, body: chunk, ...relation })
+          : this.client.sendTextMessage(roomId, chunk));
+      }
+    } catch (error) {
+      this.logger.error('Failed to send Matrix message', { error });
+      this.emit('error', error as Error);
+      throw error;
+    }
+  }
+
+  async sendRichMessage(message: RichMessage | string, roomId: string, options?: SendOptions): Promise<void> {
+    const { blocks, attachments = [] } = toRichMessage(message);
+    const relation = relatesTo(options);
+    // Linked attachments become part of the text; inline data is uploaded to the media repository
+    const links = attachments.filter(attachment => !attachment.data && attachment.url);
+    const linkBlocks = links.map(attachment => rich.paragraph(rich.link(attachment.url!, attachment.caption || attachment.filename)));
+    try {
+      for (const content of renderMatrix({ blocks: [...blocks, ...linkBlocks] })) {
+        await this.enqueueOutbound(roomId, () => this.client.sendMessage(roomId, { ...content, ...relation }));
+      }
+      for (const attachment of attachments) {
+        if (!attachment.data) continue;
+        const upload = await this.client.uploadContent(Buffer.from(attachment.data), {
+          name: attachment.filename,
+          type: attachment.mimeType
+        });
+        const msgtype = attachment.kind === 'image' ? sdk.MsgType.Image : attachment.kind === 'video' ? sdk.MsgType.Video : sdk.MsgType.File;
+        await this.enqueueOutbound(roomId, () => this.client.sendMessage(roomId, {
+          msgtype,
+          body: attachment.caption || attachment.filename || 'attachment',
+          url: upload.content_uri,
+          info: attachment.mimeType ? { mimetype: attachment.mimeType } : {},
+          ...relation
+        }));
+      }
+    } catch (error) {
+      this.logger.error('Failed to send Matrix message', { error });
+      this.emit('error', error as Error);
+      throw error;
+    }
+  }
+
+  async editMessage(roomId: string, messageId: string, newContent: string): Promise<void> {
+    try {
+      await this.enqueueOutbound(roomId, () => this.client.sendMessage(roomId, {
+        'msgtype': sdk.MsgType.Text,
+        'body': `* ${newContent}`,
+        'm.new_content': {
+          'msgtype': sdk.MsgType.Text,
+          'body': newContent
+        },
+        'm.relates_to': {
+          'rel_type': sdk.RelationType.Replace,
+          'event_id': messageId
+        }
+      }));
+    } catch (error) {
+      this.logger.error('Failed to edit Matrix message', { error });
+      this.emit('error', error as Error);
+      throw error;
+    }
+  }
+
+  async deleteMessage(roomId: string, messageId: string): Promise<void> {
+    try {
+      await this.enqueueOutbound(roomId, () => this.client.redactEvent(roomId, messageId));
+    } catch (error) {
+      this.logger.error('Failed to delete Matrix message', { error });
+      this.emit('error', error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * Muting lowers the user's power level below the room's default for sending messages. With
+   * `durationMs` a timer restores the previous level, so a mute still pending when the process
+   * exits stays in place.
+   */
+  async moderate(request: ModerationRequest): Promise<void> {
+    const { action, channelId: roomId, messageId, userId, reason } = request;
+    try {
+      if (!roomId) throw new Error(`Matrix ${action} needs a room ID`);
+      switch (action) {
+        case 'delete':
+          if (!messageId) throw new Error('Matrix delete needs an event ID');
+          await this.enqueueOutbound(roomId, () => this.client.redactEvent(roomId, messageId, undefined, { reason }));
+          break;
+        case 'mute':
+          await this.mute(roomId, userId, request.durationMs);
+          break;
+        case 'kick':
+          await this.enqueueOutbound(roomId, () => this.client.kick(roomId, userId, reason));
+          break;
+        case 'ban':
+          await this.enqueueOutbound(roomId, () => this.client.ban(roomId, userId, reason));
+          break;
+      }
+    } catch (error) {
+      this.logger.error(`Failed to ${action} on Matrix`, { error });
+      this.emit('error', error as Error);
+      throw error;
+    }
+  }
+
+  private async mute(roomId: string, userId: string, durationMs?: number): Promise<void> {
+    const key = `${roomId}|${userId}`;
+    const existing = this.mutes.get(key);
+    if (existing?.timer) clearTimeout(existing.timer);
+    // A repeated mute keeps the level from before the first one
+    const powerLevel = existing ? existing.powerLevel : this.getUserPowerLevel(roomId, userId);
+    this.mutes.set(key, { powerLevel });
+    await this.enqueueOutbound(roomId, () => this.client.setPowerLevel(roomId, userId, -1));
+    if (durationMs === undefined) return;
+
+    const timer = setTimeout(() => {
+      this.mutes.delete(key);
+      // An undefined level removes the user's entry, leaving them at the room default
+      this.enqueueOutbound(roomId, () => this.client.setPowerLevel(roomId, userId, powerLevel)).catch(error => {
+        this.logger.error('Failed to unmute on Matrix', { error });
+        this.emit('error', error as Error);
+      });
+    }, durationMs);
+    timer.unref();
+    this.mutes.set(key, { powerLevel, timer });
+  }
+
+  // The user's own entry in the room's power levels; undefined when they have the default
+  private getUserPowerLevel(roomId: string, userId: string): number | undefined {
+    const powerLevels = this.client.getRoom(roomId)?.currentState.getStateEvents('m.room.power_levels', '');
+    const level = powerLevels?.getContent().users?.[userId];
+    return typeof level === 'number' ? level : undefined;
+  }
+
+  async joinRoom(roomId: string): Promise<void> {
+    try {
+      await this.client.joinRoom(roomId);
+    } catch (error) {
+      this.logger.error('Failed to join Matrix room', { error });
+      this.emit('error', error as Error);
+      throw error;
+    }
+  }
+
+  async leaveRoom(roomId: string): Promise<void> {
+    try {
+      await this.client.leave(roomId);
+    } catch (error) {
+      this.logger.error('Failed to leave Matrix room', { error });
+      this.emit('error', error as Error);
+      throw error;
+    }
+  }
+
+  async addReaction(roomId: string, eventId: string, key: string): Promise<void> {
+    try {
+      await this.enqueueOutbound(roomId, () => this.client.sendEvent(roomId, sdk.EventType.Reaction, {
+        'm.relates_to': {
+          'rel_type': sdk.RelationType.Annotation,
+          'event_id': eventId,
+          'key': key
+        }
+      }));
+    } catch (error) {
+      this.logger.error('Failed to add Matrix reaction', { error });
+      this.emit('error', error as Error);
+      throw error;
+    }
+  }
+
+  async removeReaction(roomId: string, eventId: string, key: string): Promise<void> {
+    try {
+      // Find the reaction event
+      const room = this.client.getRoom(roomId);
+      if (!room) throw new Error(`Room not found: ${roomId}`);
+      
+      const timeline = room.getUnfilteredTimelineSet().getLiveTimeline().getEvents();
+      const reactionEvent = timeline.find(e => 
+        e.getType() === 'm.reaction' && 
+        e.getContent()?.['m.relates_to']?.event_id === eventId &&
+        e.getContent()?.['m.relates_to']?.key === key
+      );
+      
+      if (reactionEvent) {
+        await this.enqueueOutbound(roomId, () => this.client.redactEvent(roomId, reactionEvent.getId()!));
+      }
+    } catch (error) {
+      this.logger.error('Failed to remove Matrix reaction', { error });
+      this.emit('error', error as Error);
+      throw error;
+    }
+  }
+}
+
+platformRegistry.register('matrix', MatrixConnector);
@@ -1,206 +1,385 @@
-import { App, LogLevel } from '@slack/bolt';
-import { WebClient } from '@slack/web-api';
-import { Platform, PlatformConfig, MessageData } from '@juliaos/core';
-
-export interface SlackConfig extends PlatformConfig {
-  parameters: {
-    token: string;
-    signingSecret: string;
-    appToken: string;
-    commandPrefix: string;
-    port?: number;
-  };
-}
-
-export class SlackConnector extends Platform {
-  private app: App;
-  private client: WebClient;
-  private commandPrefix: string;
-
-  constructor(config: SlackConfig) {
-    super(config);
-    this.commandPrefix = config.parameters.commandPrefix;
-    
-    this.app = new App({
-      token: config.parameters.token,
-      signingSecret: config.parameters.signingSecret,
-      socketMode: true,
-      appToken: config.parameters.appToken,
-      port: config.parameters.port || 3000,
-      logLevel: LogLevel.DEBUG
-    });
-
-    this.client = new WebClient(config.parameters.token);
-    this.setupEventHandlers();
-  }
-
-  private setupEventHandlers() {
-    // Handle messages
-    this.app.message(async ({ message, say }) => {
-      if (message.subtype === 'bot_message') return;
-
-      const content = 'text' in message && typeof message.text === 'string' ? message.text : '';
-      
-      // Check if it's a command
-      if (content.startsWith(this.commandPrefix)) {
-        const commandContent = content.slice(this.commandPrefix.length).trim();
-        const commandParts = commandContent.split(/\s+/);
-        const command = commandParts[0];
-        const args = commandParts.slice(1);
-        
-        this.emit('command', {
-          command,
-          args,
-          content: commandContent,
-          sender: 'user' in message ? message.user : 'unknown',
-          channelId: message.channel,
-          messageId: message.ts,
-          timestamp: new Date(Number(message.ts) * 1000)
-        });
-        
-        return;
-      }
-
-      // Emit message event
-      const messageData: MessageData = {
-        content,
-        sender: 'user' in message ? message.user : 'unknown',
-        channelId: message.channel,
-        timestamp: new Date(Number(message.ts) * 1000)
-      };
-      
-      this.emit('message', messageData);
-    });
-
-    // Handle app mentions
-    this.app.event('app_mention', async ({ event }) => {
-      this.emit('mention', {
-        content: event.text,
-        sender: event.user,
-        channelId: event.channel,
-        timestamp: new Date(Number(event.ts) * 1000)
-      });
-    });
-
-    // Handle reactions
-    this.app.event('reaction_added', async ({ event }) => {
-      this.emit('reactionAdded', {
-        reaction: event.reaction,
-        sender: event.user,
-        messageId: event.item.ts,
-        channelId: event.item.channel,
-        timestamp: new Date()
-      });
-    });
-  }
-
-  async connect(): Promise<void> {
-    try {
-      await this.app.start();
-      this.setConnected(true);
-      console.log(`Slack connector ${this.name} connected successfully`);
-    } catch (error) {
-      console.error('Failed to connect to Slack:', error);
-      this.emit('error', error);
-      throw error;
-    }
-  }
-
-  async disconnect(): Promise<void> {
-    try {
-      await this.app.stop();
-      this.setConnected(false);
-      console.log(`Slack connector ${this.name} disconnected`);
-    } catch (error) {
-      console.error('Failed to disconnect from Slack:', error);
-      this.emit('error', error);
-      throw error;
-    }
-  }
-
-  async start(): Promise<void> {
-    if (!this.isActive()) {
-      await this.connect();
-    }
-  }
-
-  async stop(): Promise<void> {
-    if (this.isActive()) {
-      await this.disconnect();
-    }
-  }
-
-  async sendMessage(content: string, channelId: string, threadTs?: string): Promise<void> {
-    try {
-      const params: any = {
-        channel: channelId,
-        text: content
-      };
-
-      if (threadTs) {
-        params.thread_ts = threadTs;
-      }
-
-      await this.client.chat.postMessage(params);
-    } catch (error) {
-      console.error('Failed to send Slack message:', error);
-      this.emit('error', error);
-      throw error;
-    }
-  }
-
-  async updateMessage(content: string, channelId: string, messageId: string): Promise<void> {
-    try {
-      await this.client.chat.update({
-        channel: channelId,
-        ts: messageId,
-        text: content
-      });
-    } catch (error) {
-      console.error('Failed to update Slack message:', error);
-      this.emit('error', error);
-      throw error;
-    }
-  }
-
-  async deleteMessage(channelId: string, messageId: string): Promise<void> {
-    try {
-      await this.client.chat.delete({
-        channel: channelId,
-        ts: messageId
-      });
-    } catch (error) {
-      console.error('Failed to delete Slack message:', error);
-      this.emit('error', error);
-      throw error;
-    }
-  }
-
-  async addReaction(reaction: string, channelId: string, messageId: string): Promise<void> {
-    try {
-      await this.client.reactions.add({
-        channel: channelId,
-        timestamp: messageId,
-        name: reaction
-      });
-    } catch (error) {
-      console.error('Failed to add Slack reaction:', error);
-      this.emit('error', error);
-      throw error;
-    }
-  }
-
-  async removeReaction(reaction: string, channelId: string, messageId: string): Promise<void> {
-    try {
-      await this.client.reactions.remove({
-        channel: channelId,
-        timestamp: messageId,
-        name: reaction
-      });
-    } catch (error) {
-      console.error('Failed to remove Slack reaction:', error);
-      this.emit('error', error);
-      throw error;
-    }
-  }
-} 
\ No newline at end of file
+import { App, Logger as SlackLogger, LogLevel, RespondFn } from '@slack/bolt';
+import { WebClient } from '@slack/web-api';
+import {
+  Logger,
+  Platform,
+  PlatformConfig,
+  MessageData,
+  ModerationRequest,
+  RichMessage,
+  RichModal,
+  SendOptions,
+  platformRegistry,
+  parseCommandLine,
+  renderSlack,
+  renderSlackModal,
+  splitText,
+  toRichMessage,
+  tokenizeCommandLine,
+} from '@juliaos/core';
+
+// Slack truncates longer message texts
+const SLACK_TEXT_LIMIT = 4000;
+
+export interface SlackConfig extends PlatformConfig {
+  parameters: {
+    token: string;
+    signingSecret: string;
+    appToken: string;
+    commandPrefix: string;
+    port?: number;
+  };
+}
+
+// Bolt and the Web API client log through the connector's logger, whose level decides what shows
+function slackLogger(logger: Logger): SlackLogger {
+  let level = LogLevel.DEBUG;
+  const write = (method: 'debug' | 'info' | 'warn' | 'error') => (...msg: any[]) => {
+    const error = msg.find(item => item instanceof Error);
+    const details = msg.filter(item => typeof item !== 'string' && item !== error);
+    logger[method](msg.filter(item => typeof item === 'string').join(' '), {
+      ...(error ? { error } : {}),
+      ...(details.length > 0 ? { details } : {}),
+    });
+  };
+  return {
+    debug: write('debug'),
+    info: write('info'),
+    warn: write('warn'),
+    error: write('error'),
+    setLevel: next => (level = next),
+    getLevel: () => level,
+    setName: () => undefined,
+  };
+}
+
+// Slack replies to a message by starting or continuing the thread under it
+function threadTsOf(options?: SendOptions): string | undefined {
+  return options?.threadId || options?.replyTo;
+}
+
+export class SlackConnector extends Platform {
+  private app: App;
+  private client: WebClient;
+  private commandPrefix: string;
+
+  constructor(config: SlackConfig) {
+    super(config);
+    this.commandPrefix = config.parameters.commandPrefix;
+    
+    this.app = new App({
+      token: config.parameters.token,
+      signingSecret: config.parameters.signingSecret,
+      socketMode: true,
+      appToken: config.parameters.appToken,
+      port: config.parameters.port || 3000,
+      logger: slackLogger(this.logger)
+    });
+
+    this.client = new WebClient(config.parameters.token, { logger: slackLogger(this.logger) });
+    this.setupEventHandlers();
+  }
+
+  private setupEventHandlers() {
+    // Handle messages
+    this.app.message(async ({ message, say }) => {
+      if (message.subtype === 'bot_message') return;
+
+      const content = 'text' in message && typeof message.text === 'string' ? message.text : '';
+      const threadId = 'thread_ts' in message ? message.thread_ts : undefined;
+      
+      // Check if it's a command
+      const parsed = parseCommandLine(content, this.commandPrefix);
+      if (parsed) {
+        this.emit('command', {
+          ...parsed,
+          sender: ('user' in message && message.user) || 'unknown',
+          channelId: message.channel,
+          messageId: message.ts,
+          threadId,
+          timestamp: new Date(Number(message.ts) * 1000)
+        });
+        
+        return;
+      }
+
+      // Emit message event
+      const messageData: MessageData = {
+        content,
+        sender: ('user' in message && message.user) || 'unknown',
+        channelId: message.channel,
+        messageId: message.ts,
+        threadId,
+        timestamp: new Date(Number(message.ts) * 1000)
+      };
+      
+      this.emit('message', messageData);
+    });
+
+    // Handle app mentions
+    this.app.event('app_mention', async ({ event }) => {
+      this.emit('mention', {
+        content: event.text,
+        sender: event.user || 'unknown',
+        channelId: event.channel,
+        messageId: event.ts,
+        threadId: event.thread_ts,
+        timestamp: new Date(Number(event.ts) * 1000)
+      });
+    });
+
+    // Handle reactions
+    this.app.event('reaction_added', async ({ event }) => {
+      if (event.item.type !== 'message') return;
+      this.emit('reaction', {
+        reaction: event.reaction,
+        sender: event.user,
+        messageId: event.item.ts,
+        channelId: event.item.channel,
+        timestamp: new Date(Number(event.event_ts) * 1000)
+      });
+    });
+
+    // Handle buttons and select menus
+    this.app.action({ type: 'block_actions' }, async ({ ack, body, action, respond }) => {
+      await ack();
+      let values: string[];
+      if (action.type === 'button') {
+        values = action.value !== undefined ? [action.value] : [];
+      } else if (action.type === 'static_select') {
+        values = action.selected_option ? [action.selected_option.value] : [];
+      } else if (action.type === 'multi_static_select') {
+        values = action.selected_options.map(option => option.value);
+      } else {
+        return;
+      }
+      const channelId = body.channel?.id;
+      this.emit('interaction', {
+        kind: action.type === 'button' ? 'button' : 'select',
+        actionId: action.action_id,
+        values,
+        sender: body.user.id,
+        senderName: body.user.username || body.user.name,
+        channelId,
+        messageId: body.message?.ts,
+        timestamp: new Date(Number(action.action_ts) * 1000),
+        reply: this.replyWith(respond),
+        openModal: modal => this.openModal(body.trigger_id, modal, channelId)
+      });
+    });
+
+    // Handle modal submissions; the modal carries the channel it was opened from
+    this.app.view({ type: 'view_submission' }, async ({ ack, body, view }) => {
+      await ack();
+      const fields: Record<string, string> = {};
+      for (const [blockId, inputs] of Object.entries(view.state.values)) {
+        for (const input of Object.values(inputs)) {
+          fields[blockId] = input.value ?? input.selected_option?.value ?? '';
+        }
+      }
+      const channelId = view.private_metadata || undefined;
+      this.emit('interaction', {
+        kind: 'modal',
+        actionId: view.callback_id,
+        values: [],
+        fields,
+        sender: body.user.id,
+        senderName: body.user.name,
+        channelId,
+        timestamp: new Date(),
+        reply: channelId ? message => this.sendRichMessage(message, channelId) : undefined
+      });
+    });
+
+    // Handle slash commands configured for the app
+    this.app.command(/.*/, async ({ ack, command, respond }) => {
+      await ack();
+      this.emit('interaction', {
+        kind: 'slash',
+        actionId: command.command.replace(/^\//, ''),
+        values: tokenizeCommandLine(command.text),
+        sender: command.user_id,
+        senderName: command.user_name,
+        channelId: command.channel_id,
+        timestamp: new Date(),
+        reply: this.replyWith(respond),
+        openModal: modal => this.openModal(command.trigger_id, modal, command.channel_id)
+      });
+    });
+  }
+
+  // Replies through the interaction's response URL, which also works where the bot is not a member
+  private replyWith(respond: RespondFn) {
+    return async (message: RichMessage | string) => {
+      for (const payload of renderSlack(toRichMessage(message))) {
+        await respond({ text: payload.text, blocks: payload.blocks, response_type: 'in_channel', replace_original: false });
+      }
+    };
+  }
+
+  private async openModal(triggerId: string, modal: RichModal, channelId?: string): Promise<void> {
+    try {
+      await this.client.views.open({ trigger_id: triggerId, view: renderSlackModal(modal, channelId) });
+    } catch (error) {
+      this.logger.error('Failed to open Slack modal', { error });
+      this.emit('error', error as Error);
+      throw error;
+    }
+  }
+
+  async connect(): Promise<void> {
+    try {
+      await this.app.start();
+      this.setConnected(true);
+      this.logger.info('Connected');
+    } catch (error) {
+      this.logger.error('Failed to connect to Slack', { error });
+      this.emit('error', error as Error);
+      throw error;
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    try {
+      await this.app.stop();
+      this.setConnected(false);
+      this.logger.info('Disconnected');
+    } catch (error) {
+      this.logger.error('Failed to disconnect from Slack', { error });
+      this.emit('error', error as Error);
+      throw error;
+    }
+  }
+
+  async sendMessage(content: string, channelId: string, options?: SendOptions): Promise<void> {
+    const threadTs = threadTsOf(options);
+    try {
+      for (const chunk of splitText(content, SLACK_TEXT_LIMIT)) {
+        const params: any = {
+          channel: channelId,
+          text: chunk
+        };
+
+        if (threadTs) {
+          params.thread_ts = threadTs;
+        }
+
+        await this.enqueueOutbound(channelId, () => this.client.chat.postMessage(params));
+      }
+    } catch (error) {
+      this.logger.error('Failed to send Slack message', { error });
+      this.emit('error', error as Error);
+      throw error;
+    }
+  }
+
+  async sendRichMessage(message: RichMessage | string, channelId: string, options?: SendOptions): Promise<void> {
+    const rich = toRichMessage(message);
+    const threadTs = threadTsOf(options);
+    try {
+      for (const payload of renderSlack(rich)) {
+        await this.enqueueOutbound(channelId, () => this.client.chat.postMessage({
+          channel: channelId,
+          text: payload.text,
+          blocks: payload.blocks,
+          ...(threadTs ? { thread_ts: threadTs } : {})
+        }));
+      }
+      // Attachments with a URL are rendered as blocks; inline data is uploaded
+      for (const attachment of rich.attachments || []) {
+        if (!attachment.data) continue;
+        await this.enqueueOutbound(channelId, () => this.client.files.uploadV2({
+          channel_id: channelId,
+          file: Buffer.from(attachment.data!),
+          filename: attachment.filename || 'attachment',
+          ...(attachment.caption ? { initial_comment: attachment.caption } : {}),
+          ...(threadTs ? { thread_ts: threadTs } : {})
+        }));
+      }
+    } catch (error) {
+      this.logger.error('Failed to send Slack message', { error });
+      this.emit('error', error as Error);
+      throw error;
+    }
+  }
+
+  async updateMessage(content: string, channelId: string, messageId: string): Promise<void> {
+    try {
+      await this.enqueueOutbound(channelId, () => this.client.chat.update({
+        channel: channelId,
+        ts: messageId,
+        text: content
+      }));
+    } catch (error) {
+      this.logger.error('Failed to update Slack message', { error });
+      this.emit('error', error as Error);
+      throw error;
+    }
+  }
+
+  async deleteMessage(channelId: string, messageId: string): Promise<void> {
+    try {
+      await this.enqueueOutbound(channelId, () => this.client.chat.delete({
+        channel: channelId,
+        ts: messageId
+      }));
+    } catch (error) {
+      this.logger.error('Failed to delete Slack message', { error });
+      this.emit('error', error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * Slack only lets apps delete messages and remove users from channels; deleting other users'
+   * messages needs a user token with admin rights. Mutes and bans are workspace admin features.
+   */
+  async moderate(request: ModerationRequest): Promise<void> {
+    const { action, channelId, messageId, userId } = request;
+    try {
+      if (!channelId) throw new Error(`Slack ${action} needs a channel ID`);
+      if (action === 'delete') {
+        if (!messageId) throw new Error('Slack delete needs a message ID');
+        await this.enqueueOutbound(channelId, () => this.client.chat.delete({ channel: channelId, ts: messageId }));
+      } else if (action === 'kick') {
+        await this.enqueueOutbound(channelId, () => this.client.conversations.kick({ channel: channelId, user: userId }));
+      } else {
+        throw new Error(`slack connector does not support ${action}`);
+      }
+    } catch (error) {
+      this.logger.error(`Failed to ${action} on Slack`, { error });
+      this.emit('error', error as Error);
+      throw error;
+    }
+  }
+
+  async addReaction(reaction: string, channelId: string, messageId: string): Promise<void> {
+    try {
+      await this.enqueueOutbound(channelId, () => this.client.reactions.add({
+        channel: channelId,
+        timestamp: messageId,
+        name: reaction
+      }));
+    } catch (error) {
+      this.logger.error('Failed to add Slack reaction', { error });
+      this.emit('error', error as Error);
+      throw error;
+    }
+  }
+
+  async removeReaction(reaction: string, channelId: string, messageId: string): Promise<void> {
+    try {
+      await this.enqueueOutbound(channelId, () => this.client.reactions.remove({
+        channel: channelId,
+        timestamp: messageId,
+        name: reaction
+      }));
+    } catch (error) {
+      this.logger.error('Failed to remove Slack reaction', { error });
+      this.emit('error', error as Error);
+      throw error;
+    }
+  }
+}
+
+platformRegistry.register('slack', SlackConnector);
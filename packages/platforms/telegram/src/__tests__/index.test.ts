@@ -0,0 +1,183 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { Telegraf, Telegram } from 'telegraf';
+import { CommandData, InteractionData, MessageData, rich } from '@juliaos/core';
+import { TelegramConfig, TelegramConnector } from '../index';
+
+const chat = { id: -1001, type: 'supergroup' as const, title: 'Support' };
+const alice = { id: 7, is_bot: false, first_name: 'Alice', username: 'alice' };
+
+// Telegram Bot API results for the calls the connector makes
+const API_RESULTS: Record<string, any> = {
+  getMe: { id: 1, is_bot: true, first_name: 'Bot', username: 'support_bot' },
+  sendMessage: { message_id: 100, date: 1700000000, chat, text: '' },
+  sendPhoto: { message_id: 101, date: 1700000000, chat, photo: [] },
+};
+
+describe('TelegramConnector', () => {
+  let connector: TelegramConnector;
+  let calls: Array<{ method: string; payload: any }>;
+  let messages: MessageData[];
+  let commands: CommandData[];
+
+  const config = (parameters: Partial<TelegramConfig['parameters']> = {}): TelegramConfig => ({
+    name: 'support',
+    type: 'telegram',
+    parameters: { token: '123:abc', commandPrefix: '/', outbound: false, ...parameters } as TelegramConfig['parameters'],
+  });
+
+  const create = (parameters: Partial<TelegramConfig['parameters']> = {}) => {
+    connector = new TelegramConnector(config(parameters));
+    // Each update's context gets its own Telegram client, so stub the API on the prototype
+    jest.spyOn(Telegram.prototype, 'callApi').mockImplementation((async (method: string, payload: any) => {
+      calls.push({ method, payload });
+      return API_RESULTS[method] ?? true;
+    }) as any);
+    connector.on('message', data => messages.push(data));
+    connector.on('command', data => commands.push(data));
+    return (connector as any).bot as Telegraf;
+  };
+
+  let updateId = 0;
+  const message = (fields: Record<string, any>) => ({
+    message_id: 42,
+    date: 1700000000,
+    chat,
+    from: alice,
+    ...fields,
+  });
+
+  beforeEach(() => {
+    calls = [];
+    messages = [];
+    commands = [];
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('webhook mode', () => {
+    const webhook = { domain: 'bots.example.com', secretToken: 'shared-Secret_1' };
+    let server: http.Server;
+
+    afterEach(async () => {
+      if (server) await new Promise<void>(resolve => server.close(() => resolve()));
+    });
+
+    const post = (path: string, body: any, headers: Record<string, string> = {}) =>
+      new Promise<number>((resolve, reject) => {
+        const req = http.request(
+          { host: '127.0.0.1', port: (server.address() as AddressInfo).port, path, method: 'POST', headers: { 'Content-Type': 'application/json', ...headers } },
+          res => {
+            res.resume();
+            res.on('end', () => resolve(res.statusCode!));
+          }
+        );
+        req.on('error', reject);
+        req.end(JSON.stringify(body));
+      });
+
+    it('should require a valid secret token', () => {
+      expect(() => new TelegramConnector(config({ webhook: { domain: 'bots.example.com' } as any }))).toThrow(/secretToken/);
+      expect(() => new TelegramConnector(config({ webhook: { ...webhook, secretToken: 'not allowed!' } }))).toThrow(/secretToken/);
+    });
+
+    it('should register the webhook with the secret token', async () => {
+      create({ webhook });
+
+      await connector.start();
+
+      expect(calls).toContainEqual({
+        method: 'setWebhook',
+        payload: { url: 'https://bots.example.com/telegram/support', secret_token: 'shared-Secret_1', drop_pending_updates: undefined },
+      });
+      expect(connector.isActive()).toBe(true);
+      await connector.stop();
+    });
+
+    it('should only accept updates carrying the secret token', async () => {
+      create({ webhook });
+      const callback = connector.webhookCallback();
+      server = http.createServer((req, res) => callback(req, res));
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      const update = { update_id: ++updateId, message: message({ text: 'hello' }) };
+
+      expect(await post('/telegram/support', update)).toBe(403);
+      expect(await post('/telegram/support', update, { 'X-Telegram-Bot-Api-Secret-Token': 'wrong' })).toBe(403);
+      expect(messages).toEqual([]);
+
+      expect(await post('/telegram/support', update, { 'X-Telegram-Bot-Api-Secret-Token': webhook.secretToken })).toBe(200);
+      expect(messages).toEqual([expect.objectContaining({ content: 'hello', sender: '7', channelId: '-1001' })]);
+    });
+  });
+
+  it('should emit button and menu choices as interactions and answer the callback query', async () => {
+    const bot = create();
+    const interactions: InteractionData[] = [];
+    connector.on('interaction', data => interactions.push(data));
+    const callbackQuery = (data: string) => ({
+      update_id: ++updateId,
+      callback_query: { id: `q${updateId}`, from: alice, chat_instance: 'c1', data, message: message({ message_id: 55, text: 'Approve?' }) },
+    });
+
+    await bot.handleUpdate(callbackQuery('approve|yes') as any);
+    await bot.handleUpdate(callbackQuery('plan#pro') as any);
+
+    expect(calls.filter(call => call.method === 'answerCallbackQuery')).toHaveLength(2);
+    expect(interactions).toEqual([
+      expect.objectContaining({ kind: 'button', actionId: 'approve', values: ['yes'], sender: '7', channelId: '-1001', messageId: '55' }),
+      expect.objectContaining({ kind: 'select', actionId: 'plan', values: ['pro'] }),
+    ]);
+
+    await interactions[0].reply!('Approved');
+    expect(calls).toContainEqual({ method: 'sendMessage', payload: expect.objectContaining({ chat_id: '-1001', text: 'Approved' }) });
+  });
+
+  it('should emit edited messages with the edit time', async () => {
+    const bot = create();
+    const edits: MessageData[] = [];
+    connector.on('messageEdited', data => edits.push(data));
+
+    await bot.handleUpdate({ update_id: ++updateId, edited_message: message({ text: 'fixed typo', edit_date: 1700000060 }) } as any);
+
+    expect(edits).toEqual([expect.objectContaining({ content: 'fixed typo', messageId: '42', timestamp: new Date(1700000060 * 1000) })]);
+    expect(messages).toEqual([]);
+  });
+
+  it('should emit media with its caption and the largest photo size', async () => {
+    const bot = create();
+    const photo = [
+      { file_id: 'small', file_unique_id: 's', width: 90, height: 90, file_size: 1000 },
+      { file_id: 'large', file_unique_id: 'l', width: 1280, height: 1280, file_size: 90000 },
+    ];
+    const document = { file_id: 'doc', file_unique_id: 'd', file_name: 'report.pdf', mime_type: 'application/pdf', file_size: 2048 };
+
+    await bot.handleUpdate({ update_id: ++updateId, message: message({ photo, caption: 'Screenshot' }) } as any);
+    await bot.handleUpdate({ update_id: ++updateId, message: message({ message_id: 43, document, caption: '/summarize short' }) } as any);
+
+    expect(messages).toEqual([
+      expect.objectContaining({ content: 'Screenshot', attachments: [{ kind: 'image', fileId: 'large', size: 90000 }] }),
+    ]);
+    expect(commands).toEqual([
+      expect.objectContaining({
+        command: 'summarize',
+        args: ['short'],
+        attachments: [{ kind: 'file', fileId: 'doc', filename: 'report.pdf', mimeType: 'application/pdf', size: 2048 }],
+      }),
+    ]);
+  });
+
+  it('should send rich message attachments with their caption in the thread', async () => {
+    create();
+
+    await connector.sendRichMessage(
+      { blocks: [rich.paragraph('Chart')], attachments: [{ kind: 'image', url: 'https://example.com/chart.png', caption: 'Weekly' }] },
+      '-1001',
+      { threadId: '9' }
+    );
+
+    expect(calls.map(call => call.method)).toEqual(['sendMessage', 'sendPhoto']);
+    expect(calls[1].payload).toEqual(expect.objectContaining({ chat_id: '-1001', caption: 'Weekly', message_thread_id: 9 }));
+  });
+});
@@ -1,127 +1,423 @@
-import { Telegraf, Context } from 'telegraf';
-import { Update, Message } from 'telegraf/types';
-import { Platform, PlatformConfig, MessageData } from '@juliaos/core';
-
-export interface TelegramConfig extends PlatformConfig {
-  parameters: {
-    token: string;
-    commandPrefix: string;
-  };
-}
-
-export class TelegramConnector extends Platform {
-  private bot: Telegraf;
-  private commandPrefix: string;
-
-  constructor(config: TelegramConfig) {
-    super(config);
-    this.commandPrefix = config.parameters.commandPrefix;
-    
-    console.log('Initializing Telegram bot with token:', config.parameters.token.slice(0, 10) + '...');
-    this.bot = new Telegraf(config.parameters.token);
-    
-    // Set up error handling
-    this.bot.catch((err: any) => {
-      console.error('Telegram Error:', err);
-      if (err.response) {
-        console.error('Error response:', {
-          code: err.response.error_code,
-          description: err.response.description
-        });
-      }
-      this.emit('error', err);
-    });
-    
-    this.setupMessageHandlers();
-  }
-
-  async connect(): Promise<void> {
-    try {
-      // Initialize bot webhook or polling
-      await this.bot.launch();
-      this.setConnected(true);
-      console.log(`Telegram connector ${this.name} connected successfully`);
-    } catch (error) {
-      console.error('Failed to connect to Telegram:', error);
-      this.emit('error', error);
-      throw error;
-    }
-  }
-
-  async disconnect(): Promise<void> {
-    try {
-      // Stop the bot
-      await this.bot.stop();
-      this.setConnected(false);
-      console.log(`Telegram connector ${this.name} disconnected`);
-    } catch (error) {
-      console.error('Failed to disconnect from Telegram:', error);
-      this.emit('error', error);
-      throw error;
-    }
-  }
-
-  async start(): Promise<void> {
-    if (!this.isActive()) {
-      await this.connect();
-    }
-  }
-
-  async stop(): Promise<void> {
-    if (this.isActive()) {
-      await this.disconnect();
-    }
-  }
-
-  async sendMessage(message: string, chatId: string): Promise<void> {
-    try {
-      await this.bot.telegram.sendMessage(chatId, message);
-    } catch (error) {
-      console.error('Failed to send Telegram message:', error);
-      this.emit('error', error);
-      throw error;
-    }
-  }
-
-  private setupMessageHandlers(): void {
-    // Handle text messages
-    this.bot.on('text', async (ctx: Context) => {
-      const msg = ctx.message as Message.TextMessage;
-      console.log('Received Telegram message:', {
-        text: msg.text,
-        from: msg.from?.username,
-        chatId: msg.chat.id
-      });
-      
-      // Handle commands
-      if (msg.text.startsWith(this.commandPrefix)) {
-        const commandContent = msg.text.slice(this.commandPrefix.length).trim();
-        const commandParts = commandContent.split(/\s+/);
-        const command = commandParts[0];
-        const args = commandParts.slice(1);
-        
-        this.emit('command', {
-          command,
-          args,
-          content: commandContent,
-          sender: msg.from?.id.toString() || 'unknown',
-          senderName: msg.from?.username || 'unknown',
-          chatId: msg.chat.id.toString(),
-          timestamp: new Date(msg.date * 1000)
-        });
-        
-        return;
-      }
-
-      // Handle regular messages
-      const messageData: MessageData = {
-        content: msg.text,
-        sender: msg.from?.id.toString() || 'unknown',
-        chatId: msg.chat.id.toString(),
-        timestamp: new Date(msg.date * 1000)
-      };
-
-      this.emit('message', messageData);
-    });
-  }
+import { Telegraf, Context } from 'telegraf';
+import { Message, User } from 'telegraf/types';
+import {
+  Platform,
+  PlatformConfig,
+  PlatformEventMap,
+  MessageData,
+  MessageAttachment,
+  ModerationRequest,
+  RichMessage,
+  SendOptions,
+  TelegramParseMode,
+  PLATFORM_MESSAGE_LIMITS,
+  parseCommandLine,
+  parseTelegramCallbackData,
+  renderTelegram,
+  renderTelegramKeyboard,
+  splitText,
+  toRichMessage,
+} from '@juliaos/core';
+
+export interface TelegramWebhookConfig {
+  domain: string; // Public host Telegram posts updates to, e.g. bots.example.com
+  path?: string; // Defaults to /telegram/<connector name>
+  secretToken: string; // Sent by Telegram in X-Telegram-Bot-Api-Secret-Token; other requests get 403. 1-256 of A-Z, a-z, 0-9, _ and -
+  port?: number; // Listen on this port; without it, mount `webhookCallback()` on your own server
+  host?: string;
+}
+
+export interface TelegramConfig extends PlatformConfig {
+  parameters: {
+    token: string;
+    commandPrefix: string;
+    parseMode?: TelegramParseMode; // Used by sendRichMessage, defaults to HTML
+    webhook?: TelegramWebhookConfig; // Receive updates by webhook instead of long polling
+    dropPendingUpdates?: boolean;
+  };
+}
+
+// A user who joined or left a group
+export interface TelegramMemberData {
+  userId: string;
+  username?: string;
+  isBot: boolean;
+  channelId: string;
+  addedBy?: string; // User ID of the member who added or removed them, if not themselves
+  timestamp: Date;
+}
+
+export interface TelegramEventMap extends PlatformEventMap {
+  memberJoined: [TelegramMemberData];
+  memberLeft: [TelegramMemberData];
+  messageEdited: [MessageData];
+}
+
+function messageAttachments(msg: Message): MessageAttachment[] {
+  if ('photo' in msg) {
+    // Telegram sends every size; the last one is the largest
+    const photo = msg.photo[msg.photo.length - 1];
+    return [{ kind: 'image', fileId: photo.file_id, size: photo.file_size }];
+  }
+  if ('video' in msg) {
+    return [{ kind: 'video', fileId: msg.video.file_id, filename: msg.video.file_name, mimeType: msg.video.mime_type, size: msg.video.file_size }];
+  }
+  if ('audio' in msg) {
+    return [{ kind: 'audio', fileId: msg.audio.file_id, filename: msg.audio.file_name, mimeType: msg.audio.mime_type, size: msg.audio.file_size }];
+  }
+  if ('voice' in msg) {
+    return [{ kind: 'audio', fileId: msg.voice.file_id, mimeType: msg.voice.mime_type, size: msg.voice.file_size }];
+  }
+  if ('document' in msg) {
+    return [{ kind: 'file', fileId: msg.document.file_id, filename: msg.document.file_name, mimeType: msg.document.mime_type, size: msg.document.file_size }];
+  }
+  if ('sticker' in msg) {
+    return [{ kind: 'sticker', fileId: msg.sticker.file_id, size: msg.sticker.file_size }];
+  }
+  return [];
+}
+
+// Telegram's allowed alphabet for webhook secret tokens
+const SECRET_TOKEN_PATTERN = /^[A-Za-z0-9_-]{1,256}$/;
+
+// Forum topic and reply fields of outgoing messages; replies to deleted messages are sent without the quote
+function sendTarget(options?: SendOptions): { message_thread_id?: number; reply_parameters?: { message_id: number; allow_sending_without_reply: boolean } } {
+  return {
+    ...(options?.threadId ? { message_thread_id: Number(options.threadId) } : {}),
+    ...(options?.replyTo ? { reply_parameters: { message_id: Number(options.replyTo), allow_sending_without_reply: true } } : {}),
+  };
+}
+
+/**
+ * Connector for Telegram bots. Updates arrive by long polling, or by webhook when the `webhook`
+ * parameter is set: with a `port` the connector runs its own server, otherwise mount
+ * `webhookCallback()` on an existing one, e.g. `app.use(telegram.webhookCallback())`.
+ * Webhook mode requires a `secretToken` so only Telegram can post updates; replicas share it.
+ */
+export class TelegramConnector extends Platform<TelegramEventMap> {
+  private bot: Telegraf;
+  private commandPrefix: string;
+  private parseMode: TelegramParseMode;
+  private webhook?: TelegramWebhookConfig;
+
+  constructor(config: TelegramConfig) {
+    super(config);
+    this.commandPrefix = config.parameters.commandPrefix;
+    this.parseMode = config.parameters.parseMode || 'HTML';
+    this.webhook = config.parameters.webhook;
+    if (this.webhook && !SECRET_TOKEN_PATTERN.test(this.webhook.secretToken || '')) {
+      throw new Error('Telegram webhook mode needs webhook.secretToken: 1-256 characters of A-Z, a-z, 0-9, _ and -');
+    }
+    
+    this.bot = new Telegraf(config.parameters.token);
+    
+    // Set up error handling
+    this.bot.catch((err: any) => {
+      this.logger.error('Unhandled bot error', {
+        error: err,
+        code: err.response?.error_code,
+        description: err.response?.description
+      });
+      this.emit('error', err);
+    });
+    
+    this.setupMessageHandlers();
+  }
+
+  async connect(): Promise<void> {
+    try {
+      if (!this.webhook) {
+        await this.launchPolling();
+      } else if (this.webhook.port) {
+        await this.bot.launch({
+          webhook: { ...this.webhook, path: this.webhookPath() },
+          dropPendingUpdates: this.parameters.dropPendingUpdates
+        });
+      } else {
+        // Updates arrive through webhookCallback(); replicas behind a load balancer all set the same URL
+        await this.bot.telegram.setWebhook(`https://${this.webhook.domain}${this.webhookPath()}`, {
+          secret_token: this.webhook.secretToken,
+          drop_pending_updates: this.parameters.dropPendingUpdates
+        });
+      }
+      this.setConnected(true);
+      this.logger.info('Connected');
+    } catch (error) {
+      this.logger.error('Failed to connect to Telegram', { error });
+      this.emit('error', error as Error);
+      throw error;
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    try {
+      // Stop polling or the webhook server; a mounted webhook stays registered for the other replicas
+      if (!this.webhook || this.webhook.port) {
+        this.bot.stop();
+      }
+      this.setConnected(false);
+      this.logger.info('Disconnected');
+    } catch (error) {
+      this.logger.error('Failed to disconnect from Telegram', { error });
+      this.emit('error', error as Error);
+      throw error;
+    }
+  }
+
+  async sendMessage(message: string, chatId: string, options?: SendOptions): Promise<void> {
+    const target = sendTarget(options);
+    try {
+      for (const chunk of splitText(message, PLATFORM_MESSAGE_LIMITS.telegram)) {
+        await this.enqueueOutbound(chatId, () => this.bot.telegram.sendMessage(chatId, chunk, target));
+      }
+    } catch (error) {
+      this.logger.error('Failed to send Telegram message', { error });
+      this.emit('error', error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * Request handler for webhook mode: (req, res, next) middleware answering POSTs on the webhook
+   * path and rejecting requests without the secret token. Other requests fall through to `next`.
+   */
+  webhookCallback() {
+    if (!this.webhook) {
+      throw new Error('webhookCallback() needs the webhook parameter');
+    }
+    return this.bot.webhookCallback(this.webhookPath(), { secretToken: this.webhook.secretToken });
+  }
+
+  /**
+   * Sends a rich message; its actions become an inline keyboard under the last chunk, and
+   * choosing one emits an `interaction` event.
+   */
+  async sendRichMessage(message: RichMessage | string, chatId: string, options?: SendOptions): Promise<void> {
+    const rich = toRichMessage(message);
+    const target = sendTarget(options);
+    try {
+      const texts = renderTelegram(rich, { parseMode: this.parseMode });
+      const keyboard = rich.actions?.length ? renderTelegramKeyboard(rich.actions) : undefined;
+      for (const [index, text] of texts.entries()) {
+        const markup = keyboard && index === texts.length - 1 ? { reply_markup: { inline_keyboard: keyboard } } : {};
+        await this.enqueueOutbound(chatId, () => this.bot.telegram.sendMessage(chatId, text, { parse_mode: this.parseMode, ...target, ...markup }));
+      }
+      for (const attachment of rich.attachments || []) {
+        const file = attachment.data
+          ? { source: Buffer.from(attachment.data), filename: attachment.filename }
+          : { url: attachment.url!, filename: attachment.filename };
+        const extra = attachment.caption ? { ...target, caption: attachment.caption } : target;
+        await this.enqueueOutbound<Message>(chatId, () => {
+          switch (attachment.kind) {
+            case 'image':
+              return this.bot.telegram.sendPhoto(chatId, file, extra);
+            case 'video':
+              return this.bot.telegram.sendVideo(chatId, file, extra);
+            default:
+              return this.bot.telegram.sendDocument(chatId, file, extra);
+          }
+        });
+      }
+    } catch (error) {
+      this.logger.error('Failed to send Telegram message', { error });
+      this.emit('error', error as Error);
+      throw error;
+    }
+  }
+
+  // Replaces the text and keyboard of a message sent by the bot; the result must fit in one message
+  async updateMessage(message: RichMessage | string, chatId: string, messageId: string): Promise<void> {
+    const rich = toRichMessage(message);
+    try {
+      const texts = renderTelegram(rich, { parseMode: this.parseMode });
+      if (texts.length > 1) {
+        throw new Error(`Edited message exceeds Telegram's ${PLATFORM_MESSAGE_LIMITS.telegram} character limit`);
+      }
+      const keyboard = rich.actions?.length ? { reply_markup: { inline_keyboard: renderTelegramKeyboard(rich.actions) } } : {};
+      await this.enqueueOutbound(chatId, () => this.bot.telegram.editMessageText(chatId, Number(messageId), undefined, texts[0] || ' ', {
+        parse_mode: this.parseMode,
+        ...keyboard
+      }));
+    } catch (error) {
+      this.logger.error('Failed to update Telegram message', { error });
+      this.emit('error', error as Error);
+      throw error;
+    }
+  }
+
+  async deleteMessage(chatId: string, messageId: string): Promise<void> {
+    try {
+      await this.enqueueOutbound(chatId, () => this.bot.telegram.deleteMessage(chatId, Number(messageId)));
+    } catch (error) {
+      this.logger.error('Failed to delete Telegram message', { error });
+      this.emit('error', error as Error);
+      throw error;
+    }
+  }
+
+  // Mutes and bans end after `durationMs` when given; Telegram treats under 30s as permanent
+  async moderate(request: ModerationRequest): Promise<void> {
+    const { action, channelId: chatId, messageId } = request;
+    const userId = Number(request.userId);
+    const untilDate = request.durationMs ? Math.floor((Date.now() + request.durationMs) / 1000) : undefined;
+    try {
+      if (!chatId) throw new Error(`Telegram ${action} needs a chat ID`);
+      switch (action) {
+        case 'delete':
+          if (!messageId) throw new Error('Telegram delete needs a message ID');
+          await this.enqueueOutbound(chatId, () => this.bot.telegram.deleteMessage(chatId, Number(messageId)));
+          break;
+        case 'mute':
+          await this.enqueueOutbound(chatId, () => this.bot.telegram.restrictChatMember(chatId, userId, {
+            permissions: { can_send_messages: false },
+            until_date: untilDate
+          }));
+          break;
+        case 'kick':
+          // Telegram has no kick: ban, then lift the ban so the user can rejoin
+          await this.enqueueOutbound(chatId, async () => {
+            await this.bot.telegram.banChatMember(chatId, userId);
+            await this.bot.telegram.unbanChatMember(chatId, userId, { only_if_banned: true });
+          });
+          break;
+        case 'ban':
+          await this.enqueueOutbound(chatId, () => this.bot.telegram.banChatMember(chatId, userId, untilDate));
+          break;
+      }
+    } catch (error) {
+      this.logger.error(`Failed to ${action} on Telegram`, { error });
+      this.emit('error', error as Error);
+      throw error;
+    }
+  }
+
+  // Download URL of an inbound attachment; it contains the bot token, so don't share it
+  async getFileUrl(fileId: string): Promise<string> {
+    return (await this.bot.telegram.getFileLink(fileId)).toString();
+  }
+
+  // Resolves once polling has started; later polling failures are reported as errors
+  private launchPolling(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      let launched = false;
+      this.bot
+        .launch({ dropPendingUpdates: this.parameters.dropPendingUpdates }, () => {
+          launched = true;
+          resolve();
+        })
+        .catch(error => {
+          if (!launched) return reject(error);
+          this.logger.error('Telegram polling stopped', { error });
+          this.setConnected(false, `Polling stopped: ${(error as Error).message}`);
+          this.emit('error', error as Error);
+        });
+    });
+  }
+
+  private webhookPath(): string {
+    return this.webhook?.path || `/telegram/${encodeURIComponent(this.name)}`;
+  }
+
+  private setupMessageHandlers(): void {
+    // Handle text messages
+    this.bot.on('text', async (ctx: Context) => {
+      const msg = ctx.message as Message.TextMessage;
+      this.logger.debug('Received message', { from: msg.from?.username, chat_id: msg.chat.id });
+      this.emitMessage(msg, msg.text);
+    });
+
+    // Handle media; the caption is the message content
+    this.bot.on(['photo', 'video', 'audio', 'voice', 'document', 'sticker'], async (ctx: Context) => {
+      const msg = ctx.message!;
+      this.emitMessage(msg, 'caption' in msg ? msg.caption || '' : '', messageAttachments(msg));
+    });
+
+    this.bot.on('edited_message', async (ctx: Context) => {
+      const msg = ctx.editedMessage!;
+      const content = 'text' in msg ? msg.text : 'caption' in msg ? msg.caption || '' : '';
+      const attachments = messageAttachments(msg);
+      this.emit('messageEdited', {
+        ...this.messageData(msg, content),
+        ...(attachments.length ? { attachments } : {}),
+        timestamp: new Date((msg.edit_date || msg.date) * 1000)
+      });
+    });
+
+    this.bot.on('new_chat_members', async (ctx: Context) => {
+      const msg = ctx.message as Message.NewChatMembersMessage;
+      for (const member of msg.new_chat_members) {
+        this.emit('memberJoined', this.memberData(msg, member));
+      }
+    });
+
+    this.bot.on('left_chat_member', async (ctx: Context) => {
+      const msg = ctx.message as Message.LeftChatMemberMessage;
+      this.emit('memberLeft', this.memberData(msg, msg.left_chat_member));
+    });
+
+    // Handle inline keyboard buttons
+    this.bot.on('callback_query', async (ctx: Context) => {
+      const query = ctx.callbackQuery!;
+      // Stop the button's loading indicator
+      await ctx.answerCbQuery();
+      if (!('data' in query)) return;
+      const { kind, actionId, value } = parseTelegramCallbackData(query.data);
+      const chatId = query.message?.chat.id.toString();
+      this.emit('interaction', {
+        kind,
+        actionId,
+        values: value !== undefined ? [value] : [],
+        sender: query.from.id.toString(),
+        senderName: query.from.username,
+        channelId: chatId,
+        messageId: query.message?.message_id.toString(),
+        timestamp: new Date(),
+        reply: chatId ? message => this.sendRichMessage(message, chatId) : undefined
+      });
+    });
+  }
+
+  private emitMessage(msg: Message, content: string, attachments: MessageAttachment[] = []): void {
+    const messageData: MessageData = {
+      ...this.messageData(msg, content),
+      ...(attachments.length ? { attachments } : {})
+    };
+
+    // Handle commands
+    const parsed = parseCommandLine(content, this.commandPrefix);
+    if (parsed) {
+      this.emit('command', { ...messageData, ...parsed });
+      return;
+    }
+
+    // Handle regular messages
+    this.emit('message', messageData);
+  }
+
+  private messageData(msg: Message, content: string): MessageData {
+    // In forum topics every message replies to the topic's first message unless it quotes another
+    const threadId = msg.is_topic_message ? msg.message_thread_id : undefined;
+    const replyTo = 'reply_to_message' in msg ? msg.reply_to_message?.message_id : undefined;
+    return {
+      content,
+      sender: msg.from?.id.toString() || 'unknown',
+      senderName: msg.from?.username,
+      channelId: msg.chat.id.toString(),
+      messageId: msg.message_id.toString(),
+      threadId: threadId?.toString(),
+      replyTo: replyTo && replyTo !== threadId ? replyTo.toString() : undefined,
+      timestamp: new Date(msg.date * 1000)
+    };
+  }
+
+  private memberData(msg: Message, member: User): TelegramMemberData {
+    return {
+      userId: member.id.toString(),
+      username: member.username,
+      isBot: member.is_bot,
+      channelId: msg.chat.id.toString(),
+      ...(msg.from && msg.from.id !== member.id ? { addedBy: msg.from.id.toString() } : {}),
+      timestamp: new Date(msg.date * 1000)
+    };
+  }
 } 
\ No newline at end of file
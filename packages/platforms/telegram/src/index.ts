@@ -1 +1,6 @@
-export * from './connector'; 
\ No newline at end of file
+import { platformRegistry } from '@juliaos/core';
+import { TelegramConnector } from './connector';
+
+platformRegistry.register('telegram', TelegramConnector);
+
+export * from './connector';
@@ -0,0 +1,280 @@
+import { EventEmitter } from 'events';
+import { ETwitterStreamEvent } from 'twitter-api-v2';
+import { TwitterConnector, TwitterConfig, ThreadPostError } from '../index';
+import { rich, MessageData } from '@juliaos/core';
+
+// Stands in for TweetStream: tests emit the stream events the SDK would
+class FakeStream extends EventEmitter {
+  public autoReconnect = false;
+  public connect = jest.fn(async (options: any) => {
+    this.options = options;
+    return this;
+  });
+  public destroy = jest.fn(() => this.removeAllListeners());
+  public options: any;
+}
+
+const mockClient = {
+  v1: {
+    uploadMedia: jest.fn(),
+    createMediaMetadata: jest.fn(),
+    sendDm: jest.fn(),
+  },
+  v2: {
+    tweet: jest.fn(),
+    reply: jest.fn(),
+    me: jest.fn(),
+    streamRules: jest.fn(),
+    updateStreamRules: jest.fn(),
+    searchStream: jest.fn(),
+    search: jest.fn(),
+  },
+};
+
+jest.mock('twitter-api-v2', () => ({
+  ...jest.requireActual('twitter-api-v2'),
+  TwitterApi: jest.fn(() => mockClient),
+}));
+
+describe('TwitterConnector', () => {
+  let connector: TwitterConnector;
+  let errors: Error[];
+  let nextId: number;
+
+  const config: TwitterConfig = {
+    name: 'x',
+    type: 'twitter',
+    parameters: {
+      appKey: 'key',
+      appSecret: 'secret',
+      accessToken: 'token',
+      accessSecret: 'token_secret',
+      commandPrefix: '!',
+    },
+  };
+
+  beforeEach(() => {
+    nextId = 100;
+    mockClient.v2.tweet.mockImplementation(async () => ({ data: { id: String(nextId++) } }));
+    mockClient.v1.uploadMedia.mockImplementation(async (file: unknown) => `media:${typeof file === 'string' ? file : 'buffer'}`);
+    mockClient.v1.createMediaMetadata.mockResolvedValue(undefined);
+
+    connector = new TwitterConnector(config);
+    errors = [];
+    connector.on('error', error => errors.push(error));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+    jest.restoreAllMocks();
+  });
+
+  describe('postThread', () => {
+    it('should post tweets as a reply chain and return their IDs', async () => {
+      const ids = await connector.postThread(['1/3 gm', '2/3 funds moved', '3/3 fin'], { replyTo: '42' });
+
+      expect(ids).toEqual(['100', '101', '102']);
+      expect(mockClient.v2.tweet.mock.calls).toEqual([
+        ['1/3 gm', { reply: { in_reply_to_tweet_id: '42' } }],
+        ['2/3 funds moved', { reply: { in_reply_to_tweet_id: '100' } }],
+        ['3/3 fin', { reply: { in_reply_to_tweet_id: '101' } }],
+      ]);
+    });
+
+    it('should start a standalone thread without a replyTo', async () => {
+      await connector.postThread(['first', 'second']);
+      expect(mockClient.v2.tweet.mock.calls[0]).toEqual(['first', {}]);
+      expect(mockClient.v2.tweet.mock.calls[1]).toEqual(['second', { reply: { in_reply_to_tweet_id: '100' } }]);
+    });
+
+    it('should upload media with alt text and attach it to its tweet', async () => {
+      await connector.postThread([
+        { text: 'graph', media: [{ file: './graph.png' }, { file: Buffer.from('png'), mimeType: 'image/png', altText: 'Flow graph' }] },
+        'no media',
+      ]);
+
+      expect(mockClient.v1.uploadMedia).toHaveBeenNthCalledWith(1, './graph.png', {});
+      expect(mockClient.v1.uploadMedia).toHaveBeenNthCalledWith(2, Buffer.from('png'), { mimeType: 'image/png' });
+      expect(mockClient.v1.createMediaMetadata).toHaveBeenCalledWith('media:buffer', { alt_text: { text: 'Flow graph' } });
+      expect(mockClient.v2.tweet.mock.calls[0]).toEqual(['graph', { media: { media_ids: ['media:./graph.png', 'media:buffer'] } }]);
+      expect(mockClient.v2.tweet.mock.calls[1][1]).not.toHaveProperty('media');
+    });
+
+    it('should resume from the last successful tweet after a failure', async () => {
+      const failure = new Error('503 Service Unavailable');
+      mockClient.v2.tweet
+        .mockImplementationOnce(async () => ({ data: { id: '100' } }))
+        .mockImplementationOnce(async () => {
+          throw failure;
+        });
+
+      const tweets = ['one', 'two', 'three'];
+      const error = await connector.postThread(tweets, { replyTo: '42' }).catch(e => e);
+      expect(error).toBeInstanceOf(ThreadPostError);
+      expect(error).toMatchObject({ tweetIds: ['100'], failedIndex: 1, error: failure });
+      expect(errors).toEqual([error]);
+
+      nextId = 200;
+      const ids = await connector.postThread(tweets, { replyTo: '42', resumeFrom: error.tweetIds });
+      expect(ids).toEqual(['100', '200', '201']);
+      expect(mockClient.v2.tweet.mock.calls.slice(2)).toEqual([
+        ['two', { reply: { in_reply_to_tweet_id: '100' } }],
+        ['three', { reply: { in_reply_to_tweet_id: '200' } }],
+      ]);
+    });
+
+    it('should reject tweets over the limit before posting anything', async () => {
+      await expect(connector.postThread(['ok', 'x'.repeat(281)])).rejects.toThrow('Tweet 2 of the thread is longer than 280 characters');
+      expect(mockClient.v2.tweet).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('sendRichMessage', () => {
+    it('should reply with a numbered thread and upload inline images', async () => {
+      const message = rich.message(rich.paragraph('Thread: ', 'funds moved through a mixer. '.repeat(20)));
+      message.attachments = [{ kind: 'image', data: new Uint8Array([1, 2, 3]), mimeType: 'image/png', caption: 'graph' }];
+
+      await connector.sendRichMessage(message, 'tweet:42');
+
+      const calls = mockClient.v2.tweet.mock.calls;
+      expect(calls.length).toBeGreaterThan(1);
+      expect(calls[0][1]).toEqual({ media: { media_ids: ['media:buffer'] }, reply: { in_reply_to_tweet_id: '42' } });
+      expect(calls[1][1]).toEqual({ reply: { in_reply_to_tweet_id: '100' } });
+      expect(calls[calls.length - 1][0]).toMatch(new RegExp(` ${calls.length}/${calls.length}$`));
+    });
+  });
+
+  describe('filtered stream', () => {
+    let stream: FakeStream;
+    let messages: MessageData[];
+
+    const tweet = (id: string, tag = 'juliaos:x') => ({
+      data: { id, text: `gm ${id}`, author_id: 'u1' },
+      includes: { users: [{ id: 'u1', username: 'alice', name: 'Alice' }] },
+      matching_rules: [{ id: 'r1', tag }],
+    });
+
+    beforeEach(async () => {
+      stream = new FakeStream();
+      mockClient.v2.me.mockResolvedValue({ data: { id: 'bot', username: 'juliabot' } });
+      mockClient.v2.streamRules.mockResolvedValue({
+        data: [{ id: 'other', value: 'from:someone', tag: 'other-app' }, { id: 'stale', value: '!', tag: 'juliaos:x' }],
+      });
+      mockClient.v2.updateStreamRules.mockResolvedValue({ data: [{ id: 'r1', value: '!', tag: 'juliaos:x' }] });
+      mockClient.v2.searchStream.mockResolvedValue(stream);
+
+      messages = [];
+      connector.on('message', message => messages.push(message));
+      await connector.start();
+    });
+
+    it('should only replace the rules tagged for this connector', () => {
+      expect(mockClient.v2.updateStreamRules).toHaveBeenCalledWith({ delete: { ids: ['stale'] } });
+      expect(mockClient.v2.updateStreamRules).toHaveBeenCalledWith({ add: [{ value: '!', tag: 'juliaos:x' }] });
+      expect(stream.options).toMatchObject({ keepAliveTimeout: 30000, autoReconnectRetries: 'unlimited' });
+      expect(stream.autoReconnect).toBe(true);
+      expect(connector.isActive()).toBe(true);
+    });
+
+    it('should only process tweets matching its own rules', async () => {
+      stream.emit(ETwitterStreamEvent.Data, tweet('1'));
+      stream.emit(ETwitterStreamEvent.Data, tweet('2', 'other-app'));
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(messages).toHaveLength(1);
+      expect(messages[0]).toMatchObject({ content: 'gm 1', sender: 'u1', senderName: 'alice', channelId: 'tweet:1' });
+    });
+
+    it('should group replies by conversation', async () => {
+      const reply = tweet('5');
+      Object.assign(reply.data, { conversation_id: '1', referenced_tweets: [{ type: 'replied_to', id: '4' }] });
+      stream.emit(ETwitterStreamEvent.Data, reply);
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(messages[0]).toMatchObject({ channelId: 'tweet:5', threadId: '1', replyTo: '4' });
+      expect(connector.getConversationKey(messages[0])).toBe('conversation:1');
+    });
+
+    it('should report the lost connection and back off between attempts', () => {
+      const states: string[] = [];
+      const attempts: Array<{ attempt: number; delayMs: number }> = [];
+      connector.on('disconnected', () => states.push('disconnected'));
+      connector.on('reconnecting', ({ attempt, delayMs }) => attempts.push({ attempt, delayMs }));
+
+      stream.emit(ETwitterStreamEvent.ConnectionLost);
+      stream.emit(ETwitterStreamEvent.ReconnectAttempt, 0);
+      expect(connector.isActive()).toBe(false);
+      expect(states).toEqual(['disconnected']);
+
+      expect(stream.options.nextRetryTimeout(1, new Error('ECONNRESET'))).toBe(5000);
+      stream.emit(ETwitterStreamEvent.ReconnectAttempt, 1);
+      expect(stream.options.nextRetryTimeout(2, new Error('ECONNRESET'))).toBe(10000);
+      stream.emit(ETwitterStreamEvent.ReconnectAttempt, 2);
+      expect(stream.options.nextRetryTimeout(20, new Error('ECONNRESET'))).toBe(320000);
+
+      expect(attempts).toEqual([
+        { attempt: 1, delayMs: 0 },
+        { attempt: 2, delayMs: 5000 },
+        { attempt: 3, delayMs: 10000 },
+      ]);
+    });
+
+    it('should wait out rate limits when reconnecting', () => {
+      // A rate limited reconnect waits for the window to reset
+      const reset = Math.ceil(Date.now() / 1000) + 900;
+      expect(stream.options.nextRetryTimeout(1, { code: 429, rateLimitError: true, rateLimit: { reset } })).toBeGreaterThan(890000);
+    });
+
+    it('should report each drop once when both the request and the response fail', () => {
+      const attempts: number[] = [];
+      connector.on('reconnecting', ({ attempt }) => attempts.push(attempt));
+
+      stream.emit(ETwitterStreamEvent.ConnectionError, new Error('socket hang up'));
+      stream.emit(ETwitterStreamEvent.ReconnectAttempt, 0);
+      stream.emit(ETwitterStreamEvent.ConnectionError, new Error('Connection closed by Twitter.'));
+      stream.emit(ETwitterStreamEvent.ReconnectAttempt, 0);
+      expect(attempts).toEqual([1]);
+
+      // The next drop starts counting again
+      stream.emit(ETwitterStreamEvent.Reconnected);
+      stream.emit(ETwitterStreamEvent.ConnectionError, new Error('socket hang up'));
+      stream.emit(ETwitterStreamEvent.ReconnectAttempt, 0);
+      expect(attempts).toEqual([1, 1]);
+    });
+
+    it('should backfill missed tweets from the search API after reconnecting', async () => {
+      stream.emit(ETwitterStreamEvent.Data, tweet('100'));
+      stream.emit(ETwitterStreamEvent.ConnectionError, new Error('socket hang up'));
+      expect(connector.isActive()).toBe(false);
+
+      // 103 arrives on the new connection before the backfill; search returns newest first
+      stream.emit(ETwitterStreamEvent.Data, tweet('103'));
+      mockClient.v2.search
+        .mockResolvedValueOnce({ tweets: ['103', '102'].map(id => tweet(id).data), includes: tweet('102').includes, meta: { next_token: 'p2' } })
+        .mockResolvedValueOnce({ tweets: [tweet('101').data], includes: tweet('101').includes, meta: {} });
+
+      const reconnected = new Promise(resolve => connector.once('reconnected', resolve));
+      stream.emit(ETwitterStreamEvent.Reconnected);
+      expect(await reconnected).toEqual({ backfilled: 2 });
+
+      expect(connector.isActive()).toBe(true);
+      expect(mockClient.v2.search).toHaveBeenCalledTimes(2);
+      expect(mockClient.v2.search.mock.calls[0][1]).toMatchObject({ since_id: '100', max_results: 100 });
+      expect(mockClient.v2.search.mock.calls[0][1].next_token).toBeUndefined();
+      expect(mockClient.v2.search.mock.calls[1][1]).toMatchObject({ since_id: '100', next_token: 'p2' });
+      expect(messages.map(message => message.messageId)).toEqual(['100', '103', '101', '102']);
+    });
+
+    it('should close the stream and clean up its rules when stopped while reconnecting', async () => {
+      stream.emit(ETwitterStreamEvent.ConnectionLost);
+      mockClient.v2.streamRules.mockResolvedValue({ data: [{ id: 'r1', value: '!', tag: 'juliaos:x' }] });
+
+      await connector.stop();
+
+      expect(stream.destroy).toHaveBeenCalled();
+      expect(mockClient.v2.updateStreamRules).toHaveBeenLastCalledWith({ delete: { ids: ['r1'] } });
+      expect(connector.isActive()).toBe(false);
+    });
+  });
+});
@@ -1,216 +1,505 @@
-import { EventEmitter } from 'events';
-import { TwitterApi, TweetV2 } from 'twitter-api-v2';
-import { Platform, PlatformConfig, MessageData } from '@juliaos/core';
-
-// Define interfaces to match the Platform abstract class requirements
-export interface TwitterApiTokens {
-  appKey: string;
-  appSecret: string;
-  accessToken: string;
-  accessSecret: string;
-}
-
-export interface TwitterConfig extends PlatformConfig {
-  parameters: TwitterApiTokens & {
-    commandPrefix: string;
-    autoReply?: boolean;
-    mentionsOnly?: boolean;
-  };
-}
-
-export class TwitterConnector extends Platform {
-  private client: TwitterApi;
-  private commandPrefix: string;
-  private autoReply: boolean;
-  private mentionsOnly: boolean;
-  private userId?: string;
-  private streamRules: Map<string, string> = new Map();
-
-  constructor(config: TwitterConfig) {
-    super(config);
-    this.commandPrefix = config.parameters.commandPrefix;
-    this.autoReply = config.parameters.autoReply || false;
-    this.mentionsOnly = config.parameters.mentionsOnly || false;
-    
-    // Create the Twitter API client using the parameters
-    this.client = new TwitterApi({
-      appKey: config.parameters.appKey,
-      appSecret: config.parameters.appSecret,
-      accessToken: config.parameters.accessToken,
-      accessSecret: config.parameters.accessSecret
-    });
-  }
-
-  async connect(): Promise<void> {
-    try {
-      // Verify credentials and get user ID
-      const me = await this.client.v2.me();
-      this.userId = me.data.id;
-
-      // Set up stream rules
-      await this.setupStreamRules();
-
-      // Start streaming
-      await this.startStreaming();
-
-      this.setConnected(true);
-      console.log(`Twitter connector ${this.name} connected successfully`);
-    } catch (error) {
-      console.error('Failed to connect to Twitter:', error);
-      this.emit('error', error);
-      throw error;
-    }
-  }
-
-  async disconnect(): Promise<void> {
-    try {
-      // Clean up stream rules
-      await this.cleanupStreamRules();
-      this.setConnected(false);
-      console.log(`Twitter connector ${this.name} disconnected`);
-    } catch (error) {
-      console.error('Failed to disconnect from Twitter:', error);
-      this.emit('error', error);
-      throw error;
-    }
-  }
-
-  async start(): Promise<void> {
-    if (!this.isActive()) {
-      await this.connect();
-    }
-  }
-
-  async stop(): Promise<void> {
-    if (this.isActive()) {
-      await this.disconnect();
-    }
-  }
-
-  async sendMessage(message: string, recipientId: string): Promise<void> {
-    try {
-      // Handle both tweet replies and direct messages
-      if (recipientId.startsWith('tweet:')) {
-        // Reply to a tweet
-        const tweetId = recipientId.replace('tweet:', '');
-        await this.client.v2.reply(message, tweetId);
-      } else {
-        // Send a direct message
-        await this.client.v1.sendDm({
-          recipient_id: recipientId,
-          text: message
-        });
-      }
-    } catch (error) {
-      console.error('Failed to send Twitter message:', error);
-      this.emit('error', error);
-      throw error;
-    }
-  }
-
-  private async setupStreamRules() {
-    // Clean up existing rules
-    await this.cleanupStreamRules();
-
-    // Add new rules
-    const rules = [];
-
-    // Rule for mentions
-    if (this.mentionsOnly) {
-      rules.push({ value: `@${this.userId}` });
-    }
-
-    // Rule for commands
-    if (this.commandPrefix) {
-      rules.push({ value: `${this.commandPrefix}` });
-    }
-
-    if (rules.length > 0) {
-      const result = await this.client.v2.updateStreamRules({
-        add: rules
-      });
-
-      // Store rule IDs
-      result.data?.forEach(rule => {
-        this.streamRules.set(rule.id, rule.value);
-      });
-    }
-  }
-
-  private async cleanupStreamRules() {
-    const rules = await this.client.v2.streamRules();
-    if (rules.data?.length) {
-      await this.client.v2.updateStreamRules({
-        delete: { ids: rules.data.map(rule => rule.id) }
-      });
-    }
-    this.streamRules.clear();
-  }
-
-  private async startStreaming() {
-    const stream = await this.client.v2.searchStream({
-      'tweet.fields': ['referenced_tweets', 'author_id', 'created_at'],
-      'user.fields': ['username'],
-      expansions: ['author_id', 'referenced_tweets.id']
-    });
-
-    stream.on('data', async (tweet: TweetV2) => {
-      // Ignore our own tweets
-      if (tweet.author_id === this.userId) return;
-
-      // Process the tweet
-      await this.processTweet(tweet);
-    });
-
-    stream.on('error', error => {
-      console.error('Twitter stream error:', error);
-      this.emit('error', error);
-    });
-  }
-
-  private async processTweet(tweet: TweetV2) {
-    try {
-      const tweetText = tweet.text;
-      const author = tweet.author_id;
-      const tweetId = tweet.id;
-      const createdAt = tweet.created_at ? new Date(tweet.created_at) : new Date();
-      
-      // Check if it's a command
-      if (tweetText.startsWith(this.commandPrefix)) {
-        const commandContent = tweetText.slice(this.commandPrefix.length).trim();
-        const commandParts = commandContent.split(/\s+/);
-        const command = commandParts[0];
-        const args = commandParts.slice(1);
-        
-        this.emit('command', {
-          command,
-          args,
-          content: commandContent,
-          sender: author,
-          tweetId: tweetId,
-          timestamp: createdAt
-        });
-        
-        return;
-      }
-      
-      // Process as regular message
-      const messageData: MessageData = {
-        content: tweetText,
-        sender: author ? author : 'unknown',
-        channelId: `tweet:${tweetId}`, // Use tweet ID as channel ID for replies
-        timestamp: createdAt
-      };
-      
-      this.emit('message', messageData);
-      
-      // Auto-reply if enabled
-      if (this.autoReply) {
-        await this.client.v2.reply('Thank you for your tweet! I am an automated agent.', tweetId);
-      }
-    } catch (error) {
-      console.error('Error processing tweet:', error);
-      this.emit('error', error);
-    }
-  }
-} 
\ No newline at end of file
+import { ApiV2Includes, ETwitterStreamEvent, TweetStream, TweetV2, TweetV2SingleStreamResult, Tweetv2FieldsParams, TwitterApi } from 'twitter-api-v2';
+import {
+  Platform,
+  PlatformConfig,
+  PlatformEventMap,
+  MessageData,
+  RichMessage,
+  PLATFORM_MESSAGE_LIMITS,
+  platformRegistry,
+  parseCommandLine,
+  renderPlainTextChunks,
+  renderTweetThread,
+  rich,
+  toRichMessage,
+  tweetLength,
+  defaultRetryAfter,
+} from '@juliaos/core';
+
+const DM_TEXT_LIMIT = 10000;
+const MAX_MEDIA_PER_TWEET = 4;
+const SEEN_TWEETS_LIMIT = 1000;
+const TWEET_FIELDS: Partial<Tweetv2FieldsParams> = {
+  'tweet.fields': ['referenced_tweets', 'author_id', 'created_at', 'conversation_id'],
+  'user.fields': ['username'],
+  expansions: ['author_id', 'referenced_tweets.id']
+};
+
+// Define interfaces to match the Platform abstract class requirements
+export interface TwitterApiTokens {
+  appKey: string;
+  appSecret: string;
+  accessToken: string;
+  accessSecret: string;
+}
+
+export interface TwitterConfig extends PlatformConfig {
+  parameters: TwitterApiTokens & {
+    commandPrefix: string;
+    autoReply?: boolean;
+    mentionsOnly?: boolean;
+    streamTag?: string; // Tag of the stream rules this connector owns; defaults to `juliaos:<name>`
+    reconnectDelayMs?: number; // First reconnect delay, doubled on every failed attempt
+    maxReconnectDelayMs?: number;
+    stallTimeoutMs?: number; // Reconnect when the stream sends neither data nor keep-alives for this long
+    backfill?: boolean; // Fetch tweets missed while disconnected from the search API
+  };
+}
+
+export interface TwitterEventMap extends PlatformEventMap {
+  reconnecting: [{ attempt: number; delayMs: number; error?: unknown }];
+  reconnected: [{ backfilled: number }]; // Number of missed tweets replayed from the search API
+}
+
+export interface TweetMedia {
+  file: string | Buffer; // File path or contents; contents need a mimeType
+  mimeType?: string;
+  altText?: string;
+}
+
+export interface ThreadTweet {
+  text: string;
+  media?: TweetMedia[];
+}
+
+export interface PostThreadOptions {
+  replyTo?: string; // Tweet the first tweet of the thread replies to
+  resumeFrom?: string[]; // Tweet IDs already posted by a failed attempt
+}
+
+/**
+ * Raised when a tweet of a thread fails to post. `tweetIds` holds the tweets posted so far;
+ * pass them as `resumeFrom` to continue the thread from the last successful tweet.
+ */
+export class ThreadPostError extends Error {
+  constructor(
+    message: string,
+    public readonly tweetIds: string[],
+    public readonly failedIndex: number,
+    public readonly error: unknown
+  ) {
+    super(message);
+    this.name = 'ThreadPostError';
+    Object.setPrototypeOf(this, ThreadPostError.prototype);
+  }
+}
+
+/**
+ * Connector for X/Twitter: listens to the filtered stream for mentions and commands, and
+ * replies, threads and DMs through the v2 API.
+ *
+ * The stream reconnects on its own with exponential backoff when the connection drops or
+ * stalls; the connector reports `disconnected` and `reconnecting` meanwhile and, once back,
+ * replays the tweets it missed from the recent search API before emitting `reconnected`.
+ */
+export class TwitterConnector extends Platform<TwitterEventMap> {
+  private client: TwitterApi;
+  private commandPrefix: string;
+  private autoReply: boolean;
+  private mentionsOnly: boolean;
+  private streamTag: string;
+  private reconnectDelayMs: number;
+  private maxReconnectDelayMs: number;
+  private stallTimeoutMs: number;
+  private backfill: boolean;
+  private userId?: string;
+  private username?: string;
+  private stream?: TweetStream<TweetV2SingleStreamResult>;
+  private streamRules: Map<string, string> = new Map();
+  private lastTweetId?: string;
+  private backfillSinceId?: string; // Last tweet seen before the stream dropped
+  private reconnectAttempts = 0; // Attempts reported since the stream dropped
+  private nextReconnect: { delayMs: number; error?: unknown } = { delayMs: 0 };
+  private seenTweets: Set<string> = new Set();
+
+  constructor(config: TwitterConfig) {
+    super(config);
+    this.commandPrefix = config.parameters.commandPrefix;
+    this.autoReply = config.parameters.autoReply || false;
+    this.mentionsOnly = config.parameters.mentionsOnly || false;
+    this.streamTag = config.parameters.streamTag || `juliaos:${config.name}`;
+    this.reconnectDelayMs = config.parameters.reconnectDelayMs ?? 5000;
+    this.maxReconnectDelayMs = config.parameters.maxReconnectDelayMs ?? 320000;
+    this.stallTimeoutMs = config.parameters.stallTimeoutMs ?? 30000;
+    this.backfill = config.parameters.backfill ?? true;
+    
+    // Create the Twitter API client using the parameters
+    this.client = new TwitterApi({
+      appKey: config.parameters.appKey,
+      appSecret: config.parameters.appSecret,
+      accessToken: config.parameters.accessToken,
+      accessSecret: config.parameters.accessSecret
+    });
+  }
+
+  async connect(): Promise<void> {
+    try {
+      // Verify credentials and get user ID
+      const me = await this.client.v2.me();
+      this.userId = me.data.id;
+      this.username = me.data.username;
+
+      // Set up stream rules
+      await this.setupStreamRules();
+
+      // Start streaming
+      await this.startStreaming();
+
+      this.setConnected(true);
+      this.logger.info('Connected');
+    } catch (error) {
+      this.logger.error('Failed to connect to Twitter', { error });
+      this.emit('error', error as Error);
+      throw error;
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    try {
+      this.closeStream();
+      // Clean up stream rules
+      await this.cleanupStreamRules();
+      this.setConnected(false);
+      this.logger.info('Disconnected');
+    } catch (error) {
+      this.logger.error('Failed to disconnect from Twitter', { error });
+      this.emit('error', error as Error);
+      throw error;
+    }
+  }
+
+  // A connector whose stream dropped is inactive while it reconnects but still holds the stream and its rules
+  async stop(): Promise<void> {
+    if (!this.isActive() && this.stream) {
+      await this.disconnect();
+      return;
+    }
+    await super.stop();
+  }
+
+  // Every tweet is its own channel, so replies are grouped by the thread's conversation ID instead
+  getConversationKey(data: MessageData): string | undefined {
+    return data.threadId ? `conversation:${data.threadId}` : data.channelId;
+  }
+
+  async sendMessage(message: string, recipientId: string): Promise<void> {
+    if (recipientId.startsWith('tweet:') ? tweetLength(message) > PLATFORM_MESSAGE_LIMITS.twitter : message.length > DM_TEXT_LIMIT) {
+      return this.sendRichMessage(message, recipientId);
+    }
+    try {
+      // Handle both tweet replies and direct messages
+      if (recipientId.startsWith('tweet:')) {
+        // Reply to a tweet
+        const tweetId = recipientId.replace('tweet:', '');
+        await this.enqueueOutbound(recipientId, () => this.client.v2.reply(message, tweetId));
+      } else {
+        // Send a direct message
+        await this.enqueueOutbound(recipientId, () => this.client.v1.sendDm({
+          recipient_id: recipientId,
+          text: message
+        }));
+      }
+    } catch (error) {
+      this.logger.error('Failed to send Twitter message', { error });
+      this.emit('error', error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replies to a tweet with a thread, each tweet replying to the previous one, or sends a DM
+   * split into as many messages as needed. Attachment URLs are appended as links; inline
+   * images and videos are uploaded with the first tweet.
+   */
+  async sendRichMessage(message: RichMessage | string, recipientId: string): Promise<void> {
+    const { blocks, attachments = [] } = toRichMessage(message);
+    const links = attachments.filter(attachment => attachment.url).map(attachment => rich.link(attachment.url!));
+    const content = { blocks: links.length ? [...blocks, rich.paragraph(...links.flatMap((link, i) => (i ? [' ', link] : [link])))] : blocks };
+    if (recipientId.startsWith('tweet:')) {
+      const media = attachments
+        .filter(attachment => attachment.data && attachment.kind !== 'file')
+        .slice(0, MAX_MEDIA_PER_TWEET)
+        .map(attachment => ({ file: Buffer.from(attachment.data!), mimeType: attachment.mimeType, altText: attachment.caption }));
+      const tweets: ThreadTweet[] = renderTweetThread(content).map((text, index) => (index === 0 && media.length ? { text, media } : { text }));
+      await this.postThread(tweets, { replyTo: recipientId.replace('tweet:', '') });
+      return;
+    }
+    try {
+      for (const text of renderPlainTextChunks(content, DM_TEXT_LIMIT)) {
+        await this.enqueueOutbound(recipientId, () => this.client.v1.sendDm({
+          recipient_id: recipientId,
+          text
+        }));
+      }
+    } catch (error) {
+      this.logger.error('Failed to send Twitter message', { error });
+      this.emit('error', error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * Posts tweets in order as a reply chain and returns the IDs of every tweet in the thread.
+   * On failure a ThreadPostError carries the IDs posted so far, so calling again with
+   * `resumeFrom: error.tweetIds` continues after the last successful tweet.
+   */
+  async postThread(tweets: Array<string | ThreadTweet>, options: PostThreadOptions = {}): Promise<string[]> {
+    const thread = tweets.map(tweet => (typeof tweet === 'string' ? { text: tweet } : tweet));
+    thread.forEach(({ text, media = [] }, index) => {
+      if (tweetLength(text) > PLATFORM_MESSAGE_LIMITS.twitter) {
+        throw new Error(`Tweet ${index + 1} of the thread is longer than ${PLATFORM_MESSAGE_LIMITS.twitter} characters`);
+      }
+      if (media.length > MAX_MEDIA_PER_TWEET) {
+        throw new Error(`Tweet ${index + 1} of the thread has more than ${MAX_MEDIA_PER_TWEET} media attachments`);
+      }
+    });
+
+    const tweetIds = [...(options.resumeFrom || [])];
+    const queueKey = options.replyTo ? `tweet:${options.replyTo}` : 'timeline';
+    for (let index = tweetIds.length; index < thread.length; index++) {
+      const { text, media = [] } = thread[index];
+      const replyTo = index > 0 ? tweetIds[index - 1] : options.replyTo;
+      try {
+        const mediaIds: string[] = [];
+        for (const item of media) {
+          mediaIds.push(await this.uploadMedia(item));
+        }
+        const { data } = await this.enqueueOutbound(queueKey, () => this.client.v2.tweet(text, {
+          ...(mediaIds.length ? { media: { media_ids: mediaIds as [string] } } : {}),
+          ...(replyTo ? { reply: { in_reply_to_tweet_id: replyTo } } : {})
+        }));
+        tweetIds.push(data.id);
+      } catch (error) {
+        this.logger.error(`Failed to post tweet ${index + 1} of ${thread.length}`, { error });
+        const failure = new ThreadPostError(`Failed to post tweet ${index + 1} of ${thread.length}`, tweetIds, index, error);
+        this.emit('error', failure);
+        throw failure;
+      }
+    }
+    return tweetIds;
+  }
+
+  private async uploadMedia({ file, mimeType, altText }: TweetMedia): Promise<string> {
+    const mediaId = await this.client.v1.uploadMedia(file, mimeType ? { mimeType } : {});
+    if (altText) {
+      await this.client.v1.createMediaMetadata(mediaId, { alt_text: { text: altText } });
+    }
+    return mediaId;
+  }
+
+  private async setupStreamRules() {
+    // Clean up existing rules
+    await this.cleanupStreamRules();
+
+    // Add new rules
+    const rules = [];
+
+    // Rule for mentions
+    if (this.mentionsOnly) {
+      rules.push({ value: `@${this.username}`, tag: this.streamTag });
+    }
+
+    // Rule for commands
+    if (this.commandPrefix) {
+      rules.push({ value: `${this.commandPrefix}`, tag: this.streamTag });
+    }
+
+    if (rules.length > 0) {
+      const result = await this.client.v2.updateStreamRules({
+        add: rules
+      });
+
+      // Store rule IDs
+      result.data?.forEach(rule => {
+        this.streamRules.set(rule.id, rule.value);
+      });
+    }
+  }
+
+  // Deletes the rules tagged for this connector; rules of other apps and connectors are left alone
+  private async cleanupStreamRules() {
+    const rules = await this.client.v2.streamRules();
+    const ours = rules.data?.filter(rule => rule.tag === this.streamTag) || [];
+    if (ours.length) {
+      await this.client.v2.updateStreamRules({
+        delete: { ids: ours.map(rule => rule.id) }
+      });
+    }
+    this.streamRules.clear();
+  }
+
+  private async startStreaming() {
+    this.closeStream();
+    const stream = await this.client.v2.searchStream({ ...TWEET_FIELDS, autoConnect: false });
+    this.stream = stream;
+
+    stream.on(ETwitterStreamEvent.Data, async (event: TweetV2SingleStreamResult) => {
+      // The stream carries the matches of every rule of the app
+      if (!event.matching_rules?.some(rule => rule.tag === this.streamTag)) return;
+      await this.processTweet(event.data, event.includes);
+    });
+
+    // Connection drops and stalls are retried by the stream itself; listeners learn about
+    // them from the `disconnected` and `reconnecting` events rather than `error`
+    stream.on(ETwitterStreamEvent.ConnectionLost, () => {
+      this.logger.warn(`Stream sent nothing for ${this.stallTimeoutMs}ms, reconnecting`);
+      this.onStreamLost();
+    });
+
+    stream.on(ETwitterStreamEvent.ConnectionError, () => this.onStreamLost());
+
+    // A drop reported by both the request and the response starts attempt 0 twice; report it once
+    stream.on(ETwitterStreamEvent.ReconnectAttempt, (retry: number) => {
+      if (retry < this.reconnectAttempts) return;
+      this.reconnectAttempts = retry + 1;
+      this.emit('reconnecting', { attempt: retry + 1, ...(retry ? this.nextReconnect : { delayMs: 0 }) });
+    });
+
+    stream.on(ETwitterStreamEvent.Error, ({ message, error }) => {
+      this.logger.error(`Twitter stream error: ${message}`, { error });
+    });
+
+    stream.on(ETwitterStreamEvent.Reconnected, async () => {
+      this.reconnectAttempts = 0;
+      this.setConnected(true);
+      const backfilled = await this.backfillMissedTweets();
+      this.emit('reconnected', { backfilled });
+    });
+
+    // Only reached if reconnection gives up; closeStream removes this listener before closing
+    stream.on(ETwitterStreamEvent.ConnectionClosed, () => {
+      this.setConnected(false, 'Stream closed');
+      this.emit('error', new Error('Twitter stream closed'));
+    });
+
+    // Reconnection is enabled once connected so that a failed first connection rejects connect()
+    await stream.connect({
+      autoReconnect: false,
+      autoReconnectRetries: 'unlimited',
+      keepAliveTimeout: this.stallTimeoutMs,
+      nextRetryTimeout: (attempt, error) => this.nextReconnectDelay(attempt, error)
+    });
+    stream.autoReconnect = true;
+  }
+
+  private closeStream() {
+    this.stream?.destroy();
+    this.stream = undefined;
+  }
+
+  // The stream retries once right away, then after nextReconnectDelay; both emit ReconnectAttempt
+  private onStreamLost() {
+    this.backfillSinceId ??= this.lastTweetId;
+    this.setConnected(false, 'Stream lost');
+  }
+
+  // Exponential backoff, or longer when the API says how long a rate limit lasts
+  private nextReconnectDelay(retry: number, error?: unknown): number {
+    const backoff = Math.min(this.reconnectDelayMs * 2 ** (retry - 1), this.maxReconnectDelayMs);
+    const delayMs = Math.max(backoff, defaultRetryAfter(error, Date.now()) ?? 0);
+    this.nextReconnect = { delayMs, error };
+    return delayMs;
+  }
+
+  // Replays tweets matching our rules that were posted after the last tweet seen before the drop
+  private async backfillMissedTweets(): Promise<number> {
+    const query = [...this.streamRules.values()].map(value => `(${value})`).join(' OR ');
+    const sinceId = this.backfillSinceId;
+    this.backfillSinceId = undefined;
+    if (!this.backfill || !sinceId || !query) return 0;
+    try {
+      // Search returns the newest tweets first, 100 per page, back to since_id
+      const found: Array<[TweetV2, ApiV2Includes | undefined]> = [];
+      let nextToken: string | undefined;
+      do {
+        const results = await this.client.v2.search(query, {
+          ...TWEET_FIELDS,
+          since_id: sinceId,
+          max_results: 100,
+          ...(nextToken ? { next_token: nextToken } : {})
+        });
+        found.push(...results.tweets.map(tweet => [tweet, results.includes] as [TweetV2, ApiV2Includes | undefined]));
+        nextToken = results.meta?.next_token;
+      } while (nextToken);
+
+      const missed = found.reverse().filter(([tweet]) => !this.seenTweets.has(tweet.id));
+      for (const [tweet, includes] of missed) {
+        await this.processTweet(tweet, includes);
+      }
+      return missed.length;
+    } catch (error) {
+      this.logger.error('Failed to backfill missed tweets', { error });
+      this.emit('error', error as Error);
+      return 0;
+    }
+  }
+
+  // Remembers a tweet and returns false if it was already processed
+  private markSeen(tweetId: string): boolean {
+    if (this.seenTweets.has(tweetId)) return false;
+    this.seenTweets.add(tweetId);
+    if (this.seenTweets.size > SEEN_TWEETS_LIMIT) {
+      this.seenTweets.delete(this.seenTweets.values().next().value as string);
+    }
+    // Tweet IDs are snowflakes: longer means newer, equal lengths compare as strings
+    if (!this.lastTweetId || tweetId.length > this.lastTweetId.length || (tweetId.length === this.lastTweetId.length && tweetId > this.lastTweetId)) {
+      this.lastTweetId = tweetId;
+    }
+    return true;
+  }
+
+  private async processTweet(tweet: TweetV2, includes?: ApiV2Includes) {
+    // Ignore our own tweets and tweets delivered twice around a reconnect
+    if (tweet.author_id === this.userId || !this.markSeen(tweet.id)) return;
+    try {
+      const tweetText = tweet.text;
+      const author = tweet.author_id;
+      const senderName = includes?.users?.find(user => user.id === author)?.username;
+      const tweetId = tweet.id;
+      const createdAt = tweet.created_at ? new Date(tweet.created_at) : new Date();
+      const threadId = tweet.conversation_id;
+      const replyTo = tweet.referenced_tweets?.find(reference => reference.type === 'replied_to')?.id;
+      
+      // Check if it's a command
+      const parsed = parseCommandLine(tweetText, this.commandPrefix);
+      if (parsed) {
+        this.emit('command', {
+          ...parsed,
+          sender: author || 'unknown',
+          senderName,
+          channelId: `tweet:${tweetId}`,
+          messageId: tweetId,
+          threadId,
+          replyTo,
+          timestamp: createdAt
+        });
+        
+        return;
+      }
+      
+      // Process as regular message
+      const messageData: MessageData = {
+        content: tweetText,
+        sender: author ? author : 'unknown',
+        senderName,
+        channelId: `tweet:${tweetId}`, // Use tweet ID as channel ID for replies
+        messageId: tweetId,
+        threadId,
+        replyTo,
+        timestamp: createdAt
+      };
+      
+      this.emit('message', messageData);
+      
+      // Auto-reply if enabled
+      if (this.autoReply) {
+        await this.enqueueOutbound(`tweet:${tweetId}`, () => this.client.v2.reply('Thank you for your tweet! I am an automated agent.', tweetId));
+      }
+    } catch (error) {
+      this.logger.error('Error processing tweet', { error });
+      this.emit('error', error as Error);
+    }
+  }
+}
+
+platformRegistry.register('twitter', TwitterConnector);
@@ -0,0 +1,224 @@
+import WebSocket from 'ws';
+import { MessageData, CommandData } from '@juliaos/core';
+import { WebChatClient, WebChatConnector, WebChatConfig, WebChatMessage, WebChatClientOptions, WEBCHAT_CLOSE_CODES, WEBCHAT_USER_AUDIENCE, createWebChatToken } from '../index';
+
+const waitFor = async (condition: () => boolean, timeoutMs = 2000) => {
+  const started = Date.now();
+  while (!condition()) {
+    if (Date.now() - started > timeoutMs) throw new Error('Timed out waiting for condition');
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+};
+
+async function* pieces(...texts: string[]) {
+  for (const text of texts) {
+    await new Promise(resolve => setTimeout(resolve, 1));
+    yield text;
+  }
+}
+
+describe('WebChatConnector', () => {
+  let connector: WebChatConnector;
+  let clients: WebChatClient[];
+  let messages: MessageData[];
+  let errors: Error[];
+
+  const config: WebChatConfig = {
+    name: 'site',
+    type: 'webchat',
+    parameters: { port: 0, secret: 'webchat-secret', commandPrefix: '/', authTimeoutMs: 200, outbound: false },
+  };
+
+  const client = (token: WebChatClientOptions['token'], options: { sessionId?: string; agentId?: string } = {}) => {
+    const chat = new WebChatClient({ url: `ws://127.0.0.1:${connector.port}`, token, WebSocket, reconnectDelayMs: 10, ...options });
+    clients.push(chat);
+    return chat;
+  };
+
+  const connected = async (chat: WebChatClient) => {
+    chat.connect();
+    await waitFor(() => chat.status === 'open');
+    return chat;
+  };
+
+  const agentMessages = (chat: WebChatClient) => chat.getMessages().filter(message => message.role === 'agent');
+
+  beforeEach(async () => {
+    connector = new WebChatConnector(config);
+    clients = [];
+    messages = [];
+    errors = [];
+    connector.on('message', data => messages.push(data));
+    connector.on('error', error => errors.push(error));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    await connector.start();
+  });
+
+  afterEach(async () => {
+    clients.forEach(chat => chat.close());
+    await connector.stop();
+    jest.restoreAllMocks();
+  });
+
+  it('should emit messages per session and send replies back', async () => {
+    const alice = await connected(client(connector.createToken({ userId: 'u1', name: 'Alice' }), { agentId: 'portfolio' }));
+    const bob = await connected(client(connector.createToken({ userId: 'u2' })));
+    alice.send('What is my balance?');
+    bob.send('Hi');
+    await waitFor(() => messages.length === 2);
+
+    expect(messages[0]).toEqual(expect.objectContaining({ content: 'What is my balance?', sender: 'u1', senderName: 'Alice', channelId: alice.sessionId, agentId: 'portfolio' }));
+    expect(messages[1].channelId).toBe(bob.sessionId);
+    await waitFor(() => alice.getMessages().every(message => !message.pending));
+
+    await connector.sendMessage('42 SOL', messages[0].channelId!);
+    await waitFor(() => agentMessages(alice).length === 1);
+    expect(agentMessages(alice)[0]).toEqual(expect.objectContaining({ role: 'agent', content: '42 SOL' }));
+    expect(agentMessages(bob)).toEqual([]);
+  });
+
+  it('should stream replies piece by piece', async () => {
+    const chat = await connected(client(connector.createToken({ userId: 'u1' })));
+    const updates: WebChatMessage[] = [];
+    chat.on('message', message => message.role === 'agent' && updates.push(message));
+
+    const text = await connector.streamMessage(pieces('The ', 'price ', 'is up.'), chat.sessionId!, { replyTo: 'm1' });
+    await waitFor(() => updates.some(update => update.streaming === false));
+
+    expect(text).toBe('The price is up.');
+    expect(updates.map(update => [update.content, update.streaming])).toEqual([
+      ['', true],
+      ['The ', true],
+      ['The price ', true],
+      ['The price is up.', true],
+      ['The price is up.', false],
+    ]);
+    expect(updates[0].replyTo).toBe('m1');
+  });
+
+  it('should tell the client when a stream fails', async () => {
+    const chat = await connected(client(connector.createToken({ userId: 'u1' })));
+    async function* failing() {
+      yield 'Partial';
+      throw new Error('model overloaded');
+    }
+
+    await expect(connector.streamMessage(failing(), chat.sessionId!)).rejects.toThrow('model overloaded');
+    await waitFor(() => agentMessages(chat)[0]?.streaming === false);
+    expect(agentMessages(chat)[0]).toEqual(expect.objectContaining({ content: 'Partial', error: 'The reply was interrupted' }));
+    expect(errors.map(error => error.message)).toEqual(['model overloaded']);
+  });
+
+  it('should reject bad tokens and connections that never authenticate', async () => {
+    const forged = client(`${connector.createToken({ userId: 'u1' }).split('.')[0]}.forged`);
+    const failures: string[] = [];
+    forged.on('error', error => failures.push(error.code));
+    forged.connect();
+    await waitFor(() => forged.status === 'closed');
+    expect(failures).toEqual(['unauthorized']);
+
+    const expired = client(connector.createToken({ userId: 'u1' }, { expiresInMs: -1 }));
+    expired.connect();
+    await waitFor(() => expired.status === 'closed');
+
+    const silent = new WebSocket(`ws://127.0.0.1:${connector.port}`);
+    const code = await new Promise(resolve => silent.on('close', resolve));
+    expect(code).toBe(WEBCHAT_CLOSE_CODES.authTimeout);
+    expect(messages).toEqual([]);
+  });
+
+  it('should accept tokens minted with the same secret outside the connector', async () => {
+    const chat = await connected(client(() => createWebChatToken('webchat-secret', { userId: 'u7' }, { expiresInMs: 60000 })));
+    chat.send('Hi');
+    await waitFor(() => messages.length === 1);
+    expect(messages[0].sender).toBe('u7');
+
+    const stranger = client(createWebChatToken('another-secret', { userId: 'u7' }));
+    const failures: string[] = [];
+    stranger.on('error', error => failures.push(error.code));
+    stranger.connect();
+    await waitFor(() => stranger.status === 'closed');
+    expect(failures).toEqual(['unauthorized']);
+  });
+
+  it('should reject the user cookie value as a session token', async () => {
+    const cookie = createWebChatToken('webchat-secret', { userId: 'u7' }, { expiresInMs: 60000, audience: WEBCHAT_USER_AUDIENCE });
+    const chat = client(cookie);
+    const failures: string[] = [];
+    chat.on('error', error => failures.push(error.code));
+    chat.connect();
+    await waitFor(() => chat.status === 'closed');
+
+    expect(failures).toEqual(['unauthorized']);
+    expect(messages).toEqual([]);
+  });
+
+  it('should resume a session and deliver replies sent while it was away', async () => {
+    const token = connector.createToken({ userId: 'u1' });
+    const first = await connected(client(token));
+    const sessionId = first.sessionId!;
+    first.close();
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    await connector.sendMessage('Done while you were away', sessionId);
+    const second = await connected(client(token, { sessionId }));
+    expect(second.sessionId).toBe(sessionId);
+    await waitFor(() => agentMessages(second).length === 1);
+    expect(agentMessages(second)[0].content).toBe('Done while you were away');
+
+    // Another user cannot take the session over
+    const intruder = await connected(client(connector.createToken({ userId: 'u2' }), { sessionId }));
+    expect(intruder.sessionId).not.toBe(sessionId);
+  });
+
+  it('should acknowledge resent messages without emitting them twice', async () => {
+    const socket = new WebSocket(`ws://127.0.0.1:${connector.port}`);
+    const frames: any[] = [];
+    socket.on('message', data => frames.push(JSON.parse(data.toString())));
+    await new Promise(resolve => socket.on('open', resolve));
+    socket.send(JSON.stringify({ type: 'auth', token: connector.createToken({ userId: 'u1' }) }));
+    await waitFor(() => frames.length === 1);
+
+    socket.send(JSON.stringify({ type: 'message', id: 'm1', content: 'Hello' }));
+    socket.send(JSON.stringify({ type: 'message', id: 'm1', content: 'Hello' }));
+    await waitFor(() => frames.length === 3);
+    socket.close();
+
+    expect(frames.slice(1)).toEqual([{ type: 'ack', id: 'm1' }, { type: 'ack', id: 'm1' }]);
+    expect(messages.map(message => message.messageId)).toEqual(['m1']);
+  });
+
+  it('should parse commands and refuse messages that are too long', async () => {
+    const commands: CommandData[] = [];
+    connector.on('command', data => commands.push(data));
+    const failures: string[] = [];
+    const chat = await connected(client(connector.createToken({ userId: 'u1' })));
+    chat.on('error', error => failures.push(error.code));
+
+    chat.send('/price SOL');
+    const tooLong = chat.send('x'.repeat(4001));
+    await waitFor(() => commands.length === 1 && failures.length === 1);
+
+    expect(commands[0]).toEqual(expect.objectContaining({ command: 'price', args: ['SOL'], channelId: chat.sessionId }));
+    expect(failures).toEqual(['too_long']);
+    expect(chat.getMessages().find(message => message.id === tooLong)?.error).toBe('Messages are limited to 4000 characters');
+    expect(messages).toEqual([]);
+  });
+
+  it('should only accept connections from allowed origins', async () => {
+    await connector.stop();
+    connector = new WebChatConnector({ ...config, parameters: { ...config.parameters, allowedOrigins: ['https://app.juliaos.test'] } });
+    await connector.start();
+
+    const socket = new WebSocket(`ws://127.0.0.1:${connector.port}`, { origin: 'https://evil.test' });
+    const code = await new Promise(resolve => socket.on('close', resolve));
+    expect(code).toBe(WEBCHAT_CLOSE_CODES.forbiddenOrigin);
+
+    const allowed = new WebSocket(`ws://127.0.0.1:${connector.port}`, { origin: 'https://app.juliaos.test' });
+    await new Promise(resolve => allowed.on('open', resolve));
+    allowed.send(JSON.stringify({ type: 'auth', token: connector.createToken({ userId: 'u1' }) }));
+    const ready = await new Promise<any>(resolve => allowed.on('message', data => resolve(JSON.parse(data.toString()))));
+    expect(ready).toEqual(expect.objectContaining({ type: 'ready', userId: 'u1' }));
+    allowed.close();
+  });
+});
@@ -0,0 +1,58 @@
+// packages/platforms/webchat/src/auth.ts
+//
+// Session tokens of WebChatConnector. This module must only import Node built-ins:
+// scripts/generate-ts-client.js copies it to frontend/lib/generated/webchatAuth.ts, where the
+// frontend's /api/webchat/auth route mints tokens with it.
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export interface WebChatUser {
+  userId: string;
+  name?: string;
+}
+
+export interface WebChatTokenOptions {
+  expiresInMs?: number; // Default one day
+  audience?: string; // What the token may be used for; default WEBCHAT_SESSION_AUDIENCE
+}
+
+// Audience of the tokens WebChatConnector accepts when a connection authenticates
+export const WEBCHAT_SESSION_AUDIENCE = 'webchat-session';
+// Audience of the long-lived cookie that remembers a browser's user, which must not open sessions
+export const WEBCHAT_USER_AUDIENCE = 'webchat-user';
+
+const base64url = (value: Buffer | string) => Buffer.from(value).toString('base64url');
+
+const sign = (secret: string, payload: string) => base64url(createHmac('sha256', secret).update(payload).digest());
+
+/**
+ * Signs a token for a user with the connector's `secret`. The token is only checked when a
+ * connection authenticates, so a short expiry is enough for tokens fetched right before connecting.
+ * Tokens signed for another `audience` carry the same user but are rejected by the connector.
+ */
+export function createWebChatToken(secret: string, user: WebChatUser, options: WebChatTokenOptions = {}): string {
+  const payload = base64url(JSON.stringify({
+    sub: user.userId,
+    name: user.name,
+    aud: options.audience ?? WEBCHAT_SESSION_AUDIENCE,
+    exp: Date.now() + (options.expiresInMs ?? 24 * 60 * 60 * 1000)
+  }));
+  return `${payload}.${sign(secret, payload)}`;
+}
+
+// Returns the user of an unexpired token signed with `secret` for `audience`, or undefined
+export function verifyWebChatToken(secret: string, token: string, audience: string = WEBCHAT_SESSION_AUDIENCE): WebChatUser | undefined {
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return undefined;
+  const expected = Buffer.from(sign(secret, payload));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return undefined;
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    if (typeof claims.sub !== 'string' || typeof claims.exp !== 'number' || claims.exp < Date.now()) return undefined;
+    if (claims.aud !== audience) return undefined;
+    return { userId: claims.sub, name: claims.name };
+  } catch {
+    return undefined;
+  }
+}
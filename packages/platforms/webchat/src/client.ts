@@ -0,0 +1,288 @@
+// packages/platforms/webchat/src/client.ts
+//
+// Browser client for WebChatConnector and the frames both sides exchange. This module must stay
+// free of imports: scripts/generate-ts-client.js copies it to frontend/lib/generated/webchat.ts.
+
+/**
+ * Frames sent by the client. The first one must be `auth`; `sessionId` resumes an earlier session
+ * and `agentId` names the agent the chat is with, e.g. the one of the page it is embedded in.
+ */
+export type WebChatClientFrame =
+  | { type: 'auth'; token: string; sessionId?: string; agentId?: string }
+  | { type: 'message'; id: string; content: string };
+
+export type WebChatErrorCode = 'unauthorized' | 'invalid_frame' | 'too_long';
+
+/**
+ * Frames sent by the connector. A streamed reply is a `stream_start`, any number of
+ * `stream_delta` frames with the next piece of text and a `stream_end` with the whole text.
+ */
+export type WebChatServerFrame =
+  | { type: 'ready'; sessionId: string; userId: string; name?: string }
+  | { type: 'ack'; id: string } // A client message was received
+  | { type: 'message'; id: string; content: string; timestamp: string; replyTo?: string }
+  | { type: 'stream_start'; id: string; timestamp: string; replyTo?: string }
+  | { type: 'stream_delta'; id: string; delta: string }
+  | { type: 'stream_end'; id: string; content: string; error?: string }
+  | { type: 'error'; code: WebChatErrorCode; message: string; id?: string };
+
+// Close codes used by the connector
+export const WEBCHAT_CLOSE_CODES = {
+  unauthorized: 4401,
+  forbiddenOrigin: 4403,
+  authTimeout: 4408,
+} as const;
+
+export type WebChatStatus = 'connecting' | 'open' | 'closed';
+
+// A message of the conversation, as shown by a chat UI
+export interface WebChatMessage {
+  id: string;
+  role: 'user' | 'agent';
+  content: string;
+  timestamp: Date;
+  streaming?: boolean; // The agent is still writing it
+  pending?: boolean; // Sent by the user but not acknowledged yet
+  replyTo?: string;
+  error?: string;
+}
+
+export interface WebChatEventMap {
+  ready: { sessionId: string; userId: string; name?: string };
+  message: WebChatMessage; // A new message, or a new version of one with the same id
+  status: WebChatStatus;
+  error: { code: WebChatErrorCode | 'connection'; message: string };
+}
+
+// The parts of the browser WebSocket the client uses, so `ws` can stand in outside the browser
+export interface WebChatSocket {
+  readonly readyState: number;
+  onopen: ((event: any) => void) | null;
+  onmessage: ((event: { data: any }) => void) | null;
+  onclose: ((event: { code: number; reason: string }) => void) | null;
+  onerror: ((event: any) => void) | null;
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+}
+
+export type WebChatSocketConstructor = new (url: string) => WebChatSocket;
+
+// The DOM typings declare WebSocket on every runtime, but Node only has it from version 22
+interface WebSocketGlobal {
+  WebSocket?: WebChatSocketConstructor;
+}
+
+export interface WebChatClientOptions {
+  url: string; // e.g. ws://localhost:8787
+  /** Session token, or a function fetching a fresh one before every connection */
+  token: string | (() => string | Promise<string>);
+  sessionId?: string; // Session to resume, e.g. kept in sessionStorage
+  agentId?: string; // Agent to chat with
+  reconnect?: boolean; // Default true; never after the connector rejects the token
+  reconnectDelayMs?: number; // First reconnect delay, doubled on every failed attempt (default 1000)
+  maxReconnectDelayMs?: number; // Default 30000
+  WebSocket?: WebChatSocketConstructor; // Default the global WebSocket
+}
+
+const OPEN = 1;
+
+const randomId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Connects to a WebChatConnector, keeps the conversation of one session and reconnects with
+ * exponential backoff. Messages sent while disconnected go out once the session is ready again.
+ *
+ *   const chat = new WebChatClient({ url, token })
+ *   chat.on('message', message => render(message))
+ *   chat.connect()
+ *   chat.send('What is my balance?')
+ */
+export class WebChatClient {
+  private options: WebChatClientOptions;
+  private socket?: WebChatSocket;
+  private listeners: { [K in keyof WebChatEventMap]?: Array<(payload: WebChatEventMap[K]) => void> } = {};
+  private messages = new Map<string, WebChatMessage>();
+  private outbox: Array<{ id: string; content: string }> = [];
+  private reconnectTimer?: ReturnType<typeof setTimeout>;
+  private attempts = 0;
+  private closed = true;
+  private ready = false;
+  public status: WebChatStatus = 'closed';
+  public sessionId?: string;
+
+  constructor(options: WebChatClientOptions) {
+    this.options = options;
+    this.sessionId = options.sessionId;
+  }
+
+  // Adds a listener and returns a function removing it
+  on<K extends keyof WebChatEventMap>(event: K, listener: (payload: WebChatEventMap[K]) => void): () => void {
+    const listeners = (this.listeners[event] ||= []) as Array<(payload: WebChatEventMap[K]) => void>;
+    listeners.push(listener);
+    return () => {
+      const index = listeners.indexOf(listener);
+      if (index >= 0) listeners.splice(index, 1);
+    };
+  }
+
+  // Messages of the conversation so far, oldest first
+  getMessages(): WebChatMessage[] {
+    return Array.from(this.messages.values());
+  }
+
+  connect(): void {
+    if (!this.closed) return;
+    this.closed = false;
+    this.open();
+  }
+
+  close(): void {
+    this.closed = true;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = undefined;
+    this.socket?.close(1000);
+    this.socket = undefined;
+    this.setStatus('closed');
+  }
+
+  // Sends a user message and returns its id
+  send(content: string): string {
+    const id = randomId();
+    this.update({ id, role: 'user', content, timestamp: new Date(), pending: true });
+    this.outbox.push({ id, content });
+    this.flush();
+    return id;
+  }
+
+  private async open(): Promise<void> {
+    this.setStatus('connecting');
+    let token: string;
+    try {
+      token = typeof this.options.token === 'function' ? await this.options.token() : this.options.token;
+    } catch (error) {
+      this.emit('error', { code: 'connection', message: `Failed to get a web chat token: ${error instanceof Error ? error.message : error}` });
+      this.scheduleReconnect();
+      return;
+    }
+    if (this.closed) return;
+
+    let socket: WebChatSocket;
+    try {
+      const WebSocketImpl = this.options.WebSocket || (globalThis as WebSocketGlobal).WebSocket;
+      if (!WebSocketImpl) throw new Error('no WebSocket implementation available; pass one as options.WebSocket');
+      socket = new WebSocketImpl(this.options.url);
+    } catch (error) {
+      this.emit('error', { code: 'connection', message: `Failed to open ${this.options.url}: ${error instanceof Error ? error.message : error}` });
+      this.close();
+      return;
+    }
+    this.socket = socket;
+    socket.onopen = () => this.write(socket, { type: 'auth', token, sessionId: this.sessionId, agentId: this.options.agentId });
+    socket.onmessage = event => {
+      try {
+        this.handle(JSON.parse(String(event.data)) as WebChatServerFrame);
+      } catch {
+        this.emit('error', { code: 'invalid_frame', message: 'Received a malformed frame' });
+      }
+    };
+    socket.onerror = () => undefined; // Followed by onclose
+    socket.onclose = ({ code, reason }) => {
+      if (this.socket !== socket) return;
+      this.socket = undefined;
+      this.ready = false;
+      if (this.closed) return;
+      // A rejected token was already reported by the error frame preceding the close
+      if (code === WEBCHAT_CLOSE_CODES.forbiddenOrigin) {
+        this.emit('error', { code: 'unauthorized', message: reason || 'Origin not allowed' });
+      }
+      if (code === WEBCHAT_CLOSE_CODES.unauthorized || code === WEBCHAT_CLOSE_CODES.forbiddenOrigin) {
+        this.close();
+        return;
+      }
+      this.scheduleReconnect();
+    };
+  }
+
+  private handle(frame: WebChatServerFrame): void {
+    switch (frame.type) {
+      case 'ready':
+        this.sessionId = frame.sessionId;
+        this.ready = true;
+        this.attempts = 0;
+        this.setStatus('open');
+        this.emit('ready', { sessionId: frame.sessionId, userId: frame.userId, name: frame.name });
+        this.flush();
+        break;
+      case 'ack': {
+        const message = this.messages.get(frame.id);
+        this.outbox = this.outbox.filter(entry => entry.id !== frame.id);
+        if (message) this.update({ ...message, pending: false });
+        break;
+      }
+      case 'message':
+        this.update({ id: frame.id, role: 'agent', content: frame.content, timestamp: new Date(frame.timestamp), replyTo: frame.replyTo });
+        break;
+      case 'stream_start':
+        this.update({ id: frame.id, role: 'agent', content: '', timestamp: new Date(frame.timestamp), replyTo: frame.replyTo, streaming: true });
+        break;
+      case 'stream_delta': {
+        const message = this.messages.get(frame.id);
+        if (message) this.update({ ...message, content: message.content + frame.delta });
+        break;
+      }
+      case 'stream_end': {
+        const message = this.messages.get(frame.id);
+        if (message) this.update({ ...message, content: frame.content, streaming: false, error: frame.error });
+        break;
+      }
+      case 'error':
+        if (frame.id) {
+          const message = this.messages.get(frame.id);
+          this.outbox = this.outbox.filter(entry => entry.id !== frame.id);
+          if (message) this.update({ ...message, pending: false, error: frame.message });
+        }
+        this.emit('error', { code: frame.code, message: frame.message });
+        break;
+    }
+  }
+
+  // Sends queued messages; they stay queued until acknowledged so a reconnect resends them
+  private flush(): void {
+    const socket = this.socket;
+    if (!socket || !this.ready) return;
+    for (const { id, content } of this.outbox) this.write(socket, { type: 'message', id, content });
+  }
+
+  private write(socket: WebChatSocket, frame: WebChatClientFrame): void {
+    if (socket.readyState === OPEN) socket.send(JSON.stringify(frame));
+  }
+
+  private scheduleReconnect(): void {
+    this.setStatus('connecting');
+    if (this.options.reconnect === false) {
+      this.close();
+      return;
+    }
+    const delay = Math.min((this.options.reconnectDelayMs ?? 1000) * 2 ** this.attempts, this.options.maxReconnectDelayMs ?? 30000);
+    this.attempts++;
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
+      if (!this.closed) this.open();
+    }, delay);
+  }
+
+  private update(message: WebChatMessage): void {
+    this.messages.set(message.id, message);
+    this.emit('message', message);
+  }
+
+  private setStatus(status: WebChatStatus): void {
+    if (this.status === status) return;
+    this.status = status;
+    this.emit('status', status);
+  }
+
+  private emit<K extends keyof WebChatEventMap>(event: K, payload: WebChatEventMap[K]): void {
+    for (const listener of [...(this.listeners[event] || [])]) listener(payload);
+  }
+}
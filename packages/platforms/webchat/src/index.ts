@@ -0,0 +1,381 @@
+import { randomUUID } from 'crypto';
+import { IncomingMessage } from 'http';
+import { AddressInfo } from 'net';
+import { WebSocket, WebSocketServer, RawData } from 'ws';
+import {
+  Platform,
+  PlatformConfig,
+  PlatformEventMap,
+  CommandData,
+  MessageData,
+  RichMessage,
+  SendOptions,
+  platformRegistry,
+  parseCommandLine,
+  renderPlainText,
+  rich,
+  toRichMessage,
+} from '@juliaos/core';
+import { WEBCHAT_CLOSE_CODES, WebChatClientFrame, WebChatServerFrame } from './client';
+import { WebChatTokenOptions, WebChatUser, createWebChatToken, verifyWebChatToken } from './auth';
+
+export * from './client';
+export * from './auth';
+
+const PENDING_FRAMES_LIMIT = 100;
+const SEEN_MESSAGES_LIMIT = 200;
+
+export interface WebChatConfig extends PlatformConfig {
+  parameters: {
+    port?: number; // Default 8787; 0 picks a free port
+    host?: string; // Default '127.0.0.1'
+    path?: string; // Only accept connections to this path
+    secret?: string; // Signs the tokens of createToken; required unless authenticate is overridden
+    commandPrefix?: string;
+    allowedOrigins?: string[]; // Origins of the pages allowed to connect (default any)
+    authTimeoutMs?: number; // Close connections that have not authenticated by then (default 10000)
+    resumeWindowMs?: number; // Keep a session this long after its last connection closed (default 60000)
+    heartbeatIntervalMs?: number; // Ping every connection this often (default 30000)
+    maxMessageLength?: number; // Characters (default 4000)
+  };
+}
+
+export interface WebChatSessionEvent extends WebChatUser {
+  sessionId: string;
+  agentId?: string; // Agent the client asked to chat with
+}
+
+export interface WebChatMessageData extends MessageData {
+  agentId?: string;
+}
+
+export interface WebChatEventMap extends PlatformEventMap {
+  message: [WebChatMessageData];
+  command: [WebChatMessageData & CommandData];
+  sessionStart: [WebChatSessionEvent];
+  sessionEnd: [WebChatSessionEvent]; // The resume window passed with no connection left
+}
+
+export interface StreamMessageOptions {
+  replyTo?: string; // Message ID the reply answers
+}
+
+interface WebChatSession extends WebChatSessionEvent {
+  sockets: Set<WebSocket>;
+  pending: WebChatServerFrame[]; // Frames sent while no connection was open
+  seen: Set<string>; // IDs of recent client messages, which are resent after a reconnect
+  expiry?: NodeJS.Timeout;
+}
+
+/**
+ * Connector for chat UIs of our own, such as the frontend's agent page: runs a WebSocket server
+ * on which every authenticated connection joins a session. The session ID is the channel of its
+ * messages, so replies reach every tab the session is open in, and survive reloads within the
+ * resume window.
+ *
+ * Messages carry the `agentId` the client opened its session for, so one connector can serve
+ * the chats of every agent page.
+ *
+ * Connections authenticate with a token signed by `createToken` from the `secret` parameter;
+ * override `authenticate` to accept other credentials. `streamMessage` sends a reply piece by
+ * piece as it is generated. Browsers connect with WebChatClient from ./client.
+ */
+export class WebChatConnector extends Platform<WebChatEventMap> {
+  private server?: WebSocketServer;
+  private sessions: Map<string, WebChatSession> = new Map();
+  private heartbeat?: NodeJS.Timeout;
+  private alive: WeakSet<WebSocket> = new WeakSet();
+
+  constructor(config: WebChatConfig) {
+    super(config);
+  }
+
+  async connect(): Promise<void> {
+    try {
+      const { port = 8787, host = '127.0.0.1', path } = this.parameters;
+      const server = new WebSocketServer({ port, host, path, maxPayload: 64 * 1024 });
+      await new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        server.once('listening', () => {
+          server.off('error', reject);
+          resolve();
+        });
+      });
+      server.on('connection', (socket, request) => this.accept(socket, request));
+      server.on('error', error => {
+        this.logger.error('Web chat server error', { error });
+        this.emit('error', error);
+      });
+      this.server = server;
+      this.heartbeat = setInterval(() => this.ping(), this.parameters.heartbeatIntervalMs ?? 30000);
+
+      this.setConnected(true);
+      this.logger.info('Listening', { host, port: this.port });
+    } catch (error) {
+      this.logger.error('Failed to start the web chat server', { error });
+      this.emit('error', error as Error);
+      throw error;
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    try {
+      if (this.heartbeat) clearInterval(this.heartbeat);
+      this.heartbeat = undefined;
+      for (const session of this.sessions.values()) {
+        if (session.expiry) clearTimeout(session.expiry);
+      }
+      this.sessions.clear();
+      const server = this.server;
+      this.server = undefined;
+      if (server) {
+        for (const socket of server.clients) socket.close(1001, 'Server shutting down');
+        await new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve())));
+      }
+      this.setConnected(false);
+      this.logger.info('Disconnected');
+    } catch (error) {
+      this.logger.error('Failed to stop the web chat server', { error });
+      this.emit('error', error as Error);
+      throw error;
+    }
+  }
+
+  // Port the server listens on, once connected
+  get port(): number | undefined {
+    return (this.server?.address() as AddressInfo | undefined)?.port;
+  }
+
+  /**
+   * Signs a session token for a user; see createWebChatToken, which servers without the connector
+   * use with the same `secret`, e.g. the frontend's token route.
+   */
+  createToken(user: WebChatUser, options: WebChatTokenOptions = {}): string {
+    return createWebChatToken(this.secret(), user, options);
+  }
+
+  // Sends a complete reply to a session
+  async sendMessage(content: string, channelId: string, options?: SendOptions): Promise<void> {
+    try {
+      await this.enqueueOutbound(channelId, async () =>
+        this.deliver(channelId, { type: 'message', id: randomUUID(), content, timestamp: new Date().toISOString(), replyTo: options?.replyTo })
+      );
+    } catch (error) {
+      this.logger.error('Failed to send web chat message', { error });
+      this.emit('error', error as Error);
+      throw error;
+    }
+  }
+
+  // Sends the message as one plain text reply with attachment URLs as links
+  async sendRichMessage(message: RichMessage | string, channelId: string, options?: SendOptions): Promise<void> {
+    const { blocks, attachments = [] } = toRichMessage(message);
+    const links = attachments.filter(attachment => attachment.url).map(attachment => rich.link(attachment.url!));
+    await this.sendMessage(renderPlainText(links.length ? [...blocks, rich.paragraph(...links.flatMap((link, i) => (i ? ['\n', link] : [link])))] : blocks), channelId, options);
+  }
+
+  /**
+   * Streams a reply to a session as its pieces arrive, e.g. the tokens of a model response,
+   * and resolves with the whole text. If `content` fails, the client is told and the error is
+   * rethrown.
+   */
+  async streamMessage(content: AsyncIterable<string>, channelId: string, options: StreamMessageOptions = {}): Promise<string> {
+    const id = randomUUID();
+    let text = '';
+    try {
+      this.deliver(channelId, { type: 'stream_start', id, timestamp: new Date().toISOString(), replyTo: options.replyTo });
+      for await (const delta of content) {
+        if (!delta) continue;
+        text += delta;
+        this.deliver(channelId, { type: 'stream_delta', id, delta });
+      }
+      this.deliver(channelId, { type: 'stream_end', id, content: text });
+      return text;
+    } catch (error) {
+      this.logger.error('Failed to stream web chat message', { error });
+      if (this.sessions.has(channelId)) {
+        this.deliver(channelId, { type: 'stream_end', id, content: text, error: 'The reply was interrupted' });
+      }
+      this.emit('error', error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * Checks the token a connection authenticated with and returns its user, or undefined to
+   * reject it. The default accepts unexpired tokens from createToken.
+   */
+  protected async authenticate(token: string): Promise<WebChatUser | undefined> {
+    return verifyWebChatToken(this.secret(), token);
+  }
+
+  private secret(): string {
+    const secret = this.parameters.secret;
+    if (!secret) throw new Error('The web chat connector needs a `secret` parameter to sign and check tokens');
+    return secret;
+  }
+
+  private accept(socket: WebSocket, request: IncomingMessage): void {
+    const origin = request.headers.origin;
+    const allowedOrigins: string[] | undefined = this.parameters.allowedOrigins;
+    if (allowedOrigins && (!origin || !allowedOrigins.includes(origin))) {
+      this.logger.warn('Rejected web chat connection from a foreign origin', { origin });
+      socket.close(WEBCHAT_CLOSE_CODES.forbiddenOrigin, 'Origin not allowed');
+      return;
+    }
+
+    this.alive.add(socket);
+    socket.on('pong', () => this.alive.add(socket));
+    socket.on('error', error => this.logger.warn('Web chat connection error', { error }));
+
+    let session: WebChatSession | undefined;
+    let authenticating = false;
+    const authTimer = setTimeout(() => {
+      socket.close(WEBCHAT_CLOSE_CODES.authTimeout, 'Authentication timed out');
+    }, this.parameters.authTimeoutMs ?? 10000);
+
+    socket.on('message', async data => {
+      const frame = this.parseFrame(data);
+      if (!frame) {
+        this.send(socket, { type: 'error', code: 'invalid_frame', message: 'Frames must be JSON objects with a type' });
+        return;
+      }
+      if (!session) {
+        // Frames arriving while the token is checked are dropped; clients wait for `ready`
+        if (authenticating) return;
+        if (frame.type !== 'auth') {
+          this.send(socket, { type: 'error', code: 'unauthorized', message: 'Authenticate first' });
+          socket.close(WEBCHAT_CLOSE_CODES.unauthorized, 'Unauthorized');
+          return;
+        }
+        authenticating = true;
+        clearTimeout(authTimer);
+        session = await this.openSession(socket, frame);
+        return;
+      }
+      if (frame.type === 'message') this.receive(socket, session, frame);
+    });
+
+    socket.on('close', () => {
+      clearTimeout(authTimer);
+      if (session) this.leave(session, socket);
+    });
+  }
+
+  private async openSession(socket: WebSocket, frame: Extract<WebChatClientFrame, { type: 'auth' }>): Promise<WebChatSession | undefined> {
+    let user: WebChatUser | undefined;
+    try {
+      user = typeof frame.token === 'string' ? await this.authenticate(frame.token) : undefined;
+    } catch (error) {
+      this.logger.error('Failed to authenticate web chat connection', { error });
+    }
+    if (!user) {
+      this.send(socket, { type: 'error', code: 'unauthorized', message: 'Invalid or expired token' });
+      socket.close(WEBCHAT_CLOSE_CODES.unauthorized, 'Unauthorized');
+      return undefined;
+    }
+    if (socket.readyState !== WebSocket.OPEN) return undefined;
+
+    // Sessions can only be resumed by the user that opened them
+    const previous = typeof frame.sessionId === 'string' ? this.sessions.get(frame.sessionId) : undefined;
+    let session = previous && previous.userId === user.userId ? previous : undefined;
+    if (session) {
+      if (session.expiry) clearTimeout(session.expiry);
+      session.expiry = undefined;
+    } else {
+      const agentId = typeof frame.agentId === 'string' ? frame.agentId : undefined;
+      session = { sessionId: randomUUID(), userId: user.userId, name: user.name, agentId, sockets: new Set(), pending: [], seen: new Set() };
+      this.sessions.set(session.sessionId, session);
+      this.logger.debug('Web chat session started', { sessionId: session.sessionId, userId: user.userId, agent_id: agentId });
+      this.emit('sessionStart', { sessionId: session.sessionId, userId: user.userId, name: user.name, agentId });
+    }
+    session.sockets.add(socket);
+    this.send(socket, { type: 'ready', sessionId: session.sessionId, userId: user.userId, name: user.name });
+    for (const pending of session.pending.splice(0)) this.send(socket, pending);
+    return session;
+  }
+
+  private receive(socket: WebSocket, session: WebChatSession, frame: Extract<WebChatClientFrame, { type: 'message' }>): void {
+    const id = typeof frame.id === 'string' && frame.id.length <= 100 ? frame.id : undefined;
+    if (!id || typeof frame.content !== 'string' || !frame.content.trim()) {
+      this.send(socket, { type: 'error', code: 'invalid_frame', message: 'Messages need an id and some content', id });
+      return;
+    }
+    const maxLength = this.parameters.maxMessageLength ?? 4000;
+    if (frame.content.length > maxLength) {
+      this.send(socket, { type: 'error', code: 'too_long', message: `Messages are limited to ${maxLength} characters`, id });
+      return;
+    }
+    this.send(socket, { type: 'ack', id });
+    // Clients resend unacknowledged messages after a reconnect
+    if (session.seen.has(id)) return;
+    session.seen.add(id);
+    if (session.seen.size > SEEN_MESSAGES_LIMIT) session.seen.delete(session.seen.values().next().value as string);
+
+    const data: WebChatMessageData = {
+      content: frame.content,
+      sender: session.userId,
+      senderName: session.name,
+      channelId: session.sessionId,
+      messageId: id,
+      timestamp: new Date(),
+      agentId: session.agentId,
+    };
+    const prefix = this.getCommandPrefix();
+    const parsed = prefix ? parseCommandLine(frame.content.trim(), prefix) : undefined;
+    if (parsed) {
+      this.emit('command', { ...data, ...parsed });
+      return;
+    }
+    this.emit('message', data);
+  }
+
+  private leave(session: WebChatSession, socket: WebSocket): void {
+    session.sockets.delete(socket);
+    if (session.sockets.size > 0 || this.sessions.get(session.sessionId) !== session) return;
+    session.expiry = setTimeout(() => {
+      this.sessions.delete(session.sessionId);
+      this.logger.debug('Web chat session ended', { sessionId: session.sessionId });
+      this.emit('sessionEnd', { sessionId: session.sessionId, userId: session.userId, name: session.name, agentId: session.agentId });
+    }, this.parameters.resumeWindowMs ?? 60000);
+  }
+
+  // Sends a frame to every connection of a session, or keeps it for the next one
+  private deliver(sessionId: string, frame: WebChatServerFrame): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) throw new Error(`Unknown web chat session ${sessionId}`);
+    if (session.sockets.size === 0) {
+      session.pending.push(frame);
+      if (session.pending.length > PENDING_FRAMES_LIMIT) session.pending.shift();
+      return;
+    }
+    for (const socket of session.sockets) this.send(socket, frame);
+  }
+
+  private send(socket: WebSocket, frame: WebChatServerFrame): void {
+    if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(frame));
+  }
+
+  private parseFrame(data: RawData): WebChatClientFrame | undefined {
+    try {
+      const frame = JSON.parse(data.toString());
+      return frame && typeof frame === 'object' && typeof frame.type === 'string' ? frame : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  // Closes connections that did not answer the previous ping
+  private ping(): void {
+    for (const socket of this.server?.clients || []) {
+      if (!this.alive.has(socket)) {
+        socket.terminate();
+        continue;
+      }
+      this.alive.delete(socket);
+      socket.ping();
+    }
+  }
+}
+
+platformRegistry.register('webchat', WebChatConnector);
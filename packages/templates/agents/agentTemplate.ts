@@ -15,29 +15,39 @@
  * For more info, see the JuliaOS documentation: https://juliaos.gitbook.io/juliaos-documentation-hub/
  */
 
-import { ApiClient } from '@juliaos/core';
+import { JuliaOSClientTS, CreateAgentRequest, getLogger } from '@juliaos/core';
 // import { RiskManager } from '@juliaos/core/risk'; // Uncomment if risk manager is exposed via SDK
 
 // === User: Configure your agent ===
-const agentConfig = {
+const agentConfig: CreateAgentRequest = {
+  id: 'my-custom-agent',
   name: 'MyCustomAgent',
   description: 'A user-defined agent for JuliaOS',
-  // Add more configuration fields as needed
-  // e.g., riskProfile: 'conservative', maxTradeSize: 1000
+  // The blueprint selects registered tools, a strategy and how the agent is triggered
+  blueprint: {
+    tools: [{ name: 'ping', config: {} }],
+    strategy: { name: 'plan_execute', config: {} },
+    trigger: { type: 'webhook', params: {} },
+  },
 };
 
+// Structured JSON logs; set JULIAOS_LOG_LEVEL=debug to see every API request
+const logger = getLogger({ module: 'agentTemplate' });
+
 // === User: Define your agent logic ===
 async function runAgent() {
-  const client = new ApiClient();
+  const client = new JuliaOSClientTS(process.env.JULIAOS_API_URL || 'http://localhost:8052/api/v1');
 
-  // Example: Register agent
-  const agentId = await client.agents.createAgent(agentConfig);
+  // Example: Register and start agent
+  const { id: agentId } = await client.agents.createAgent(agentConfig);
+  await client.agents.startAgent(agentId);
+  const agentLogger = logger.child({ agent_id: agentId });
 
   // === Risk management integration (optional) ===
   // const riskManager = new RiskManager({ configPath: './config/risk_management.toml' });
 
-  // Example: Subscribe to events (e.g., price updates, new objectives)
-  // client.events.on('priceUpdate', (data) => { ... });
+  // Example: Subscribe to real-time events for this agent
+  // client.events.on('execution_update', (event) => { ... }, { agentId });
 
   // Example: Main agent loop
   while (true) {
@@ -54,7 +64,7 @@ async function runAgent() {
       // await client.swarms.submitObjective({ agentId, objective: { ... } });
 
       // Example: Log agent status
-      console.log(`[Agent] ${agentConfig.name} running...`);
+      agentLogger.info(`${agentConfig.name} running`);
 
       // === Real-time analytics/logging (customize as needed) ===
       // TradeLogger.log_trade({ agentId, event: 'status', timestamp: Date.now(), ... });
@@ -62,7 +72,7 @@ async function runAgent() {
       // Sleep or wait for events
       await new Promise((resolve) => setTimeout(resolve, 5000));
     } catch (err) {
-      console.error('Agent error:', err);
+      agentLogger.error('Agent error', { error: err });
       // Optionally: log error to analytics, notify user, etc.
     }
   }
@@ -70,5 +80,5 @@ async function runAgent() {
 
 // === Start the agent ===
 runAgent().catch((err) => {
-  console.error('Agent error:', err);
+  logger.fatal('Agent error', { error: err });
 });
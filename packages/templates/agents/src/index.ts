@@ -2,5 +2,3 @@
 
 export * from './types';
 export * from './AgentsService';
-
-console.log('JuliaOS Agents Module Loaded'); // Placeholder
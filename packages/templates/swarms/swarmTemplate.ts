@@ -13,33 +13,38 @@
  * For more info, see the JuliaOS documentation: https://juliaos.gitbook.io/juliaos-documentation-hub/
  */
 
-import { ApiClient } from '@juliaos/core';
+import { JuliaOSClientTS, LaunchSwarmOptions, SwarmObjective, SwarmStatus, getLogger } from '@juliaos/core';
+
+// Structured JSON logs; set JULIAOS_LOG_LEVEL=debug to see every API request
+const logger = getLogger({ module: 'swarmTemplate' });
 
 // === User: Configure your swarm objective ===
-const swarmObjective = {
+const swarmObjective: SwarmObjective = {
   name: 'MyCustomSwarmObjective',
   description: 'A user-defined swarm optimization objective for JuliaOS',
-  // Define your objective function parameters, constraints, etc.
-  // For example, optimize a portfolio, solve a math problem, etc.
-  parameters: {
-    // Example: { "targetReturn": 0.1, "maxRisk": 0.05 }
-  }
+  // Name of an objective function registered in the backend (see custom_swarm_objective_template.jl)
+  objective_function_name: 'default_sum_objective',
+  // Define the search space: one [min, max] bound per dimension
+  dimensions: 2,
+  bounds: [[-10, 10], [-10, 10]],
+  is_minimization: true,
 };
 
 // === User: Configure your swarm algorithm and parameters ===
-const swarmConfig = {
-  algorithm: 'PSO', // Options: 'PSO', 'DE', 'GA', etc.
-  numParticles: 30,
-  maxIterations: 100,
-  inertiaWeight: 0.7,
-  cognitiveCoeff: 1.5,
-  socialCoeff: 1.5,
+const swarmConfig: LaunchSwarmOptions['config'] = {
+  algorithm: 'PSO', // Options: 'PSO', 'DE', 'GA'
+  params: {
+    num_particles: 30,
+    inertia: 0.7,
+    c1: 1.5, // cognitive coefficient
+    c2: 1.5, // social coefficient
+  },
   // Add more algorithm-specific parameters as needed
 };
 
 // === User: Define your swarm logic ===
 async function runSwarm() {
-  const client = new ApiClient();
+  const client = new JuliaOSClientTS(process.env.JULIAOS_API_URL || 'http://localhost:8052/api/v1');
 
   // Example: Register swarm objective
   const objectiveId = await client.swarms.createObjective(swarmObjective);
@@ -47,20 +52,21 @@ async function runSwarm() {
   // Example: Launch swarm optimization
   const swarmId = await client.swarms.launchSwarm({
     objectiveId,
-    config: swarmConfig
+    config: swarmConfig,
+    maxIterations: 100,
   });
 
   // Example: Monitor swarm progress
   while (true) {
     try {
       const status = await client.swarms.getSwarmStatus(swarmId);
-      console.log(`[Swarm] Status:`, status);
-      if (status.status === 'COMPLETED' || status.status === 'ERROR' || status.status === 'STOPPED') {
+      logger.info('Swarm status', { swarm_id: swarmId, status });
+      if (status.status === SwarmStatus.COMPLETED || status.status === SwarmStatus.ERROR || status.status === SwarmStatus.STOPPED) {
         break;
       }
       await new Promise((resolve) => setTimeout(resolve, 2000));
     } catch (err) {
-      console.error('Swarm monitoring error:', err);
+      logger.error('Swarm monitoring error', { swarm_id: swarmId, error: err });
       break;
     }
   }
@@ -68,13 +74,13 @@ async function runSwarm() {
   // Example: Retrieve and display results
   try {
     const result = await client.swarms.getSwarmResult(swarmId);
-    console.log(`[Swarm] Best solution found:`, result.bestSolution);
+    logger.info(`Best fitness: ${result.best_fitness}`, { swarm_id: swarmId, solution: result.best_solution });
   } catch (err) {
-    console.error('Swarm result retrieval error:', err);
+    logger.error('Swarm result retrieval error', { swarm_id: swarmId, error: err });
   }
 }
 
 // === Start the swarm ===
 runSwarm().catch((err) => {
-  console.error('Swarm error:', err);
+  logger.fatal('Swarm error', { error: err });
 });
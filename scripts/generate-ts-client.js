@@ -0,0 +1,257 @@
+#!/usr/bin/env node
+/**
+ * generate-ts-client.js - TypeScript client generator for the JuliaOS backend API
+ *
+ * Reads backend/src/api/spec/api-spec.yaml and writes typed models and request
+ * functions to every target listed in TARGETS, so that @juliaos/core and the
+ * frontend share a single definition of the API surface.
+ *
+ * Usage:
+ *   node scripts/generate-ts-client.js          # (re)generate all targets
+ *   node scripts/generate-ts-client.js --check  # exit 1 if any target is stale
+ *
+ * The generated file has no runtime dependencies: each request function takes an
+ * `ApiRequester`, which the consumer implements on top of its own HTTP client.
+ *
+ * Hand-written modules listed in SHARED_MODULES (the error taxonomy, the logger, and the web
+ * chat client and tokens) are copied from the packages to the frontend by the same run.
+ */
+
+const fs = require('fs');
+const path = require('path');
+const YAML = require('yaml');
+
+const ROOT = path.resolve(__dirname, '..');
+const SPEC_PATH = 'backend/src/api/spec/api-spec.yaml';
+const TARGETS = [
+  'packages/core/src/generated/api.ts',
+  'frontend/lib/generated/api.ts',
+];
+const SHARED_MODULES = [
+  { source: 'packages/core/src/api/errors.ts', target: 'frontend/lib/generated/errors.ts' },
+  { source: 'packages/core/src/logging/logger.ts', target: 'frontend/lib/generated/logger.ts' },
+  { source: 'packages/platforms/webchat/src/client.ts', target: 'frontend/lib/generated/webchat.ts' },
+  { source: 'packages/platforms/webchat/src/auth.ts', target: 'frontend/lib/generated/webchatAuth.ts' },
+];
+const HTTP_METHODS = ['get', 'post', 'put', 'patch', 'delete'];
+
+function pascalCase(value) {
+  return value
+    .replace(/[^A-Za-z0-9]+(.)/g, (_, chr) => chr.toUpperCase())
+    .replace(/^./, (chr) => chr.toUpperCase());
+}
+
+function docComment(lines, indent = '') {
+  const text = lines.filter(Boolean).map((line) => String(line).trim().replace(/\*\//g, '*\\/'));
+  if (text.length === 0) return '';
+  if (text.length === 1) return `${indent}/** ${text[0]} */\n`;
+  return `${indent}/**\n${text.map((line) => `${indent} * ${line}`).join('\n')}\n${indent} */\n`;
+}
+
+function refName(ref) {
+  const prefix = '#/components/schemas/';
+  if (!ref.startsWith(prefix)) {
+    throw new Error(`Unsupported $ref: ${ref}`);
+  }
+  return ref.slice(prefix.length);
+}
+
+function tsType(schema, indent = '') {
+  if (!schema) return 'unknown';
+  if (schema.$ref) return refName(schema.$ref);
+  if (schema.enum) return schema.enum.map((value) => JSON.stringify(value)).join(' | ');
+
+  switch (schema.type) {
+    case 'string':
+      return 'string';
+    case 'integer':
+    case 'number':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'array':
+      return `Array<${tsType(schema.items, indent)}>`;
+    case 'object':
+    case undefined:
+      if (schema.properties) return objectType(schema, indent);
+      return 'Record<string, any>';
+    default:
+      return 'unknown';
+  }
+}
+
+function objectType(schema, indent) {
+  const required = new Set(schema.required || []);
+  const inner = `${indent}  `;
+  const members = Object.entries(schema.properties).map(([name, prop]) => {
+    const optional = required.has(name) ? '' : '?';
+    return `${docComment([prop.description], inner)}${inner}${name}${optional}: ${tsType(prop, inner)};`;
+  });
+  if (schema.additionalProperties) {
+    members.push(`${inner}[key: string]: any;`);
+  }
+  return `{\n${members.join('\n')}\n${indent}}`;
+}
+
+function renderModel(name, schema) {
+  const doc = docComment([schema.description]);
+  if (schema.type === 'object' && schema.properties) {
+    return `${doc}export interface ${name} ${objectType(schema, '')}\n`;
+  }
+  return `${doc}export type ${name} = ${tsType(schema)};\n`;
+}
+
+function successSchema(operation) {
+  const responses = operation.responses || {};
+  const code = Object.keys(responses).find((status) => /^2\d\d$/.test(status));
+  if (!code) return null;
+  const content = responses[code].content;
+  return content && content['application/json'] ? content['application/json'].schema : null;
+}
+
+function renderOperation(urlPath, method, operation, extraModels) {
+  const name = operation.operationId;
+  if (!name) {
+    throw new Error(`Missing operationId for ${method.toUpperCase()} ${urlPath}`);
+  }
+
+  const params = operation.parameters || [];
+  const pathParams = params.filter((param) => param.in === 'path');
+  const queryParams = params.filter((param) => param.in === 'query');
+  const args = ['client: ApiRequester'];
+
+  for (const param of pathParams) {
+    args.push(`${param.name}: ${tsType(param.schema)}`);
+  }
+
+  let hasBody = false;
+  const requestBody = operation.requestBody;
+  if (requestBody && requestBody.content && requestBody.content['application/json']) {
+    let bodySchema = requestBody.content['application/json'].schema;
+    // Inline object bodies with declared properties become named models
+    if (!bodySchema.$ref && bodySchema.properties) {
+      const modelName = `${pascalCase(name)}Request`;
+      extraModels.push(renderModel(modelName, bodySchema));
+      bodySchema = { $ref: `#/components/schemas/${modelName}` };
+    }
+    const optional = requestBody.required ? '' : '?';
+    args.push(`body${optional}: ${tsType(bodySchema)}`);
+    hasBody = true;
+  }
+
+  if (queryParams.length > 0) {
+    const fields = queryParams.map((param) => {
+      const optional = param.required ? '' : '?';
+      return `${param.name}${optional}: ${tsType(param.schema)}`;
+    });
+    const allOptional = queryParams.every((param) => !param.required);
+    args.push(`query${allOptional ? '?' : ''}: { ${fields.join('; ')} }`);
+  }
+
+  const schema = successSchema(operation);
+  const resultType = schema ? tsType(schema) : 'void';
+  const pathExpr = pathParams.length
+    ? '`' + urlPath.replace(/\{([^}]+)\}/g, (_, param) => '${encodeURIComponent(' + param + ')}') + '`'
+    : `'${urlPath}'`;
+
+  const request = [`method: '${method.toUpperCase()}'`, `path: ${pathExpr}`];
+  if (hasBody) request.push('body');
+  if (queryParams.length > 0) request.push('query');
+
+  const doc = docComment([operation.summary, `${method.toUpperCase()} ${urlPath}`]);
+  return (
+    `${doc}export function ${name}(${args.join(', ')}): Promise<${resultType}> {\n` +
+    `  return client.request<${resultType}>({ ${request.join(', ')} });\n` +
+    `}\n`
+  );
+}
+
+function generate(spec) {
+  const schemas = (spec.components && spec.components.schemas) || {};
+  const models = Object.entries(schemas).map(([name, schema]) => renderModel(name, schema));
+  const extraModels = [];
+  const operations = [];
+
+  for (const [urlPath, item] of Object.entries(spec.paths || {})) {
+    for (const method of HTTP_METHODS) {
+      if (item[method]) {
+        operations.push(renderOperation(urlPath, method, item[method], extraModels));
+      }
+    }
+  }
+
+  return [
+    '// This file is generated by scripts/generate-ts-client.js from',
+    `// ${SPEC_PATH} (${spec.info.title} ${spec.info.version}). Do not edit it by hand;`,
+    '// run `npm run generate:ts-client` after changing the spec.',
+    '/* eslint-disable */',
+    '',
+    "export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';",
+    '',
+    'export interface ApiRequest {',
+    '  method: HttpMethod;',
+    '  path: string; // Relative to the server base URL, e.g. /api/v1',
+    '  body?: unknown;',
+    '  query?: Record<string, unknown>;',
+    '}',
+    '',
+    '// Implemented by each consumer on top of its own HTTP client; resolves to the response body.',
+    'export interface ApiRequester {',
+    '  request<T>(req: ApiRequest): Promise<T>;',
+    '}',
+    '',
+    '// --- Models ---',
+    '',
+    [...models, ...extraModels].join('\n'),
+    '// --- Operations ---',
+    '',
+    operations.join('\n'),
+  ].join('\n');
+}
+
+function copyShared(source) {
+  return [
+    `// This file is copied by scripts/generate-ts-client.js from ${source}.`,
+    '// Do not edit it by hand; change the source and run `npm run generate:ts-client`.',
+    '/* eslint-disable */',
+    '',
+    fs.readFileSync(path.join(ROOT, source), 'utf8'),
+  ].join('\n');
+}
+
+function main() {
+  const check = process.argv.includes('--check');
+  const spec = YAML.parse(fs.readFileSync(path.join(ROOT, SPEC_PATH), 'utf8'));
+  const apiOutput = generate(spec);
+  const outputs = [
+    ...TARGETS.map((target) => ({ target, output: apiOutput })),
+    ...SHARED_MODULES.map(({ source, target }) => ({ target, output: copyShared(source) })),
+  ];
+  const stale = [];
+
+  for (const { target, output } of outputs) {
+    const targetPath = path.join(ROOT, target);
+    const current = fs.existsSync(targetPath) ? fs.readFileSync(targetPath, 'utf8') : null;
+    if (current === output) continue;
+
+    if (check) {
+      stale.push(target);
+    } else {
+      fs.mkdirSync(path.dirname(targetPath), { recursive: true });
+      fs.writeFileSync(targetPath, output);
+      console.log(`Generated ${target}`);
+    }
+  }
+
+  if (stale.length > 0) {
+    console.error(`Generated TypeScript client is out of date with ${SPEC_PATH}:`);
+    stale.forEach((target) => console.error(`  ${target}`));
+    console.error('Run `npm run generate:ts-client` and commit the result.');
+    process.exit(1);
+  }
+  if (check) {
+    console.log('Generated TypeScript client is up to date.');
+  }
+}
+
+main();